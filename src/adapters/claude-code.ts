@@ -9,11 +9,15 @@ import { createBTSPEmbedder } from '../core/btsp-embedder.js';
 import { createBudgetPruner } from '../core/budget-pruner.js';
 import { createConfidenceStates } from '../core/confidence-states.js';
 import { createEngramScorer } from '../core/engram-scorer.js';
+import { explainPruning } from '../core/explain.js';
+import { loadFocus } from '../core/focus.js';
 import type { KVMemory } from '../core/kv-memory.js';
 import type { AgentAdapter, OptimizationResult, OptimizeOptions } from '../types/adapter.js';
 import type { CortexConfig } from '../types/config.js';
 import { parseClaudeCodeContext } from '../utils/context-parser.js';
+import { createTFIDFIndex } from '../utils/tfidf.js';
 import { estimateTokens } from '../utils/tokenizer.js';
+import { canRebuildJSONL, rebuildJSONLTranscript } from '../utils/transcript-writer.js';
 
 /**
  * Claude Code-specific optimization profile
@@ -72,6 +76,11 @@ export function createClaudeCodeAdapter(memory: KVMemory, config: CortexConfig):
     // Parse context into entries
     // For Claude Code, we parse by conversation turns and tool uses
     const entries = parseClaudeCodeContext(context);
+    if (options.outputFormat === 'jsonl' && !canRebuildJSONL(entries)) {
+      throw new Error(
+        'Cannot write a JSONL transcript: the input is not a Claude Code JSONL transcript',
+      );
+    }
 
     // Apply BTSP detection with Claude Code-specific patterns
     const entriesWithBTSP = entries.map((entry) => {
@@ -80,7 +89,9 @@ export function createClaudeCodeAdapter(memory: KVMemory, config: CortexConfig):
       );
 
       if (isBTSP) {
+        // Keep parser metadata (tool pairing, transcript line) on BTSP entries
         const btspEntry = btsp.createBTSPEntry(entry.content, [...entry.tags, 'claude-code'], {
+          ...entry.metadata,
           originalTimestamp: entry.timestamp,
         });
         // Preserve original timestamp
@@ -134,13 +145,21 @@ export function createClaudeCodeAdapter(memory: KVMemory, config: CortexConfig):
       };
     });
 
-    // Prune entries to fit within token budget
-    const pruneResult = pruner.pruneToFit(entriesWithStates);
-
-    // Store kept entries in memory (if not dry-run)
+    // Prune entries to fit within token budget, boosting entries related to the focus
+    const focus = options.focus ? await loadFocus(options.focus, options.focusRoot) : undefined;
+    // Degraded entries name a recall id, so degrade only when the originals are stored
+    const pruneResult = pruner.pruneToFit(
+      entriesWithStates,
+      options.tokenBudget,
+      focus?.boost,
+      options.dryRun ? false : {},
+    );
+
+    // Store kept entries in memory (if not dry-run), in full so stub recall ids resolve
     if (!options.dryRun) {
+      const originals = new Map(entriesWithStates.map((e) => [e.id, e]));
       for (const entry of pruneResult.kept) {
-        await memory.put(entry);
+        await memory.put(originals.get(entry.id) ?? entry);
       }
 
       // Record optimization stats
@@ -153,8 +172,11 @@ export function createClaudeCodeAdapter(memory: KVMemory, config: CortexConfig):
       });
     }
 
-    // Build optimized context from kept entries
-    const optimizedContext = pruneResult.kept.map((entry) => entry.content).join('\n');
+    // Build optimized context from kept entries, as a transcript if requested
+    const optimizedContext =
+      options.outputFormat === 'jsonl'
+        ? rebuildJSONLTranscript(context, entries, pruneResult.kept)
+        : pruneResult.kept.map((entry) => entry.content).join('\n');
 
     // Calculate state distribution
     const stateDistribution = states.getDistribution(pruneResult.kept);
@@ -185,6 +207,22 @@ export function createClaudeCodeAdapter(memory: KVMemory, config: CortexConfig):
       }));
     }
 
+    // Break down each entry's priority if requested
+    if (options.explain) {
+      const index = createTFIDFIndex(entriesWithStates);
+      result.explanation = explainPruning({
+        entries: entriesWithStates,
+        kept: pruneResult.kept,
+        breakdown: (entry) =>
+          pruner.priorityBreakdown(entry, entriesWithStates, index, focus?.boost),
+        btspPattern: (entry) => {
+          const pattern = CLAUDE_CODE_PROFILE.btspPatterns.find((p) => p.test(entry.content));
+          return pattern ? String(pattern) : null;
+        },
+        cutoff: { mode: 'budget', budget: options.tokenBudget ?? config.realtime.tokenBudget },
+      });
+    }
+
     return result;
   }
 
@@ -2,18 +2,25 @@
  * Generic Adapter - Agent-agnostic optimization pipeline
  *
  * Orchestrates all optimization modules to process context memory.
+ * Context is split into structural segments (sections, code blocks,
+ * stack traces, diff hunks, JSON, tables, paragraphs, log lines), one
+ * entry per segment. Unstructured text stays one entry per line.
  */
 
 import { randomUUID } from 'node:crypto';
 import { createBTSPEmbedder } from '../core/btsp-embedder.js';
 import { createConfidenceStates } from '../core/confidence-states.js';
 import { createEngramScorer } from '../core/engram-scorer.js';
+import { explainPruning } from '../core/explain.js';
+import { loadFocus } from '../core/focus.js';
 import type { KVMemory } from '../core/kv-memory.js';
 import { createSparsePruner } from '../core/sparse-pruner.js';
 import type { AgentAdapter, OptimizationResult, OptimizeOptions } from '../types/adapter.js';
 import type { CortexConfig } from '../types/config.js';
 import type { MemoryEntry } from '../types/memory.js';
+import { segmentContext } from '../utils/context-segmenter.js';
 import { hashContent } from '../utils/hash.js';
+import { createTFIDFIndex, scoreTFIDF } from '../utils/tfidf.js';
 import { estimateTokens } from '../utils/tokenizer.js';
 
 /**
@@ -34,10 +41,11 @@ export function createGenericAdapter(memory: KVMemory, config: CortexConfig): Ag
   ): Promise<OptimizationResult> {
     const startTime = Date.now();
 
-    // Parse context into entries (line-based for simplicity)
-    const lines = context.split('\n').filter((line) => line.trim().length > 0);
+    // Parse context into entries, one per segment
+    const segments = segmentContext(context);
     const now = Date.now();
-    const entries: MemoryEntry[] = lines.map((content, index) => {
+    const entries: MemoryEntry[] = segments.map((segment, index) => {
+      const { content } = segment;
       const isBTSP = btsp.detectBTSP(content);
       return {
         id: randomUUID(),
@@ -49,7 +57,11 @@ export function createGenericAdapter(memory: KVMemory, config: CortexConfig): Ag
         state: 'ready' as const,
         accessCount: 0,
         tags: [],
-        metadata: {},
+        metadata: {
+          segment: segment.kind,
+          startLine: segment.startLine,
+          endLine: segment.endLine,
+        },
         isBTSP,
       };
     });
@@ -66,19 +78,28 @@ export function createGenericAdapter(memory: KVMemory, config: CortexConfig): Ag
     // Step 2: Transition states based on scores
     const statedEntries = scoredEntries.map((entry) => states.transition(entry));
 
-    // Step 3: Apply sparse pruning
-    const pruneResult = pruner.prune(statedEntries);
+    // Step 3: Apply sparse pruning, boosting entries related to the focus
+    const focus = options.focus ? await loadFocus(options.focus, options.focusRoot) : undefined;
+    const pruneResult = pruner.prune(statedEntries, focus?.boost);
 
-    // Step 4: Keep active and ready entries, discard silent
-    const optimizedEntries = pruneResult.kept.filter(
-      (e) => e.state === 'active' || e.state === 'ready',
-    );
+    // Step 4: Keep active and ready entries, discard silent, in context order
+    const optimizedEntries = pruneResult.kept
+      .filter((e) => e.state === 'active' || e.state === 'ready')
+      .sort((a, b) => a.timestamp - b.timestamp);
 
     // Calculate final token count
     const tokensAfter = optimizedEntries.reduce((sum, e) => sum + estimateTokens(e.content), 0);
 
-    // Reconstruct optimized context
-    const optimizedContext = optimizedEntries.map((e) => e.content).join('\n');
+    // Reconstruct optimized context; segments that were apart stay apart
+    const optimizedContext = optimizedEntries
+      .map((e, index) => {
+        const previous = optimizedEntries[index - 1];
+        if (!previous) return e.content;
+        const adjacent =
+          Number(e.metadata['startLine']) === Number(previous.metadata['endLine']) + 1;
+        return `${adjacent ? '\n' : '\n\n'}${e.content}`;
+      })
+      .join('');
 
     // Store entries in memory (if not dry run)
     if (!options.dryRun) {
@@ -121,6 +142,33 @@ export function createGenericAdapter(memory: KVMemory, config: CortexConfig): Ag
       }));
     }
 
+    // Break down each entry's priority if requested
+    if (options.explain) {
+      const index = createTFIDFIndex(statedEntries);
+      const originals = new Map(entries.map((e) => [e.id, e]));
+      result.explanation = explainPruning({
+        entries: statedEntries,
+        kept: optimizedEntries,
+        breakdown: (entry) => {
+          const { decay, recencyBoost } = scorer.explainScore(originals.get(entry.id) ?? entry);
+          const tfidf = scoreTFIDF(entry, index);
+          const focusBoost = focus?.boost(entry) ?? 1;
+          // The sparse pruner ranks by TF-IDF alone; decay only matters through the state
+          return {
+            tfidf,
+            decay,
+            recencyBoost,
+            engramScore: entry.score,
+            stateMultiplier: 1,
+            focusBoost,
+            priority: tfidf * focusBoost,
+          };
+        },
+        btspPattern: (entry) => btsp.matchBTSP(entry.content),
+        cutoff: { mode: 'top-percent', threshold: config.pruning.threshold },
+      });
+    }
+
     return result;
   }
 
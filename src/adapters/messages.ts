@@ -0,0 +1,355 @@
+/**
+ * Messages Adapter - Prune chat message arrays for direct API callers
+ *
+ * Accepts a messages array (or request body) in the OpenAI Chat
+ * Completions or Anthropic Messages shape and returns a pruned payload of
+ * the same shape within a token budget. Whole messages are the unit,
+ * except that each `tool_result` block of a message is its own: system
+ * prompts and the latest turn are always kept, tool calls stay with
+ * their results, and tool results that do not fit become stubs.
+ */
+
+import { createBTSPEmbedder } from '../core/btsp-embedder.js';
+import { createBudgetPruner } from '../core/budget-pruner.js';
+import { createConfidenceStates } from '../core/confidence-states.js';
+import { isDegraded } from '../core/entry-degrader.js';
+import { explainPruning } from '../core/explain.js';
+import { loadFocus } from '../core/focus.js';
+import type { KVMemory } from '../core/kv-memory.js';
+import { groupToolPairs } from '../core/tool-pairs.js';
+import type { AgentAdapter, OptimizationResult, OptimizeOptions } from '../types/adapter.js';
+import type { CortexConfig } from '../types/config.js';
+import type { MemoryEntry } from '../types/memory.js';
+import type { ApiMessage, MessagesOptimizationResult, MessagesPayload } from '../types/messages.js';
+import { type BlockType, createEntry } from '../utils/context-parser.js';
+import { createTFIDFIndex } from '../utils/tfidf.js';
+import { estimateTokens } from '../utils/tokenizer.js';
+
+/** Roles that carry instructions rather than conversation */
+const SYSTEM_ROLES = new Set(['system', 'developer']);
+
+/**
+ * Messages adapter: an AgentAdapter over JSON text plus a typed entry point.
+ */
+export interface MessagesAdapter extends AgentAdapter {
+  /**
+   * Prune a messages payload to fit the token budget.
+   *
+   * @param payload - Messages array or request body with `messages`
+   * @param options - Optimization options (`tokenBudget` overrides config)
+   * @returns Optimization result with the pruned payload in the input's shape
+   */
+  optimizeMessages<T extends MessagesPayload>(
+    payload: T,
+    options?: OptimizeOptions,
+  ): Promise<MessagesOptimizationResult<T>>;
+}
+
+/**
+ * Create a messages adapter instance
+ * @param memory - KV memory store
+ * @param config - Cortex configuration
+ * @returns MessagesAdapter instance
+ */
+export function createMessagesAdapter(memory: KVMemory, config: CortexConfig): MessagesAdapter {
+  const pruner = createBudgetPruner({
+    tokenBudget: config.realtime.tokenBudget,
+    decay: config.decay,
+    states: config.states,
+  });
+  const states = createConfidenceStates(config.states);
+  const btsp = createBTSPEmbedder({ customPatterns: config.btspPatterns });
+
+  async function optimizeMessages<T extends MessagesPayload>(
+    payload: T,
+    options: OptimizeOptions = {},
+  ): Promise<MessagesOptimizationResult<T>> {
+    const startTime = Date.now();
+    const input: unknown = Array.isArray(payload) ? payload : payload?.messages;
+    if (!Array.isArray(input)) {
+      throw new Error('Expected a messages array or an object with a messages array');
+    }
+    const messages = input as ApiMessage[];
+
+    // Parse messages into entries: one per message, or one per tool_result block
+    const now = Date.now();
+    const toolNames = new Map<string, string>();
+    const entries = messages
+      .flatMap((message, index) => messageParts(message, index, toolNames))
+      .map((part, i) => {
+        const entry = createEntry(part.content, part.type, now + i, part.metadata);
+        return { ...entry, isBTSP: btsp.detectBTSP(entry.content) };
+      });
+
+    // System prompts and the latest turn (with its tool call, if any) are always sent
+    const lastIndex = messages.length - 1;
+    const pinned = new Set<MemoryEntry>(
+      entries.filter((e) => SYSTEM_ROLES.has(String(e.metadata['role']))),
+    );
+    for (const group of groupToolPairs(entries)) {
+      if (group.some((e) => e.metadata['messageIndex'] === lastIndex)) {
+        for (const e of group) pinned.add(e);
+      }
+    }
+
+    const systemTokens = Array.isArray(payload) ? 0 : estimateTokens(messageText(payload.system));
+    const pinnedTokens = [...pinned].reduce((sum, e) => sum + estimateTokens(e.content), 0);
+    const budget = (options.tokenBudget ?? config.realtime.tokenBudget) - systemTokens;
+
+    // Prune the rest within what the pinned messages leave of the budget; degraded
+    // entries name a recall id, so degrade only when the originals are stored
+    const focus = options.focus ? await loadFocus(options.focus, options.focusRoot) : undefined;
+    const prunable = entries.filter((e) => !pinned.has(e));
+    const pruneResult = pruner.pruneToFit(
+      prunable,
+      Math.max(0, budget - pinnedTokens),
+      focus?.boost,
+      options.dryRun ? false : {},
+    );
+    const kept = [...pinned, ...pruneResult.kept].sort((a, b) => a.timestamp - b.timestamp);
+
+    // Rebuild each message that kept at least one entry
+    const keptByMessage = new Map<number, MemoryEntry[]>();
+    for (const entry of kept) {
+      const index = Number(entry.metadata['messageIndex']);
+      keptByMessage.set(index, [...(keptByMessage.get(index) ?? []), entry]);
+    }
+    const prunedMessages = [...keptByMessage].map(([index, parts]) =>
+      restoreMessage(messages[index] as ApiMessage, parts),
+    );
+    const output = (
+      Array.isArray(payload) ? prunedMessages : { ...payload, messages: prunedMessages }
+    ) as T;
+
+    const tokensBefore =
+      systemTokens + entries.reduce((sum, e) => sum + estimateTokens(e.content), 0);
+    const tokensAfter = systemTokens + kept.reduce((sum, e) => sum + estimateTokens(e.content), 0);
+
+    // Store kept entries in memory (if not dry-run), in full so stub recall ids resolve
+    if (!options.dryRun) {
+      const originals = new Map(entries.map((e) => [e.id, e]));
+      for (const entry of kept) {
+        await memory.put(originals.get(entry.id) ?? entry);
+      }
+
+      await memory.recordOptimization({
+        timestamp: Date.now(),
+        tokens_before: tokensBefore,
+        tokens_after: tokensAfter,
+        entries_pruned: entries.length - kept.length,
+        duration_ms: Date.now() - startTime,
+      });
+    }
+
+    const result: MessagesOptimizationResult<T> = {
+      messages: output,
+      optimizedContext: JSON.stringify(output),
+      tokensBefore,
+      tokensAfter,
+      reduction: tokensBefore > 0 ? (tokensBefore - tokensAfter) / tokensBefore : 0,
+      entriesProcessed: entries.length,
+      entriesKept: kept.length,
+      durationMs: Date.now() - startTime,
+      stateDistribution: states.getDistribution(kept),
+    };
+
+    if (options.verbose) {
+      result.details = kept.map((entry) => ({
+        id: entry.id,
+        score: entry.score,
+        state: entry.state,
+        isBTSP: entry.isBTSP,
+        tokens: estimateTokens(entry.content),
+      }));
+    }
+
+    if (options.explain) {
+      const index = createTFIDFIndex(prunable);
+      result.explanation = explainPruning({
+        entries,
+        kept,
+        breakdown: (entry) => pruner.priorityBreakdown(entry, prunable, index, focus?.boost),
+        btspPattern: (entry) => btsp.matchBTSP(entry.content),
+        cutoff: { mode: 'budget', budget: Math.max(0, budget) },
+        pinned: new Map(
+          [...pinned].map((e) => [
+            e.id,
+            SYSTEM_ROLES.has(String(e.metadata['role']))
+              ? 'pinned: system prompt'
+              : 'pinned: latest turn',
+          ]),
+        ),
+      });
+    }
+
+    return result;
+  }
+
+  async function optimize(
+    context: string,
+    options: OptimizeOptions = {},
+  ): Promise<OptimizationResult> {
+    let payload: MessagesPayload;
+    try {
+      payload = JSON.parse(context) as MessagesPayload;
+    } catch (error) {
+      throw new Error(
+        `Messages input must be JSON: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    return optimizeMessages(payload, options);
+  }
+
+  return {
+    optimize,
+    optimizeMessages,
+  };
+}
+
+/**
+ * Entry content, type and metadata for a message
+ */
+interface MessagePart {
+  content: string;
+  type: BlockType;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Split a message into entry parts, with pairing metadata for its tool
+ * calls (OpenAI `tool_calls`, Anthropic `tool_use`) and results. Each
+ * `tool_result` block is its own part, so parallel results are paired,
+ * degraded and stubbed separately; the message's other blocks form one
+ * more part. Parts record their block indexes in `metadata.blocks`.
+ */
+function messageParts(
+  message: ApiMessage,
+  index: number,
+  toolNames: Map<string, string>,
+): MessagePart[] {
+  const blocks = contentBlocks(message.content);
+  const base = { role: message.role, messageIndex: index };
+
+  const results = blocks.flatMap((block, i) =>
+    block['type'] === 'tool_result' && typeof block['tool_use_id'] === 'string' ? [i] : [],
+  );
+  if (results.length > 0) {
+    const rest = blocks.flatMap((_, i) => (results.includes(i) ? [] : [i]));
+    const parts: MessagePart[] = results.map((i) => {
+      const id = (blocks[i] as Record<string, unknown>)['tool_use_id'] as string;
+      const toolName = toolNames.get(id);
+      return {
+        content: blockText(blocks[i] as Record<string, unknown>),
+        type: 'result',
+        metadata: { ...base, blocks: [i], toolUseIds: [id], ...(toolName ? { toolName } : {}) },
+      };
+    });
+    if (rest.length > 0) {
+      const content = rest
+        .map((i) => blockText(blocks[i] as Record<string, unknown>))
+        .filter(Boolean)
+        .join('\n');
+      parts.push({ content, type: 'conversation', metadata: { ...base, blocks: rest } });
+    }
+    const first = (part: MessagePart) => Math.min(...(part.metadata['blocks'] as number[]));
+    return parts.sort((a, b) => first(a) - first(b));
+  }
+
+  const ids: string[] = [];
+  let type: BlockType = SYSTEM_ROLES.has(message.role) ? 'other' : 'conversation';
+
+  for (const call of message.tool_calls ?? []) {
+    ids.push(call.id);
+    if (call.function?.name) toolNames.set(call.id, call.function.name);
+    type = 'tool';
+  }
+  for (const block of blocks) {
+    if (block['type'] === 'tool_use' && typeof block['id'] === 'string') {
+      ids.push(block['id']);
+      if (typeof block['name'] === 'string') toolNames.set(block['id'], block['name']);
+      type = 'tool';
+    }
+  }
+  if (message.role === 'tool' && message.tool_call_id) {
+    ids.push(message.tool_call_id);
+    type = 'result';
+  }
+
+  const metadata: Record<string, unknown> = { ...base };
+  if (ids.length > 0) metadata['toolUseIds'] = ids;
+  const toolName = ids.map((id) => toolNames.get(id)).find((name) => name !== undefined);
+  if (toolName) metadata['toolName'] = toolName;
+
+  return [{ content: messageText(message), type, metadata }];
+}
+
+/**
+ * Content blocks of a message (string content has none).
+ */
+function contentBlocks(content: unknown): Array<Record<string, unknown>> {
+  if (!Array.isArray(content)) return [];
+  return content.filter((b): b is Record<string, unknown> => b !== null && typeof b === 'object');
+}
+
+/**
+ * Text of a message, system prompt or content field, including tool
+ * calls and their arguments so they count against the budget.
+ */
+function messageText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return contentBlocks(value).map(blockText).filter(Boolean).join('\n');
+  if (!value || typeof value !== 'object') return '';
+
+  const message = value as ApiMessage;
+  const parts = [messageText(message.content)];
+  for (const call of message.tool_calls ?? []) {
+    parts.push(
+      `[tool_call: ${call.function?.name ?? 'unknown'}] ${call.function?.arguments ?? ''}`,
+    );
+  }
+  return parts.filter(Boolean).join('\n');
+}
+
+/**
+ * Text of one content block.
+ */
+function blockText(block: Record<string, unknown>): string {
+  if (typeof block['text'] === 'string') return block['text'];
+  if (block['type'] === 'tool_use') {
+    return `[tool_use: ${String(block['name'])}] ${JSON.stringify(block['input'] ?? {})}`;
+  }
+  if (block['type'] === 'tool_result') return messageText(block['content']);
+  return '';
+}
+
+/**
+ * Original message rebuilt from its kept entries. Blocks whose entry was
+ * dropped are left out; a stubbed or degraded entry replaces its own
+ * `tool_result` block's content, or its blocks with one text block.
+ * Messages that were not split get the reduced text as their content.
+ */
+function restoreMessage(original: ApiMessage, parts: MemoryEntry[]): ApiMessage {
+  const reduced = (entry: MemoryEntry) => entry.metadata['stubbed'] || isDegraded(entry);
+
+  const blockIndexes = (entry: MemoryEntry) => entry.metadata['blocks'];
+  const [whole] = parts;
+  if (whole && !Array.isArray(blockIndexes(whole))) {
+    return reduced(whole) ? { ...original, content: whole.content } : original;
+  }
+
+  const owner = new Map<number, MemoryEntry>();
+  for (const entry of parts) {
+    for (const i of blockIndexes(entry) as number[]) owner.set(i, entry);
+  }
+  const content = contentBlocks(original.content).flatMap((block, i) => {
+    const entry = owner.get(i);
+    if (!entry) return [];
+    if (!reduced(entry)) return [block];
+    if (block['type'] === 'tool_result') return [{ ...block, content: entry.content }];
+    // Other blocks of the message become one text block, at the first one's place
+    return (blockIndexes(entry) as number[])[0] === i
+      ? [{ type: 'text', text: entry.content }]
+      : [];
+  });
+  return { ...original, content };
+}
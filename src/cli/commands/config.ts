@@ -4,7 +4,13 @@
 
 import { readFileSync, writeFileSync } from 'node:fs';
 import { load as parseYAML, dump as stringifyYAML } from 'js-yaml';
-import type { CortexConfig } from '../../types/config.js';
+import {
+  defaultHooksConfig,
+  HOOK_SUMMARIZERS,
+  mergeHooksConfig,
+  validateHooksConfig,
+} from '../../hooks/hook-config.js';
+import type { CortexConfig, HookSummarizer } from '../../types/config.js';
 
 export interface ConfigCommandOptions {
   /** Path to config.yaml file */
@@ -32,20 +38,21 @@ export interface ConfigCommandResult {
   editorPath?: string;
   /** JSON output */
   json?: string;
+  /** Problems found in the config file (reported, not fatal) */
+  warnings?: string[];
+}
+
+interface ConfigKeySchema {
+  path: string[];
+  validate: (value: unknown) => boolean;
+  errorMessage: string;
+  parse: (value: string) => unknown;
 }
 
 /**
  * Valid config keys with their validation rules
  */
-const CONFIG_SCHEMA: Record<
-  string,
-  {
-    path: string[];
-    validate: (value: unknown) => boolean;
-    errorMessage: string;
-    parse: (value: string) => unknown;
-  }
-> = {
+const CONFIG_SCHEMA: Record<string, ConfigKeySchema> = {
   'pruning.threshold': {
     path: ['pruning', 'threshold'],
     validate: (v) => typeof v === 'number' && v >= 1 && v <= 100,
@@ -84,8 +91,8 @@ const CONFIG_SCHEMA: Record<
   },
   agent: {
     path: ['agent'],
-    validate: (v) => v === 'claude-code' || v === 'generic',
-    errorMessage: 'agent must be "claude-code" or "generic"',
+    validate: (v) => v === 'claude-code' || v === 'generic' || v === 'messages',
+    errorMessage: 'agent must be "claude-code", "generic" or "messages"',
     parse: (v) => v,
   },
   'ui.colors': {
@@ -160,8 +167,211 @@ const CONFIG_SCHEMA: Record<
     errorMessage: 'windowSize must be a positive number',
     parse: (v) => Number.parseInt(v, 10),
   },
+  'hooks.preToolUse.enabled': {
+    path: ['hooks', 'preToolUse', 'enabled'],
+    validate: (v) => typeof v === 'boolean',
+    errorMessage: 'enabled must be true or false',
+    parse: (v) => v === 'true',
+  },
+  'hooks.preToolUse.warnReadBytes': {
+    path: ['hooks', 'preToolUse', 'warnReadBytes'],
+    validate: (v) => typeof v === 'number' && v > 0,
+    errorMessage: 'warnReadBytes must be a positive number (bytes)',
+    parse: (v) => Number.parseInt(v, 10),
+  },
+  'hooks.preToolUse.denyReadBytes': {
+    path: ['hooks', 'preToolUse', 'denyReadBytes'],
+    validate: (v) => typeof v === 'number' && v > 0,
+    errorMessage: 'denyReadBytes must be a positive number (bytes)',
+    parse: (v) => Number.parseInt(v, 10),
+  },
+  'hooks.preToolUse.generatedAction': {
+    path: ['hooks', 'preToolUse', 'generatedAction'],
+    validate: (v) => v === 'warn' || v === 'deny',
+    errorMessage: 'generatedAction must be "warn" or "deny"',
+    parse: (v) => v,
+  },
+  'hooks.preToolUse.generatedPatterns': {
+    path: ['hooks', 'preToolUse', 'generatedPatterns'],
+    validate: (v) => Array.isArray(v) && v.every((p) => typeof p === 'string' && p.length > 0),
+    errorMessage: 'generatedPatterns must be a comma-separated list of globs',
+    parse: (v) => v.split(',').map((p) => p.trim()),
+  },
+  'hooks.preToolUse.relayCommands': {
+    path: ['hooks', 'preToolUse', 'relayCommands'],
+    validate: (v) => Array.isArray(v) && v.every((p) => typeof p === 'string'),
+    errorMessage: 'relayCommands must be a comma-separated list of command prefixes',
+    parse: (v) =>
+      v
+        .split(',')
+        .map((p) => p.trim())
+        .filter((p) => p.length > 0),
+  },
+  'hooks.postToolUse.matcher': {
+    path: ['hooks', 'postToolUse', 'matcher'],
+    validate: (v) => typeof v === 'string' && v.length > 0,
+    errorMessage: 'matcher must be a non-empty tool name pattern (e.g. Bash|Read)',
+    parse: (v) => v,
+  },
+  'hooks.transcript.overheadTokens': {
+    path: ['hooks', 'transcript', 'overheadTokens'],
+    validate: (v) => typeof v === 'number' && v >= 0,
+    errorMessage: 'overheadTokens must be a non-negative number (tokens)',
+    parse: (v) => Number.parseInt(v, 10),
+  },
+  'hooks.transcript.warnPercent': {
+    path: ['hooks', 'transcript', 'warnPercent'],
+    validate: (v) => typeof v === 'number' && v >= 1 && v <= 100,
+    errorMessage: 'warnPercent must be between 1-100',
+    parse: (v) => Number.parseFloat(v),
+  },
+  'hooks.transcript.criticalPercent': {
+    path: ['hooks', 'transcript', 'criticalPercent'],
+    validate: (v) => typeof v === 'number' && v >= 1 && v <= 100,
+    errorMessage: 'criticalPercent must be between 1-100',
+    parse: (v) => Number.parseFloat(v),
+  },
+  'hooks.transcript.preciseTokens': {
+    path: ['hooks', 'transcript', 'preciseTokens'],
+    validate: (v) => typeof v === 'boolean',
+    errorMessage: 'preciseTokens must be true or false',
+    parse: (v) => v === 'true',
+  },
+  'hooks.recall.enabled': {
+    path: ['hooks', 'recall', 'enabled'],
+    validate: (v) => typeof v === 'boolean',
+    errorMessage: 'enabled must be true or false',
+    parse: (v) => v === 'true',
+  },
+  'hooks.recall.maxTokens': {
+    path: ['hooks', 'recall', 'maxTokens'],
+    validate: (v) => typeof v === 'number' && v > 0,
+    errorMessage: 'maxTokens must be a positive number (tokens)',
+    parse: (v) => Number.parseInt(v, 10),
+  },
+  'hooks.recall.maxMemories': {
+    path: ['hooks', 'recall', 'maxMemories'],
+    validate: (v) => Number.isInteger(v) && (v as number) >= 0,
+    errorMessage: 'maxMemories must be a non-negative integer',
+    parse: (v) => Number.parseInt(v, 10),
+  },
+  'hooks.recall.maxFiles': {
+    path: ['hooks', 'recall', 'maxFiles'],
+    validate: (v) => Number.isInteger(v) && (v as number) >= 0,
+    errorMessage: 'maxFiles must be a non-negative integer',
+    parse: (v) => Number.parseInt(v, 10),
+  },
+  'hooks.sessionStart.enabled': {
+    path: ['hooks', 'sessionStart', 'enabled'],
+    validate: (v) => typeof v === 'boolean',
+    errorMessage: 'enabled must be true or false',
+    parse: (v) => v === 'true',
+  },
+  'hooks.sessionStart.maxTokens': {
+    path: ['hooks', 'sessionStart', 'maxTokens'],
+    validate: (v) => typeof v === 'number' && v > 0,
+    errorMessage: 'maxTokens must be a positive number (tokens)',
+    parse: (v) => Number.parseInt(v, 10),
+  },
+  'redaction.enabled': {
+    path: ['redaction', 'enabled'],
+    validate: (v) => typeof v === 'boolean',
+    errorMessage: 'enabled must be true or false',
+    parse: (v) => v === 'true',
+  },
+  'redaction.highEntropy': {
+    path: ['redaction', 'highEntropy'],
+    validate: (v) => typeof v === 'boolean',
+    errorMessage: 'highEntropy must be true or false',
+    parse: (v) => v === 'true',
+  },
+  'redaction.patterns': {
+    path: ['redaction', 'patterns'],
+    validate: (v) => Array.isArray(v) && v.every((p) => typeof p === 'string' && isRegex(p)),
+    errorMessage: 'patterns must be a regex or a JSON array of regexes',
+    // Regexes often contain commas, so lists are given as JSON
+    parse: (v) => (v.trim().startsWith('[') ? JSON.parse(v) : [v]),
+  },
 };
 
+function isRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Per-tool PostToolUse keys: hooks.postToolUse.tools.<Tool>.<field>
+ */
+const TOOL_RULE_KEY =
+  /^hooks\.postToolUse\.tools\.([A-Za-z_][\w-]*)\.(threshold|maxSummaryLength|summarizers)$/;
+
+/**
+ * Per-model context window keys: hooks.transcript.contextWindows.<model>
+ */
+const CONTEXT_WINDOW_KEY = /^hooks\.transcript\.contextWindows\.([\w.-]+)$/;
+
+/**
+ * Look up the schema for a key, including per-tool hook rule keys
+ */
+function getKeySchema(key: string): ConfigKeySchema | undefined {
+  const fixed = CONFIG_SCHEMA[key];
+  if (fixed) return fixed;
+
+  const windowMatch = key.match(CONTEXT_WINDOW_KEY);
+  if (windowMatch?.[1]) {
+    return {
+      path: ['hooks', 'transcript', 'contextWindows', windowMatch[1]],
+      validate: (v) => typeof v === 'number' && v > 0,
+      errorMessage: 'context window must be a positive number (tokens)',
+      parse: (v) => Number.parseInt(v, 10),
+    };
+  }
+
+  const match = key.match(TOOL_RULE_KEY);
+  if (!match?.[1] || !match[2]) return undefined;
+  const path = ['hooks', 'postToolUse', 'tools', match[1], match[2]];
+
+  switch (match[2]) {
+    case 'threshold':
+      return {
+        path,
+        validate: (v) => typeof v === 'number' && v >= 0,
+        errorMessage: 'threshold must be a non-negative number (tokens)',
+        parse: (v) => Number.parseInt(v, 10),
+      };
+    case 'maxSummaryLength':
+      return {
+        path,
+        validate: (v) => Number.isInteger(v) && (v as number) >= 100,
+        errorMessage: 'maxSummaryLength must be an integer >= 100 (characters)',
+        parse: (v) => Number.parseInt(v, 10),
+      };
+    default:
+      return {
+        path,
+        validate: (v) =>
+          Array.isArray(v) && v.every((s) => HOOK_SUMMARIZERS.includes(s as HookSummarizer)),
+        errorMessage: `summarizers must be a comma-separated list of: ${HOOK_SUMMARIZERS.join(', ')}`,
+        parse: (v) =>
+          v
+            .split(',')
+            .map((s) => s.trim())
+            .filter((s) => s.length > 0),
+      };
+  }
+}
+
+/**
+ * Validate the hooks section as hooks will see it (merged over defaults)
+ */
+function checkHooks(config: CortexConfig | null): string[] {
+  return validateHooksConfig(mergeHooksConfig(defaultHooksConfig(), config?.hooks));
+}
+
 /**
  * Execute the config command
  * @param options - Command options
@@ -173,7 +383,9 @@ export async function configCommand(options: ConfigCommandOptions): Promise<Conf
   try {
     // Read config file
     const configYAML = readFileSync(configPath, 'utf-8');
-    const config = parseYAML(configYAML) as CortexConfig;
+    const config = (parseYAML(configYAML) ?? {}) as CortexConfig;
+    const hookProblems = checkHooks(config);
+    const warnings = hookProblems.length > 0 ? hookProblems : undefined;
 
     // No subcommand: open editor or return JSON
     if (!subcommand) {
@@ -181,12 +393,14 @@ export async function configCommand(options: ConfigCommandOptions): Promise<Conf
         return {
           success: true,
           json: JSON.stringify(config, null, 2),
+          warnings,
         };
       }
       return {
         success: true,
         editorPath: configPath,
         message: `Config file: ${configPath}`,
+        warnings,
       };
     }
 
@@ -199,7 +413,7 @@ export async function configCommand(options: ConfigCommandOptions): Promise<Conf
         };
       }
 
-      const schema = CONFIG_SCHEMA[key];
+      const schema = getKeySchema(key);
       if (!schema) {
         return {
           success: false,
@@ -243,7 +457,7 @@ export async function configCommand(options: ConfigCommandOptions): Promise<Conf
         };
       }
 
-      const schema = CONFIG_SCHEMA[key];
+      const schema = getKeySchema(key);
       if (!schema) {
         return {
           success: false,
@@ -263,6 +477,17 @@ export async function configCommand(options: ConfigCommandOptions): Promise<Conf
       // Update config
       setNestedValue(config as unknown as Record<string, unknown>, schema.path, parsedValue);
 
+      // Cross-field checks (e.g. denyReadBytes >= warnReadBytes)
+      if (key.startsWith('hooks.')) {
+        const problems = checkHooks(config);
+        if (problems.length > 0) {
+          return {
+            success: false,
+            error: `Invalid value for ${key}: ${problems.join('; ')}`,
+          };
+        }
+      }
+
       // Write back to file
       const updatedYAML = stringifyYAML(config);
       writeFileSync(configPath, updatedYAML, 'utf-8');
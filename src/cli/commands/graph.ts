@@ -5,6 +5,7 @@
 import { resolve } from 'node:path';
 import type { GraphAnalysis } from '../../core/dependency-graph.js';
 import { createDependencyGraph } from '../../core/dependency-graph.js';
+import { writeHotPathsCache } from '../../hooks/session-primer.js';
 
 export interface GraphCommandOptions {
   entry?: string;
@@ -52,6 +53,8 @@ export async function graphCommand(options: GraphCommandOptions): Promise<GraphC
   }
 
   const analysis = await graph.analyze();
+  // The SessionStart primer only reads cached hot paths
+  writeHotPathsCache(projectRoot, analysis.hotPaths);
 
   const result: GraphCommandResult = {
     analysis,
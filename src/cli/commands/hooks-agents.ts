@@ -0,0 +1,425 @@
+/**
+ * Hook Targets - Where and how each agent CLI stores its hooks
+ *
+ * Claude Code and Gemini CLI keep hooks in a settings.json as
+ *   hooks.EventName = [{ matcher?, hooks: [{ type, command, timeout? }] }]
+ * Cursor uses a flat `.cursor/hooks.json` ({ version, hooks: { event: [{ command }] } }),
+ * and Codex CLI the same matcher groups as `[[hooks.EventName]]` tables
+ * in config.toml. Only cortex-managed entries are ever rewritten or removed.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { agentEventName, agentToolNames } from '../../hooks/agent-payload.js';
+import type { HooksConfig as CortexHooksConfig, HookAgent } from '../../types/config.js';
+
+// Marker to identify cortex-managed hooks
+export const CORTEX_MARKER = 'cortex';
+
+export interface HookHandler {
+  type: string;
+  command: string;
+  timeout?: number;
+}
+
+export interface HookMatcherGroup {
+  matcher?: string;
+  hooks: HookHandler[];
+}
+
+export type HooksConfig = Record<string, HookMatcherGroup[]>;
+
+/** Hook scripts cortex ships, keyed like `HooksCommandResult.hookPaths` */
+export type HookScript =
+  | 'prePrompt'
+  | 'postToolResult'
+  | 'preToolUse'
+  | 'stopDocsRefresh'
+  | 'stopHandoff'
+  | 'sessionStart';
+
+export const HOOK_SCRIPT_FILES: Record<HookScript, string> = {
+  prePrompt: 'pre-prompt.js',
+  postToolResult: 'post-tool-result.js',
+  preToolUse: 'pre-tool-use.js',
+  stopDocsRefresh: 'stop-docs-refresh.js',
+  stopHandoff: 'stop-handoff.js',
+  sessionStart: 'session-start.js',
+};
+
+/** One hook entry in the agent's own event and tool names */
+export interface AgentHookEntry {
+  script: HookScript;
+  event: string;
+  matcher?: string;
+  /** In the agent's unit (seconds or milliseconds) */
+  timeout?: number;
+}
+
+/** An installed cortex hook as read back from the agent's config */
+export interface InstalledHook {
+  event: string;
+  matcher?: string;
+  command: string;
+}
+
+interface HookStore {
+  /** Cortex hooks currently in the config file */
+  read(path: string): InstalledHook[];
+  /** Replace the cortex hooks in the config file, keeping everything else */
+  write(path: string, hooks: Array<InstalledHook & { timeout?: number }>): void;
+  /** Remove the cortex hooks from the config file */
+  remove(path: string): void;
+}
+
+export interface AgentHookTarget {
+  label: string;
+  /** Config file holding the hooks (global or current project) */
+  configPath(global?: boolean): string;
+  /** Hooks to install, given the cortex hooks config */
+  entries(config: CortexHooksConfig): AgentHookEntry[];
+  store: HookStore;
+}
+
+// Claude Code events the cortex hooks are written for
+const PRE_PROMPT_EVENT = 'UserPromptSubmit';
+const POST_TOOL_EVENT = 'PostToolUse';
+const PRE_TOOL_EVENT = 'PreToolUse';
+const STOP_EVENT = 'Stop';
+const SESSION_START_EVENT = 'SessionStart';
+
+// Tools the pre-tool hook can steer
+const PRE_TOOL_TOOLS = ['Bash', 'Read'];
+
+const HOOK_TIMEOUT_SECONDS = 10;
+
+function isCortexCommand(command: unknown): command is string {
+  return typeof command === 'string' && command.includes(CORTEX_MARKER);
+}
+
+function readJSONFile(path: string): Record<string, unknown> {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : {};
+}
+
+function writeJSONFile(path: string, data: Record<string, unknown>): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+/**
+ * Claude Code settings file holding the hooks (global or current project)
+ */
+export function getSettingsPath(global?: boolean): string {
+  return global
+    ? join(homedir(), '.claude', 'settings.json')
+    : join(process.cwd(), '.claude', 'settings.json');
+}
+
+/**
+ * Remove all cortex-managed hooks from the config
+ */
+function removeCortexHooks(hooks: HooksConfig): void {
+  for (const event of Object.keys(hooks)) {
+    if (!Array.isArray(hooks[event])) continue;
+    hooks[event] = hooks[event].filter((group) => {
+      if (!Array.isArray(group.hooks)) return true;
+      // Remove groups where any hook command contains "cortex"
+      return !group.hooks.some((h) => isCortexCommand(h.command));
+    });
+  }
+}
+
+function settingsHooks(settings: Record<string, unknown>): HooksConfig {
+  return typeof settings['hooks'] === 'object' && settings['hooks'] !== null
+    ? (settings['hooks'] as HooksConfig)
+    : {};
+}
+
+/** settings.json matcher groups (Claude Code, Gemini CLI) */
+const matcherGroupStore: HookStore = {
+  read(path) {
+    const found: InstalledHook[] = [];
+    for (const [event, groups] of Object.entries(settingsHooks(readJSONFile(path)))) {
+      if (!Array.isArray(groups)) continue;
+      for (const group of groups) {
+        if (!Array.isArray(group.hooks)) continue;
+        for (const h of group.hooks) {
+          if (isCortexCommand(h.command)) {
+            found.push({
+              event,
+              command: h.command,
+              ...(group.matcher && { matcher: group.matcher }),
+            });
+          }
+        }
+      }
+    }
+    return found;
+  },
+
+  write(path, installed) {
+    const settings = readJSONFile(path);
+    const hooks = settingsHooks(settings);
+
+    // Remove any existing cortex hooks first (clean install)
+    removeCortexHooks(hooks);
+
+    for (const hook of installed) {
+      if (!hooks[hook.event]) {
+        hooks[hook.event] = [];
+      }
+      hooks[hook.event]?.push({
+        ...(hook.matcher && { matcher: hook.matcher }),
+        hooks: [
+          {
+            type: 'command',
+            command: hook.command,
+            ...(hook.timeout !== undefined && { timeout: hook.timeout }),
+          },
+        ],
+      });
+    }
+
+    settings['hooks'] = hooks;
+    writeJSONFile(path, settings);
+  },
+
+  remove(path) {
+    const settings = readJSONFile(path);
+
+    if (settings['hooks'] && typeof settings['hooks'] === 'object' && settings['hooks'] !== null) {
+      const hooks = settings['hooks'] as HooksConfig;
+      removeCortexHooks(hooks);
+
+      // Remove empty event arrays
+      for (const event of Object.keys(hooks)) {
+        if (Array.isArray(hooks[event]) && hooks[event].length === 0) {
+          delete hooks[event];
+        }
+      }
+
+      // Remove hooks key if empty
+      if (Object.keys(hooks).length === 0) {
+        delete settings['hooks'];
+      }
+    }
+
+    writeJSONFile(path, settings);
+  },
+};
+
+type CursorHooks = Record<string, Array<{ command?: unknown }>>;
+
+function cursorHooks(config: Record<string, unknown>): CursorHooks {
+  return typeof config['hooks'] === 'object' && config['hooks'] !== null
+    ? (config['hooks'] as CursorHooks)
+    : {};
+}
+
+/** Cursor hooks.json: flat command lists per event */
+const cursorStore: HookStore = {
+  read(path) {
+    const found: InstalledHook[] = [];
+    for (const [event, commands] of Object.entries(cursorHooks(readJSONFile(path)))) {
+      if (!Array.isArray(commands)) continue;
+      for (const entry of commands) {
+        if (isCortexCommand(entry.command)) found.push({ event, command: entry.command });
+      }
+    }
+    return found;
+  },
+
+  write(path, installed) {
+    const config = readJSONFile(path);
+    const hooks = cursorHooks(config);
+    for (const event of Object.keys(hooks)) {
+      if (Array.isArray(hooks[event])) {
+        hooks[event] = hooks[event].filter((entry) => !isCortexCommand(entry.command));
+      }
+    }
+    for (const hook of installed) {
+      if (!hooks[hook.event]) {
+        hooks[hook.event] = [];
+      }
+      hooks[hook.event]?.push({ command: hook.command });
+    }
+    writeJSONFile(path, { version: 1, ...config, hooks });
+  },
+
+  remove(path) {
+    const config = readJSONFile(path);
+    const hooks = cursorHooks(config);
+    for (const event of Object.keys(hooks)) {
+      if (!Array.isArray(hooks[event])) continue;
+      hooks[event] = hooks[event].filter((entry) => !isCortexCommand(entry.command));
+      if (hooks[event].length === 0) {
+        delete hooks[event];
+      }
+    }
+    if (Object.keys(hooks).length === 0) {
+      delete config['hooks'];
+    }
+    writeJSONFile(path, config);
+  },
+};
+
+const TOML_BLOCK_START = '# >>> cortex hooks >>>';
+const TOML_BLOCK_END = '# <<< cortex hooks <<<';
+
+/**
+ * Split config.toml into the text outside the cortex block and the block itself.
+ */
+function splitTomlBlock(text: string): { rest: string; block: string } {
+  const start = text.indexOf(TOML_BLOCK_START);
+  const end = text.indexOf(TOML_BLOCK_END, start);
+  if (start === -1 || end === -1) return { rest: text, block: '' };
+  return {
+    rest: `${text.slice(0, start).trimEnd()}\n${text.slice(end + TOML_BLOCK_END.length).trimStart()}`,
+    block: text.slice(start, end),
+  };
+}
+
+/** Codex config.toml: matcher groups as array tables inside a marked block */
+const tomlBlockStore: HookStore = {
+  read(path) {
+    if (!existsSync(path)) return [];
+    const { block } = splitTomlBlock(readFileSync(path, 'utf-8'));
+    const found: InstalledHook[] = [];
+    let event = '';
+    let matcher: string | undefined;
+    for (const line of block.split('\n')) {
+      const header = line.match(/^\[\[hooks\.(\w+)\]\]$/);
+      if (header?.[1]) {
+        event = header[1];
+        matcher = undefined;
+        continue;
+      }
+      const value = line.match(/^(matcher|command) = (".*")$/);
+      if (!value?.[2]) continue;
+      // Basic TOML strings use the same escapes as JSON
+      const text = JSON.parse(value[2]) as string;
+      if (value[1] === 'matcher') matcher = text;
+      else if (isCortexCommand(text))
+        found.push({ event, command: text, ...(matcher && { matcher }) });
+    }
+    return found;
+  },
+
+  write(path, installed) {
+    const { rest } = existsSync(path) ? splitTomlBlock(readFileSync(path, 'utf-8')) : { rest: '' };
+    const lines = [TOML_BLOCK_START, '# Managed by `cortex hooks install --agent codex`'];
+    for (const hook of installed) {
+      lines.push('', `[[hooks.${hook.event}]]`);
+      if (hook.matcher) lines.push(`matcher = ${JSON.stringify(hook.matcher)}`);
+      lines.push(`[[hooks.${hook.event}.hooks]]`, 'type = "command"');
+      lines.push(`command = ${JSON.stringify(hook.command)}`);
+      if (hook.timeout !== undefined) lines.push(`timeout = ${hook.timeout}`);
+    }
+    lines.push(TOML_BLOCK_END);
+
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const prefix = rest.trim().length > 0 ? `${rest.trimEnd()}\n\n` : '';
+    writeFileSync(path, `${prefix}${lines.join('\n')}\n`, 'utf-8');
+  },
+
+  remove(path) {
+    const { rest } = splitTomlBlock(readFileSync(path, 'utf-8'));
+    writeFileSync(path, rest.trim().length > 0 ? `${rest.trimEnd()}\n` : '', 'utf-8');
+  },
+};
+
+/**
+ * Translate a Claude Code tool matcher (`Bash|Read`) into the agent's tool names.
+ */
+function agentMatcher(agent: HookAgent, matcher: string): string {
+  return [...new Set(matcher.split('|').flatMap((tool) => agentToolNames(agent, tool)))].join('|');
+}
+
+/**
+ * Hooks for agents whose events map one-to-one onto Claude Code's
+ * (every script except the handoff digest, which parses Claude Code transcripts).
+ */
+function mappedEntries(agent: HookAgent, config: CortexHooksConfig, timeout: number) {
+  return [
+    { script: 'prePrompt', event: PRE_PROMPT_EVENT },
+    { script: 'postToolResult', event: POST_TOOL_EVENT, matcher: config.postToolUse.matcher },
+    { script: 'preToolUse', event: PRE_TOOL_EVENT, matcher: PRE_TOOL_TOOLS.join('|') },
+    { script: 'stopDocsRefresh', event: STOP_EVENT },
+    { script: 'sessionStart', event: SESSION_START_EVENT },
+  ].map(
+    (entry): AgentHookEntry => ({
+      script: entry.script as HookScript,
+      event: agentEventName(agent, entry.event),
+      ...(entry.matcher && { matcher: agentMatcher(agent, entry.matcher) }),
+      timeout,
+    }),
+  );
+}
+
+const TARGETS: Record<HookAgent, AgentHookTarget> = {
+  'claude-code': {
+    label: 'Claude Code',
+    configPath: getSettingsPath,
+    entries: (config) => [
+      { script: 'prePrompt', event: PRE_PROMPT_EVENT, timeout: HOOK_TIMEOUT_SECONDS },
+      {
+        script: 'postToolResult',
+        event: POST_TOOL_EVENT,
+        matcher: config.postToolUse.matcher,
+        timeout: HOOK_TIMEOUT_SECONDS,
+      },
+      {
+        script: 'preToolUse',
+        event: PRE_TOOL_EVENT,
+        matcher: PRE_TOOL_TOOLS.join('|'),
+        timeout: HOOK_TIMEOUT_SECONDS,
+      },
+      { script: 'stopDocsRefresh', event: STOP_EVENT, timeout: HOOK_TIMEOUT_SECONDS },
+      { script: 'stopHandoff', event: STOP_EVENT, timeout: HOOK_TIMEOUT_SECONDS },
+      { script: 'sessionStart', event: SESSION_START_EVENT, timeout: HOOK_TIMEOUT_SECONDS },
+    ],
+    store: matcherGroupStore,
+  },
+  'gemini-cli': {
+    label: 'Gemini CLI',
+    configPath: (global) => join(global ? homedir() : process.cwd(), '.gemini', 'settings.json'),
+    // Gemini CLI timeouts are in milliseconds
+    entries: (config) => mappedEntries('gemini-cli', config, HOOK_TIMEOUT_SECONDS * 1000),
+    store: matcherGroupStore,
+  },
+  codex: {
+    label: 'Codex CLI',
+    configPath: (global) => join(global ? homedir() : process.cwd(), '.codex', 'config.toml'),
+    entries: (config) => mappedEntries('codex', config, HOOK_TIMEOUT_SECONDS),
+    store: tomlBlockStore,
+  },
+  cursor: {
+    label: 'Cursor',
+    configPath: (global) => join(global ? homedir() : process.cwd(), '.cursor', 'hooks.json'),
+    // Cursor's other hooks cannot add context, so only these are worth running
+    entries: () => [
+      ...PRE_TOOL_TOOLS.map(
+        (tool): AgentHookEntry => ({
+          script: 'preToolUse',
+          event: agentEventName('cursor', PRE_TOOL_EVENT, tool),
+        }),
+      ),
+      { script: 'stopDocsRefresh', event: agentEventName('cursor', STOP_EVENT) },
+    ],
+    store: cursorStore,
+  },
+};
+
+/**
+ * Hook target (config location, events and file format) for an agent.
+ */
+export function getHookTarget(agent: HookAgent): AgentHookTarget {
+  return TARGETS[agent];
+}
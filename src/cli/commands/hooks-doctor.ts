@@ -0,0 +1,505 @@
+/**
+ * Hooks Doctor - Replay synthetic payloads against installed hooks
+ *
+ * Reads the hooks `cortex hooks install` wrote to settings.json, checks
+ * each referenced script exists and can be run, then pipes synthetic
+ * payloads for its event into the hook. Every run is checked for exit
+ * code, timeout, stderr output and a valid `hookSpecificOutput`, and
+ * latency percentiles are reported per hook.
+ *
+ * Hooks run in a scratch directory (also used as HOME), so project
+ * state such as read snapshots and handoffs is left untouched.
+ */
+
+import { spawnSync } from 'node:child_process';
+import {
+  accessSync,
+  constants,
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, isAbsolute, join } from 'node:path';
+import { CORTEX_MARKER, getSettingsPath, type HooksConfig } from './hooks-agents.js';
+
+export interface HooksDoctorOptions {
+  global?: boolean;
+  /** Runs per payload (default: 5) */
+  runs?: number;
+  /** Settings file to check (default: from `global`) */
+  settingsPath?: string;
+}
+
+/** One hook invocation */
+export interface HookRun {
+  /** Payload label, e.g. "Bash" or "startup" */
+  payload: string;
+  latencyMs: number;
+  exitCode: number | null;
+  timedOut: boolean;
+  stderr: string;
+  /** Output schema problems */
+  problems: string[];
+}
+
+/** Findings for one configured hook */
+export interface HookDiagnosis {
+  event: string;
+  matcher?: string;
+  command: string;
+  /** Script referenced by the command, when one could be identified */
+  script: string | null;
+  /** Timeout from settings.json in seconds (Claude Code's default when unset) */
+  timeoutSeconds: number;
+  runs: HookRun[];
+  latency: { p50: number; p95: number; max: number } | null;
+  issues: string[];
+}
+
+export interface HooksDoctorResult {
+  success: boolean;
+  message: string;
+  settingsPath: string;
+  hooks: HookDiagnosis[];
+  error?: string;
+}
+
+/** Claude Code kills command hooks after 60 seconds unless configured otherwise */
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const DEFAULT_RUNS = 5;
+
+const INTERPRETERS = new Set(['node', 'bun', 'deno', 'tsx', 'python', 'python3', 'bash', 'sh']);
+
+/** Top-level output fields Claude Code understands */
+const COMMON_OUTPUT_FIELDS = new Set([
+  'continue',
+  'stopReason',
+  'suppressOutput',
+  'systemMessage',
+  'decision',
+  'reason',
+  'hookSpecificOutput',
+]);
+
+/** Events whose hooks may add context for Claude */
+const CONTEXT_EVENTS = new Set(['UserPromptSubmit', 'SessionStart', 'PostToolUse', 'PreToolUse']);
+
+interface Payload {
+  label: string;
+  toolName?: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Find the script a hook command runs: the first argument after a known
+ * interpreter, or the command itself when it is a path.
+ */
+export function scriptFromCommand(
+  command: string,
+): { script: string; interpreted: boolean } | null {
+  const tokens = (command.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map((t) =>
+    t.replace(/^["']|["']$/g, ''),
+  );
+  const [first, ...rest] = tokens;
+  if (!first) return null;
+
+  if (INTERPRETERS.has(basename(first))) {
+    const script = rest.find((t) => !t.startsWith('-'));
+    return script ? { script, interpreted: true } : null;
+  }
+  return first.includes('/') ? { script: first, interpreted: false } : null;
+}
+
+function checkScript(script: string, interpreted: boolean): string | null {
+  if (!isAbsolute(script)) return null;
+  if (!existsSync(script)) return `Script not found: ${script}`;
+  try {
+    // Interpreted scripts only need to be readable; direct ones must be executable
+    accessSync(script, interpreted ? constants.R_OK : constants.X_OK);
+    return null;
+  } catch {
+    return interpreted ? `Script not readable: ${script}` : `Script not executable: ${script}`;
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted values.
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, Math.min(index, sorted.length - 1))] ?? 0;
+}
+
+/**
+ * Check hook stdout against the output schema for its event.
+ *
+ * @param event - Hook event name
+ * @param stdout - Hook stdout
+ * @returns Problems found (empty when valid or when there is no output)
+ */
+export function validateHookOutput(event: string, stdout: string): string[] {
+  const text = stdout.trim();
+  if (text.length === 0) return [];
+
+  let output: unknown;
+  try {
+    output = JSON.parse(text);
+  } catch {
+    // Plain text is allowed, but only these events show it to Claude
+    return event === 'UserPromptSubmit' || event === 'SessionStart'
+      ? []
+      : ['stdout is not JSON; Claude Code ignores plain text for this event'];
+  }
+  if (!output || typeof output !== 'object' || Array.isArray(output)) {
+    return ['stdout must be a JSON object'];
+  }
+
+  const problems: string[] = [];
+  const record = output as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (!COMMON_OUTPUT_FIELDS.has(key)) problems.push(`unknown output field "${key}"`);
+  }
+
+  const specific = record['hookSpecificOutput'];
+  if (specific === undefined) return problems;
+  if (!specific || typeof specific !== 'object' || Array.isArray(specific)) {
+    return [...problems, 'hookSpecificOutput must be an object'];
+  }
+
+  const fields = specific as Record<string, unknown>;
+  if (fields['hookEventName'] !== event) {
+    problems.push(
+      `hookSpecificOutput.hookEventName is ${JSON.stringify(fields['hookEventName'])}, expected "${event}"`,
+    );
+  }
+  if ('additionalContext' in fields) {
+    if (!CONTEXT_EVENTS.has(event)) {
+      problems.push(`${event} hooks cannot add additionalContext`);
+    } else if (typeof fields['additionalContext'] !== 'string') {
+      problems.push('hookSpecificOutput.additionalContext must be a string');
+    }
+  }
+  if (event === 'PreToolUse' && 'permissionDecision' in fields) {
+    if (!['allow', 'deny', 'ask'].includes(String(fields['permissionDecision']))) {
+      problems.push('hookSpecificOutput.permissionDecision must be allow, deny or ask');
+    }
+    if (
+      'permissionDecisionReason' in fields &&
+      typeof fields['permissionDecisionReason'] !== 'string'
+    ) {
+      problems.push('hookSpecificOutput.permissionDecisionReason must be a string');
+    }
+  }
+  return problems;
+}
+
+/**
+ * Create the scratch project the payloads point at: a source file to
+ * read and a short transcript.
+ */
+function createScratch(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'cortex-doctor-'));
+  const source = Array.from(
+    { length: 300 },
+    (_, i) => `export function handler${i}(input: string): string {\n  return input.trim();\n}\n`,
+  ).join('\n');
+  writeFileSync(join(dir, 'sample.ts'), source, 'utf-8');
+
+  const transcript = [
+    { type: 'user', message: { role: 'user', content: 'Why does the retry test fail?' } },
+    {
+      type: 'assistant',
+      message: {
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [
+          { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'npm test' } },
+        ],
+      },
+    },
+    {
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Tests 3 passed' }],
+      },
+    },
+  ];
+  writeFileSync(
+    join(dir, 'transcript.jsonl'),
+    transcript.map((r) => JSON.stringify(r)).join('\n'),
+    'utf-8',
+  );
+  return dir;
+}
+
+/**
+ * Synthetic payloads per event, shaped like Claude Code's hook input.
+ */
+function syntheticPayloads(event: string, scratch: string): Payload[] {
+  const base = {
+    session_id: 'cortex-doctor',
+    transcript_path: join(scratch, 'transcript.jsonl'),
+    cwd: scratch,
+    hook_event_name: event,
+  };
+  const filePath = join(scratch, 'sample.ts');
+  const content = readFileSync(filePath, 'utf-8');
+  const testOutput = Array.from({ length: 400 }, (_, i) => ` ✓ tests/unit/case-${i}.test.ts`)
+    .concat(' Test Files  400 passed (400)')
+    .join('\n');
+
+  switch (event) {
+    case 'UserPromptSubmit':
+      return [{ label: 'prompt', input: { ...base, prompt: 'Why does the retry test fail?' } }];
+    case 'SessionStart':
+      return [{ label: 'startup', input: { ...base, source: 'startup' } }];
+    case 'Stop':
+    case 'SubagentStop':
+      return [{ label: 'stop', input: { ...base, stop_hook_active: false } }];
+    case 'PreToolUse':
+      return [
+        {
+          label: 'Read',
+          toolName: 'Read',
+          input: { ...base, tool_name: 'Read', tool_input: { file_path: filePath } },
+        },
+        {
+          label: 'Bash',
+          toolName: 'Bash',
+          input: { ...base, tool_name: 'Bash', tool_input: { command: 'git status' } },
+        },
+      ];
+    case 'PostToolUse':
+      return [
+        {
+          label: 'Bash',
+          toolName: 'Bash',
+          input: {
+            ...base,
+            tool_name: 'Bash',
+            tool_input: { command: 'npm test' },
+            tool_response: { stdout: testOutput, stderr: '', interrupted: false },
+          },
+        },
+        {
+          label: 'Read',
+          toolName: 'Read',
+          input: {
+            ...base,
+            tool_name: 'Read',
+            tool_input: { file_path: filePath },
+            tool_response: {
+              type: 'text',
+              file: { filePath, content, numLines: 1200, startLine: 1, totalLines: 1200 },
+            },
+          },
+        },
+        {
+          label: 'Grep',
+          toolName: 'Grep',
+          input: {
+            ...base,
+            tool_name: 'Grep',
+            tool_input: { pattern: 'handler' },
+            tool_response: { mode: 'content', content: `${filePath}:1:export function handler0` },
+          },
+        },
+      ];
+    default:
+      return [{ label: event, input: base }];
+  }
+}
+
+/**
+ * Whether a group's matcher selects a tool (no matcher or `*` selects all).
+ */
+function matcherSelects(matcher: string | undefined, toolName: string | undefined): boolean {
+  if (!matcher || matcher === '*' || !toolName) return true;
+  try {
+    return new RegExp(`^(?:${matcher})$`).test(toolName);
+  } catch {
+    return matcher === toolName;
+  }
+}
+
+function runHook(
+  command: string,
+  payload: Payload,
+  scratch: string,
+  timeoutSeconds: number,
+  event: string,
+): HookRun {
+  const started = performance.now();
+  const result = spawnSync(command, {
+    shell: true,
+    cwd: scratch,
+    input: JSON.stringify(payload.input),
+    encoding: 'utf-8',
+    timeout: timeoutSeconds * 1000,
+    env: { ...process.env, HOME: scratch, USERPROFILE: scratch, CORTEX_DEBUG: 'false' },
+  });
+  const latencyMs = performance.now() - started;
+  const timedOut = (result.error as NodeJS.ErrnoException | undefined)?.code === 'ETIMEDOUT';
+
+  return {
+    payload: payload.label,
+    latencyMs,
+    exitCode: result.status,
+    timedOut,
+    stderr: (result.stderr ?? '').trim(),
+    problems: timedOut ? [] : validateHookOutput(event, result.stdout ?? ''),
+  };
+}
+
+function diagnose(
+  event: string,
+  matcher: string | undefined,
+  command: string,
+  timeout: number | undefined,
+  scratch: string,
+  runs: number,
+): HookDiagnosis {
+  const timeoutSeconds = timeout ?? DEFAULT_TIMEOUT_SECONDS;
+  const found = scriptFromCommand(command);
+  const diagnosis: HookDiagnosis = {
+    event,
+    command,
+    script: found?.script ?? null,
+    timeoutSeconds,
+    runs: [],
+    latency: null,
+    issues: [],
+  };
+  if (matcher) diagnosis.matcher = matcher;
+
+  const scriptProblem = found ? checkScript(found.script, found.interpreted) : null;
+  if (scriptProblem) {
+    diagnosis.issues.push(scriptProblem);
+    return diagnosis;
+  }
+
+  const payloads = syntheticPayloads(event, scratch).filter((p) =>
+    matcherSelects(matcher, p.toolName),
+  );
+  for (const payload of payloads) {
+    for (let i = 0; i < runs; i++) {
+      const run = runHook(command, payload, scratch, timeoutSeconds, event);
+      diagnosis.runs.push(run);
+      // A hook that hangs would hang on every run; don't wait for it again
+      if (run.timedOut) break;
+    }
+  }
+
+  const sorted = diagnosis.runs.map((r) => r.latencyMs).sort((a, b) => a - b);
+  if (sorted.length > 0) {
+    diagnosis.latency = {
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      max: sorted[sorted.length - 1] ?? 0,
+    };
+  }
+
+  // One line per distinct problem, naming the payloads it showed up for
+  const issues = new Map<string, Set<string>>();
+  const note = (issue: string, payload: string): void => {
+    const payloads = issues.get(issue) ?? new Set<string>();
+    payloads.add(payload);
+    issues.set(issue, payloads);
+  };
+  for (const run of diagnosis.runs) {
+    if (run.timedOut) note(`Timed out after ${timeoutSeconds}s`, run.payload);
+    else if (run.exitCode !== 0) note(`Exited with code ${run.exitCode}`, run.payload);
+    if (run.stderr) note(`Wrote to stderr: ${run.stderr.split('\n')[0]}`, run.payload);
+    for (const problem of run.problems) note(`Invalid output: ${problem}`, run.payload);
+  }
+  for (const [issue, payloads] of issues) {
+    diagnosis.issues.push(`${issue} (${[...payloads].join(', ')})`);
+  }
+
+  return diagnosis;
+}
+
+/**
+ * Check every cortex-managed hook in settings.json.
+ *
+ * @param options - Which settings file and how many runs per payload
+ * @returns Per-hook diagnosis; success when no hook has issues
+ */
+export async function hooksDoctorCommand(options: HooksDoctorOptions): Promise<HooksDoctorResult> {
+  const settingsPath = options.settingsPath ?? getSettingsPath(options.global);
+  const runs = Math.max(1, options.runs ?? DEFAULT_RUNS);
+
+  if (!existsSync(settingsPath)) {
+    return {
+      success: false,
+      message: 'No hooks to check',
+      settingsPath,
+      hooks: [],
+      error: `${settingsPath} not found. Run \`cortex hooks install\` first.`,
+    };
+  }
+
+  let hooks: HooksConfig;
+  try {
+    const settings = JSON.parse(readFileSync(settingsPath, 'utf-8')) as Record<string, unknown>;
+    hooks =
+      settings['hooks'] && typeof settings['hooks'] === 'object'
+        ? (settings['hooks'] as HooksConfig)
+        : {};
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to read settings.json',
+      settingsPath,
+      hooks: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const scratch = createScratch();
+  const diagnoses: HookDiagnosis[] = [];
+  try {
+    for (const [event, groups] of Object.entries(hooks)) {
+      if (!Array.isArray(groups)) continue;
+      for (const group of groups) {
+        if (!Array.isArray(group.hooks)) continue;
+        for (const handler of group.hooks) {
+          if (typeof handler.command !== 'string' || !handler.command.includes(CORTEX_MARKER)) {
+            continue;
+          }
+          diagnoses.push(
+            diagnose(event, group.matcher, handler.command, handler.timeout, scratch, runs),
+          );
+        }
+      }
+    }
+  } finally {
+    rmSync(scratch, { recursive: true, force: true });
+  }
+
+  if (diagnoses.length === 0) {
+    return {
+      success: false,
+      message: 'No cortex hooks installed',
+      settingsPath,
+      hooks: [],
+      error: 'Run `cortex hooks install` first.',
+    };
+  }
+
+  const failing = diagnoses.filter((d) => d.issues.length > 0).length;
+  return {
+    success: failing === 0,
+    message:
+      failing === 0
+        ? `All ${diagnoses.length} cortex hooks passed`
+        : `${failing} of ${diagnoses.length} cortex hooks have problems`,
+    settingsPath,
+    hooks: diagnoses,
+  };
+}
@@ -1,19 +1,32 @@
 /**
- * Hooks Command - Install/uninstall/status for Claude Code hooks
+ * Hooks Command - Install/uninstall/status for agent CLI hooks
  *
- * Manages hook integration with Claude Code's settings.json file.
+ * Manages hook integration with Claude Code's settings.json file, or with
+ * another agent's hook config when `agent` is set (see hooks-agents.ts).
  * Uses the correct Claude Code hook format:
  *   hooks.EventName = [{ matcher?, hooks: [{ type, command, timeout? }] }]
  */
 
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
-import { homedir } from 'node:os';
-import { dirname, join } from 'node:path';
+import { existsSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { HOOK_AGENTS } from '../../hooks/agent-payload.js';
+import { readHooksConfig, validateHooksConfig } from '../../hooks/hook-config.js';
+import { refreshHotPaths } from '../../hooks/session-primer.js';
+import type { HookAgent } from '../../types/config.js';
+import {
+  type AgentHookTarget,
+  getHookTarget,
+  HOOK_SCRIPT_FILES,
+  type HookScript,
+  type InstalledHook,
+} from './hooks-agents.js';
 
 export interface HooksCommandOptions {
   subcommand: 'install' | 'uninstall' | 'status';
   global?: boolean;
+  /** Agent CLI whose hooks to manage (default: claude-code) */
+  agent?: HookAgent;
 }
 
 export interface HooksCommandResult {
@@ -21,65 +34,47 @@ export interface HooksCommandResult {
   message: string;
   error?: string;
   installed?: boolean;
-  hookPaths?: {
-    prePrompt: string;
-    postToolResult: string;
-    stopDocsRefresh: string;
-  };
+  hookPaths?: Record<HookScript, string>;
 }
 
-// Claude Code hook event names
-const PRE_PROMPT_EVENT = 'UserPromptSubmit';
-const POST_TOOL_EVENT = 'PostToolUse';
-const STOP_DOCS_EVENT = 'Stop';
-
-// Matcher for which tools trigger the post-tool hook
-const POST_TOOL_MATCHER = 'Bash|Read|Grep|Glob';
-
-// Marker to identify cortex-managed hooks
-const CORTEX_MARKER = 'cortex';
-
-interface HookHandler {
-  type: string;
-  command: string;
-  timeout?: number;
-}
-
-interface HookMatcherGroup {
-  matcher?: string;
-  hooks: HookHandler[];
-}
-
-type HooksConfig = Record<string, HookMatcherGroup[]>;
+const SCRIPTS = Object.keys(HOOK_SCRIPT_FILES) as HookScript[];
 
 export async function hooksCommand(options: HooksCommandOptions): Promise<HooksCommandResult> {
   const { subcommand, global } = options;
+  const agent = options.agent ?? 'claude-code';
+
+  if (!HOOK_AGENTS.includes(agent)) {
+    return {
+      success: false,
+      message: `Unknown agent: ${agent}`,
+      error: `Supported agents: ${HOOK_AGENTS.join(', ')}`,
+    };
+  }
 
-  const settingsPath = global
-    ? join(homedir(), '.claude', 'settings.json')
-    : join(process.cwd(), '.claude', 'settings.json');
+  const target = getHookTarget(agent);
+  const settingsPath = target.configPath(global);
 
   // Find built hook scripts relative to this file
   const __filename = fileURLToPath(import.meta.url);
   const __dirname = dirname(__filename);
   const hooksDir = join(dirname(__dirname), 'hooks');
-  const prePromptPath = join(hooksDir, 'pre-prompt.js');
-  const postToolResultPath = join(hooksDir, 'post-tool-result.js');
-  const stopDocsRefreshPath = join(hooksDir, 'stop-docs-refresh.js');
+  const scriptPaths = Object.fromEntries(
+    SCRIPTS.map((script) => [script, join(hooksDir, HOOK_SCRIPT_FILES[script])]),
+  ) as Record<HookScript, string>;
 
   switch (subcommand) {
-    case 'install':
-      return installHooks(
-        settingsPath,
-        prePromptPath,
-        postToolResultPath,
-        stopDocsRefreshPath,
-        global,
-      );
+    case 'install': {
+      const result = installHooks(target, agent, settingsPath, scriptPaths, global);
+      // The SessionStart primer only reads cached hot paths; build them now
+      if (result.success && !global) {
+        await refreshHotPaths(process.cwd()).catch(() => false);
+      }
+      return result;
+    }
     case 'uninstall':
-      return uninstallHooks(settingsPath, global);
+      return uninstallHooks(target, agent, settingsPath, global);
     case 'status':
-      return hooksStatus(settingsPath, global);
+      return hooksStatus(target, agent, settingsPath, global);
     default:
       return {
         success: false,
@@ -89,117 +84,68 @@ export async function hooksCommand(options: HooksCommandOptions): Promise<HooksC
   }
 }
 
+/**
+ * " (Gemini CLI)" for agents other than Claude Code, so messages name the agent
+ */
+function agentSuffix(target: AgentHookTarget, agent: HookAgent): string {
+  return agent === 'claude-code' ? '' : ` (${target.label})`;
+}
+
 function installHooks(
+  target: AgentHookTarget,
+  agent: HookAgent,
   settingsPath: string,
-  prePromptPath: string,
-  postToolResultPath: string,
-  stopDocsRefreshPath: string,
+  scriptPaths: Record<HookScript, string>,
   global?: boolean,
 ): HooksCommandResult {
   try {
-    if (!existsSync(prePromptPath)) {
-      return {
-        success: false,
-        message: `Hook script not found: ${prePromptPath}`,
-        error: 'Hook scripts not built. Run `npm run build` first.',
-      };
-    }
-
-    if (!existsSync(postToolResultPath)) {
-      return {
-        success: false,
-        message: `Hook script not found: ${postToolResultPath}`,
-        error: 'Hook scripts not built. Run `npm run build` first.',
-      };
-    }
-
-    if (!existsSync(stopDocsRefreshPath)) {
+    // A global install only sees the global config; project configs are read per session
+    const hooksConfig = readHooksConfig(global ? null : process.cwd());
+    const configErrors = validateHooksConfig(hooksConfig);
+    if (configErrors.length > 0) {
       return {
         success: false,
-        message: `Hook script not found: ${stopDocsRefreshPath}`,
-        error: 'Hook scripts not built. Run `npm run build` first.',
+        message: 'Invalid hooks config',
+        error: configErrors.join('\n'),
       };
     }
 
-    let settings: Record<string, unknown> = {};
+    const entries = target.entries(hooksConfig);
+    const scripts = new Set(entries.map((entry) => entry.script));
 
-    if (existsSync(settingsPath)) {
-      const settingsJson = readFileSync(settingsPath, 'utf-8');
-      settings = JSON.parse(settingsJson);
-    } else {
-      const claudeDir = dirname(settingsPath);
-      if (!existsSync(claudeDir)) {
-        mkdirSync(claudeDir, { recursive: true });
+    for (const script of scripts) {
+      if (!existsSync(scriptPaths[script])) {
+        return {
+          success: false,
+          message: `Hook script not found: ${scriptPaths[script]}`,
+          error: 'Hook scripts not built. Run `npm run build` first.',
+        };
       }
     }
 
-    // Get existing hooks or create empty object
-    const hooks: HooksConfig =
-      typeof settings['hooks'] === 'object' && settings['hooks'] !== null
-        ? (settings['hooks'] as HooksConfig)
-        : {};
-
-    // Remove any existing cortex hooks first (clean install)
-    removeCortexHooks(hooks);
-
-    // Add UserPromptSubmit hook (pre-prompt optimization)
-    if (!hooks[PRE_PROMPT_EVENT]) {
-      hooks[PRE_PROMPT_EVENT] = [];
-    }
-    hooks[PRE_PROMPT_EVENT].push({
-      hooks: [
-        {
-          type: 'command',
-          command: `node "${prePromptPath.replace(/\\/g, '/')}"`,
-          timeout: 10,
-        },
-      ],
-    });
-
-    // Add PostToolUse hook (output compression)
-    if (!hooks[POST_TOOL_EVENT]) {
-      hooks[POST_TOOL_EVENT] = [];
-    }
-    hooks[POST_TOOL_EVENT].push({
-      matcher: POST_TOOL_MATCHER,
-      hooks: [
-        {
-          type: 'command',
-          command: `node "${postToolResultPath.replace(/\\/g, '/')}"`,
-          timeout: 10,
-        },
-      ],
-    });
-
-    // Add Stop hook (auto-regenerate CLAUDE.md)
-    if (!hooks[STOP_DOCS_EVENT]) {
-      hooks[STOP_DOCS_EVENT] = [];
-    }
-    hooks[STOP_DOCS_EVENT].push({
-      hooks: [
-        {
-          type: 'command',
-          command: `node "${stopDocsRefreshPath.replace(/\\/g, '/')}"`,
-          timeout: 10,
-        },
-      ],
-    });
-
-    settings['hooks'] = hooks;
-
-    writeFileSync(settingsPath, JSON.stringify(settings, null, 2), 'utf-8');
-
+    // Other agents pass --agent so the hook translates their payloads
+    const agentFlag = agent === 'claude-code' ? '' : ` --agent ${agent}`;
+    target.store.write(
+      settingsPath,
+      entries.map((entry) => ({
+        event: entry.event,
+        matcher: entry.matcher,
+        command: `node "${scriptPaths[entry.script].replace(/\\/g, '/')}"${agentFlag}`,
+        timeout: entry.timeout,
+      })),
+    );
+
+    const unsupported = `(not supported by ${target.label})`;
     return {
       success: true,
-      message: global
-        ? 'Hooks installed globally (all projects)'
-        : 'Hooks installed for current project',
+      message:
+        (global
+          ? 'Hooks installed globally (all projects)'
+          : 'Hooks installed for current project') + agentSuffix(target, agent),
       installed: true,
-      hookPaths: {
-        prePrompt: prePromptPath,
-        postToolResult: postToolResultPath,
-        stopDocsRefresh: stopDocsRefreshPath,
-      },
+      hookPaths: Object.fromEntries(
+        SCRIPTS.map((script) => [script, scripts.has(script) ? scriptPaths[script] : unsupported]),
+      ) as Record<HookScript, string>,
     };
   } catch (error) {
     return {
@@ -210,41 +156,28 @@ function installHooks(
   }
 }
 
-function uninstallHooks(settingsPath: string, global?: boolean): HooksCommandResult {
+function uninstallHooks(
+  target: AgentHookTarget,
+  agent: HookAgent,
+  settingsPath: string,
+  global?: boolean,
+): HooksCommandResult {
   try {
     if (!existsSync(settingsPath)) {
       return {
         success: true,
-        message: 'No hooks installed (settings.json not found)',
+        message: `No hooks installed (${basename(settingsPath)} not found)`,
         installed: false,
       };
     }
 
-    const settingsJson = readFileSync(settingsPath, 'utf-8');
-    const settings: Record<string, unknown> = JSON.parse(settingsJson);
-
-    if (settings['hooks'] && typeof settings['hooks'] === 'object' && settings['hooks'] !== null) {
-      const hooks = settings['hooks'] as HooksConfig;
-      removeCortexHooks(hooks);
-
-      // Remove empty event arrays
-      for (const event of Object.keys(hooks)) {
-        if (Array.isArray(hooks[event]) && hooks[event].length === 0) {
-          delete hooks[event];
-        }
-      }
-
-      // Remove hooks key if empty
-      if (Object.keys(hooks).length === 0) {
-        delete settings['hooks'];
-      }
-    }
-
-    writeFileSync(settingsPath, JSON.stringify(settings, null, 2), 'utf-8');
+    target.store.remove(settingsPath);
 
     return {
       success: true,
-      message: global ? 'Hooks uninstalled globally' : 'Hooks uninstalled from current project',
+      message:
+        (global ? 'Hooks uninstalled globally' : 'Hooks uninstalled from current project') +
+        agentSuffix(target, agent),
       installed: false,
     };
   } catch (error) {
@@ -256,47 +189,44 @@ function uninstallHooks(settingsPath: string, global?: boolean): HooksCommandRes
   }
 }
 
-function hooksStatus(settingsPath: string, global?: boolean): HooksCommandResult {
+function hooksStatus(
+  target: AgentHookTarget,
+  agent: HookAgent,
+  settingsPath: string,
+  global?: boolean,
+): HooksCommandResult {
   try {
     if (!existsSync(settingsPath)) {
+      const file = basename(settingsPath);
       return {
         success: true,
         message: global
-          ? 'No global hooks installed (settings.json not found)'
-          : 'No project hooks installed (settings.json not found)',
+          ? `No global hooks installed (${file} not found)${agentSuffix(target, agent)}`
+          : `No project hooks installed (${file} not found)${agentSuffix(target, agent)}`,
         installed: false,
       };
     }
 
-    const settingsJson = readFileSync(settingsPath, 'utf-8');
-    const settings: Record<string, unknown> = JSON.parse(settingsJson);
-
-    const hooks =
-      settings['hooks'] && typeof settings['hooks'] === 'object' && settings['hooks'] !== null
-        ? (settings['hooks'] as HooksConfig)
-        : {};
-
-    const prePromptHook = findCortexHook(hooks, PRE_PROMPT_EVENT);
-    const postToolHook = findCortexHook(hooks, POST_TOOL_EVENT);
-    const stopDocsHook = findCortexHook(hooks, STOP_DOCS_EVENT);
-
-    if (!prePromptHook && !postToolHook && !stopDocsHook) {
+    const installed = target.store.read(settingsPath);
+    if (installed.length === 0) {
       return {
         success: true,
-        message: global ? 'No global cortex hooks installed' : 'No project cortex hooks installed',
+        message:
+          (global ? 'No global cortex hooks installed' : 'No project cortex hooks installed') +
+          agentSuffix(target, agent),
         installed: false,
       };
     }
 
     return {
       success: true,
-      message: global ? 'Global cortex hooks active' : 'Project cortex hooks active',
+      message:
+        (global ? 'Global cortex hooks active' : 'Project cortex hooks active') +
+        agentSuffix(target, agent),
       installed: true,
-      hookPaths: {
-        prePrompt: prePromptHook || '(not installed)',
-        postToolResult: postToolHook || '(not installed)',
-        stopDocsRefresh: stopDocsHook || '(not installed)',
-      },
+      hookPaths: Object.fromEntries(
+        SCRIPTS.map((script) => [script, findCortexHook(installed, script) || '(not installed)']),
+      ) as Record<HookScript, string>,
     };
   } catch (error) {
     return {
@@ -308,36 +238,9 @@ function hooksStatus(settingsPath: string, global?: boolean): HooksCommandResult
 }
 
 /**
- * Remove all cortex-managed hooks from the config
- */
-function removeCortexHooks(hooks: HooksConfig): void {
-  for (const event of Object.keys(hooks)) {
-    if (!Array.isArray(hooks[event])) continue;
-    hooks[event] = hooks[event].filter((group) => {
-      if (!Array.isArray(group.hooks)) return true;
-      // Remove groups where any hook command contains "cortex"
-      return !group.hooks.some(
-        (h) => typeof h.command === 'string' && h.command.includes(CORTEX_MARKER),
-      );
-    });
-  }
-}
-
-/**
- * Find a cortex hook command for a given event
+ * Find the installed command that runs a cortex hook script
  */
-function findCortexHook(hooks: HooksConfig, event: string): string | null {
-  const groups = hooks[event];
-  if (!Array.isArray(groups)) return null;
-
-  for (const group of groups) {
-    if (!Array.isArray(group.hooks)) continue;
-    for (const h of group.hooks) {
-      if (typeof h.command === 'string' && h.command.includes(CORTEX_MARKER)) {
-        return h.command;
-      }
-    }
-  }
-
-  return null;
+function findCortexHook(installed: InstalledHook[], script: HookScript): string | null {
+  const file = HOOK_SCRIPT_FILES[script].replace(/\.js$/, '');
+  return installed.find((hook) => hook.command.includes(file))?.command ?? null;
 }
@@ -3,10 +3,18 @@
  */
 
 import { readFile, writeFile } from 'node:fs/promises';
+import { createClaudeCodeAdapter } from '../../adapters/claude-code.js';
 import { createGenericAdapter } from '../../adapters/generic.js';
+import { createMessagesAdapter } from '../../adapters/messages.js';
 import type { KVMemory } from '../../core/kv-memory.js';
-import type { OptimizationResult } from '../../types/adapter.js';
+import type { OptimizationExplanation, OptimizationResult } from '../../types/adapter.js';
 import { DEFAULT_CONFIG } from '../../types/config.js';
+import {
+  formatLogTemplates,
+  isRepetitiveLog,
+  mineLogTemplates,
+} from '../../utils/log-templates.js';
+import { estimateTokens } from '../../utils/tokenizer.js';
 
 export interface OptimizeCommandOptions {
   /** Input context (if not provided, reads from stdin) */
@@ -21,8 +29,22 @@ export interface OptimizeCommandOptions {
   dryRun?: boolean;
   /** Verbose mode (show per-entry details) */
   verbose?: boolean;
+  /** Collapse repetitive log input into templates instead of line pruning */
+  logTemplates?: boolean;
+  /** Treat input as a Claude Code transcript and output a trimmed JSONL transcript */
+  jsonl?: boolean;
+  /** Input/output format: plain text, or a Messages API JSON payload */
+  format?: OptimizeFormat;
+  /** Task description; related entries (and files via the dependency graph) rank higher */
+  focus?: string;
+  /** Explain mode (break down why each entry was kept or dropped) */
+  explain?: boolean;
 }
 
+/** Formats accepted by `cortex optimize --format` */
+export const OPTIMIZE_FORMATS = ['text', 'messages-json'] as const;
+export type OptimizeFormat = (typeof OPTIMIZE_FORMATS)[number];
+
 export interface OptimizeCommandResult extends OptimizationResult {
   output: string;
   outputFile?: string;
@@ -48,9 +70,39 @@ export async function optimizeCommand(
     throw new Error('No input provided. Use --input or --input-file');
   }
 
-  // Create adapter and optimize
-  const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
-  const result = await adapter.optimize(input, { dryRun, verbose });
+  if (options.logTemplates) {
+    const logResult = await optimizeLog(input, memory, dryRun);
+    if (logResult) {
+      if (options.outputFile) {
+        await writeFile(options.outputFile, logResult.optimizedContext, 'utf-8');
+      }
+      return { ...logResult, output: logResult.optimizedContext, outputFile: options.outputFile };
+    }
+  }
+
+  const format = options.format ?? 'text';
+  if (!OPTIMIZE_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${format}". Use one of: ${OPTIMIZE_FORMATS.join(', ')}`);
+  }
+
+  if (options.jsonl && format === 'messages-json') {
+    throw new Error('--jsonl cannot be combined with --format messages-json');
+  }
+
+  // Create adapter and optimize; transcripts go through the Claude Code adapter
+  const adapter =
+    format === 'messages-json'
+      ? createMessagesAdapter(memory, DEFAULT_CONFIG)
+      : options.jsonl
+        ? createClaudeCodeAdapter(memory, DEFAULT_CONFIG)
+        : createGenericAdapter(memory, DEFAULT_CONFIG);
+  const result = await adapter.optimize(input, {
+    dryRun,
+    verbose,
+    outputFormat: options.jsonl ? 'jsonl' : 'text',
+    focus: options.focus,
+    explain: options.explain,
+  });
 
   // Write output to file or return
   if (options.outputFile) {
@@ -63,3 +115,101 @@ export async function optimizeCommand(
     outputFile: options.outputFile,
   };
 }
+
+/**
+ * Render an explanation as a table, one row per entry in context order,
+ * followed by the cutoff.
+ *
+ * @param explanation - Explanation from an optimization result
+ * @returns Table text
+ */
+export function formatExplanation(explanation: OptimizationExplanation): string {
+  const header = [
+    'ID',
+    'DECISION',
+    'PRIORITY',
+    'TF-IDF',
+    'DECAY',
+    'RECENCY',
+    'STATE',
+    'FOCUS',
+    'TOKENS',
+    'REASON',
+    'ENTRY',
+  ];
+  const rows = explanation.entries.map((e) => [
+    e.id.substring(0, 8),
+    e.decision,
+    e.priority.toFixed(3),
+    e.tfidf.toFixed(3),
+    e.decay.toFixed(2),
+    `×${e.recencyBoost.toFixed(2)}`,
+    `${e.state} ×${e.stateMultiplier}`,
+    `×${e.focusBoost.toFixed(2)}`,
+    String(e.tokens),
+    e.isBTSP ? `${e.reason} [BTSP ${e.btspPattern ?? '?'}]` : e.reason,
+    e.preview,
+  ]);
+
+  // Pad every column but the last to its widest cell
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i]?.length ?? 0)));
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => (i < cells.length - 1 ? cell.padEnd(widths[i] ?? 0) : cell)).join('  ');
+
+  const { cutoff } = explanation;
+  const limit =
+    cutoff.mode === 'budget'
+      ? `budget ${cutoff.budget} tokens, ${cutoff.tokensUsed} used`
+      : `top ${cutoff.threshold}%, ${cutoff.tokensUsed} tokens kept`;
+  const lowest = cutoff.priority === null ? 'none' : cutoff.priority.toFixed(3);
+
+  return [
+    line(header),
+    ...rows.map(line),
+    '',
+    `Cutoff: ${limit}; lowest kept priority ${lowest}`,
+  ].join('\n');
+}
+
+/**
+ * Log-template stage: one line per template plus verbatim rare lines.
+ * Templates and rare lines count as kept entries; folded repeats as silent.
+ *
+ * @returns Result, or null if the input is not a repetitive log
+ */
+async function optimizeLog(
+  input: string,
+  memory: KVMemory,
+  dryRun: boolean,
+): Promise<OptimizationResult | null> {
+  const startTime = Date.now();
+  const mined = mineLogTemplates(input);
+  if (!isRepetitiveLog(mined)) return null;
+
+  const { templates, rare, totalLines } = mined;
+  const summary = formatLogTemplates(mined);
+  const tokensBefore = estimateTokens(input);
+  const tokensAfter = estimateTokens(summary);
+  const kept = templates.length + rare.length;
+
+  if (!dryRun) {
+    await memory.recordOptimization({
+      timestamp: Date.now(),
+      tokens_before: tokensBefore,
+      tokens_after: tokensAfter,
+      entries_pruned: totalLines - kept,
+      duration_ms: Date.now() - startTime,
+    });
+  }
+
+  return {
+    optimizedContext: summary,
+    tokensBefore,
+    tokensAfter,
+    reduction: tokensBefore > 0 ? (tokensBefore - tokensAfter) / tokensBefore : 0,
+    entriesProcessed: totalLines,
+    entriesKept: kept,
+    stateDistribution: { active: 0, ready: kept, silent: totalLines - kept, total: totalLines },
+    durationMs: Date.now() - startTime,
+  };
+}
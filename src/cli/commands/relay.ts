@@ -1,11 +1,20 @@
 /**
  * Relay Command - Proxy CLI commands through optimization
+ *
+ * Output is summarized by a matching project summarizer from
+ * `.cortex/summarizers/` when there is one, collapsed into templates
+ * when it is a repetitive log, and otherwise optimized with the
+ * generic adapter. Secrets are redacted from the optimized output.
  */
 
 import { spawn } from 'node:child_process';
 import { createGenericAdapter } from '../../adapters/generic.js';
 import type { KVMemory } from '../../core/kv-memory.js';
+import { loadProjectSummarizers } from '../../core/summarizer-registry.js';
 import { DEFAULT_CONFIG } from '../../types/config.js';
+import { summarizeLog } from '../../utils/log-templates.js';
+import { redactSecrets } from '../../utils/redactor.js';
+import { estimateTokens } from '../../utils/tokenizer.js';
 
 export interface RelayCommandOptions {
   /** Command to execute */
@@ -16,6 +25,8 @@ export interface RelayCommandOptions {
   memory: KVMemory;
   /** Silent mode (suppress summary) */
   silent?: boolean;
+  /** Project directory for `.cortex/summarizers/` (default: process.cwd()) */
+  cwd?: string;
 }
 
 export interface RelayCommandResult {
@@ -33,6 +44,10 @@ export interface RelayCommandResult {
   reduction: number;
   /** One-line summary (if not silent) */
   summary?: string;
+  /** Summarizer that produced the output (a project summarizer or log-templates), if any */
+  summarizer?: string;
+  /** Problems loading project summarizers */
+  warnings?: string[];
 }
 
 /**
@@ -41,7 +56,7 @@ export interface RelayCommandResult {
  * @returns Relay result
  */
 export async function relayCommand(options: RelayCommandOptions): Promise<RelayCommandResult> {
-  const { command, args, memory, silent = false } = options;
+  const { command, args, memory, silent = false, cwd = process.cwd() } = options;
 
   // Execute child process and capture output
   const { stdout, stderr, exitCode } = await executeCommand(command, args);
@@ -49,26 +64,73 @@ export async function relayCommand(options: RelayCommandOptions): Promise<RelayC
   // Combine stdout and stderr
   const originalOutput = stdout + stderr;
 
-  // Optimize the output
-  const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
-  const optimizationResult = await adapter.optimize(originalOutput, {
-    dryRun: true, // Don't save relay outputs to memory
-    verbose: false,
+  const warnings: string[] = [];
+  const { registry, errors } = await loadProjectSummarizers(cwd, {
+    onError: (name, error) =>
+      warnings.push(
+        `Summarizer ${name} failed: ${error instanceof Error ? error.message : String(error)}`,
+      ),
   });
+  warnings.push(...errors.map((e) => `Summarizer not loaded: ${e}`));
+
+  // Relayed commands run as if through the Bash tool
+  const custom = await registry.summarize({
+    toolName: 'Bash',
+    target: [command, ...args].join(' '),
+    text: originalOutput,
+    cwd,
+  });
+
+  const logSummary = custom ? null : summarizeLog(originalOutput);
+  const summarized = custom ?? (logSummary ? { name: 'log-templates', summary: logSummary } : null);
+
+  let result: RelayCommandResult;
+  if (summarized) {
+    const tokensBefore = estimateTokens(originalOutput);
+    const tokensAfter = estimateTokens(summarized.summary);
+    result = {
+      exitCode,
+      originalOutput,
+      optimizedOutput: summarized.summary,
+      tokensBefore,
+      tokensAfter,
+      reduction: tokensBefore > 0 ? (tokensBefore - tokensAfter) / tokensBefore : 0,
+      summarizer: summarized.name,
+    };
+  } else {
+    // Optimize the output
+    const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
+    const optimizationResult = await adapter.optimize(originalOutput, {
+      dryRun: true, // Don't save relay outputs to memory
+      verbose: false,
+    });
+
+    result = {
+      exitCode,
+      originalOutput,
+      optimizedOutput: optimizationResult.optimizedContext,
+      tokensBefore: optimizationResult.tokensBefore,
+      tokensAfter: optimizationResult.tokensAfter,
+      reduction: optimizationResult.reduction,
+    };
+  }
+
+  // Relay output ends up in the agent's context: strip secrets first
+  const redacted = redactSecrets(result.optimizedOutput);
+  if (redacted.total > 0) {
+    result.optimizedOutput = redacted.text;
+    await memory.recordRedactions(redacted.counts);
+  }
 
-  const result: RelayCommandResult = {
-    exitCode,
-    originalOutput,
-    optimizedOutput: optimizationResult.optimizedContext,
-    tokensBefore: optimizationResult.tokensBefore,
-    tokensAfter: optimizationResult.tokensAfter,
-    reduction: optimizationResult.reduction,
-  };
+  if (warnings.length > 0) {
+    result.warnings = warnings;
+  }
 
   // Generate summary if not silent
   if (!silent && result.tokensBefore > 0) {
     const reductionPct = (result.reduction * 100).toFixed(1);
-    result.summary = `📊 ${result.tokensBefore} → ${result.tokensAfter} tokens (${reductionPct}% reduction)`;
+    const via = result.summarizer ? ` via ${result.summarizer}` : '';
+    result.summary = `📊 ${result.tokensBefore} → ${result.tokensAfter} tokens (${reductionPct}% reduction${via})`;
   }
 
   return result;
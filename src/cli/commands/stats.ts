@@ -2,6 +2,7 @@
  * Stats Command - View optimization statistics
  */
 
+import type { HookToolStats } from '../../core/hook-stats.js';
 import type { KVMemory } from '../../core/kv-memory.js';
 
 export interface StatsCommandOptions {
@@ -24,6 +25,12 @@ export interface StatsCommandResult {
   totalTokensSaved: number;
   /** Average reduction percentage (0.0-1.0) */
   averageReduction: number;
+  /** Total secrets redacted before storage or context injection */
+  totalRedactions: number;
+  /** Redactions per detector, most frequent first */
+  redactions: Record<string, number>;
+  /** Hook activity per event and tool, most input tokens first */
+  hooks: HookToolStats[];
   /** ASCII bar chart (if graph=true) */
   graph?: string;
   /** JSON output (if json=true) */
@@ -44,10 +51,15 @@ export async function statsCommand(options: StatsCommandOptions): Promise<StatsC
   if (reset) {
     if (confirmReset) {
       await memory.clearOptimizationStats();
+      await memory.clearRedactionStats();
+      await memory.clearHookStats();
       return {
         totalCommands: 0,
         totalTokensSaved: 0,
         averageReduction: 0,
+        totalRedactions: 0,
+        redactions: {},
+        hooks: [],
         resetConfirmed: true,
       };
     }
@@ -70,10 +82,22 @@ export async function statsCommand(options: StatsCommandOptions): Promise<StatsC
         }, 0) / totalCommands
       : 0;
 
+  const redactionStats = await memory.getRedactionStats();
+  const redactions: Record<string, number> = {};
+  for (const r of redactionStats) {
+    redactions[r.detector] = r.count;
+  }
+  const totalRedactions = redactionStats.reduce((sum, r) => sum + r.count, 0);
+
+  const hooks = await memory.getHookStats();
+
   const result: StatsCommandResult = {
     totalCommands,
     totalTokensSaved,
     averageReduction,
+    totalRedactions,
+    redactions,
+    hooks,
   };
 
   // Generate ASCII bar chart if requested
@@ -88,6 +112,17 @@ export async function statsCommand(options: StatsCommandOptions): Promise<StatsC
         totalCommands,
         totalTokensSaved,
         averageReduction: Math.round(averageReduction * 1000) / 10, // Convert to percentage
+        totalRedactions,
+        redactions,
+        hooks: hooks.map((h) => ({
+          event: h.event,
+          toolName: h.tool_name,
+          invocations: h.invocations,
+          inputTokens: h.input_tokens,
+          summaryTokens: h.summary_tokens,
+          avgLatencyMs: h.avg_latency_ms,
+          maxLatencyMs: h.max_latency_ms,
+        })),
         optimizations: stats.map((s) => ({
           timestamp: s.timestamp,
           tokensBefore: s.tokens_before,
@@ -137,6 +137,7 @@ function Dashboard({ dbPath, projectRoot, refreshInterval }: DashboardProps): Re
       <Box>
         <OptimizationPanel
           stats={data.optimizationStats}
+          hookStats={data.hookStats}
           focused={focusedPanel === 'optimization'}
         />
         <GraphViewPanel
@@ -46,6 +46,14 @@ interface StatsResult {
   totalCommands: number;
   totalTokensSaved: number;
   averageReduction: number;
+  hooks?: Array<{
+    event: string;
+    tool_name: string | null;
+    invocations: number;
+    input_tokens: number;
+    summary_tokens: number;
+    avg_latency_ms: number;
+  }>;
   graph?: string;
   resetConfirmed?: boolean;
 }
@@ -61,6 +69,15 @@ export function formatStats(result: StatsResult): OutputLine[] {
     { text: `  Tokens saved:   ${result.totalTokensSaved}` },
     { text: `  Avg reduction:  ${avgPct}%` },
   ];
+  if (result.hooks && result.hooks.length > 0) {
+    lines.push({ text: 'Hook Activity', color: theme.neuralCyan });
+    for (const h of result.hooks) {
+      const label = h.tool_name ? `${h.event} ${h.tool_name}` : h.event;
+      lines.push({
+        text: `  ${label}: ${h.invocations} runs, ${h.input_tokens} in, ${h.summary_tokens} injected, avg ${h.avg_latency_ms}ms`,
+      });
+    }
+  }
   if (result.graph) {
     for (const line of result.graph.split('\n')) {
       lines.push({ text: line, color: theme.dimGray });
@@ -12,6 +12,7 @@ import type { DebtStats, TechDebt } from '../../../core/debt-tracker.js';
 import { createDebtTracker } from '../../../core/debt-tracker.js';
 import type { DependencyNode, GraphAnalysis } from '../../../core/dependency-graph.js';
 import { createDependencyGraph } from '../../../core/dependency-graph.js';
+import type { HookToolStats } from '../../../core/hook-stats.js';
 import type { KVMemory, OptimizationStats } from '../../../core/kv-memory.js';
 import { createKVMemory } from '../../../core/kv-memory.js';
 import type { DaemonStatusResult } from '../../../daemon/daemon-process.js';
@@ -22,6 +23,9 @@ export interface DashboardData {
   totalEntries: number;
   stateDistribution: { active: number; ready: number; silent: number };
 
+  // Hooks
+  hookStats: HookToolStats[];
+
   // Debt
   debts: TechDebt[];
   debtStats: DebtStats | null;
@@ -52,6 +56,7 @@ const EMPTY_STATE: DashboardData = {
   optimizationStats: [],
   totalEntries: 0,
   stateDistribution: { active: 0, ready: 0, silent: 0 },
+  hookStats: [],
   debts: [],
   debtStats: null,
   graphAnalysis: null,
@@ -147,8 +152,9 @@ async function refreshFast(
   setData: React.Dispatch<React.SetStateAction<DashboardData>>,
 ) {
   try {
-    const [stats, ids, activeEntries, readyEntries, silentEntries] = await Promise.all([
+    const [stats, hookStats, ids, activeEntries, readyEntries, silentEntries] = await Promise.all([
       memory.getOptimizationStats(),
+      memory.getHookStats(),
       memory.list(),
       memory.query({ state: 'active' }),
       memory.query({ state: 'ready' }),
@@ -195,6 +201,7 @@ async function refreshFast(
       setData((prev) => ({
         ...prev,
         optimizationStats: stats,
+        hookStats,
         totalEntries: ids.length,
         stateDistribution: {
           active: activeEntries.length,
@@ -2,16 +2,18 @@
  * Optimization Stats Panel — Top-left
  *
  * Shows total optimizations, tokens saved, average reduction,
- * and last 5 runs as compact rows.
+ * the last 5 runs and the busiest hook tools as compact rows.
  */
 
 import { Box, Text } from 'ink';
 import type React from 'react';
+import type { HookToolStats } from '../../../core/hook-stats.js';
 import type { OptimizationStats } from '../../../core/kv-memory.js';
 import { theme } from '../theme.js';
 
 interface Props {
   stats: OptimizationStats[];
+  hookStats: HookToolStats[];
   focused: boolean;
 }
 
@@ -31,7 +33,7 @@ function makeBar(pct: number, width: number): string {
   return '\u2588'.repeat(filled) + '\u2591'.repeat(width - filled);
 }
 
-export function OptimizationPanel({ stats, focused }: Props): React.ReactElement {
+export function OptimizationPanel({ stats, hookStats, focused }: Props): React.ReactElement {
   const totalOpts = stats.length;
   const totalSaved = stats.reduce((s, r) => s + (r.tokens_before - r.tokens_after), 0);
 
@@ -43,6 +45,7 @@ export function OptimizationPanel({ stats, focused }: Props): React.ReactElement
   }
 
   const recent = stats.slice(-5).reverse();
+  const topHooks = hookStats.slice(0, 3);
   const borderColor = focused ? theme.neuralCyan : theme.dimGray;
 
   return (
@@ -86,6 +89,19 @@ export function OptimizationPanel({ stats, focused }: Props): React.ReactElement
           })}
         </Box>
       )}
+      {topHooks.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text color={theme.dimGray}>Hooks:</Text>
+          {topHooks.map((h) => (
+            <Text key={`${h.event}:${h.tool_name ?? ''}`}>
+              {'  '}
+              {h.tool_name ?? h.event} | {h.invocations}x | {formatTokens(h.input_tokens)}
+              {'\u2192'}
+              {formatTokens(h.summary_tokens)} | {h.avg_latency_ms}ms
+            </Text>
+          ))}
+        </Box>
+      )}
     </Box>
   );
 }
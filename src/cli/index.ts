@@ -6,12 +6,15 @@
  */
 
 import { spawn } from 'node:child_process';
-import { readFileSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
 import { dirname, join, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { Command } from 'commander';
 import { load as loadYAML } from 'js-yaml';
+import { loadRedactionConfig } from '../hooks/hook-config.js';
 import { playCommand, playComplete, playEnd, playStartup } from '../utils/audio.js';
+import { configureRedaction } from '../utils/redactor.js';
 import { setPreciseTokenCounting } from '../utils/tokenizer.js';
 import { getBanner } from './ui/banner.js';
 
@@ -43,6 +46,9 @@ try {
   // Config not found or not initialized — use default heuristic
 }
 
+// Secret redaction (built-in detectors plus project/global patterns)
+configureRedaction(loadRedactionConfig(process.cwd()));
+
 // Lazy-loaded imports (loaded only when commands are executed):
 // - createKVMemory (heavy: better-sqlite3)
 // - command implementations (may import heavy modules)
@@ -196,6 +202,11 @@ program
   .option('-o, --output <file>', 'Output file path')
   .option('--dry-run', 'Run without saving to memory')
   .option('--verbose', 'Show detailed per-entry scores')
+  .option('--log-templates', 'Collapse repetitive log lines into templates')
+  .option('--jsonl', 'Output a trimmed Claude Code JSONL transcript')
+  .option('--format <format>', 'Input/output format: text or messages-json', 'text')
+  .option('--focus <task>', 'Keep what matters for this task (e.g. "login redirect bug")')
+  .option('--explain [format]', 'Explain why each entry was kept or dropped: table or json')
   .addHelpText(
     'after',
     `
@@ -204,6 +215,11 @@ Examples:
   $ cat context.txt | cortex optimize                  # Optimize from stdin
   $ cortex optimize -i context.txt --dry-run           # Preview without saving
   $ cortex optimize -i context.txt --verbose           # Show entry scores
+  $ docker compose logs | cortex optimize --log-templates
+  $ cortex optimize -i session.jsonl --jsonl -o trimmed.jsonl
+  $ cortex optimize -i request.json --format messages-json   # OpenAI/Anthropic messages
+  $ cortex optimize -i session.log --focus "login redirect bug"
+  $ cortex optimize -i context.txt --dry-run --explain  # Why entries were kept/dropped
 
 How It Works:
   1. Relevance Filtering: Keeps only 2-5% most relevant context
@@ -221,35 +237,44 @@ Typical Results:
   .action(async (options) => {
     // Lazy-load dependencies
     const { createKVMemory } = await import('../core/kv-memory.js');
-    const { optimizeCommand } = await import('./commands/optimize.js');
+    const { formatExplanation, optimizeCommand } = await import('./commands/optimize.js');
     const { createOptimizeSpinner, showTokenSavings } = await import('./ui/progress.js');
     const { neuralCyan, synapseViolet, errorRed } = await import('./ui/colors.js');
 
-    const spinner = createOptimizeSpinner('🧠 Initializing optimization...');
+    if (options.explain !== undefined && ![true, 'table', 'json'].includes(options.explain)) {
+      console.error(
+        errorRed(`Unknown explain format: ${String(options.explain)} (expected table or json)`),
+      );
+      process.exit(1);
+    }
+    // With --explain json, stdout carries only the explanation
+    const jsonExplain = options.explain === 'json';
+
+    const spinner = jsonExplain ? null : createOptimizeSpinner('🧠 Initializing optimization...');
     try {
-      spinner.start();
+      if (spinner) spinner.start();
 
       // Read from stdin if no input file specified
       let input: string | undefined;
       if (!options.input && !process.stdin.isTTY) {
-        spinner.text = '📖 Reading context from stdin...';
+        if (spinner) spinner.text = '📖 Reading context from stdin...';
         const chunks: Buffer[] = [];
         for await (const chunk of process.stdin) {
           chunks.push(chunk);
         }
         input = Buffer.concat(chunks).toString('utf-8');
       } else if (options.input) {
-        spinner.text = `📖 Reading context from ${options.input}...`;
+        if (spinner) spinner.text = `📖 Reading context from ${options.input}...`;
       }
 
       // Load memory
-      spinner.text = '💾 Loading memory database...';
+      if (spinner) spinner.text = '💾 Loading memory database...';
       const dbPath = resolve(process.cwd(), '.cortex/memory.db');
       const memory = await createKVMemory(dbPath);
 
       try {
         // Run optimization
-        spinner.text = '⚡ Optimizing context...';
+        if (spinner) spinner.text = '⚡ Optimizing context...';
         const result = await optimizeCommand({
           input,
           inputFile: options.input,
@@ -257,9 +282,21 @@ Typical Results:
           memory,
           dryRun: options.dryRun || false,
           verbose: options.verbose || false,
+          logTemplates: options.logTemplates || false,
+          jsonl: options.jsonl || false,
+          format: options.format,
+          focus: options.focus,
+          explain: Boolean(options.explain),
         });
 
-        spinner.succeed(neuralCyan(`Optimization complete in ${result.durationMs}ms!`));
+        if (jsonExplain) {
+          // null when the log-templates path ran instead of the pruner
+          console.log(JSON.stringify(result.explanation ?? null, null, 2));
+          return;
+        }
+
+        if (spinner)
+          spinner.succeed(neuralCyan(`Optimization complete in ${result.durationMs}ms!`));
 
         // Display visual impact
         showTokenSavings(result.tokensBefore, result.tokensAfter, result.reduction);
@@ -283,6 +320,13 @@ Typical Results:
           console.log();
         }
 
+        // Show the priority breakdown if requested
+        if (options.explain && result.explanation) {
+          console.log(neuralCyan('  🔍 Explanation:'));
+          console.log(formatExplanation(result.explanation));
+          console.log();
+        }
+
         // Write to stdout if no output file
         if (!options.output) {
           console.log(result.output);
@@ -291,7 +335,7 @@ Typical Results:
         await memory.close();
       }
     } catch (error) {
-      spinner.fail(errorRed('Optimization failed'));
+      if (spinner) spinner.fail(errorRed('Optimization failed'));
       console.error(errorRed('Error:'), error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
@@ -319,6 +363,7 @@ Tracked Metrics:
   • Average reduction percentage
   • Per-run token before/after counts
   • Optimization duration
+  • Hook runs, tokens and latency per event and tool
 `,
   )
   .action(async (options) => {
@@ -369,6 +414,20 @@ Tracked Metrics:
           console.log(`  Total optimizations: ${result.totalCommands}`);
           console.log(`  Total tokens saved: ${result.totalTokensSaved.toLocaleString()}`);
           console.log(`  Average reduction: ${(result.averageReduction * 100).toFixed(1)}%`);
+          console.log(`  Secrets redacted: ${result.totalRedactions}`);
+          for (const [detector, count] of Object.entries(result.redactions)) {
+            console.log(`    ${detector}: ${count}`);
+          }
+
+          if (result.hooks.length > 0) {
+            console.log(neuralCyan('\n🪝 Hook Activity\n'));
+            for (const h of result.hooks) {
+              const label = h.tool_name ? `${h.event} ${h.tool_name}` : h.event;
+              console.log(
+                `  ${label}: ${h.invocations} runs, ${h.input_tokens.toLocaleString()} tokens in, ${h.summary_tokens.toLocaleString()} injected, avg ${h.avg_latency_ms}ms (max ${h.max_latency_ms}ms)`,
+              );
+            }
+          }
 
           if (options.graph && result.graph) {
             console.log(result.graph);
@@ -407,6 +466,9 @@ Use Cases:
   • Compress build logs
   • Filter CI/CD output for AI agent consumption
 
+Project summarizers in .cortex/summarizers/ (JS modules or YAML
+keep/drop/collapse rules) are applied to matching commands.
+
 The relay command passes the exit code from the wrapped command.
 `,
   )
@@ -431,6 +493,10 @@ The relay command passes the exit code from the wrapped command.
           silent: options.silent || false,
         });
 
+        for (const warning of result.warnings ?? []) {
+          console.error(errorRed('Warning:'), warning);
+        }
+
         // Display optimized output
         console.log(result.optimizedOutput);
 
@@ -533,6 +599,7 @@ program
   .command('config [subcommand] [key] [value]')
   .description('View or modify configuration')
   .option('--json', 'Output result as JSON')
+  .option('--global', 'Use the global config (~/.cortex/config.yaml)')
   .addHelpText(
     'after',
     `
@@ -541,6 +608,8 @@ Examples:
   $ cortex config get pruning.threshold  # Get specific value
   $ cortex config set pruning.threshold 3 # Set value
   $ cortex config --json                 # View full config as JSON
+  $ cortex config --global set hooks.transcript.contextWindows.claude-sonnet-4 1000000
+  $ cortex config set hooks.postToolUse.tools.Bash.threshold 1500
 
 Configuration Keys:
   pruning.threshold                     # Relevance threshold (2-5%)
@@ -550,8 +619,33 @@ Configuration Keys:
   states.readyThreshold                 # Ready state threshold
   embedding.model                       # BTSP embedding model
   embedding.dimensions                  # Embedding vector size
-
-The config file is located at .cortex/config.yaml
+  hooks.preToolUse.enabled              # Steer large/generated reads (true/false)
+  hooks.preToolUse.warnReadBytes        # Warn on whole-file reads above this size
+  hooks.preToolUse.denyReadBytes        # Deny whole-file reads above this size
+  hooks.preToolUse.generatedAction      # warn or deny for generated files
+  hooks.preToolUse.generatedPatterns    # Comma-separated globs
+  hooks.preToolUse.relayCommands        # Comma-separated command prefixes
+  hooks.postToolUse.matcher             # Tools summarized by PostToolUse
+  hooks.postToolUse.tools.<Tool>.threshold         # Summarize above N tokens
+  hooks.postToolUse.tools.<Tool>.summarizers       # Comma-separated summarizers
+  hooks.postToolUse.tools.<Tool>.maxSummaryLength  # Max summary characters
+  hooks.transcript.contextWindows.<model>  # Context window (tokens) by model prefix
+  hooks.transcript.overheadTokens       # System prompt/tools outside the transcript
+  hooks.transcript.warnPercent          # Show the context gauge from this % used
+  hooks.transcript.criticalPercent      # Strongly suggest /compact from this % used
+  hooks.transcript.preciseTokens        # Count with gpt-tokenizer (true/false)
+  hooks.recall.enabled                  # Inject memories/files related to the prompt
+  hooks.recall.maxTokens                # Token budget for recalled context
+  hooks.recall.maxMemories              # Memories recalled per prompt
+  hooks.recall.maxFiles                 # File pointers recalled per prompt
+  hooks.sessionStart.enabled            # Prime new sessions with project memory
+  hooks.sessionStart.maxTokens          # Token budget for the session primer
+  redaction.enabled                     # Redact secrets (true/false)
+  redaction.highEntropy                 # Redact random-looking tokens (true/false)
+  redaction.patterns                    # Extra regex, or a JSON array of regexes
+
+The config file is located at .cortex/config.yaml (--global: ~/.cortex/config.yaml).
+Hooks read both; project settings override global ones.
 `,
   )
   .action(async (subcommand, key, value, options) => {
@@ -560,7 +654,15 @@ The config file is located at .cortex/config.yaml
     const { neuralCyan, errorRed } = await import('./ui/colors.js');
 
     try {
-      const configPath = resolve(process.cwd(), '.cortex/config.yaml');
+      const configPath = options.global
+        ? join(homedir(), '.cortex', 'config.yaml')
+        : resolve(process.cwd(), '.cortex/config.yaml');
+
+      // The global config is optional; create it on first set
+      if (options.global && subcommand === 'set' && !existsSync(configPath)) {
+        mkdirSync(dirname(configPath), { recursive: true });
+        writeFileSync(configPath, '', 'utf-8');
+      }
 
       // Execute config command
       const result = await configCommand({
@@ -576,6 +678,10 @@ The config file is located at .cortex/config.yaml
         process.exit(1);
       }
 
+      for (const warning of result.warnings ?? []) {
+        console.error(errorRed('Warning:'), warning);
+      }
+
       // Handle editor mode
       if (result.editorPath && !options.json) {
         const editorEnv = process.env['EDITOR'] || 'vim';
@@ -704,6 +810,13 @@ program
   .command('hooks <subcommand>')
   .description('Manage Claude Code hook integration')
   .option('--global', 'Install hooks globally (for all projects)')
+  .option(
+    '--agent <name>',
+    'Agent CLI to manage hooks for: claude-code, gemini-cli, codex, cursor',
+    'claude-code',
+  )
+  .option('--runs <n>', 'Runs per payload for doctor (default: 5)', Number.parseInt)
+  .option('--json', 'Output doctor results as JSON')
   .addHelpText(
     'after',
     `
@@ -711,26 +824,80 @@ Subcommands:
   install                               # Install hooks
   uninstall                             # Uninstall hooks
   status                                # Check hook status
+  doctor                                # Replay sample payloads against installed hooks
 
 Examples:
   $ cortex hooks install                 # Install hooks for current project
   $ cortex hooks install --global        # Install hooks globally
+  $ cortex hooks install --agent gemini-cli  # Install into .gemini/settings.json
+  $ cortex hooks install --agent codex   # Install into .codex/config.toml
+  $ cortex hooks install --agent cursor  # Install into .cursor/hooks.json
   $ cortex hooks uninstall               # Uninstall hooks
   $ cortex hooks status                  # Check if hooks are active
-
-Hooks automatically optimize context before each Claude Code prompt
-and compress verbose tool results after execution.
+  $ cortex hooks doctor                  # Check scripts, output schema and latency
+  $ cortex hooks doctor --runs 20 --json # More samples, machine-readable
+
+Hooks automatically optimize context before each Claude Code prompt,
+steer expensive reads and verbose commands before they run, and
+compress verbose tool results after execution. Other agents run the
+same hooks through a payload translator; Cursor only gets the pre-tool
+and stop hooks, and the handoff digest needs Claude Code transcripts.
 `,
   )
   .action(async (subcommand, options) => {
     // Lazy-load dependencies
     const { hooksCommand } = await import('./commands/hooks.js');
-    const { neuralCyan, errorRed } = await import('./ui/colors.js');
+    const { neuralCyan, errorRed, dim } = await import('./ui/colors.js');
 
     try {
+      if (subcommand === 'doctor') {
+        if (options.agent !== 'claude-code') {
+          console.error(errorRed('\n✗ hooks doctor only checks Claude Code hooks\n'));
+          process.exit(1);
+        }
+        const { hooksDoctorCommand } = await import('./commands/hooks-doctor.js');
+        const result = await hooksDoctorCommand({
+          global: options.global || false,
+          runs: options.runs,
+        });
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+          if (!result.success) process.exit(1);
+          return;
+        }
+
+        console.log(`\nSettings: ${result.settingsPath}`);
+        for (const hook of result.hooks) {
+          const label = hook.matcher ? `${hook.event} [${hook.matcher}]` : hook.event;
+          const latency = hook.latency
+            ? `p50 ${hook.latency.p50.toFixed(0)}ms, p95 ${hook.latency.p95.toFixed(0)}ms, max ${hook.latency.max.toFixed(0)}ms (timeout ${hook.timeoutSeconds}s)`
+            : 'not run';
+          const mark = hook.issues.length === 0 ? neuralCyan('✓') : errorRed('✗');
+          console.log(`\n${mark} ${label}: ${hook.script ?? hook.command}`);
+          console.log(`  ${dim(latency)}`);
+          for (const issue of hook.issues) {
+            console.log(`  ${errorRed('•')} ${issue}`);
+          }
+        }
+
+        if (result.success) {
+          console.log(neuralCyan(`\n✓ ${result.message}\n`));
+        } else {
+          console.error(errorRed(`\n✗ ${result.message}`));
+          if (result.error) {
+            console.error(`  ${result.error}`);
+          }
+          console.log();
+          process.exit(1);
+        }
+        return;
+      }
+
       const result = await hooksCommand({
         subcommand: subcommand as 'install' | 'uninstall' | 'status',
         global: options.global || false,
+        agent: options.agent,
       });
 
       if (result.success) {
@@ -740,7 +907,10 @@ and compress verbose tool results after execution.
           console.log('\nHook paths:');
           console.log(`  pre-prompt: ${result.hookPaths.prePrompt}`);
           console.log(`  post-tool-result: ${result.hookPaths.postToolResult}`);
+          console.log(`  pre-tool-use: ${result.hookPaths.preToolUse}`);
           console.log(`  stop-docs-refresh: ${result.hookPaths.stopDocsRefresh}`);
+          console.log(`  stop-handoff: ${result.hookPaths.stopHandoff}`);
+          console.log(`  session-start: ${result.hookPaths.sessionStart}`);
         }
 
         console.log();
@@ -16,6 +16,13 @@ export interface BTSPEmbedder {
    */
   detectBTSP(content: string): boolean;
 
+  /**
+   * Find the first BTSP pattern that matches content
+   * @param content - Content to analyze
+   * @returns The matching pattern as a regex literal (e.g. "/^<<<<<<< /m"), or null
+   */
+  matchBTSP(content: string): string | null;
+
   /**
    * Create a new memory entry marked as BTSP (one-shot learned)
    * @param content - Entry content
@@ -76,6 +83,11 @@ export function createBTSPEmbedder(config?: BTSPEmbedderConfig): BTSPEmbedder {
     return BTSP_PATTERNS.some((pattern) => pattern.test(content));
   }
 
+  function matchBTSP(content: string): string | null {
+    const match = BTSP_PATTERNS.find((pattern) => pattern.test(content));
+    return match ? String(match) : null;
+  }
+
   function createBTSPEntry(
     content: string,
     tags: string[] = [],
@@ -98,6 +110,7 @@ export function createBTSPEmbedder(config?: BTSPEmbedderConfig): BTSPEmbedder {
 
   return {
     detectBTSP,
+    matchBTSP,
     createBTSPEntry,
   };
 }
@@ -8,15 +8,22 @@
  * - Confidence state multipliers
  * - BTSP bypass (always included)
  *
+ * Tool calls and their results are kept or dropped together; when a pair
+ * does not fit, the call is kept with a stub in place of its result.
+ * With degrading enabled, large entries that do not fit are degraded
+ * (head/tail, summary or stub) before being dropped.
+ *
  * Target use case: Real-time optimization for Opus model (~50K token budget)
  */
 
 import type { RealtimeConfig } from '../types/config.js';
 import type { MemoryEntry } from '../types/memory.js';
-import type { PruneResult } from '../types/pruner.js';
+import type { PriorityBoost, PriorityBreakdown, PruneResult } from '../types/pruner.js';
 import { createTFIDFIndex, scoreTFIDF, type TFIDFIndex } from '../utils/tfidf.js';
 import { estimateTokens } from '../utils/tokenizer.js';
 import { createEngramScorer } from './engram-scorer.js';
+import { type DegradeOptions, degradeEntry } from './entry-degrader.js';
+import { groupToolPairs, isToolCall, isToolResult, stubToolResult } from './tool-pairs.js';
 
 export interface BudgetPrunerConfig {
   /** Target token budget */
@@ -31,6 +38,12 @@ export interface BudgetPrunerConfig {
     activeThreshold: number;
     readyThreshold: number;
   };
+  /**
+   * Degrade entries that do not fit instead of dropping them (default: off).
+   * Degraded text names a recall id, so enable it only where the original
+   * entries are stored.
+   */
+  degrade?: DegradeOptions | false;
 }
 
 export interface BudgetPruner {
@@ -38,9 +51,16 @@ export interface BudgetPruner {
    * Prune entries to fit within token budget
    * @param entries - Memory entries to prune
    * @param budget - Optional override budget (uses config default if not provided)
+   * @param boost - Optional priority multiplier (e.g. focus relevance)
+   * @param degrade - Optional degrade options (overrides config; false to disable)
    * @returns Result with kept/removed entries and budget utilization
    */
-  pruneToFit(entries: MemoryEntry[], budget?: number): PruneResult & { budgetUtilization: number };
+  pruneToFit(
+    entries: MemoryEntry[],
+    budget?: number,
+    boost?: PriorityBoost,
+    degrade?: DegradeOptions | false,
+  ): PruneResult & { budgetUtilization: number };
 
   /**
    * Calculate priority score for an entry
@@ -50,6 +70,21 @@ export interface BudgetPruner {
    * @returns Priority score (higher = more important)
    */
   priorityScore(entry: MemoryEntry, allEntries: MemoryEntry[], index?: TFIDFIndex): number;
+
+  /**
+   * Calculate priority for an entry with each of its components
+   * @param entry - Entry to score
+   * @param allEntries - All entries for TF-IDF calculation
+   * @param index - Optional pre-computed TF-IDF index
+   * @param boost - Optional priority multiplier (e.g. focus relevance)
+   * @returns Priority breakdown; `priority` is what pruneToFit ranks by
+   */
+  priorityBreakdown(
+    entry: MemoryEntry,
+    allEntries: MemoryEntry[],
+    index?: TFIDFIndex,
+    boost?: PriorityBoost,
+  ): PriorityBreakdown;
 }
 
 /**
@@ -78,26 +113,46 @@ export function createBudgetPruner(config: BudgetPrunerConfig): BudgetPruner {
     }
   }
 
-  function priorityScore(
+  function priorityBreakdown(
     entry: MemoryEntry,
     allEntries: MemoryEntry[],
     index?: TFIDFIndex,
-  ): number {
+    boost?: PriorityBoost,
+  ): PriorityBreakdown {
     const tfidf = index
       ? scoreTFIDF(entry, index)
       : scoreTFIDF(entry, createTFIDFIndex(allEntries));
-    const currentScore = engramScorer.calculateScore(entry);
-    const engramDecay = 1 - currentScore; // Lower decay = higher priority
+    const { decay: ageDecay, recencyBoost, score } = engramScorer.explainScore(entry);
+    const engramDecay = 1 - score; // Lower decay = higher priority
     const stateMultiplier = getStateMultiplier(entry);
+    const focusBoost = boost?.(entry) ?? 1;
 
     // Priority = TF-IDF * (1 - decay) * state_multiplier
     // This balances relevance, recency, and confidence state
-    return tfidf * (1 - engramDecay) * stateMultiplier;
+    return {
+      tfidf,
+      decay: ageDecay,
+      recencyBoost,
+      engramScore: score,
+      stateMultiplier,
+      focusBoost,
+      priority: tfidf * (1 - engramDecay) * stateMultiplier * focusBoost,
+    };
+  }
+
+  function priorityScore(
+    entry: MemoryEntry,
+    allEntries: MemoryEntry[],
+    index?: TFIDFIndex,
+  ): number {
+    return priorityBreakdown(entry, allEntries, index).priority;
   }
 
   function pruneToFit(
     entries: MemoryEntry[],
     budget: number = tokenBudget,
+    boost?: PriorityBoost,
+    degrade: DegradeOptions | false | undefined = config.degrade,
   ): PruneResult & { budgetUtilization: number } {
     if (entries.length === 0) {
       return {
@@ -112,20 +167,26 @@ export function createBudgetPruner(config: BudgetPrunerConfig): BudgetPruner {
     // Calculate original token count
     const originalTokens = entries.reduce((sum, e) => sum + estimateTokens(e.content), 0);
 
-    // Step 1: Separate BTSP entries (high priority but still within budget)
-    const btspEntries = entries.filter((e) => e.isBTSP);
-    const regularEntries = entries.filter((e) => !e.isBTSP);
+    // Tool calls and their results form one unit; other entries stand alone
+    const units = groupToolPairs(entries).map((members) => ({
+      members,
+      tokens: members.reduce((sum, e) => sum + estimateTokens(e.content), 0),
+    }));
+
+    // Step 1: Separate BTSP units (high priority but still within budget)
+    const btspUnits = units.filter((u) => u.members.some((e) => e.isBTSP));
+    const regularUnits = units.filter((u) => !u.members.some((e) => e.isBTSP));
 
-    // Guard: if BTSP entries alone exceed budget, only include most recent ones
-    let includedBtsp: MemoryEntry[] = [];
+    // Guard: if BTSP units alone exceed budget, only include most recent ones
+    const latest = (u: (typeof units)[number]) => Math.max(...u.members.map((e) => e.timestamp));
+    let includedBtsp: typeof units = [];
     let btspTokens = 0;
-    const sortedBtsp = [...btspEntries].sort((a, b) => b.timestamp - a.timestamp);
-    for (const entry of sortedBtsp) {
-      const tokens = estimateTokens(entry.content);
-      if (btspTokens + tokens <= budget * 0.8) {
+    const sortedBtsp = [...btspUnits].sort((a, b) => latest(b) - latest(a));
+    for (const unit of sortedBtsp) {
+      if (btspTokens + unit.tokens <= budget * 0.8) {
         // Reserve 20% for regular entries
-        includedBtsp.push(entry);
-        btspTokens += tokens;
+        includedBtsp.push(unit);
+        btspTokens += unit.tokens;
       }
     }
     // If no BTSP fits, include at least the most recent one
@@ -133,35 +194,73 @@ export function createBudgetPruner(config: BudgetPrunerConfig): BudgetPruner {
       const firstBtsp = sortedBtsp[0];
       if (firstBtsp) {
         includedBtsp = [firstBtsp];
-        btspTokens = estimateTokens(firstBtsp.content);
+        btspTokens = firstBtsp.tokens;
       }
     }
 
-    // Track BTSP entries excluded by the guard
-    const excludedBtsp = btspEntries.filter((e) => !includedBtsp.includes(e));
+    // Track BTSP units excluded by the guard
+    const excludedBtsp = btspUnits.filter((u) => !includedBtsp.includes(u));
 
-    // Step 2: Build TF-IDF index once and score regular entries
+    // Step 2: Build TF-IDF index once and score regular units by their best entry
     const tfidfIndex = createTFIDFIndex(entries);
-    const scored = regularEntries.map((entry) => ({
-      entry,
-      score: priorityScore(entry, entries, tfidfIndex),
-      tokens: estimateTokens(entry.content),
+    const scored = regularUnits.map((unit) => ({
+      ...unit,
+      score: Math.max(
+        ...unit.members.map((e) => priorityBreakdown(e, entries, tfidfIndex, boost).priority),
+      ),
     }));
 
     // Step 3: Sort by priority score descending
     scored.sort((a, b) => b.score - a.score);
 
     // Step 4: Greedy fill until budget exceeded
-    const kept: MemoryEntry[] = [...includedBtsp];
-    const removed: MemoryEntry[] = [...excludedBtsp];
+    const kept: MemoryEntry[] = includedBtsp.flatMap((u) => u.members);
+    const removed: MemoryEntry[] = excludedBtsp.flatMap((u) => u.members);
     let currentTokens = btspTokens;
 
     for (const item of scored) {
       if (currentTokens + item.tokens <= budget) {
-        kept.push(item.entry);
+        kept.push(...item.members);
         currentTokens += item.tokens;
+        continue;
+      }
+
+      const remaining = budget - currentTokens;
+
+      // A lone entry may fit degraded
+      if (!item.members.some(isToolCall)) {
+        const degraded =
+          degrade && item.members.length === 1 && item.members[0]
+            ? degradeEntry(item.members[0], remaining, degrade)
+            : null;
+        if (degraded) {
+          kept.push(degraded);
+          currentTokens += estimateTokens(degraded.content);
+        } else {
+          removed.push(...item.members);
+        }
+        continue;
+      }
+
+      // Keep the call with degraded (or stubbed) results if that fits; never split the pair
+      const results = item.members.filter(isToolResult);
+      const callTokens = item.members
+        .filter((e) => !isToolResult(e))
+        .reduce((sum, e) => sum + estimateTokens(e.content), 0);
+      const share = Math.floor((remaining - callTokens) / Math.max(1, results.length));
+      const reduced = item.members.map((e) => {
+        if (!isToolResult(e)) return e;
+        const degraded = degrade
+          ? degradeEntry(e, share, { ...degrade, tiers: ['head-tail', 'summary'] })
+          : null;
+        return degraded ?? stubToolResult(e, Boolean(degrade));
+      });
+      const reducedTokens = reduced.reduce((sum, e) => sum + estimateTokens(e.content), 0);
+      if (reducedTokens < item.tokens && reducedTokens <= remaining) {
+        kept.push(...reduced);
+        currentTokens += reducedTokens;
       } else {
-        removed.push(item.entry);
+        removed.push(...item.members);
       }
     }
 
@@ -179,6 +278,7 @@ export function createBudgetPruner(config: BudgetPrunerConfig): BudgetPruner {
   return {
     pruneToFit,
     priorityScore,
+    priorityBreakdown,
   };
 }
 
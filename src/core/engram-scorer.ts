@@ -17,6 +17,20 @@ export interface EngramScorerConfig {
   decayThreshold: number;
 }
 
+/**
+ * Components of an entry's current score
+ */
+export interface ScoreBreakdown {
+  /** Decay factor (0.0 = fresh, 1.0 = fully decayed) */
+  decay: number;
+  /** Bonus from repeated access */
+  accessBonus: number;
+  /** Recency multiplier (1 outside the recency window) */
+  recencyBoost: number;
+  /** Final score (0.0-1.0), as returned by calculateScore */
+  score: number;
+}
+
 export interface EngramScorer {
   /**
    * Calculate current score for an entry based on decay and access count
@@ -26,6 +40,14 @@ export interface EngramScorer {
    */
   calculateScore(entry: MemoryEntry, currentTime?: number): number;
 
+  /**
+   * Calculate current score with its decay, access and recency components
+   * @param entry - Memory entry to score
+   * @param currentTime - Current timestamp in milliseconds (for testing)
+   * @returns Score breakdown
+   */
+  explainScore(entry: MemoryEntry, currentTime?: number): ScoreBreakdown;
+
   /**
    * Refresh TTL to default value
    * @param entry - Entry to refresh
@@ -66,7 +88,7 @@ export function createEngramScorer(
     return Math.max(0, Math.min(1, decay));
   }
 
-  function calculateScore(entry: MemoryEntry, currentTime: number = Date.now()): number {
+  function explainScore(entry: MemoryEntry, currentTime: number = Date.now()): ScoreBreakdown {
     // Calculate age in seconds
     const ageInMilliseconds = currentTime - entry.timestamp;
     const ageInSeconds = Math.max(0, ageInMilliseconds / 1000);
@@ -78,8 +100,9 @@ export function createEngramScorer(
     let score = entry.score * (1 - decay);
 
     // Access count bonus (diminishing returns via log)
+    let accessBonus = 0;
     if (entry.accessCount > 0) {
-      const accessBonus = Math.log(entry.accessCount + 1) * 0.1;
+      accessBonus = Math.log(entry.accessCount + 1) * 0.1;
       score = Math.min(1.0, score + accessBonus);
     }
 
@@ -89,15 +112,20 @@ export function createEngramScorer(
     }
 
     // Recency boost for non-BTSP entries within the recency window
+    let recencyBoost = 1;
     if (!entry.isBTSP && recencyWindowMs > 0) {
       const ageMs = currentTime - entry.timestamp;
       if (ageMs >= 0 && ageMs < recencyWindowMs) {
-        const boostFactor = 1 + (recencyMultiplier - 1) * (1 - ageMs / recencyWindowMs);
-        score = score * boostFactor;
+        recencyBoost = 1 + (recencyMultiplier - 1) * (1 - ageMs / recencyWindowMs);
+        score = score * recencyBoost;
       }
     }
 
-    return Math.max(0, Math.min(1, score));
+    return { decay, accessBonus, recencyBoost, score: Math.max(0, Math.min(1, score)) };
+  }
+
+  function calculateScore(entry: MemoryEntry, currentTime: number = Date.now()): number {
+    return explainScore(entry, currentTime).score;
   }
 
   function refreshTTL(entry: MemoryEntry): MemoryEntry {
@@ -110,6 +138,7 @@ export function createEngramScorer(
 
   return {
     calculateScore,
+    explainScore,
     refreshTTL,
     calculateDecay,
   };
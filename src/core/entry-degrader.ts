@@ -0,0 +1,161 @@
+/**
+ * Entry Degrader - Cheaper representations of entries that do not fit
+ *
+ * Between keeping an entry whole and dropping it, the budget pruner can
+ * keep a degraded form. From highest to lowest fidelity: the head and
+ * tail with the middle elided, the output of a matching summarizer (test
+ * runner, compiler diagnostics, JSON shape, log templates), or a one-line
+ * stub. Every form names the entry's id so the full text can be recalled
+ * from memory.
+ */
+
+import type { MemoryEntry } from '../types/memory.js';
+import { formatDiagnostics, parseDiagnostics } from '../utils/diagnostics-parser.js';
+import { hashContent } from '../utils/hash.js';
+import { summarizeJSON } from '../utils/json-shape.js';
+import { summarizeLog } from '../utils/log-templates.js';
+import { formatTestSummary, parseTestOutput } from '../utils/test-output-parser.js';
+import { estimateTokens } from '../utils/tokenizer.js';
+
+/**
+ * Degraded form, highest fidelity first
+ */
+export type DegradeTier = 'head-tail' | 'summary' | 'stub';
+
+/** All tiers, in the order they are tried */
+export const DEGRADE_TIERS: readonly DegradeTier[] = ['head-tail', 'summary', 'stub'];
+
+export interface DegradeOptions {
+  /** Entries smaller than this are dropped rather than degraded (default: 200) */
+  minTokens?: number;
+  /** Tiers to try, in order (default: all) */
+  tiers?: readonly DegradeTier[];
+}
+
+/** Lines kept at each end before head/tail is no better than a summary */
+const MIN_HEAD_TAIL_LINES = 5;
+
+/** Characters of the original kept in a stub */
+const STUB_PREVIEW_CHARS = 120;
+
+/**
+ * Degrade an entry to the highest-fidelity form that fits a token limit.
+ *
+ * @param entry - Entry that does not fit whole
+ * @param maxTokens - Tokens left for it
+ * @param options - Size threshold and tiers
+ * @returns Degraded entry with the same id, or null if no form fits
+ */
+export function degradeEntry(
+  entry: MemoryEntry,
+  maxTokens: number,
+  options: DegradeOptions = {},
+): MemoryEntry | null {
+  const { minTokens = 200, tiers = DEGRADE_TIERS } = options;
+  const originalTokens = estimateTokens(entry.content);
+  if (originalTokens < minTokens || maxTokens <= 0) return null;
+
+  for (const tier of tiers) {
+    const content = degradedContent(entry, tier, maxTokens, originalTokens);
+    if (content !== null && estimateTokens(content) <= maxTokens) {
+      return {
+        ...entry,
+        content,
+        hash: hashContent(content),
+        tags: [...entry.tags, 'degraded'],
+        metadata: { ...entry.metadata, degraded: tier, originalTokens },
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether an entry's content was replaced by a degraded form.
+ */
+export function isDegraded(entry: MemoryEntry): boolean {
+  return typeof entry.metadata?.['degraded'] === 'string';
+}
+
+function degradedContent(
+  entry: MemoryEntry,
+  tier: DegradeTier,
+  maxTokens: number,
+  originalTokens: number,
+): string | null {
+  switch (tier) {
+    case 'head-tail':
+      return headTail(entry, maxTokens);
+    case 'summary': {
+      const summary = builtinSummary(entry.content);
+      return summary
+        ? `[cortex] Summary of ~${originalTokens} tokens (recall id ${entry.id}):\n${summary}`
+        : null;
+    }
+    case 'stub':
+      return stubContent(entry);
+  }
+}
+
+/**
+ * Keep as many lines from each end as fit, with a marker for the middle.
+ */
+function headTail(entry: MemoryEntry, maxTokens: number): string | null {
+  const lines = entry.content.split('\n');
+  const build = (keep: number): string => {
+    const elided = lines.slice(keep, lines.length - keep);
+    const marker = `… [cortex] ${elided.length} lines elided (~${estimateTokens(elided.join('\n'))} tokens, recall id ${entry.id}) …`;
+    return [...lines.slice(0, keep), marker, ...lines.slice(lines.length - keep)].join('\n');
+  };
+
+  // Largest per-end line count that fits, by binary search
+  let low = MIN_HEAD_TAIL_LINES;
+  let high = Math.floor((lines.length - 1) / 2);
+  if (high < low || estimateTokens(build(low)) > maxTokens) return null;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(build(mid)) <= maxTokens) low = mid;
+    else high = mid - 1;
+  }
+  return build(low);
+}
+
+/**
+ * Summary from the built-in summarizers, or null if none recognizes the text.
+ */
+function builtinSummary(text: string): string | null {
+  const tests = parseTestOutput(text);
+  if (tests) return formatTestSummary(tests);
+
+  const diagnostics = parseDiagnostics(text);
+  if (diagnostics.length > 0) return formatDiagnostics(diagnostics);
+
+  return summarizeJSON(text) ?? summarizeLog(text);
+}
+
+/**
+ * One-line stub for an entry: what it was, its size and its first line.
+ *
+ * @param entry - Entry being pruned
+ * @param recall - Name the entry's recall id (only when the original is stored)
+ * @returns Stub text
+ */
+export function stubContent(entry: MemoryEntry, recall = true): string {
+  const originalTokens = estimateTokens(entry.content);
+  const toolName = entry.metadata?.['toolName'];
+  const label =
+    typeof toolName === 'string' && toolName
+      ? `${toolName} result`
+      : entry.metadata?.['type'] === 'result'
+        ? 'Tool result'
+        : 'Entry';
+  const firstLine = entry.content.trim().split('\n')[0] ?? '';
+  const preview =
+    firstLine.length > STUB_PREVIEW_CHARS
+      ? `${firstLine.slice(0, STUB_PREVIEW_CHARS)}…`
+      : firstLine;
+  const size = recall
+    ? `~${originalTokens} tokens, recall id ${entry.id}`
+    : `~${originalTokens} tokens`;
+  return `[cortex] ${label} pruned (${size}): ${preview}`;
+}
@@ -0,0 +1,147 @@
+/**
+ * Explain - Why each entry was kept or dropped
+ *
+ * When an important entry goes missing from the optimized context, the
+ * per-entry `details` (score, state, tokens) do not say why. Explain mode
+ * breaks each entry's priority into its components (TF-IDF, decay,
+ * recency, state multiplier, focus), records which BTSP pattern fired,
+ * and places the entry against the pruner's cutoff, so config can be
+ * tuned with evidence.
+ */
+
+import type {
+  EntryDecision,
+  EntryExplanation,
+  OptimizationExplanation,
+  PruningCutoff,
+} from '../types/adapter.js';
+import type { MemoryEntry } from '../types/memory.js';
+import type { PriorityBreakdown } from '../types/pruner.js';
+import { estimateTokens } from '../utils/tokenizer.js';
+import { isDegraded } from './entry-degrader.js';
+import { groupToolPairs } from './tool-pairs.js';
+
+export interface ExplainInput {
+  /** Every input entry, in context order */
+  entries: MemoryEntry[];
+  /** Entries in the optimized context (degraded or stubbed copies keep their id) */
+  kept: MemoryEntry[];
+  /** Priority components of an entry, as the pruner computed them */
+  breakdown: (entry: MemoryEntry) => PriorityBreakdown;
+  /** BTSP pattern an entry matched, or null */
+  btspPattern: (entry: MemoryEntry) => string | null;
+  /** How the pruner selects entries */
+  cutoff: Pick<PruningCutoff, 'mode' | 'budget' | 'threshold'>;
+  /** Entries kept regardless of priority, by id, with the reason */
+  pinned?: Map<string, string>;
+}
+
+/** Characters of an entry's first line shown in explanations */
+const PREVIEW_CHARS = 60;
+
+/**
+ * Explain the outcome of one optimization.
+ *
+ * @param input - Entries before and after pruning, and how they were ranked
+ * @returns Cutoff and one explanation per entry, in context order
+ */
+export function explainPruning(input: ExplainInput): OptimizationExplanation {
+  const { entries, pinned = new Map<string, string>() } = input;
+  const keptById = new Map(input.kept.map((e) => [e.id, e]));
+  const breakdowns = new Map(entries.map((e) => [e, input.breakdown(e)]));
+  const priorityOf = (e: MemoryEntry) => breakdowns.get(e)?.priority ?? 0;
+
+  // Tool pairs are ranked by their best member; a BTSP member makes the pair BTSP
+  const unitPriority = new Map<MemoryEntry, number>();
+  const btspUnit = new Set<MemoryEntry>();
+  for (const members of groupToolPairs(entries)) {
+    const best = Math.max(...members.map(priorityOf));
+    const hasBTSP = members.some((e) => e.isBTSP);
+    for (const e of members) {
+      unitPriority.set(e, best);
+      if (hasBTSP) btspUnit.add(e);
+    }
+  }
+  const budgetMode = input.cutoff.mode === 'budget';
+
+  const decisions = new Map(entries.map((e) => [e, decide(keptById.get(e.id))]));
+
+  // Lowest-ranked unit the pruner still kept whole
+  const ranked = entries.filter(
+    (e) => decisions.get(e) === 'kept' && !(budgetMode && btspUnit.has(e)) && !pinned.has(e.id),
+  );
+  const cutoff: PruningCutoff = {
+    ...input.cutoff,
+    tokensUsed: input.kept.reduce((sum, e) => sum + estimateTokens(e.content), 0),
+    priority: ranked.length > 0 ? Math.min(...ranked.map((e) => unitPriority.get(e) ?? 0)) : null,
+  };
+
+  const explained = entries.map((entry): EntryExplanation => {
+    const decision = decisions.get(entry) ?? 'dropped';
+    const breakdown = breakdowns.get(entry) as PriorityBreakdown;
+    const btspPattern = entry.isBTSP ? (input.btspPattern(entry) ?? undefined) : undefined;
+    const firstLine = entry.content.trim().split('\n')[0] ?? '';
+
+    return {
+      id: entry.id,
+      preview:
+        firstLine.length > PREVIEW_CHARS ? `${firstLine.slice(0, PREVIEW_CHARS)}…` : firstLine,
+      tokens: estimateTokens(entry.content),
+      state: entry.state,
+      isBTSP: entry.isBTSP,
+      ...(btspPattern ? { btspPattern } : {}),
+      ...breakdown,
+      decision,
+      reason: reasonFor(entry, decision, {
+        kept: keptById.get(entry.id),
+        pinned: pinned.get(entry.id),
+        withPair: breakdown.priority < (unitPriority.get(entry) ?? 0),
+        btspPair: budgetMode && btspUnit.has(entry) && !entry.isBTSP,
+        cutoff,
+      }),
+    };
+  });
+
+  return { cutoff, entries: explained };
+}
+
+function decide(kept: MemoryEntry | undefined): EntryDecision {
+  if (!kept) return 'dropped';
+  if (isDegraded(kept)) return 'degraded';
+  if (kept.metadata?.['stubbed'] === true) return 'stubbed';
+  return 'kept';
+}
+
+function reasonFor(
+  entry: MemoryEntry,
+  decision: EntryDecision,
+  context: {
+    kept: MemoryEntry | undefined;
+    pinned: string | undefined;
+    withPair: boolean;
+    btspPair: boolean;
+    cutoff: PruningCutoff;
+  },
+): string {
+  const { cutoff } = context;
+  const budgetMode = cutoff.mode === 'budget';
+
+  switch (decision) {
+    case 'degraded':
+      return `did not fit whole; kept as ${String(context.kept?.metadata['degraded'])}`;
+    case 'stubbed':
+      return 'result replaced by a stub to keep its tool call';
+    case 'kept':
+      if (context.pinned) return context.pinned;
+      if (entry.isBTSP && budgetMode) return 'BTSP: kept ahead of the budget fill';
+      if (context.btspPair) return 'kept with its BTSP tool pair';
+      if (context.withPair) return 'kept with its tool pair';
+      return budgetMode ? 'fits the budget' : `in the top ${cutoff.threshold}%`;
+    case 'dropped':
+      if ((entry.isBTSP || context.btspPair) && budgetMode) {
+        return 'BTSP, but over the 80% BTSP share of the budget';
+      }
+      if (!budgetMode && entry.state === 'silent') return 'silent state';
+      return budgetMode ? 'did not fit the budget' : `outside the top ${cutoff.threshold}%`;
+  }
+}
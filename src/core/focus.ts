@@ -0,0 +1,171 @@
+/**
+ * Focus - Rank context by relevance to the task at hand
+ *
+ * TF-IDF only measures how distinctive an entry is within the context.
+ * A focus query ("login redirect bug") adds the current task: entries
+ * that mention its terms, including inflections and identifier parts
+ * (`handleRedirect` matches "redirect"), get a priority boost. Files and
+ * symbols the query names are expanded through the dependency graph, so
+ * entries about their imports and callers are boosted too.
+ */
+
+import { basename, extname } from 'node:path';
+import type { MemoryEntry } from '../types/memory.js';
+import type { PriorityBoost } from '../types/pruner.js';
+import { extractKeyTerms, isCodeLike, termWeight } from '../utils/key-terms.js';
+import { createDependencyGraph, type DependencyNode } from './dependency-graph.js';
+
+export interface FocusOptions {
+  /** Dependency graph nodes (by file path) used to expand mentioned files and symbols */
+  graph?: Map<string, DependencyNode>;
+  /** Priority multiplier for a fully relevant entry (default: 3) */
+  maxBoost?: number;
+}
+
+export interface Focus {
+  /** Query terms, most distinctive first */
+  terms: string[];
+  /** Files reached through the dependency graph, with their weight (0-1) */
+  files: Map<string, number>;
+  /** Relevance of an entry to the query (0-1) */
+  relevance(entry: MemoryEntry): number;
+  /** Priority multiplier for an entry (1 when unrelated) */
+  boost: PriorityBoost;
+}
+
+/** Query terms kept */
+const MAX_TERMS = 12;
+
+/** Related files kept, seeds first */
+const MAX_FILES = 50;
+
+/** Weight of files one import away from a file the query names */
+const NEIGHBOR_WEIGHT = 0.5;
+
+/**
+ * Create a focus from a task description.
+ *
+ * @param query - Task description, e.g. "login redirect bug"
+ * @param options - Dependency graph and boost strength
+ * @returns Focus scoring entries against the query
+ */
+export function createFocus(query: string, options: FocusOptions = {}): Focus {
+  const { maxBoost = 3 } = options;
+  const terms = extractKeyTerms(query, MAX_TERMS);
+  const stems = terms.map((t) => (isCodeLike(t) ? null : stem(t.toLowerCase())));
+  const totalWeight = terms.reduce((sum, t) => sum + termWeight(t), 0);
+  const files = options.graph ? relatedFiles(terms, options.graph) : new Map<string, number>();
+
+  // Names an entry may use for each related file: path, file name, exported symbols
+  const fileNames = [...files].map(([filePath, weight]) => ({
+    weight,
+    names: [filePath, basename(filePath)],
+    symbols: (options.graph?.get(filePath)?.exports ?? [])
+      .filter((s) => s !== 'default' && /^\w{4,}$/.test(s))
+      .map((s) => new RegExp(`\\b${s}\\b`)),
+  }));
+
+  function relevance(entry: MemoryEntry): number {
+    if (terms.length === 0) return 0;
+    const lower = entry.content.toLowerCase();
+    const words = new Set(wordStems(entry.content));
+
+    let matched = 0;
+    terms.forEach((term, i) => {
+      const termStem = stems[i];
+      const hit = termStem ? words.has(termStem) : lower.includes(term.toLowerCase());
+      if (hit) matched += termWeight(term);
+    });
+    let score = totalWeight > 0 ? matched / totalWeight : 0;
+
+    for (const file of fileNames) {
+      if (file.weight <= score) continue;
+      if (
+        file.names.some((n) => entry.content.includes(n)) ||
+        file.symbols.some((re) => re.test(entry.content))
+      ) {
+        score = file.weight;
+      }
+    }
+    return score;
+  }
+
+  return {
+    terms,
+    files,
+    relevance,
+    boost: (entry) => 1 + (maxBoost - 1) * relevance(entry),
+  };
+}
+
+/**
+ * Create a focus with the dependency graph of a project. The graph is
+ * best-effort: if it cannot be built, only the query terms are used.
+ *
+ * @param query - Task description
+ * @param projectRoot - Project directory (default: process.cwd())
+ * @returns Focus scoring entries against the query
+ */
+export async function loadFocus(query: string, projectRoot = process.cwd()): Promise<Focus> {
+  let graph: Map<string, DependencyNode> | undefined;
+  if (extractKeyTerms(query, MAX_TERMS).length > 0) {
+    try {
+      graph = await createDependencyGraph({ projectRoot }).build();
+    } catch {
+      // Lexical focus only
+    }
+  }
+  return createFocus(query, { graph });
+}
+
+/**
+ * Files the query names (by path, file name or exported symbol), plus
+ * the files they import and the files importing them.
+ */
+function relatedFiles(terms: string[], graph: Map<string, DependencyNode>): Map<string, number> {
+  const lowerTerms = terms.map((t) => t.toLowerCase());
+  const files = new Map<string, number>();
+
+  for (const [filePath, node] of graph) {
+    const path = filePath.toLowerCase();
+    const name = basename(path, extname(path));
+    const named = lowerTerms.some(
+      (t) => t === name || (/[./]/.test(t) && (path === t || path.endsWith(`/${t}`))),
+    );
+    const exported = node.exports.some((s) => s !== 'default' && terms.includes(s));
+    if (named || exported) files.set(filePath, 1);
+  }
+
+  for (const filePath of [...files.keys()]) {
+    const node = graph.get(filePath);
+    const neighbors = [...(node?.imports.map((i) => i.target) ?? []), ...(node?.callers ?? [])];
+    for (const neighbor of neighbors) {
+      if (!files.has(neighbor)) files.set(neighbor, NEIGHBOR_WEIGHT);
+    }
+  }
+
+  return new Map([...files].sort((a, b) => b[1] - a[1]).slice(0, MAX_FILES));
+}
+
+/**
+ * Stems of the words in a text, with identifiers split into their parts.
+ */
+function wordStems(text: string): string[] {
+  const words = text.match(/[A-Za-z][A-Za-z0-9]*/g) ?? [];
+  return words.flatMap((word) =>
+    word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(' ')
+      .map(stem),
+  );
+}
+
+/**
+ * Crude English stem: "redirects", "redirected" and "redirecting" all
+ * become "redirect".
+ */
+function stem(word: string): string {
+  const stripped = word.replace(/(ing|ed|es|s)$/, '');
+  return stripped.length >= 3 ? stripped : word;
+}
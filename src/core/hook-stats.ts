@@ -0,0 +1,145 @@
+/**
+ * Hook Stats - Per-invocation hook telemetry in memory.db
+ *
+ * Every hook run records the event, tool, tokens it saw, tokens it
+ * injected and its latency. Hooks open the project database directly
+ * (best effort); KVMemory reads the rows back so `cortex stats` and the
+ * dashboard can break hook activity down per tool.
+ */
+
+import { existsSync } from 'node:fs';
+import Database from 'better-sqlite3';
+
+/**
+ * One hook invocation.
+ */
+export interface HookInvocation {
+  id: number;
+  timestamp: number;
+  /** Hook event in Claude Code's names (e.g. PostToolUse) */
+  event: string;
+  /** Tool the event was about, null for non-tool events */
+  tool_name: string | null;
+  /** Tokens the hook was given (tool output, prompt, transcript) */
+  input_tokens: number;
+  /** Tokens the hook injected or wrote back */
+  summary_tokens: number;
+  latency_ms: number;
+  session_id: string | null;
+  /** Agent CLI that ran the hook */
+  agent: string;
+}
+
+/**
+ * Hook activity aggregated per event and tool.
+ */
+export interface HookToolStats {
+  event: string;
+  tool_name: string | null;
+  invocations: number;
+  input_tokens: number;
+  summary_tokens: number;
+  avg_latency_ms: number;
+  max_latency_ms: number;
+}
+
+/** Rows kept; older invocations are dropped */
+const MAX_ROWS = 20000;
+
+/**
+ * Create the hook_invocations table if it does not exist.
+ */
+export function ensureHookStatsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS hook_invocations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp INTEGER NOT NULL,
+      event TEXT NOT NULL,
+      tool_name TEXT,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      summary_tokens INTEGER NOT NULL DEFAULT 0,
+      latency_ms INTEGER NOT NULL DEFAULT 0,
+      session_id TEXT,
+      agent TEXT NOT NULL DEFAULT 'claude-code'
+    );
+    CREATE INDEX IF NOT EXISTS idx_hook_invocations_timestamp ON hook_invocations(timestamp DESC);
+  `);
+}
+
+/**
+ * Add one invocation to the hook_invocations table.
+ *
+ * @param db - Open database (table must exist)
+ * @param invocation - Invocation to record
+ */
+export function addHookInvocation(
+  db: Database.Database,
+  invocation: Omit<HookInvocation, 'id'>,
+): void {
+  db.prepare(`
+    INSERT INTO hook_invocations
+      (timestamp, event, tool_name, input_tokens, summary_tokens, latency_ms, session_id, agent)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    invocation.timestamp,
+    invocation.event,
+    invocation.tool_name,
+    Math.round(invocation.input_tokens),
+    Math.round(invocation.summary_tokens),
+    Math.round(invocation.latency_ms),
+    invocation.session_id,
+    invocation.agent,
+  );
+
+  // Hooks fire on every tool call; keep the table bounded
+  db.prepare(
+    'DELETE FROM hook_invocations WHERE id <= (SELECT MAX(id) FROM hook_invocations) - ?',
+  ).run(MAX_ROWS);
+}
+
+/**
+ * Aggregate invocations per event and tool, most input tokens first.
+ */
+export function readHookToolStats(db: Database.Database): HookToolStats[] {
+  return db
+    .prepare(`
+      SELECT
+        event,
+        tool_name,
+        COUNT(*) AS invocations,
+        SUM(input_tokens) AS input_tokens,
+        SUM(summary_tokens) AS summary_tokens,
+        ROUND(AVG(latency_ms)) AS avg_latency_ms,
+        MAX(latency_ms) AS max_latency_ms
+      FROM hook_invocations
+      GROUP BY event, tool_name
+      ORDER BY input_tokens DESC, invocations DESC, event ASC
+    `)
+    .all() as HookToolStats[];
+}
+
+/**
+ * Record a hook invocation in a project database, if it exists.
+ * Never throws: telemetry is informational and must not break hooks.
+ *
+ * @param dbPath - Path to .cortex/memory.db
+ * @param invocation - Invocation to record
+ */
+export function recordHookInvocationInDB(
+  dbPath: string,
+  invocation: Omit<HookInvocation, 'id'>,
+): void {
+  if (!existsSync(dbPath)) return;
+
+  let db: Database.Database | null = null;
+  try {
+    db = new Database(dbPath);
+    db.pragma('busy_timeout = 1000');
+    ensureHookStatsTable(db);
+    addHookInvocation(db, invocation);
+  } catch {
+    // Best effort
+  } finally {
+    db?.close();
+  }
+}
@@ -7,6 +7,21 @@
 import { copyFileSync, existsSync } from 'node:fs';
 import Database from 'better-sqlite3';
 import type { MemoryEntry, MemoryQueryFilters } from '../types/memory.js';
+import { hashContent } from '../utils/hash.js';
+import { redactSecrets } from '../utils/redactor.js';
+import {
+  addHookInvocation,
+  ensureHookStatsTable,
+  type HookInvocation,
+  type HookToolStats,
+  readHookToolStats,
+} from './hook-stats.js';
+import {
+  addRedactionStats,
+  ensureRedactionStatsTable,
+  type RedactionStats,
+  readRedactionStats,
+} from './redaction-stats.js';
 
 /**
  * Optimization statistics record.
@@ -32,7 +47,7 @@ export interface FTSResult {
 }
 
 export interface KVMemory {
-  /** Store a memory entry */
+  /** Store a memory entry (secrets in its content, tags and metadata are redacted first) */
   put(entry: MemoryEntry): Promise<void>;
 
   /** Retrieve a memory entry by ID */
@@ -62,10 +77,49 @@ export interface KVMemory {
   /** Clear all optimization statistics */
   clearOptimizationStats(): Promise<void>;
 
+  /** Add redaction counts (secrets removed outside of put, e.g. relay output) */
+  recordRedactions(counts: Record<string, number>): Promise<void>;
+
+  /** Get redaction counts per detector */
+  getRedactionStats(): Promise<RedactionStats[]>;
+
+  /** Clear redaction counts */
+  clearRedactionStats(): Promise<void>;
+
+  /** Record one hook invocation (hooks themselves write via recordHookInvocationInDB) */
+  recordHookInvocation(invocation: Omit<HookInvocation, 'id'>): Promise<void>;
+
+  /** Get hook activity aggregated per event and tool */
+  getHookStats(): Promise<HookToolStats[]>;
+
+  /** Clear hook invocations */
+  clearHookStats(): Promise<void>;
+
   /** Full-text search using FTS5 */
   searchFTS(query: string, limit?: number): Promise<FTSResult[]>;
 }
 
+/**
+ * Redact secrets from every string in a tag or metadata value, adding
+ * replacements to counts.
+ */
+function redactValue(value: unknown, counts: Record<string, number>): unknown {
+  if (typeof value === 'string') {
+    const redacted = redactSecrets(value);
+    for (const [detector, count] of Object.entries(redacted.counts)) {
+      counts[detector] = (counts[detector] ?? 0) + count;
+    }
+    return redacted.text;
+  }
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, counts));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, counts)]),
+    );
+  }
+  return value;
+}
+
 /**
  * Create a timestamped backup of the database
  * @param dbPath - Path to database file
@@ -177,6 +231,12 @@ export async function createKVMemory(dbPath: string): Promise<KVMemory> {
     );
   `);
 
+  // Create redaction_stats table
+  ensureRedactionStatsTable(db);
+
+  // Create hook_invocations table
+  ensureHookStatsTable(db);
+
   // Create indexes
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_entries_state ON entries_index(state);
@@ -252,10 +312,17 @@ export async function createKVMemory(dbPath: string): Promise<KVMemory> {
 
   return {
     async put(entry: MemoryEntry): Promise<void> {
+      const redacted = redactSecrets(entry.content);
+      const counts = { ...redacted.counts };
+      const tags = redactValue(entry.tags, counts);
+      const metadata = redactValue(entry.metadata, counts);
+      // The hash must not be derived from a secret that is no longer stored
+      const hash = redacted.text === entry.content ? entry.hash : hashContent(redacted.text);
+
       const transaction = db.transaction(() => {
         putIndexStmt.run(
           entry.id,
-          entry.hash,
+          hash,
           entry.timestamp,
           entry.score,
           entry.ttl,
@@ -264,12 +331,9 @@ export async function createKVMemory(dbPath: string): Promise<KVMemory> {
           entry.isBTSP ? 1 : 0,
         );
 
-        putValueStmt.run(
-          entry.id,
-          entry.content,
-          JSON.stringify(entry.tags),
-          JSON.stringify(entry.metadata),
-        );
+        putValueStmt.run(entry.id, redacted.text, JSON.stringify(tags), JSON.stringify(metadata));
+
+        addRedactionStats(db, counts);
       });
 
       transaction();
@@ -491,6 +555,30 @@ export async function createKVMemory(dbPath: string): Promise<KVMemory> {
       db.exec('DELETE FROM optimization_stats');
     },
 
+    async recordRedactions(counts: Record<string, number>): Promise<void> {
+      addRedactionStats(db, counts);
+    },
+
+    async getRedactionStats(): Promise<RedactionStats[]> {
+      return readRedactionStats(db);
+    },
+
+    async clearRedactionStats(): Promise<void> {
+      db.exec('DELETE FROM redaction_stats');
+    },
+
+    async recordHookInvocation(invocation: Omit<HookInvocation, 'id'>): Promise<void> {
+      addHookInvocation(db, invocation);
+    },
+
+    async getHookStats(): Promise<HookToolStats[]> {
+      return readHookToolStats(db);
+    },
+
+    async clearHookStats(): Promise<void> {
+      db.exec('DELETE FROM hook_invocations');
+    },
+
     async searchFTS(query: string, limit = 10): Promise<FTSResult[]> {
       if (!query || query.trim().length === 0) return [];
 
@@ -0,0 +1,89 @@
+/**
+ * Redaction Stats - Per-detector redaction counters in memory.db
+ *
+ * KVMemory records redactions from stored entries; hooks and relay open
+ * the project database directly (best effort) so `cortex stats` can
+ * report every secret that was kept out of context and storage.
+ */
+
+import { existsSync } from 'node:fs';
+import Database from 'better-sqlite3';
+
+/**
+ * Redaction counter for one detector.
+ */
+export interface RedactionStats {
+  detector: string;
+  count: number;
+  last_seen: number;
+}
+
+/**
+ * Create the redaction_stats table if it does not exist.
+ */
+export function ensureRedactionStatsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS redaction_stats (
+      detector TEXT PRIMARY KEY NOT NULL,
+      count INTEGER NOT NULL DEFAULT 0,
+      last_seen INTEGER NOT NULL
+    );
+  `);
+}
+
+/**
+ * Add per-detector counts to the redaction_stats table.
+ *
+ * @param db - Open database (table must exist)
+ * @param counts - Redactions per detector
+ * @param timestamp - Time of the redaction (ms)
+ */
+export function addRedactionStats(
+  db: Database.Database,
+  counts: Record<string, number>,
+  timestamp: number = Date.now(),
+): void {
+  const stmt = db.prepare(`
+    INSERT INTO redaction_stats (detector, count, last_seen) VALUES (?, ?, ?)
+    ON CONFLICT(detector) DO UPDATE SET
+      count = count + excluded.count,
+      last_seen = excluded.last_seen
+  `);
+  for (const [detector, count] of Object.entries(counts)) {
+    if (count > 0) stmt.run(detector, count, timestamp);
+  }
+}
+
+/**
+ * Read all redaction counters, most frequent first.
+ */
+export function readRedactionStats(db: Database.Database): RedactionStats[] {
+  return db
+    .prepare(
+      'SELECT detector, count, last_seen FROM redaction_stats ORDER BY count DESC, detector ASC',
+    )
+    .all() as RedactionStats[];
+}
+
+/**
+ * Record redaction counts in a project database, if it exists.
+ * Never throws: counters are informational and must not break hooks.
+ *
+ * @param dbPath - Path to .cortex/memory.db
+ * @param counts - Redactions per detector
+ */
+export function recordRedactionsInDB(dbPath: string, counts: Record<string, number>): void {
+  if (Object.keys(counts).length === 0 || !existsSync(dbPath)) return;
+
+  let db: Database.Database | null = null;
+  try {
+    db = new Database(dbPath);
+    db.pragma('busy_timeout = 1000');
+    ensureRedactionStatsTable(db);
+    addRedactionStats(db, counts);
+  } catch {
+    // Best effort
+  } finally {
+    db?.close();
+  }
+}
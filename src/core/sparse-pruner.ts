@@ -2,13 +2,16 @@
  * Sparse Pruner - Relevance filtering
  *
  * Keeps only the top 2-5% most relevant context entries by TF-IDF score.
- * Low-scoring entries are pruned to reduce token usage.
+ * Low-scoring entries are pruned to reduce token usage. A tool call and
+ * its results are never split: a kept result keeps its call, and a kept
+ * call without its results gets stubs in their place.
  */
 
 import type { MemoryEntry } from '../types/memory.js';
-import type { PruneResult } from '../types/pruner.js';
+import type { PriorityBoost, PruneResult } from '../types/pruner.js';
 import { createTFIDFIndex, scoreTFIDF } from '../utils/tfidf.js';
 import { estimateTokens } from '../utils/tokenizer.js';
+import { groupToolPairs, isToolCall, isToolResult, stubToolResult } from './tool-pairs.js';
 
 export interface SparsePrunerConfig {
   /** Percentage threshold for pruning (e.g., 5 = keep top 5%) */
@@ -19,9 +22,10 @@ export interface SparsePruner {
   /**
    * Prune entries to keep only top N% by relevance score
    * @param entries - Memory entries to prune
+   * @param boost - Optional priority multiplier (e.g. focus relevance)
    * @returns Result with kept/removed entries and token counts
    */
-  prune(entries: MemoryEntry[]): PruneResult;
+  prune(entries: MemoryEntry[], boost?: PriorityBoost): PruneResult;
 
   /**
    * Calculate TF-IDF relevance score for a single entry
@@ -44,7 +48,7 @@ export function createSparsePruner(config: SparsePrunerConfig): SparsePruner {
     return scoreTFIDF(entry, createTFIDFIndex(allEntries));
   }
 
-  function prune(entries: MemoryEntry[]): PruneResult {
+  function prune(entries: MemoryEntry[], boost?: PriorityBoost): PruneResult {
     if (entries.length === 0) {
       return {
         kept: [],
@@ -63,7 +67,8 @@ export function createSparsePruner(config: SparsePrunerConfig): SparsePruner {
     // Score all entries using pre-computed index
     const scored = entries.map((entry) => ({
       entry,
-      score: scoreTFIDF(entry, tfidfIndex),
+      // Untyped callers have passed other values here; only functions boost
+      score: scoreTFIDF(entry, tfidfIndex) * (typeof boost === 'function' ? boost(entry) : 1),
     }));
 
     // Sort by score descending
@@ -71,8 +76,26 @@ export function createSparsePruner(config: SparsePrunerConfig): SparsePruner {
 
     // Keep top N% (minimum 1 entry)
     const keepCount = Math.max(1, Math.ceil(entries.length * (threshold / 100)));
-    const kept = scored.slice(0, keepCount).map((s) => s.entry);
-    const removed = scored.slice(keepCount).map((s) => s.entry);
+    const selected = new Set(scored.slice(0, keepCount).map((s) => s.entry));
+
+    // Settle tool call/result pairs as units, in score order of their best entry
+    const rank = new Map(scored.map((s, i) => [s.entry, i]));
+    const best = (members: MemoryEntry[]) => Math.min(...members.map((e) => rank.get(e) ?? 0));
+    const units = groupToolPairs(entries).sort((a, b) => best(a) - best(b));
+
+    const kept: MemoryEntry[] = [];
+    const removed: MemoryEntry[] = [];
+    for (const members of units) {
+      const chosen = members.filter((e) => selected.has(e));
+      if (chosen.length === 0) {
+        removed.push(...members);
+      } else if (chosen.some(isToolResult) || !chosen.some(isToolCall)) {
+        // A result needs its call; unpaired entries are kept as-is
+        kept.push(...members);
+      } else {
+        kept.push(...members.map((e) => (isToolResult(e) ? stubToolResult(e) : e)));
+      }
+    }
 
     // Calculate pruned token count
     const prunedTokens = kept.reduce((sum, e) => sum + estimateTokens(e.content), 0);
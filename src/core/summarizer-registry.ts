@@ -0,0 +1,306 @@
+/**
+ * Summarizer Registry - Project-specific summaries for tool output
+ *
+ * Summarizers match on tool name plus a command/path pattern and turn
+ * noisy output (terraform plan, docker build, custom scripts) into a
+ * short summary. Projects add them in `.cortex/summarizers/` as JS
+ * modules or as YAML keep/drop/collapse regex rules. Shared by
+ * `cortex relay` and the PostToolUse hook.
+ */
+
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { load as parseYAML } from 'js-yaml';
+
+export interface SummarizerInput {
+  /** Tool that produced the output (Bash, Read, Grep, ...) */
+  toolName: string;
+  /** Command (Bash), file path (Read) or search pattern (Grep/Glob) */
+  target: string;
+  /** Raw tool output */
+  text: string;
+  /** Project directory */
+  cwd: string;
+}
+
+export interface Summarizer {
+  /** Name shown in summaries and logs */
+  name: string;
+  /** Tool name regex, anchored like a Claude Code matcher (e.g. "Bash" or "Bash|Read") */
+  tool: string;
+  /** Pattern tested against the command or path; omit to match every call of the tool */
+  match?: RegExp | string;
+  /** Return a summary, or null/empty to let the next summarizer try */
+  summarize(input: SummarizerInput): string | null | undefined | Promise<string | null | undefined>;
+}
+
+export interface SummarizerResult {
+  /** Name of the summarizer that produced the summary */
+  name: string;
+  summary: string;
+}
+
+/**
+ * Declarative summarizer (YAML form)
+ */
+export interface SummarizerRule {
+  name: string;
+  /** Tool name regex (default: Bash) */
+  tool?: string;
+  /** Regex tested against the command or path */
+  match?: string;
+  /** If set, only lines matching one of these are kept */
+  keep?: string[];
+  /** Lines matching any of these are removed */
+  drop?: string[];
+  /** Runs of consecutive lines matching the same pattern collapse to the first line */
+  collapse?: string[];
+  /** Maximum lines in the summary (default: 100) */
+  maxLines?: number;
+}
+
+export interface SummarizerRegistry {
+  /** Add a summarizer (later registrations are tried after earlier ones) */
+  register(summarizer: Summarizer): void;
+  /** All registered summarizers, in match order */
+  list(): Summarizer[];
+  /** Summarizers that apply to a tool call */
+  find(toolName: string, target: string): Summarizer[];
+  /** Run matching summarizers in order; first non-empty summary wins */
+  summarize(input: SummarizerInput): Promise<SummarizerResult | null>;
+}
+
+export interface SummarizerRegistryOptions {
+  /** Called when a summarizer throws (the next one is tried) */
+  onError?: (name: string, error: unknown) => void;
+}
+
+/** Directory (under `.cortex/`) holding project summarizers */
+export const SUMMARIZERS_DIR = 'summarizers';
+
+const MODULE_EXTENSIONS = new Set(['.js', '.mjs', '.cjs']);
+const YAML_EXTENSIONS = new Set(['.yaml', '.yml']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toRegExp(pattern: RegExp | string): RegExp {
+  return typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+}
+
+/**
+ * Create an empty summarizer registry.
+ */
+export function createSummarizerRegistry(
+  options: SummarizerRegistryOptions = {},
+): SummarizerRegistry {
+  const entries: Array<{ summarizer: Summarizer; tool: RegExp; match: RegExp | null }> = [];
+
+  function register(summarizer: Summarizer): void {
+    entries.push({
+      summarizer,
+      tool: new RegExp(`^(?:${summarizer.tool})$`),
+      match: summarizer.match === undefined ? null : toRegExp(summarizer.match),
+    });
+  }
+
+  function list(): Summarizer[] {
+    return entries.map((e) => e.summarizer);
+  }
+
+  function find(toolName: string, target: string): Summarizer[] {
+    return entries
+      .filter((e) => e.tool.test(toolName) && (e.match === null || e.match.test(target)))
+      .map((e) => e.summarizer);
+  }
+
+  async function summarize(input: SummarizerInput): Promise<SummarizerResult | null> {
+    for (const summarizer of find(input.toolName, input.target)) {
+      try {
+        const summary = await summarizer.summarize(input);
+        if (summary) {
+          return { name: summarizer.name, summary };
+        }
+      } catch (error) {
+        options.onError?.(summarizer.name, error);
+      }
+    }
+    return null;
+  }
+
+  return { register, list, find, summarize };
+}
+
+function compileAll(patterns: string[] | undefined): RegExp[] {
+  return (patterns ?? []).map((p) => new RegExp(p));
+}
+
+/**
+ * Build a summarizer from a keep/drop/collapse rule.
+ *
+ * @throws Error if the rule is malformed or a pattern is not a valid regex
+ */
+export function createRuleSummarizer(rule: SummarizerRule): Summarizer {
+  if (typeof rule.name !== 'string' || rule.name.length === 0) {
+    throw new Error('rule needs a name');
+  }
+  for (const field of ['keep', 'drop', 'collapse'] as const) {
+    const value = rule[field];
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every((v) => typeof v === 'string'))
+    ) {
+      throw new Error(`${rule.name}: ${field} must be a list of regex strings`);
+    }
+  }
+  if (rule.maxLines !== undefined && !(Number.isInteger(rule.maxLines) && rule.maxLines > 0)) {
+    throw new Error(`${rule.name}: maxLines must be a positive integer`);
+  }
+
+  const keep = compileAll(rule.keep);
+  const drop = compileAll(rule.drop);
+  const collapse = compileAll(rule.collapse);
+  const maxLines = rule.maxLines ?? 100;
+
+  return {
+    name: rule.name,
+    tool: rule.tool ?? 'Bash',
+    match: rule.match === undefined ? undefined : new RegExp(rule.match),
+    summarize({ text }) {
+      const lines = text.split('\n');
+      const out: string[] = [];
+      let run = null as { pattern: RegExp; extra: number } | null;
+
+      const closeRun = (): void => {
+        if (run && run.extra > 0) {
+          out.push(`  … ${run.extra} more similar line${run.extra === 1 ? '' : 's'}`);
+        }
+        run = null;
+      };
+
+      for (const line of lines) {
+        if (drop.some((re) => re.test(line))) continue;
+
+        const collapser = collapse.find((re) => re.test(line));
+        if (collapser) {
+          if (run?.pattern === collapser) {
+            run.extra++;
+            continue;
+          }
+          closeRun();
+          run = { pattern: collapser, extra: 0 };
+          out.push(line);
+          continue;
+        }
+
+        if (keep.length > 0 && !keep.some((re) => re.test(line))) continue;
+        closeRun();
+        out.push(line);
+      }
+      closeRun();
+
+      const body =
+        out.length > maxLines
+          ? [...out.slice(0, maxLines), `… ${out.length - maxLines} more lines`]
+          : out;
+      return `[cortex] ${rule.name} summary (${lines.length} lines):\n${body.join('\n')}`;
+    },
+  };
+}
+
+function isSummarizer(value: unknown): value is Summarizer {
+  return (
+    isRecord(value) &&
+    typeof value['name'] === 'string' &&
+    typeof value['tool'] === 'string' &&
+    typeof value['summarize'] === 'function'
+  );
+}
+
+async function loadModule(filePath: string): Promise<Summarizer[]> {
+  const mod = (await import(pathToFileURL(filePath).href)) as Record<string, unknown>;
+  const exported = mod['default'] ?? mod['summarizers'] ?? mod['summarizer'];
+  const list = Array.isArray(exported) ? exported : [exported];
+  for (const item of list) {
+    if (!isSummarizer(item)) {
+      throw new Error('default export must be a summarizer ({ name, tool, match?, summarize })');
+    }
+  }
+  return list as Summarizer[];
+}
+
+function loadRules(filePath: string): Summarizer[] {
+  const doc = parseYAML(readFileSync(filePath, 'utf-8'));
+  const rules = Array.isArray(doc)
+    ? doc
+    : isRecord(doc) && Array.isArray(doc['summarizers'])
+      ? doc['summarizers']
+      : [doc];
+  return rules.map((rule) => {
+    if (!isRecord(rule)) throw new Error('each rule must be a mapping');
+    return createRuleSummarizer(rule as unknown as SummarizerRule);
+  });
+}
+
+/**
+ * Load summarizers from a directory into a registry.
+ * Files load in name order; a broken file is reported and skipped.
+ *
+ * @param dir - Directory of `.js`/`.mjs`/`.cjs` modules and `.yaml`/`.yml` rule files
+ * @param registry - Registry to add to
+ * @returns Load errors, one per broken file
+ */
+export async function loadSummarizers(
+  dir: string,
+  registry: SummarizerRegistry,
+): Promise<string[]> {
+  const errors: string[] = [];
+
+  let files: string[];
+  try {
+    if (!statSync(dir).isDirectory()) return errors;
+    files = readdirSync(dir).sort();
+  } catch {
+    return errors;
+  }
+
+  for (const file of files) {
+    const ext = extname(file);
+    if (!MODULE_EXTENSIONS.has(ext) && !YAML_EXTENSIONS.has(ext)) continue;
+
+    const filePath = join(dir, file);
+    try {
+      const loaded = YAML_EXTENSIONS.has(ext) ? loadRules(filePath) : await loadModule(filePath);
+      // Compile every pattern before registering so a bad file adds nothing
+      const probe = createSummarizerRegistry();
+      for (const summarizer of loaded) {
+        probe.register(summarizer);
+      }
+      for (const summarizer of loaded) {
+        registry.register(summarizer);
+      }
+    } catch (error) {
+      errors.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Create a registry with the project's summarizers from `.cortex/summarizers/`.
+ *
+ * @param cwd - Project directory
+ * @param options - Registry options
+ * @returns Registry plus any load errors
+ */
+export async function loadProjectSummarizers(
+  cwd: string,
+  options: SummarizerRegistryOptions = {},
+): Promise<{ registry: SummarizerRegistry; errors: string[] }> {
+  const registry = createSummarizerRegistry(options);
+  const errors = await loadSummarizers(join(cwd, '.cortex', SUMMARIZERS_DIR), registry);
+  return { registry, errors };
+}
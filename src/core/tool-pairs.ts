@@ -0,0 +1,97 @@
+/**
+ * Tool Pairs - Keep tool calls and their results together during pruning
+ *
+ * Context parsers tag tool call and tool result entries with the ids of
+ * the tool_use blocks they contain (`metadata.toolUseIds`). A result
+ * without its call is confusing, and the Messages API rejects a
+ * tool_result whose tool_use is missing, so pruners treat each call and
+ * its results as one unit: keep both, drop both, or keep the call and
+ * replace the result with a short stub.
+ */
+
+import type { MemoryEntry } from '../types/memory.js';
+import { hashContent } from '../utils/hash.js';
+import { estimateTokens } from '../utils/tokenizer.js';
+import { stubContent } from './entry-degrader.js';
+
+/**
+ * Tool_use ids an entry calls or answers.
+ */
+export function toolUseIds(entry: MemoryEntry): string[] {
+  // Library callers may build entries without metadata
+  const ids = entry.metadata?.['toolUseIds'];
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+}
+
+/**
+ * Whether an entry is a tool call (as opposed to its result).
+ */
+export function isToolCall(entry: MemoryEntry): boolean {
+  return entry.metadata?.['type'] === 'tool';
+}
+
+/**
+ * Whether an entry is a tool result.
+ */
+export function isToolResult(entry: MemoryEntry): boolean {
+  return entry.metadata?.['type'] === 'result';
+}
+
+/**
+ * Group entries that share tool_use ids. Unpaired entries form their own
+ * group. Groups are ordered by their first entry and keep entries in
+ * input order, so a call always precedes its result.
+ *
+ * @param entries - Entries in context order
+ * @returns Groups of entries to keep or drop together
+ */
+export function groupToolPairs(entries: MemoryEntry[]): MemoryEntry[][] {
+  const groups: Array<MemoryEntry[] | null> = [];
+  const groupOfId = new Map<string, number>();
+
+  for (const entry of entries) {
+    const ids = toolUseIds(entry);
+    const linked = [
+      ...new Set(ids.map((id) => groupOfId.get(id)).filter((g) => g !== undefined)),
+    ].sort((a, b) => a - b);
+
+    const target = linked[0] ?? groups.length;
+    if (target === groups.length) groups.push([]);
+    const group = groups[target] as MemoryEntry[];
+
+    // An entry answering calls from several groups merges them
+    for (const other of linked.slice(1)) {
+      group.push(...(groups[other] as MemoryEntry[]));
+      groups[other] = null;
+      for (const [id, g] of groupOfId) {
+        if (g === other) groupOfId.set(id, target);
+      }
+    }
+    group.push(entry);
+    for (const id of ids) groupOfId.set(id, target);
+  }
+
+  const order = new Map(entries.map((e, i) => [e, i]));
+  return groups
+    .filter((g): g is MemoryEntry[] => g !== null)
+    .map((g) => g.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0)));
+}
+
+/**
+ * Replace a tool result with a short stub that keeps the call answered.
+ *
+ * @param entry - Tool result entry
+ * @param recall - Name the entry's recall id (only when the original is stored)
+ * @returns Stub entry with the same id and metadata
+ */
+export function stubToolResult(entry: MemoryEntry, recall = false): MemoryEntry {
+  const content = stubContent(entry, recall);
+
+  return {
+    ...entry,
+    content,
+    hash: hashContent(content),
+    tags: [...entry.tags, 'stub'],
+    metadata: { ...entry.metadata, stubbed: true, originalTokens: estimateTokens(entry.content) },
+  };
+}
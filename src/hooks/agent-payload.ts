@@ -0,0 +1,315 @@
+/**
+ * Agent Payloads - Translate hook input and output between agent CLIs
+ *
+ * Hook scripts are written against Claude Code's hook schema. Other
+ * agents (Gemini CLI, Codex CLI, Cursor) run the same scripts with
+ * `--agent <name>`: their stdin is normalized into Claude Code's shape
+ * here, and the hook's `hookSpecificOutput` is translated back into what
+ * that agent understands, so summarizers, recall and the session primer
+ * run unchanged whichever agent is in use.
+ */
+
+import type { HookAgent } from '../types/config.js';
+
+export const HOOK_AGENTS: readonly HookAgent[] = ['claude-code', 'gemini-cli', 'codex', 'cursor'];
+
+/** Hook input in Claude Code's schema (all fields optional) */
+export interface NormalizedHookInput {
+  session_id?: string;
+  transcript_path?: string;
+  cwd?: string;
+  hook_event_name?: string;
+  prompt?: string;
+  source?: string;
+  tool_name?: string;
+  tool_use_id?: string;
+  tool_input?: Record<string, unknown>;
+  tool_response?: unknown;
+}
+
+/** Hook output in Claude Code's `hookSpecificOutput` schema */
+export interface HookOutput {
+  hookEventName: string;
+  additionalContext?: string;
+  permissionDecision?: 'allow' | 'deny' | 'ask';
+  permissionDecisionReason?: string;
+  updatedInput?: Record<string, unknown>;
+}
+
+/** Gemini CLI event names by Claude Code event */
+const GEMINI_EVENTS: Record<string, string> = {
+  UserPromptSubmit: 'BeforeAgent',
+  PreToolUse: 'BeforeTool',
+  PostToolUse: 'AfterTool',
+  SessionStart: 'SessionStart',
+  Stop: 'AfterAgent',
+};
+
+/** Cursor events as Claude Code event plus the tool they stand for */
+const CURSOR_EVENTS: Record<string, { event: string; tool?: string }> = {
+  beforeSubmitPrompt: { event: 'UserPromptSubmit' },
+  beforeShellExecution: { event: 'PreToolUse', tool: 'Bash' },
+  beforeReadFile: { event: 'PreToolUse', tool: 'Read' },
+  afterShellExecution: { event: 'PostToolUse', tool: 'Bash' },
+  sessionStart: { event: 'SessionStart' },
+  stop: { event: 'Stop' },
+};
+
+/** Claude Code tool names by agent tool name */
+const AGENT_TOOLS: Record<HookAgent, Record<string, string>> = {
+  'claude-code': {},
+  'gemini-cli': {
+    run_shell_command: 'Bash',
+    read_file: 'Read',
+    search_file_content: 'Grep',
+    glob: 'Glob',
+    write_file: 'Write',
+    replace: 'Edit',
+    web_fetch: 'WebFetch',
+  },
+  codex: {
+    shell: 'Bash',
+    local_shell: 'Bash',
+    exec_command: 'Bash',
+  },
+  cursor: {},
+};
+
+/** Agents whose pre-tool hooks can rewrite the tool input */
+const REWRITE_AGENTS = new Set<HookAgent>(['claude-code', 'gemini-cli']);
+
+const SHELLS = new Set(['bash', 'sh', 'zsh', '/bin/bash', '/bin/sh', '/bin/zsh']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Agent the hook was installed for, from `--agent <name>` (default: claude-code).
+ */
+export function resolveHookAgent(argv: readonly string[] = process.argv): HookAgent {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? '';
+    const value = arg === '--agent' ? argv[i + 1] : arg.startsWith('--agent=') ? arg.slice(8) : '';
+    if (value && (HOOK_AGENTS as readonly string[]).includes(value)) return value as HookAgent;
+  }
+  return 'claude-code';
+}
+
+/**
+ * Agent tool names for a Claude Code tool name (unchanged when the agent has none).
+ */
+export function agentToolNames(agent: HookAgent, toolName: string): string[] {
+  const names = Object.entries(AGENT_TOOLS[agent])
+    .filter(([, claude]) => claude === toolName)
+    .map(([name]) => name);
+  return names.length > 0 ? names : [toolName];
+}
+
+/**
+ * Agent event name for a Claude Code hook event.
+ */
+export function agentEventName(agent: HookAgent, event: string, tool?: string): string {
+  if (agent === 'gemini-cli') return GEMINI_EVENTS[event] ?? event;
+  if (agent === 'cursor') {
+    const entry = Object.entries(CURSOR_EVENTS).find(
+      ([, mapped]) => mapped.event === event && mapped.tool === tool,
+    );
+    return entry ? entry[0] : event;
+  }
+  return event;
+}
+
+/**
+ * Shell command as a string; Codex passes argv arrays like `["bash", "-lc", "npm test"]`.
+ */
+function commandText(command: unknown): unknown {
+  if (!Array.isArray(command)) return command;
+  const parts = command.map(String);
+  if (parts.length === 3 && SHELLS.has(parts[0] ?? '') && /^-l?c$/.test(parts[1] ?? '')) {
+    return parts[2];
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Gemini tool responses carry `llmContent` as a string or a list of parts.
+ */
+function geminiResponseText(response: unknown): string {
+  if (!isRecord(response)) return typeof response === 'string' ? response : '';
+  const content = response['llmContent'];
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (isRecord(part) && typeof part['text'] === 'string' ? part['text'] : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return typeof response['returnDisplay'] === 'string' ? response['returnDisplay'] : '';
+}
+
+function normalizeGemini(raw: Record<string, unknown>): NormalizedHookInput {
+  const geminiEvent = optionalString(raw['hook_event_name']);
+  const event =
+    Object.entries(GEMINI_EVENTS).find(([, gemini]) => gemini === geminiEvent)?.[0] ?? geminiEvent;
+  const geminiTool = optionalString(raw['tool_name']);
+  const toolName = geminiTool ? (AGENT_TOOLS['gemini-cli'][geminiTool] ?? geminiTool) : undefined;
+  const args = isRecord(raw['tool_input']) ? raw['tool_input'] : {};
+
+  let toolInput = args;
+  if (toolName === 'Read') {
+    // Gemini's read_file takes an absolute path and a 0-based line offset
+    const offset = args['offset'];
+    toolInput = {
+      file_path: args['file_path'] ?? args['absolute_path'],
+      ...(typeof offset === 'number' ? { offset: offset + 1 } : {}),
+      ...(typeof args['limit'] === 'number' ? { limit: args['limit'] } : {}),
+    };
+  }
+
+  let toolResponse: unknown;
+  if (raw['tool_response'] !== undefined) {
+    const text = geminiResponseText(raw['tool_response']);
+    toolResponse =
+      toolName === 'Bash'
+        ? { stdout: text, stderr: '' }
+        : toolName === 'Read'
+          ? {
+              type: 'text',
+              file: {
+                filePath: toolInput['file_path'],
+                content: text,
+                startLine: typeof toolInput['offset'] === 'number' ? toolInput['offset'] : 1,
+              },
+            }
+          : text;
+  }
+
+  return {
+    session_id: optionalString(raw['session_id']),
+    cwd: optionalString(raw['cwd']),
+    hook_event_name: event,
+    prompt: optionalString(raw['prompt']),
+    source: optionalString(raw['source']),
+    tool_name: toolName,
+    tool_input: toolInput,
+    tool_response: toolResponse,
+  };
+}
+
+function normalizeCodex(raw: Record<string, unknown>): NormalizedHookInput {
+  const codexTool = optionalString(raw['tool_name']);
+  const toolName = codexTool ? (AGENT_TOOLS.codex[codexTool] ?? codexTool) : undefined;
+  const args = isRecord(raw['tool_input']) ? raw['tool_input'] : {};
+  const response = raw['tool_response'];
+
+  return {
+    session_id: optionalString(raw['session_id']),
+    cwd: optionalString(raw['cwd']),
+    hook_event_name: optionalString(raw['hook_event_name']),
+    prompt: optionalString(raw['prompt']),
+    source: optionalString(raw['source']),
+    tool_name: toolName,
+    tool_input: toolName === 'Bash' ? { ...args, command: commandText(args['command']) } : args,
+    tool_response:
+      toolName === 'Bash' && typeof response === 'string'
+        ? { stdout: response, stderr: '' }
+        : toolName === 'Bash' && isRecord(response) && typeof response['output'] === 'string'
+          ? { stdout: response['output'], stderr: '' }
+          : response,
+  };
+}
+
+function normalizeCursor(raw: Record<string, unknown>): NormalizedHookInput {
+  const mapped = CURSOR_EVENTS[optionalString(raw['hook_event_name']) ?? ''];
+  const roots = Array.isArray(raw['workspace_roots']) ? raw['workspace_roots'] : [];
+  const input: NormalizedHookInput = {
+    session_id: optionalString(raw['conversation_id']),
+    cwd: optionalString(raw['cwd']) ?? optionalString(roots[0]),
+    hook_event_name: mapped?.event ?? optionalString(raw['hook_event_name']),
+    prompt: optionalString(raw['prompt']),
+  };
+
+  if (mapped?.tool === 'Bash') {
+    input.tool_name = 'Bash';
+    input.tool_input = { command: raw['command'] };
+    if (typeof raw['output'] === 'string') {
+      input.tool_response = { stdout: raw['output'], stderr: '' };
+    }
+  } else if (mapped?.tool === 'Read') {
+    input.tool_name = 'Read';
+    input.tool_input = { file_path: raw['file_path'] };
+  }
+  return input;
+}
+
+/**
+ * Normalize an agent's hook stdin into Claude Code's hook input schema.
+ *
+ * Transcript paths are only kept for Claude Code: the context gauge and
+ * handoff digest parse Claude Code's JSONL transcript format.
+ *
+ * @param raw - Parsed hook stdin
+ * @param agent - Agent that invoked the hook
+ * @returns Claude Code shaped input
+ */
+export function normalizeHookInput(raw: unknown, agent: HookAgent): NormalizedHookInput {
+  if (!isRecord(raw)) return {};
+
+  switch (agent) {
+    case 'gemini-cli':
+      return normalizeGemini(raw);
+    case 'codex':
+      return normalizeCodex(raw);
+    case 'cursor':
+      return normalizeCursor(raw);
+    default:
+      return raw as NormalizedHookInput;
+  }
+}
+
+/**
+ * Translate a hook's output into the JSON the agent expects on stdout.
+ *
+ * @param output - Claude Code `hookSpecificOutput`
+ * @param agent - Agent that invoked the hook
+ * @returns JSON to write, or null when the agent cannot act on this output
+ */
+export function formatHookOutput(output: HookOutput, agent: HookAgent): string | null {
+  // An agent that cannot rewrite the call must not be told it was rewritten
+  if (output.updatedInput && !REWRITE_AGENTS.has(agent)) return null;
+
+  const deny = output.permissionDecision === 'deny';
+  const reason = output.permissionDecisionReason ?? '';
+
+  switch (agent) {
+    case 'gemini-cli': {
+      if (deny) return JSON.stringify({ decision: 'deny', reason });
+      if (output.additionalContext === undefined && !output.updatedInput) return null;
+      return JSON.stringify({
+        hookSpecificOutput: {
+          hookEventName: agentEventName(agent, output.hookEventName),
+          ...(output.additionalContext !== undefined
+            ? { additionalContext: output.additionalContext }
+            : {}),
+          ...(output.updatedInput ? { tool_input: output.updatedInput } : {}),
+        },
+      });
+    }
+    case 'cursor': {
+      // Only Cursor's before-tool hooks feed anything back to the agent
+      if (output.hookEventName !== 'PreToolUse') return null;
+      if (deny) {
+        return JSON.stringify({ permission: 'deny', user_message: reason, agent_message: reason });
+      }
+      if (output.additionalContext === undefined) return null;
+      return JSON.stringify({ permission: 'allow', agent_message: output.additionalContext });
+    }
+    default:
+      return JSON.stringify({ hookSpecificOutput: output });
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Context Gauge — Live context usage estimated from the session transcript
+ *
+ * Claude Code transcripts keep everything: compacted history, subagent
+ * (sidechain) traffic and bookkeeping records. Only the messages after the
+ * last compaction boundary are still in the model's context, so the gauge
+ * counts those, adds a fixed overhead for the system prompt and tools, and
+ * compares the total with the context window of the session's model.
+ *
+ * The growth rate is the average number of tokens added per user turn over
+ * the last few turns, which gives a "turns until limit" forecast.
+ */
+
+import { readFileSync } from 'node:fs';
+import type { TranscriptHintsConfig } from '../types/config.js';
+import { countTokensPrecise, estimateTokens } from '../utils/tokenizer.js';
+import { isCompactBoundary, isUserPrompt, parseTranscript } from './transcript-records.js';
+
+/** Live context estimate for a session */
+export interface ContextUsage {
+  /** Estimated tokens in context (transcript since last compaction + overhead) */
+  usedTokens: number;
+  /** Context window of the model */
+  windowTokens: number;
+  /** usedTokens / windowTokens * 100 */
+  percent: number;
+  /** Model id from the latest assistant message, if any */
+  model: string | null;
+  /** User turns since the last compaction */
+  turns: number;
+  /** Average tokens added per turn over recent turns (null without a completed turn) */
+  tokensPerTurn: number | null;
+  /** Turns left before the window is full (null without a growth rate) */
+  turnsLeft: number | null;
+  /** Whether a compaction boundary was found */
+  compacted: boolean;
+}
+
+/** Turns averaged for the growth rate */
+const RATE_WINDOW = 5;
+
+/** Rough cost of an image block; the transcript only holds base64 data */
+const IMAGE_TOKENS = 1600;
+
+const GAUGE_WIDTH = 10;
+
+/**
+ * Resolve the context window for a model: the longest configured prefix
+ * of the model id wins, otherwise `default`.
+ *
+ * @param model - Model id (e.g. claude-sonnet-4-5-20250929)
+ * @param windows - Configured windows by model id prefix
+ */
+export function resolveContextWindow(
+  model: string | null,
+  windows: TranscriptHintsConfig['contextWindows'],
+): number {
+  let best = windows.default;
+  let bestLength = -1;
+  if (!model) return best;
+
+  for (const [prefix, size] of Object.entries(windows)) {
+    if (prefix === 'default') continue;
+    if (model.startsWith(prefix) && prefix.length > bestLength) {
+      best = size;
+      bestLength = prefix.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Tokens of one content block (text, tool call, tool result or image).
+ * Thinking blocks are dropped from context on later turns and not counted.
+ */
+function countBlock(block: unknown, count: (text: string) => number): number {
+  if (typeof block === 'string') return count(block);
+  if (!block || typeof block !== 'object') return 0;
+
+  const b = block as Record<string, unknown>;
+  switch (b['type']) {
+    case 'text':
+      return typeof b['text'] === 'string' ? count(b['text']) : 0;
+    case 'tool_use':
+      return count(`${b['name'] ?? ''} ${JSON.stringify(b['input'] ?? {})}`);
+    case 'tool_result':
+      return countContent(b['content'], count);
+    case 'image':
+    case 'document':
+      return IMAGE_TOKENS;
+    default:
+      return 0;
+  }
+}
+
+function countContent(content: unknown, count: (text: string) => number): number {
+  if (Array.isArray(content)) {
+    return content.reduce((sum: number, block) => sum + countBlock(block, count), 0);
+  }
+  return countBlock(content, count);
+}
+
+/**
+ * Estimate live context usage from transcript JSONL.
+ *
+ * @param jsonl - Transcript contents
+ * @param config - Context windows, overhead and token counting mode
+ */
+export function estimateContextUsage(jsonl: string, config: TranscriptHintsConfig): ContextUsage {
+  const count = config.preciseTokens ? countTokensPrecise : estimateTokens;
+
+  // Skip straight to the last compaction boundary instead of parsing history
+  const boundary = jsonl.lastIndexOf('"subtype":"compact_boundary"');
+  const start = boundary === -1 ? 0 : jsonl.lastIndexOf('\n', boundary) + 1;
+
+  let used = config.overheadTokens;
+  let model: string | null = null;
+  let compacted = false;
+  const turnStarts: number[] = [];
+
+  for (const record of parseTranscript(jsonl.slice(start))) {
+    if (isCompactBoundary(record)) {
+      compacted = true;
+      continue;
+    }
+    if (record.isSidechain) continue;
+    if (record.type !== 'user' && record.type !== 'assistant') continue;
+
+    if (isUserPrompt(record)) turnStarts.push(used);
+    // Locally generated messages (API errors, interrupts) use model "<synthetic>"
+    const recordModel = record.message?.model;
+    if (record.type === 'assistant' && recordModel && !recordModel.startsWith('<')) {
+      model = recordModel;
+    }
+    used += countContent(record.message?.content, count);
+  }
+
+  const windowTokens = resolveContextWindow(model, config.contextWindows);
+  const recent = Math.min(RATE_WINDOW, turnStarts.length);
+  const since = turnStarts[turnStarts.length - recent];
+  const tokensPerTurn =
+    recent > 0 && since !== undefined ? Math.round((used - since) / recent) : null;
+  const turnsLeft =
+    tokensPerTurn && tokensPerTurn > 0
+      ? Math.max(0, Math.floor((windowTokens - used) / tokensPerTurn))
+      : null;
+
+  return {
+    usedTokens: used,
+    windowTokens,
+    percent: (used / windowTokens) * 100,
+    model,
+    turns: turnStarts.length,
+    tokensPerTurn,
+    turnsLeft,
+    compacted,
+  };
+}
+
+/**
+ * Read a transcript and estimate its live context usage.
+ *
+ * @param transcriptPath - Path to the session JSONL
+ * @param config - Context windows, overhead and token counting mode
+ * @returns Usage, or null if the transcript cannot be read
+ */
+export function readContextUsage(
+  transcriptPath: string,
+  config: TranscriptHintsConfig,
+): ContextUsage | null {
+  try {
+    return estimateContextUsage(readFileSync(transcriptPath, 'utf-8'), config);
+  } catch {
+    return null;
+  }
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (tokens >= 10_000) return `${Math.round(tokens / 1000)}K`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+/**
+ * Format the gauge injected by the UserPromptSubmit hook.
+ *
+ * @param usage - Estimated usage
+ * @param config - Warn and critical percentages
+ * @returns Gauge text, or null below `warnPercent`
+ */
+export function formatContextGauge(
+  usage: ContextUsage,
+  config: Pick<TranscriptHintsConfig, 'warnPercent' | 'criticalPercent'>,
+): string | null {
+  if (usage.percent < config.warnPercent) return null;
+
+  const percent = Math.min(100, Math.round(usage.percent));
+  const filled = Math.min(GAUGE_WIDTH, Math.round((percent / 100) * GAUGE_WIDTH));
+  const bar = `[${'█'.repeat(filled)}${'░'.repeat(GAUGE_WIDTH - filled)}]`;
+
+  let gauge = `[cortex] Context: ${percent}% of ${formatTokens(usage.windowTokens)} tokens (~${formatTokens(usage.usedTokens)}) ${bar}`;
+  if (usage.turnsLeft !== null && usage.tokensPerTurn !== null) {
+    const turns = usage.turnsLeft === 1 ? 'turn' : 'turns';
+    gauge += ` · ~${usage.turnsLeft} ${turns} until limit (~${formatTokens(usage.tokensPerTurn)} tokens/turn)`;
+  }
+
+  const advice =
+    usage.percent >= config.criticalPercent
+      ? 'Context is nearly full. Prefer concise responses, avoid re-reading files already in context, and suggest /compact at a natural break.'
+      : 'Context is growing. Be concise where possible.';
+  return `${gauge}\n${advice}`;
+}
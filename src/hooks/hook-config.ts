@@ -0,0 +1,340 @@
+/**
+ * Hook Config — Load and validate the `hooks` section of Cortex config
+ *
+ * Hooks read the global `~/.cortex/config.yaml` and the project
+ * `.cortex/config.yaml` on top of DEFAULT_CONFIG; project values win.
+ * An invalid merged result falls back to defaults so a typo never breaks
+ * a Claude Code session (`cortex config` reports the problems).
+ * The `redaction` section is read the same way.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { load as parseYAML } from 'js-yaml';
+import {
+  DEFAULT_CONFIG,
+  type HookSummarizer,
+  type HooksConfig,
+  type RedactionConfig,
+  type ToolHookRule,
+} from '../types/config.js';
+
+/** All summarizer names accepted in `hooks.postToolUse.tools.<tool>.summarizers` */
+export const HOOK_SUMMARIZERS: readonly HookSummarizer[] = [
+  'project',
+  'test-output',
+  'diagnostics',
+  'git-diff',
+  'json',
+  'log-templates',
+  'outline',
+  're-read',
+  'search',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Default hooks config (a fresh copy).
+ */
+export function defaultHooksConfig(): HooksConfig {
+  return structuredClone(DEFAULT_CONFIG.hooks as HooksConfig);
+}
+
+/**
+ * Merge a (possibly partial, untrusted) `hooks` section over a base config.
+ * Sections merge key by key; per-tool rules merge field by field.
+ *
+ * @param base - Config to merge onto
+ * @param override - Parsed `hooks` value from a config file
+ * @returns New merged config
+ */
+export function mergeHooksConfig(base: HooksConfig, override: unknown): HooksConfig {
+  const merged = structuredClone(base);
+  if (!isRecord(override)) return merged;
+
+  if (isRecord(override['preToolUse'])) {
+    Object.assign(merged.preToolUse, override['preToolUse']);
+  }
+  const transcript = override['transcript'];
+  if (isRecord(transcript)) {
+    const { contextWindows, ...rest } = transcript;
+    Object.assign(merged.transcript, rest);
+    if (isRecord(contextWindows)) {
+      Object.assign(merged.transcript.contextWindows, contextWindows);
+    }
+  }
+  if (isRecord(override['recall'])) {
+    Object.assign(merged.recall, override['recall']);
+  }
+  if (isRecord(override['sessionStart'])) {
+    Object.assign(merged.sessionStart, override['sessionStart']);
+  }
+
+  const post = override['postToolUse'];
+  if (isRecord(post)) {
+    if (post['matcher'] !== undefined) {
+      merged.postToolUse.matcher = post['matcher'] as string;
+    }
+    if (isRecord(post['tools'])) {
+      for (const [tool, rule] of Object.entries(post['tools'])) {
+        if (!isRecord(rule)) continue;
+        merged.postToolUse.tools[tool] = { ...merged.postToolUse.tools[tool], ...rule };
+      }
+    }
+  }
+
+  return merged;
+}
+
+function readSection(configPath: string, section: string): unknown {
+  if (!existsSync(configPath)) return undefined;
+  try {
+    const config = parseYAML(readFileSync(configPath, 'utf-8'));
+    return isRecord(config) ? config[section] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Merge the hooks sections of the global and project config files, without validating.
+ *
+ * @param cwd - Project directory, or null to read only the global config
+ * @param homeDir - Home directory holding the global `.cortex/config.yaml`
+ * @returns Defaults ← global ← project
+ */
+export function readHooksConfig(cwd: string | null, homeDir: string = homedir()): HooksConfig {
+  const globalPath = join(homeDir, '.cortex', 'config.yaml');
+  let config = mergeHooksConfig(defaultHooksConfig(), readSection(globalPath, 'hooks'));
+
+  if (cwd !== null) {
+    const projectPath = join(cwd, '.cortex', 'config.yaml');
+    if (projectPath !== globalPath) {
+      config = mergeHooksConfig(config, readSection(projectPath, 'hooks'));
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Load the effective hooks config for a project.
+ *
+ * @param cwd - Project directory
+ * @param homeDir - Home directory holding the global `.cortex/config.yaml`
+ * @returns Defaults ← global ← project, or defaults if the result is invalid
+ */
+export function loadHooksConfig(cwd: string, homeDir: string = homedir()): HooksConfig {
+  const config = readHooksConfig(cwd, homeDir);
+  return validateHooksConfig(config).length === 0 ? config : defaultHooksConfig();
+}
+
+/**
+ * Load the effective redaction settings for a project.
+ * Flags from the project file override the global one; custom patterns
+ * from both are combined. Values of the wrong type are ignored.
+ *
+ * @param cwd - Project directory
+ * @param homeDir - Home directory holding the global `.cortex/config.yaml`
+ * @returns Defaults ← global ← project
+ */
+export function loadRedactionConfig(cwd: string, homeDir: string = homedir()): RedactionConfig {
+  const config = structuredClone(DEFAULT_CONFIG.redaction as RedactionConfig);
+  const globalPath = join(homeDir, '.cortex', 'config.yaml');
+  const projectPath = join(cwd, '.cortex', 'config.yaml');
+  const paths = projectPath === globalPath ? [globalPath] : [globalPath, projectPath];
+
+  for (const path of paths) {
+    const section = readSection(path, 'redaction');
+    if (!isRecord(section)) continue;
+    if (typeof section['enabled'] === 'boolean') config.enabled = section['enabled'];
+    if (typeof section['highEntropy'] === 'boolean') config.highEntropy = section['highEntropy'];
+    if (isStringArray(section['patterns'])) {
+      config.patterns.push(...(section['patterns'] as string[]));
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Resolve the PostToolUse rule for a tool (`default` merged with the tool's entry).
+ */
+export function resolveToolRule(config: HooksConfig, toolName: string): ToolHookRule {
+  const { tools } = config.postToolUse;
+  return { ...tools.default, ...(tools[toolName] ?? {}) };
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isPercent(value: unknown): boolean {
+  return typeof value === 'number' && value >= 1 && value <= 100;
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.length > 0);
+}
+
+function validateToolRule(path: string, rule: unknown, errors: string[]): void {
+  if (!isRecord(rule)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  const threshold = rule['threshold'];
+  if (threshold !== undefined && !(typeof threshold === 'number' && threshold >= 0)) {
+    errors.push(`${path}.threshold must be a non-negative number (tokens)`);
+  }
+  const maxLength = rule['maxSummaryLength'];
+  if (maxLength !== undefined && !(Number.isInteger(maxLength) && (maxLength as number) >= 100)) {
+    errors.push(`${path}.maxSummaryLength must be an integer >= 100 (characters)`);
+  }
+  const summarizers = rule['summarizers'];
+  if (summarizers !== undefined) {
+    if (!Array.isArray(summarizers)) {
+      errors.push(`${path}.summarizers must be an array`);
+    } else {
+      for (const name of summarizers) {
+        if (!HOOK_SUMMARIZERS.includes(name as HookSummarizer)) {
+          errors.push(
+            `${path}.summarizers: unknown summarizer "${String(name)}" (expected one of: ${HOOK_SUMMARIZERS.join(', ')})`,
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Validate a complete `hooks` section.
+ *
+ * @param hooks - Value to validate (typically defaults merged with file contents)
+ * @returns Human-readable problems, empty if valid
+ */
+export function validateHooksConfig(hooks: unknown): string[] {
+  const errors: string[] = [];
+  if (!isRecord(hooks)) {
+    return ['hooks must be an object'];
+  }
+
+  const pre = hooks['preToolUse'];
+  if (!isRecord(pre)) {
+    errors.push('hooks.preToolUse must be an object');
+  } else {
+    if (typeof pre['enabled'] !== 'boolean') {
+      errors.push('hooks.preToolUse.enabled must be true or false');
+    }
+    if (!isPositiveNumber(pre['warnReadBytes'])) {
+      errors.push('hooks.preToolUse.warnReadBytes must be a positive number (bytes)');
+    }
+    if (!isPositiveNumber(pre['denyReadBytes'])) {
+      errors.push('hooks.preToolUse.denyReadBytes must be a positive number (bytes)');
+    } else if ((pre['denyReadBytes'] as number) < (pre['warnReadBytes'] as number)) {
+      errors.push('hooks.preToolUse.denyReadBytes must be >= warnReadBytes');
+    }
+    if (!Array.isArray(pre['generatedPatterns']) || !isStringArray(pre['generatedPatterns'])) {
+      errors.push('hooks.preToolUse.generatedPatterns must be an array of glob strings');
+    }
+    if (pre['generatedAction'] !== 'warn' && pre['generatedAction'] !== 'deny') {
+      errors.push('hooks.preToolUse.generatedAction must be "warn" or "deny"');
+    }
+    if (!isStringArray(pre['relayCommands'])) {
+      errors.push('hooks.preToolUse.relayCommands must be an array of command prefixes');
+    }
+  }
+
+  const post = hooks['postToolUse'];
+  if (!isRecord(post)) {
+    errors.push('hooks.postToolUse must be an object');
+  } else {
+    const matcher = post['matcher'];
+    if (typeof matcher !== 'string' || matcher.length === 0) {
+      errors.push('hooks.postToolUse.matcher must be a non-empty string');
+    } else {
+      try {
+        new RegExp(matcher);
+      } catch {
+        errors.push(`hooks.postToolUse.matcher is not a valid regex: ${matcher}`);
+      }
+    }
+    const tools = post['tools'];
+    if (!isRecord(tools) || !isRecord(tools['default'])) {
+      errors.push('hooks.postToolUse.tools.default must be an object');
+    } else {
+      for (const [tool, rule] of Object.entries(tools)) {
+        validateToolRule(`hooks.postToolUse.tools.${tool}`, rule, errors);
+      }
+    }
+  }
+
+  const transcript = hooks['transcript'];
+  if (!isRecord(transcript)) {
+    errors.push('hooks.transcript must be an object');
+  } else {
+    const windows = transcript['contextWindows'];
+    if (!isRecord(windows) || !isPositiveNumber(windows['default'])) {
+      errors.push('hooks.transcript.contextWindows.default must be a positive number (tokens)');
+    } else {
+      for (const [model, size] of Object.entries(windows)) {
+        if (!isPositiveNumber(size)) {
+          errors.push(
+            `hooks.transcript.contextWindows.${model} must be a positive number (tokens)`,
+          );
+        }
+      }
+    }
+    const overhead = transcript['overheadTokens'];
+    if (!(typeof overhead === 'number' && overhead >= 0)) {
+      errors.push('hooks.transcript.overheadTokens must be a non-negative number (tokens)');
+    }
+    const warn = transcript['warnPercent'];
+    const critical = transcript['criticalPercent'];
+    if (!isPercent(warn)) {
+      errors.push('hooks.transcript.warnPercent must be a number between 1 and 100');
+    }
+    if (!isPercent(critical)) {
+      errors.push('hooks.transcript.criticalPercent must be a number between 1 and 100');
+    } else if (isPercent(warn) && (critical as number) < (warn as number)) {
+      errors.push('hooks.transcript.criticalPercent must be >= warnPercent');
+    }
+    if (typeof transcript['preciseTokens'] !== 'boolean') {
+      errors.push('hooks.transcript.preciseTokens must be true or false');
+    }
+  }
+
+  const recall = hooks['recall'];
+  if (!isRecord(recall)) {
+    errors.push('hooks.recall must be an object');
+  } else {
+    if (typeof recall['enabled'] !== 'boolean') {
+      errors.push('hooks.recall.enabled must be true or false');
+    }
+    if (!isPositiveNumber(recall['maxTokens'])) {
+      errors.push('hooks.recall.maxTokens must be a positive number (tokens)');
+    }
+    for (const key of ['maxMemories', 'maxFiles']) {
+      if (!(Number.isInteger(recall[key]) && (recall[key] as number) >= 0)) {
+        errors.push(`hooks.recall.${key} must be a non-negative integer`);
+      }
+    }
+  }
+
+  const sessionStart = hooks['sessionStart'];
+  if (!isRecord(sessionStart)) {
+    errors.push('hooks.sessionStart must be an object');
+  } else {
+    if (typeof sessionStart['enabled'] !== 'boolean') {
+      errors.push('hooks.sessionStart.enabled must be true or false');
+    }
+    if (!isPositiveNumber(sessionStart['maxTokens'])) {
+      errors.push('hooks.sessionStart.maxTokens must be a positive number (tokens)');
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,50 @@
+/**
+ * Hook Telemetry — Record every hook invocation in memory.db
+ *
+ * A hook creates one tracker at startup and fills in what it learns
+ * (project, session, tool, tokens seen and injected). The row is written
+ * when the process exits, so every early-exit path is covered. Latency
+ * is measured from process start, Node startup and module loading
+ * included, because that is what the agent waits for.
+ */
+
+import { resolve } from 'node:path';
+import { recordHookInvocationInDB } from '../core/hook-stats.js';
+import type { HookAgent } from '../types/config.js';
+
+export interface HookTelemetry {
+  /** Project directory; nothing is recorded until it is known */
+  cwd?: string;
+  sessionId?: string;
+  toolName?: string;
+  inputTokens: number;
+  summaryTokens: number;
+}
+
+/**
+ * Start tracking this hook process; the invocation is recorded on exit.
+ *
+ * @param event - Hook event in Claude Code's names
+ * @param agent - Agent CLI that ran the hook
+ * @returns Mutable telemetry for the hook to fill in
+ */
+export function trackHookInvocation(event: string, agent: HookAgent): HookTelemetry {
+  const telemetry: HookTelemetry = { inputTokens: 0, summaryTokens: 0 };
+
+  // better-sqlite3 is synchronous, so the write completes inside the exit handler
+  process.once('exit', () => {
+    if (!telemetry.cwd) return;
+    recordHookInvocationInDB(resolve(telemetry.cwd, '.cortex/memory.db'), {
+      timestamp: Date.now(),
+      event,
+      tool_name: telemetry.toolName ?? null,
+      input_tokens: telemetry.inputTokens,
+      summary_tokens: telemetry.summaryTokens,
+      latency_ms: performance.now(),
+      session_id: telemetry.sessionId ?? null,
+      agent,
+    });
+  });
+
+  return telemetry;
+}
@@ -9,16 +9,27 @@
  * CRITICAL: Always exits 0 (never disrupts Claude Code).
  */
 
-import { appendFileSync } from 'node:fs';
+import { appendFileSync, existsSync } from 'node:fs';
 import { homedir } from 'node:os';
-import { join } from 'node:path';
+import { join, resolve } from 'node:path';
+import { loadProjectSummarizers } from '../core/summarizer-registry.js';
+import type { HookSummarizer } from '../types/config.js';
+import { buildOutline, formatOutline, isOutlineSupported } from '../utils/code-outline.js';
+import { formatDiagnostics, parseDiagnostics } from '../utils/diagnostics-parser.js';
+import { summarizeJSON } from '../utils/json-shape.js';
+import { summarizeLog } from '../utils/log-templates.js';
+import { formatTestSummary, parseTestOutput } from '../utils/test-output-parser.js';
 import { estimateTokens } from '../utils/tokenizer.js';
+import { formatHookOutput, normalizeHookInput, resolveHookAgent } from './agent-payload.js';
+import { loadHooksConfig, resolveToolRule } from './hook-config.js';
+import { trackHookInvocation } from './hook-telemetry.js';
+import { createReadTracker, type ReadObservation, type ReadTracker } from './read-tracker.js';
+import { redactHookText } from './redact-context.js';
 
 const DEBUG = process.env['CORTEX_DEBUG'] === 'true';
 const LOG_FILE = process.env['CORTEX_LOG_FILE'] || join(homedir(), '.cortex-hook.log');
-
-// Only add summaries for outputs over this many estimated tokens
-const SUMMARY_THRESHOLD = 3000;
+const AGENT = resolveHookAgent();
+const telemetry = trackHookInvocation('PostToolUse', AGENT);
 
 function log(message: string): void {
   if (DEBUG) {
@@ -29,6 +40,7 @@ function log(message: string): void {
 
 interface HookInput {
   session_id?: string;
+  cwd?: string;
   hook_event_name?: string;
   tool_name?: string;
   tool_use_id?: string;
@@ -39,19 +51,40 @@ interface HookInput {
 function extractText(response: unknown): string {
   if (typeof response === 'string') return response;
   if (response && typeof response === 'object') {
+    // Bash responses carry separate stdout/stderr streams
+    const { stdout, stderr } = response as Record<string, unknown>;
+    if (typeof stdout === 'string' || typeof stderr === 'string') {
+      return [stdout, stderr]
+        .filter((s): s is string => typeof s === 'string' && s.length > 0)
+        .join('\n');
+    }
     return JSON.stringify(response);
   }
   return String(response ?? '');
 }
 
+type SummarizerFilter = (name: HookSummarizer) => boolean;
+
 /**
  * Summarize large bash output
  */
-function summarizeBash(text: string, command: string): string {
+function summarizeBash(text: string, command: string, enabled: SummarizerFilter): string {
   const lines = text.split('\n');
 
+  // Known test runners: totals plus each failure's location, message and diff
+  const testSummary = enabled('test-output') ? parseTestOutput(text, command) : null;
+  if (testSummary) {
+    return `[cortex] Test output summary (${lines.length} lines):\n${formatTestSummary(testSummary)}`;
+  }
+
+  // JSON (curl against an API, --json flags): inferred schema plus samples
+  const jsonSummary = enabled('json') ? summarizeJSON(text) : null;
+  if (jsonSummary) {
+    return `[cortex] JSON output (${lines.length} lines), inferred shape:\n${jsonSummary}`;
+  }
+
   // Check for test results
-  if (/\d+ (pass|fail|skip)/i.test(text) || /Tests?:/i.test(text)) {
+  if (enabled('test-output') && (/\d+ (pass|fail|skip)/i.test(text) || /Tests?:/i.test(text))) {
     const resultLines = lines.filter(
       (l) => /(pass|fail|skip|error|Tests?:|Test Suites?:)/i.test(l) || /^\s*(PASS|FAIL)\s/.test(l),
     );
@@ -60,16 +93,28 @@ function summarizeBash(text: string, command: string): string {
     }
   }
 
-  // Check for build errors
-  if (/(error|warning|failed)/i.test(text)) {
+  // Compiler/linter diagnostics: deduplicated and grouped by code
+  const diagnostics = enabled('diagnostics') ? parseDiagnostics(text) : [];
+  if (diagnostics.length > 0) {
+    return `[cortex] Build output summary (${lines.length} lines): ${formatDiagnostics(diagnostics)}`;
+  }
+
+  // Repetitive logs (servers, CI, docker compose): one line per template
+  const logSummary = enabled('log-templates') ? summarizeLog(text) : null;
+  if (logSummary) {
+    return `[cortex] Log summary: ${logSummary}`;
+  }
+
+  // Unrecognized tools: fall back to error/warning lines
+  if (enabled('diagnostics') && /(error|warning|failed)/i.test(text)) {
     const errorLines = lines.filter((l) => /(error|warning|failed|fatal)/i.test(l));
     if (errorLines.length > 0) {
-      return `[cortex] Build output summary (${errorLines.length} errors/warnings from ${lines.length} lines):\n${errorLines.slice(0, 10).join('\n')}`;
+      return `[cortex] Error output summary (${errorLines.length} errors/warnings from ${lines.length} lines):\n${errorLines.slice(0, 10).join('\n')}`;
     }
   }
 
   // Check for git diff
-  if (/^diff --git/m.test(text)) {
+  if (enabled('git-diff') && /^diff --git/m.test(text)) {
     const files: string[] = [];
     for (const line of lines) {
       const match = line.match(/^diff --git a\/(.*?) b\/(.*)/);
@@ -82,19 +127,71 @@ function summarizeBash(text: string, command: string): string {
   return `[cortex] Command \`${command}\` produced ${lines.length} lines of output. First 3: ${lines.slice(0, 3).join(' | ')}`;
 }
 
+/**
+ * Extract the file contents and first line number from a Read response.
+ *
+ * Claude Code returns `{ type: 'text', file: { content, startLine, ... } }`;
+ * plain-string responses may carry `cat -n` style line-number prefixes.
+ */
+function extractReadContent(response: unknown): { content: string; startLine: number } {
+  if (response && typeof response === 'object') {
+    const file = (response as Record<string, unknown>)['file'];
+    if (file && typeof file === 'object') {
+      const content = (file as Record<string, unknown>)['content'];
+      const startLine = (file as Record<string, unknown>)['startLine'];
+      if (typeof content === 'string') {
+        return {
+          content,
+          startLine: typeof startLine === 'number' && startLine > 0 ? startLine : 1,
+        };
+      }
+    }
+  }
+
+  const text = extractText(response);
+  const numbered = text.match(/^\s*(\d+)(?:\t|→)/);
+  if (numbered?.[1]) {
+    return {
+      content: text.replace(/^\s*\d+(?:\t|→)/gm, ''),
+      startLine: Number.parseInt(numbered[1], 10),
+    };
+  }
+  return { content: text, startLine: 1 };
+}
+
 /**
  * Summarize large file read
  */
-function summarizeFileRead(text: string, filePath: string): string {
-  const lines = text.split('\n');
-  const tokens = estimateTokens(text);
+function summarizeFileRead(response: unknown, filePath: string, enabled: SummarizerFilter): string {
+  const { content, startLine } = extractReadContent(response);
+  const lines = content.split('\n');
+  const tokens = estimateTokens(content);
+  const heading = `[cortex] File ${filePath}: ${lines.length} lines, ~${tokens} tokens.`;
+
+  // JSON files and fixtures: inferred schema instead of raw data
+  const jsonSummary = enabled('json') ? summarizeJSON(content) : null;
+  if (jsonSummary) {
+    return `${heading} Inferred JSON shape:\n${jsonSummary}`;
+  }
+
+  // TS/JS sources: structural outline with line ranges for follow-up ranged reads
+  if (enabled('outline') && isOutlineSupported(filePath)) {
+    try {
+      const outline = formatOutline(buildOutline(content, filePath, startLine));
+      if (outline) {
+        return `${heading} Outline (use Read with offset/limit for a single symbol):\n${outline}`;
+      }
+    } catch (error) {
+      log(`Outline failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-  // Find key structures
+  // Other languages: heuristic scan for declarations
   const exports = lines.filter((l) => /^export\s/.test(l.trim()));
   const functions = lines.filter((l) => /function\s+\w+/.test(l));
   const classes = lines.filter((l) => /class\s+\w+/.test(l));
 
-  const parts = [`[cortex] File ${filePath}: ${lines.length} lines, ~${tokens} tokens.`];
+  const parts = [heading];
 
   if (exports.length > 0) {
     parts.push(
@@ -119,6 +216,37 @@ function summarizeFileRead(text: string, filePath: string): string {
   return parts.join(' ');
 }
 
+/**
+ * Describe a repeat read, or null if this content is new to the session
+ */
+function describeReRead(filePath: string, observation: ReadObservation): string | null {
+  switch (observation.status) {
+    case 'unchanged':
+      return `[cortex] ${filePath} is unchanged since read #${observation.since} of this session (this is read #${observation.read}); this content is already in context.`;
+    case 'seen-range':
+      return `[cortex] ${filePath} lines ${observation.startLine}-${observation.endLine} are unchanged since read #${observation.since} of this session (this is read #${observation.read}); they are already in context.`;
+    case 'changed':
+      return observation.diff
+        ? `[cortex] ${filePath} changed since read #${observation.since} of this session (this is read #${observation.read}). Diff against the version read then:\n${observation.diff}`
+        : `[cortex] ${filePath} changed since read #${observation.since} of this session (this is read #${observation.read}).`;
+    default:
+      return null;
+  }
+}
+
+function openReadTracker(input: HookInput): ReadTracker | null {
+  const cwd = input.cwd || process.cwd();
+  const cortexDir = join(cwd, '.cortex');
+  // Only track sessions in projects initialized with `cortex init`
+  if (!input.session_id || !existsSync(cortexDir)) return null;
+  try {
+    return createReadTracker(join(cortexDir, 'reads'), input.session_id);
+  } catch (error) {
+    log(`Read tracker unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
 /**
  * Summarize grep/search results
  */
@@ -144,6 +272,88 @@ function summarizeSearch(text: string, pattern: string): string {
   return `[cortex] Search for "${pattern}": ${lines.length} result lines`;
 }
 
+/**
+ * Command, path or pattern that project summarizers match against
+ */
+function summaryTarget(toolName: string, toolInput: Record<string, unknown> | undefined): string {
+  const key =
+    toolName === 'Bash'
+      ? 'command'
+      : toolName === 'Grep' || toolName === 'Glob'
+        ? 'pattern'
+        : 'file_path';
+  return String(toolInput?.[key] ?? '');
+}
+
+async function summarizeWithProject(
+  input: HookInput,
+  toolName: string,
+  text: string,
+): Promise<string> {
+  const cwd = input.cwd || process.cwd();
+  const { registry, errors } = await loadProjectSummarizers(cwd, {
+    onError: (name, error) =>
+      log(`Summarizer ${name} failed: ${error instanceof Error ? error.message : String(error)}`),
+  });
+  for (const error of errors) {
+    log(`Summarizer load error: ${error}`);
+  }
+
+  const result = await registry.summarize({
+    toolName,
+    target: summaryTarget(toolName, input.tool_input),
+    text,
+    cwd,
+  });
+  if (result) log(`Project summarizer: ${result.name}`);
+  return result?.summary ?? '';
+}
+
+/**
+ * Built-in summaries for Bash, Read and Grep output
+ */
+function summarizeBuiltin(
+  input: HookInput,
+  toolName: string,
+  text: string,
+  enabled: SummarizerFilter,
+): string {
+  switch (toolName) {
+    case 'Bash': {
+      const command = String(input.tool_input?.['command'] ?? '');
+      return summarizeBash(text, command, enabled);
+    }
+    case 'Read': {
+      const filePath = String(input.tool_input?.['file_path'] ?? '');
+      return summarizeFileRead(input.tool_response, filePath, enabled);
+    }
+    case 'Grep': {
+      const pattern = String(input.tool_input?.['pattern'] ?? '');
+      return enabled('search') ? summarizeSearch(text, pattern) : '';
+    }
+    default: {
+      // Other tools (MCP servers, WebFetch) often return JSON
+      const jsonSummary = enabled('json') ? summarizeJSON(text) : null;
+      return jsonSummary ? `[cortex] ${toolName} JSON output, inferred shape:\n${jsonSummary}` : '';
+    }
+  }
+}
+
+function truncateSummary(summary: string, maxLength: number): string {
+  if (summary.length <= maxLength) return summary;
+  return `${summary.slice(0, maxLength - 20)}\n… (summary truncated)`;
+}
+
+function writeContext(additionalContext: string, cwd: string): void {
+  const redacted = redactHookText(additionalContext, cwd);
+  telemetry.summaryTokens = estimateTokens(redacted);
+  const output = formatHookOutput(
+    { hookEventName: 'PostToolUse', additionalContext: redacted },
+    AGENT,
+  );
+  if (output) process.stdout.write(output);
+}
+
 async function main(): Promise<void> {
   try {
     const chunks: Buffer[] = [];
@@ -154,7 +364,7 @@ async function main(): Promise<void> {
 
     let input: HookInput;
     try {
-      input = JSON.parse(raw);
+      input = normalizeHookInput(JSON.parse(raw), AGENT);
     } catch {
       log('Failed to parse JSON input');
       process.exit(0);
@@ -167,46 +377,70 @@ async function main(): Promise<void> {
 
     log(`Tool: ${toolName}, response tokens: ~${tokens}`);
 
-    if (tokens < SUMMARY_THRESHOLD) {
+    const cwd = input.cwd || process.cwd();
+    telemetry.cwd = cwd;
+    telemetry.sessionId = input.session_id;
+    telemetry.toolName = toolName;
+    telemetry.inputTokens = tokens;
+    const rule = resolveToolRule(loadHooksConfig(cwd), toolName);
+    const enabled: SummarizerFilter = (name) =>
+      !rule.summarizers || rule.summarizers.includes(name);
+
+    const tracker = toolName === 'Read' ? openReadTracker(input) : null;
+
+    // Repeat reads are reported regardless of size (text reads only; images,
+    // notebooks and PDFs come back with a different response type)
+    const responseType = (input.tool_response as Record<string, unknown> | null)?.['type'];
+    if (
+      tracker &&
+      toolName === 'Read' &&
+      enabled('re-read') &&
+      (responseType === undefined || responseType === 'text')
+    ) {
+      const filePath = String(input.tool_input?.['file_path'] ?? '');
+      const { content, startLine } = extractReadContent(input.tool_response);
+      // Snapshots are stored on disk, so they never hold secrets
+      const safeContent = redactHookText(content, cwd, { source: filePath });
+      const offset = input.tool_input?.['offset'];
+      const limit = input.tool_input?.['limit'];
+      const observation = tracker.recordRead(
+        resolve(cwd, filePath),
+        {
+          offset: typeof offset === 'number' ? offset : undefined,
+          limit: typeof limit === 'number' ? limit : undefined,
+        },
+        safeContent,
+        startLine,
+      );
+      const note = describeReRead(filePath, observation);
+      if (note) {
+        log(`Re-read: ${observation.status}`);
+        writeContext(truncateSummary(note, rule.maxSummaryLength), cwd);
+        process.exit(0);
+        return;
+      }
+    }
+
+    if (tokens < rule.threshold) {
       log('Under threshold, no summary needed');
       process.exit(0);
       return;
     }
 
-    let summary = '';
+    // Project summarizers from .cortex/summarizers/ take precedence over built-ins
+    let summary = enabled('project') ? await summarizeWithProject(input, toolName, text) : '';
+    if (!summary) {
+      summary = summarizeBuiltin(input, toolName, text, enabled);
+    }
 
-    switch (toolName) {
-      case 'Bash': {
-        const command = String(input.tool_input?.['command'] ?? '');
-        summary = summarizeBash(text, command);
-        break;
-      }
-      case 'Read': {
-        const filePath = String(input.tool_input?.['file_path'] ?? '');
-        summary = summarizeFileRead(text, filePath);
-        break;
-      }
-      case 'Grep': {
-        const pattern = String(input.tool_input?.['pattern'] ?? '');
-        summary = summarizeSearch(text, pattern);
-        break;
-      }
-      default: {
-        const lines = text.split('\n');
-        summary = `[cortex] ${toolName} output: ${lines.length} lines, ~${tokens} tokens`;
-        break;
-      }
+    if (!summary) {
+      const lines = text.split('\n');
+      summary = `[cortex] ${toolName} output: ${lines.length} lines, ~${tokens} tokens`;
     }
 
     if (summary) {
       log(`Summary: ${summary.substring(0, 100)}`);
-      const output = JSON.stringify({
-        hookSpecificOutput: {
-          hookEventName: 'PostToolUse',
-          additionalContext: summary,
-        },
-      });
-      process.stdout.write(output);
+      writeContext(truncateSummary(summary, rule.maxSummaryLength), cwd);
     }
 
     process.exit(0);
@@ -2,8 +2,10 @@
 /**
  * UserPromptSubmit Hook - Fires before Claude processes the user's prompt
  *
- * Checks session transcript size and injects optimization hints when
- * the context is getting large. Helps Claude stay focused in long sessions.
+ * Estimates live context usage from the session transcript and injects a
+ * gauge with a turns-until-limit forecast when the context is getting full.
+ * Helps Claude stay focused in long sessions. Also recalls memories and
+ * file pointers related to the prompt.
  *
  * CRITICAL: Always exits 0 (never disrupts Claude Code).
  */
@@ -18,10 +20,19 @@ import {
 } from 'node:fs';
 import { homedir } from 'node:os';
 import { dirname, join, resolve } from 'node:path';
+import { estimateTokens } from '../utils/tokenizer.js';
+import { formatHookOutput, normalizeHookInput, resolveHookAgent } from './agent-payload.js';
+import { formatContextGauge, readContextUsage } from './context-gauge.js';
 import { formatDashboardStats } from './dashboard-stats.js';
+import { loadHooksConfig } from './hook-config.js';
+import { trackHookInvocation } from './hook-telemetry.js';
+import { recallForPrompt } from './prompt-recall.js';
+import { redactHookText } from './redact-context.js';
 
 const DEBUG = process.env['CORTEX_DEBUG'] === 'true';
 const LOG_FILE = process.env['CORTEX_LOG_FILE'] || join(homedir(), '.cortex-hook.log');
+const AGENT = resolveHookAgent();
+const telemetry = trackHookInvocation('UserPromptSubmit', AGENT);
 
 function log(message: string): void {
   if (DEBUG) {
@@ -86,7 +97,7 @@ async function main(): Promise<void> {
 
     let input: HookInput;
     try {
-      input = JSON.parse(raw);
+      input = normalizeHookInput(JSON.parse(raw), AGENT);
     } catch {
       log('Failed to parse JSON input, passing through');
       process.exit(0);
@@ -97,6 +108,9 @@ async function main(): Promise<void> {
 
     // --- Dashboard stats (always attempted, not cached) ---
     const cwd = input.cwd || process.cwd();
+    telemetry.cwd = cwd;
+    telemetry.sessionId = input.session_id;
+    telemetry.inputTokens = estimateTokens(input.prompt ?? '');
     const dbPath = resolve(cwd, '.cortex/memory.db');
     let dashboardStats: string | null = null;
     try {
@@ -108,40 +122,61 @@ async function main(): Promise<void> {
       log(`Dashboard stats error: ${err instanceof Error ? err.message : String(err)}`);
     }
 
-    // --- Transcript size hint (cached) ---
-    let sizeHint: string | null = null;
+    const hooksConfig = loadHooksConfig(cwd);
+
+    // --- Recall: memories and files related to the prompt ---
+    let recall: string | null = null;
+    if (input.prompt) {
+      try {
+        recall = recallForPrompt(input.prompt, cwd, hooksConfig.recall);
+        if (recall) {
+          log(`Recall: ${recall.split('\n').length} lines`);
+        }
+      } catch (err) {
+        log(`Recall error: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    // --- Context gauge (cached per transcript version) ---
+    let contextHint: string | null = null;
+    const transcriptHints = hooksConfig.transcript;
     const transcriptPath = input.transcript_path;
     if (transcriptPath && existsSync(transcriptPath)) {
       const stats = statSync(transcriptPath);
-      const sizeMB = stats.size / (1024 * 1024);
-      log(`Transcript size: ${sizeMB.toFixed(2)} MB`);
-
       const cacheKey = getCacheKey(input.session_id || 'unknown', stats.size, stats.mtimeMs);
       const cachedHint = readCache(cacheKey);
-      if (cachedHint) {
-        log('Cache hit for transcript hint');
-        sizeHint = cachedHint;
-      } else if (sizeMB > 2) {
-        sizeHint =
-          sizeMB > 5
-            ? `[cortex] Session transcript is ${sizeMB.toFixed(1)}MB. Context is very large. Prefer concise responses and avoid re-reading files already in context.`
-            : `[cortex] Session transcript is ${sizeMB.toFixed(1)}MB. Context is growing. Be concise where possible.`;
-        writeCache(cacheKey, sizeHint);
-        log(`Injecting optimization hint: ${sizeHint}`);
+      if (cachedHint !== null) {
+        log('Cache hit for context gauge');
+        contextHint = cachedHint || null;
+      } else {
+        const usage = readContextUsage(transcriptPath, transcriptHints);
+        if (usage) {
+          log(
+            `Context: ~${usage.usedTokens} of ${usage.windowTokens} tokens (${usage.percent.toFixed(1)}%), model ${usage.model ?? 'unknown'}, ${usage.turns} turns`,
+          );
+          const gauge = formatContextGauge(usage, transcriptHints);
+          // Redacted once here; the cache and the output share the result
+          contextHint = gauge ? redactHookText(gauge, cwd) : null;
+          // Cache empty results too so small sessions are not re-parsed
+          writeCache(cacheKey, contextHint ?? '');
+          if (contextHint) {
+            log(`Injecting context gauge: ${contextHint.split('\n')[0]}`);
+          }
+        }
       }
     }
 
-    // --- Combine and output ---
-    const parts = [dashboardStats, sizeHint].filter(Boolean);
-    if (parts.length > 0) {
-      const combined = parts.join('\n');
-      const output = JSON.stringify({
-        hookSpecificOutput: {
-          hookEventName: 'UserPromptSubmit',
-          additionalContext: combined,
-        },
-      });
-      process.stdout.write(output);
+    // --- Combine and output (the context gauge is already redacted) ---
+    const fresh = [dashboardStats, recall].filter(Boolean);
+    const parts = [fresh.length > 0 ? redactHookText(fresh.join('\n'), cwd) : null, contextHint];
+    const combined = parts.filter(Boolean).join('\n');
+    if (combined) {
+      telemetry.summaryTokens = estimateTokens(combined);
+      const output = formatHookOutput(
+        { hookEventName: 'UserPromptSubmit', additionalContext: combined },
+        AGENT,
+      );
+      if (output) process.stdout.write(output);
     }
 
     process.exit(0);
@@ -0,0 +1,146 @@
+/**
+ * PreToolUse Rules — Decide whether to steer a tool call before it runs
+ *
+ * Pure decision logic for the PreToolUse hook: whole-file Reads of
+ * generated or huge files are denied or warned about (with line ranges
+ * from the file's outline), and configured verbose Bash commands are
+ * rewritten to run through `cortex relay`.
+ */
+
+import { readFileSync, statSync } from 'node:fs';
+import { isAbsolute, relative, resolve } from 'node:path';
+import type { PreToolUseConfig } from '../types/config.js';
+import { buildOutline, formatOutline, isOutlineSupported } from '../utils/code-outline.js';
+import { matchesGlob } from '../utils/glob.js';
+
+/** Files larger than this are not parsed for an outline suggestion */
+const MAX_OUTLINE_BYTES = 2 * 1024 * 1024;
+
+// Shell syntax that `cortex relay` (no shell) cannot reproduce
+const SHELL_METACHARACTERS = /[|&;<>()$`\\"'*?~{}\n]/;
+
+export type PreToolDecision =
+  | { action: 'deny'; reason: string }
+  | { action: 'warn'; context: string }
+  | { action: 'rewrite'; updatedInput: Record<string, unknown>; context: string };
+
+export interface PreToolCall {
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  /** Project directory the call runs in */
+  cwd: string;
+  /** Absolute path of the cortex CLI entry, used for relay rewrites */
+  cliPath: string;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  return `${Math.round(bytes / 1024)}KB`;
+}
+
+/**
+ * Suggest ranged reads: an outline with line ranges for TS/JS, generic advice otherwise.
+ */
+function suggestRanges(absPath: string, size: number): string {
+  if (isOutlineSupported(absPath) && size <= MAX_OUTLINE_BYTES) {
+    try {
+      const outline = formatOutline(buildOutline(readFileSync(absPath, 'utf-8'), absPath), {
+        maxSymbols: 25,
+      });
+      if (outline) {
+        return `Read the symbol you need with offset/limit. Outline:\n${outline}`;
+      }
+    } catch {
+      // Fall through to generic advice
+    }
+  }
+  return 'Use Read with offset/limit (e.g. offset 1, limit 200) or Grep for the lines you need.';
+}
+
+function evaluateRead(call: PreToolCall, config: PreToolUseConfig): PreToolDecision | null {
+  const filePath = call.toolInput['file_path'];
+  if (typeof filePath !== 'string' || filePath.length === 0) return null;
+
+  // Ranged reads are deliberate; let them through
+  if (call.toolInput['offset'] !== undefined || call.toolInput['limit'] !== undefined) return null;
+
+  const absPath = resolve(call.cwd, filePath);
+  const rel = relative(call.cwd, absPath);
+  const displayPath = rel.startsWith('..') || isAbsolute(rel) ? absPath : rel;
+
+  // Project-relative path, so directories above the project (e.g. /srv/dist) do not match;
+  // files outside the project are matched by absolute path
+  const generated = config.generatedPatterns.find((pattern) => matchesGlob(displayPath, pattern));
+  if (generated) {
+    const message = `[cortex] ${displayPath} is a generated file (matches "${generated}"). Read its source instead, or pass offset/limit if you really need part of it.`;
+    return config.generatedAction === 'deny'
+      ? { action: 'deny', reason: message }
+      : { action: 'warn', context: message };
+  }
+
+  let size: number;
+  try {
+    const stats = statSync(absPath);
+    if (!stats.isFile()) return null;
+    size = stats.size;
+  } catch {
+    return null;
+  }
+
+  if (size > config.denyReadBytes) {
+    return {
+      action: 'deny',
+      reason: `[cortex] ${displayPath} is ${formatBytes(size)} (~${Math.ceil(size / 4)} tokens), too large to read whole. ${suggestRanges(absPath, size)}`,
+    };
+  }
+  if (size > config.warnReadBytes) {
+    return {
+      action: 'warn',
+      context: `[cortex] ${displayPath} is ${formatBytes(size)} (~${Math.ceil(size / 4)} tokens). Next time, prefer a ranged read. ${suggestRanges(absPath, size)}`,
+    };
+  }
+  return null;
+}
+
+function evaluateBash(call: PreToolCall, config: PreToolUseConfig): PreToolDecision | null {
+  const command = call.toolInput['command'];
+  if (typeof command !== 'string') return null;
+
+  const trimmed = command.trim();
+  if (SHELL_METACHARACTERS.test(trimmed)) return null;
+
+  const prefix = config.relayCommands.find((p) => trimmed === p || trimmed.startsWith(`${p} `));
+  if (!prefix) return null;
+
+  return {
+    action: 'rewrite',
+    updatedInput: {
+      ...call.toolInput,
+      command: `node "${call.cliPath.replace(/\\/g, '/')}" relay ${trimmed}`,
+    },
+    context: `[cortex] \`${prefix}\` output is routed through \`cortex relay\` to compress it.`,
+  };
+}
+
+/**
+ * Evaluate a pending tool call against the PreToolUse rules.
+ *
+ * @param call - Tool call about to run
+ * @param config - PreToolUse rules
+ * @returns Decision, or null to let the call through untouched
+ */
+export function evaluatePreToolUse(
+  call: PreToolCall,
+  config: PreToolUseConfig,
+): PreToolDecision | null {
+  if (!config.enabled) return null;
+
+  switch (call.toolName) {
+    case 'Read':
+      return evaluateRead(call, config);
+    case 'Bash':
+      return evaluateBash(call, config);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+/**
+ * PreToolUse Hook - Steers expensive tool calls before they run
+ *
+ * Denies or warns about whole-file Reads of generated or huge files
+ * (suggesting line ranges from the outline), and rewrites configured
+ * verbose Bash commands to run through `cortex relay`. Rules come from
+ * `hooks.preToolUse` in the project or global `.cortex/config.yaml`.
+ *
+ * CRITICAL: Always exits 0 (never disrupts Claude Code).
+ */
+
+import { appendFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { estimateTokens } from '../utils/tokenizer.js';
+import {
+  formatHookOutput,
+  type HookOutput,
+  normalizeHookInput,
+  resolveHookAgent,
+} from './agent-payload.js';
+import { loadHooksConfig } from './hook-config.js';
+import { trackHookInvocation } from './hook-telemetry.js';
+import { evaluatePreToolUse } from './pre-tool-rules.js';
+import { redactHookText } from './redact-context.js';
+
+const DEBUG = process.env['CORTEX_DEBUG'] === 'true';
+const LOG_FILE = process.env['CORTEX_LOG_FILE'] || join(homedir(), '.cortex-hook.log');
+const AGENT = resolveHookAgent();
+const telemetry = trackHookInvocation('PreToolUse', AGENT);
+
+function log(message: string): void {
+  if (DEBUG) {
+    const timestamp = new Date().toISOString();
+    appendFileSync(LOG_FILE, `[${timestamp}] [pre-tool] ${message}\n`);
+  }
+}
+
+interface HookInput {
+  session_id?: string;
+  cwd?: string;
+  hook_event_name?: string;
+  tool_name?: string;
+  tool_input?: Record<string, unknown>;
+}
+
+async function main(): Promise<void> {
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk);
+    }
+    const raw = Buffer.concat(chunks).toString('utf-8');
+
+    let input: HookInput;
+    try {
+      input = normalizeHookInput(JSON.parse(raw), AGENT);
+    } catch {
+      log('Failed to parse JSON input');
+      process.exit(0);
+      return;
+    }
+
+    const cwd = input.cwd || process.cwd();
+    const toolName = input.tool_name ?? 'unknown';
+    telemetry.cwd = cwd;
+    telemetry.sessionId = input.session_id;
+    telemetry.toolName = toolName;
+    telemetry.inputTokens = estimateTokens(JSON.stringify(input.tool_input ?? {}));
+    const cliPath = join(dirname(dirname(fileURLToPath(import.meta.url))), 'cli', 'index.js');
+
+    const decision = evaluatePreToolUse(
+      { toolName, toolInput: input.tool_input ?? {}, cwd, cliPath },
+      loadHooksConfig(cwd).preToolUse,
+    );
+
+    if (!decision) {
+      log(`Tool: ${toolName}, no rule matched`);
+      process.exit(0);
+      return;
+    }
+
+    log(`Tool: ${toolName}, action: ${decision.action}`);
+
+    // updatedInput is sent without a permission decision so the user's
+    // normal permission rules still apply to the rewritten command
+    const hookSpecificOutput: HookOutput =
+      decision.action === 'deny'
+        ? {
+            hookEventName: 'PreToolUse',
+            permissionDecision: 'deny',
+            permissionDecisionReason: decision.reason,
+          }
+        : decision.action === 'warn'
+          ? {
+              hookEventName: 'PreToolUse',
+              additionalContext: redactHookText(decision.context, cwd),
+            }
+          : {
+              hookEventName: 'PreToolUse',
+              updatedInput: decision.updatedInput,
+              additionalContext: redactHookText(decision.context, cwd),
+            };
+
+    telemetry.summaryTokens = estimateTokens(
+      hookSpecificOutput.permissionDecisionReason ?? hookSpecificOutput.additionalContext ?? '',
+    );
+    const output = formatHookOutput(hookSpecificOutput, AGENT);
+    if (output) process.stdout.write(output);
+    process.exit(0);
+  } catch (error) {
+    log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(0);
+  }
+}
+
+main();
@@ -0,0 +1,265 @@
+/**
+ * Prompt Recall — Memories and file pointers related to the user's prompt
+ *
+ * Pulls key terms (identifiers, paths, error codes, then plain words)
+ * from the prompt, queries the memory FTS index in `.cortex/memory.db`
+ * and the code search index in `.cortex/search.db`, and formats the best
+ * matches within a token budget for the UserPromptSubmit hook.
+ *
+ * Databases are opened read-only; a missing index is simply skipped.
+ */
+
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import type { RecallConfig } from '../types/config.js';
+import { extractKeyTerms, termWeight } from '../utils/key-terms.js';
+import { estimateTokens } from '../utils/tokenizer.js';
+
+/** Recalled memory entry */
+export interface RecalledMemory {
+  id: string;
+  timestamp: number;
+  isBTSP: boolean;
+  /** Most relevant line of the entry */
+  snippet: string;
+  score: number;
+}
+
+/** Recalled code location */
+export interface RecalledFile {
+  filePath: string;
+  lineNumber: number;
+  /** Best matching line */
+  snippet: string;
+  score: number;
+}
+
+const MAX_SNIPPET_LENGTH = 160;
+const MAX_FTS_ROWS = 200;
+
+/**
+ * Build an FTS5 query matching any term in the given column.
+ */
+function buildMatchQuery(terms: string[], column: string): string {
+  return terms
+    .map((t) => t.replace(/"/g, ''))
+    .filter((t) => t.length > 0)
+    .map((t) => `${column}:"${t}"`)
+    .join(' OR ');
+}
+
+/**
+ * Weighted count of terms mentioned in a text (code-like terms count triple).
+ */
+function matchedTerms(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  return terms
+    .filter((t) => lower.includes(t.toLowerCase()))
+    .reduce((sum, t) => sum + termWeight(t), 0);
+}
+
+/**
+ * Pick the line of a text that mentions the most terms.
+ */
+function bestLine(text: string, terms: string[]): string {
+  let best = '';
+  let bestHits = -1;
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.length === 0) continue;
+    const hits = matchedTerms(trimmed, terms);
+    if (hits > bestHits) {
+      best = trimmed;
+      bestHits = hits;
+    }
+  }
+  return truncate(best.replace(/\s+/g, ' '), MAX_SNIPPET_LENGTH);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function openReadOnly(dbPath: string): Database.Database | null {
+  if (!existsSync(dbPath)) return null;
+  try {
+    return new Database(dbPath, { readonly: true, fileMustExist: true });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find memories related to the terms. BTSP entries (errors, decisions)
+ * and entries matching more terms rank higher.
+ *
+ * @param dbPath - Path to .cortex/memory.db
+ * @param terms - Key terms from the prompt
+ * @param limit - Maximum memories returned
+ */
+export function recallMemories(dbPath: string, terms: string[], limit: number): RecalledMemory[] {
+  if (terms.length === 0 || limit <= 0) return [];
+  const db = openReadOnly(dbPath);
+  if (!db) return [];
+
+  try {
+    const rows = db
+      .prepare(`
+        SELECT i.id, i.timestamp, i.isBTSP, v.content, rank
+        FROM entries_fts f
+        JOIN entries_index i ON f.id = i.id
+        JOIN entries_value v ON f.id = v.id
+        WHERE entries_fts MATCH ?
+        ORDER BY rank
+        LIMIT ?
+      `)
+      .all(buildMatchQuery(terms, 'content'), MAX_FTS_ROWS) as Array<{
+      id: string;
+      timestamp: number;
+      isBTSP: number;
+      content: string;
+      rank: number;
+    }>;
+
+    const seen = new Set<string>();
+    return rows
+      .map((r) => ({
+        id: r.id,
+        timestamp: r.timestamp,
+        isBTSP: r.isBTSP === 1,
+        snippet: bestLine(r.content, terms),
+        // bm25 rank is negative; lower is better
+        score: -r.rank * matchedTerms(r.content, terms) * (r.isBTSP === 1 ? 2 : 1),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .filter((m) => {
+        if (m.snippet.length === 0 || seen.has(m.snippet)) return false;
+        seen.add(m.snippet);
+        return true;
+      })
+      .slice(0, limit);
+  } catch {
+    // Missing tables or FTS syntax the sanitizer did not catch
+    return [];
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Find files related to the terms in the code search index, one pointer
+ * per file at its best matching line. Files covering more terms rank higher.
+ *
+ * @param dbPath - Path to .cortex/search.db
+ * @param terms - Key terms from the prompt
+ * @param limit - Maximum files returned
+ */
+export function recallFiles(dbPath: string, terms: string[], limit: number): RecalledFile[] {
+  if (terms.length === 0 || limit <= 0) return [];
+  const db = openReadOnly(dbPath);
+  if (!db) return [];
+
+  try {
+    const rows = db
+      .prepare(`
+        SELECT filepath, line_number, content, rank
+        FROM search_index
+        WHERE search_index MATCH ?
+        ORDER BY rank
+        LIMIT ?
+      `)
+      .all(buildMatchQuery(terms, 'content'), MAX_FTS_ROWS) as Array<{
+      filepath: string;
+      line_number: number;
+      content: string;
+      rank: number;
+    }>;
+
+    const files = new Map<string, { best: RecalledFile; terms: Set<string> }>();
+    for (const row of rows) {
+      const hits = terms.filter((t) => row.content.toLowerCase().includes(t.toLowerCase()));
+      const lineScore = -row.rank * Math.max(matchedTerms(row.content, terms), 1);
+      const snippet = truncate(row.content.trim().replace(/\s+/g, ' '), MAX_SNIPPET_LENGTH);
+
+      let file = files.get(row.filepath);
+      if (!file) {
+        file = {
+          best: {
+            filePath: row.filepath,
+            lineNumber: Number(row.line_number),
+            snippet,
+            score: lineScore,
+          },
+          terms: new Set(),
+        };
+        files.set(row.filepath, file);
+      } else if (lineScore > file.best.score) {
+        file.best = {
+          ...file.best,
+          lineNumber: Number(row.line_number),
+          snippet,
+          score: lineScore,
+        };
+      }
+      for (const t of hits) file.terms.add(t);
+    }
+
+    // Breadth first: a file touching several terms beats one strong line
+    return [...files.values()]
+      .map((f) => {
+        const coverage = [...f.terms].reduce((sum, t) => sum + termWeight(t), 0);
+        return { ...f.best, score: f.best.score + coverage * 10 };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  } catch {
+    return [];
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Build the recall block for a prompt.
+ *
+ * @param prompt - User prompt
+ * @param cwd - Project directory (holds `.cortex/memory.db` and `.cortex/search.db`)
+ * @param config - Recall limits
+ * @returns Formatted block within `config.maxTokens`, or null if nothing relevant was found
+ */
+export function recallForPrompt(prompt: string, cwd: string, config: RecallConfig): string | null {
+  // Slash commands are handled by Claude Code itself
+  if (!config.enabled || prompt.trimStart().startsWith('/')) return null;
+
+  const terms = extractKeyTerms(prompt);
+  if (terms.length === 0) return null;
+
+  const memories = recallMemories(join(cwd, '.cortex', 'memory.db'), terms, config.maxMemories);
+  const files = recallFiles(join(cwd, '.cortex', 'search.db'), terms, config.maxFiles);
+  if (memories.length === 0 && files.length === 0) return null;
+
+  const lines = [`[cortex] Recall for: ${terms.join(', ')}`];
+  const addSection = (heading: string, items: string[]): void => {
+    for (const item of items) {
+      const added = lines.includes(heading) ? [item] : [heading, item];
+      if (estimateTokens([...lines, ...added].join('\n')) > config.maxTokens) return;
+      lines.push(...added);
+    }
+  };
+
+  addSection(
+    'Related memories:',
+    memories.map((m) => {
+      const date = new Date(m.timestamp).toISOString().slice(0, 10);
+      return `  - ${date}${m.isBTSP ? ' [important]' : ''}: ${m.snippet}`;
+    }),
+  );
+  addSection(
+    'Related files:',
+    files.map((f) => `  - ${f.filePath}:${f.lineNumber}: ${f.snippet}`),
+  );
+
+  // The heading alone is not worth injecting
+  return lines.length > 1 ? lines.join('\n') : null;
+}
@@ -0,0 +1,210 @@
+/**
+ * Read Tracker — Per-session record of file contents already returned by Read
+ *
+ * Lets the PostToolUse hook tell Claude when a re-read returned nothing new,
+ * or what changed since the version it last saw. State lives under
+ * `.cortex/reads/<session>/`: `state.json` (paths, ranges, hashes, read
+ * numbers) plus content snapshots named by hash, used to build diffs.
+ *
+ * Reads are numbered in the order the session made them ("read #3"), and
+ * each one updates `state.json` in a single load and save.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { hashContent } from '../utils/hash.js';
+import { formatUnifiedDiff } from '../utils/line-diff.js';
+
+/** Snapshots above this size are not stored (diffs fall back to "changed") */
+const MAX_SNAPSHOT_BYTES = 512 * 1024;
+
+/** Session directories untouched for this long are removed */
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Requested range of a Read call, as given in tool_input */
+export interface ReadRange {
+  offset?: number;
+  limit?: number;
+}
+
+interface ReadRecord {
+  offset: number | null;
+  limit: number | null;
+  startLine: number;
+  endLine: number;
+  hash: string;
+  /** Number of the read that first returned this exact content */
+  read: number;
+}
+
+interface ReadState {
+  /** Reads recorded so far in the session */
+  reads: number;
+  files: Record<string, ReadRecord[]>;
+}
+
+/** `read` is this read's number in the session (1-based), `since` an earlier one's */
+export type ReadObservation =
+  | { status: 'first'; read: number }
+  | { status: 'unchanged'; read: number; since: number }
+  | { status: 'seen-range'; read: number; since: number; startLine: number; endLine: number }
+  | { status: 'changed'; read: number; since: number; diff: string | null };
+
+export interface ReadTracker {
+  /**
+   * Number a Read result and compare it with what this session already saw.
+   *
+   * @param filePath - Absolute path of the file read
+   * @param range - Requested offset/limit
+   * @param content - Returned file content (no line-number prefixes)
+   * @param startLine - Line number of the first returned line
+   */
+  recordRead(
+    filePath: string,
+    range: ReadRange,
+    content: string,
+    startLine: number,
+  ): ReadObservation;
+}
+
+function sanitizeSessionId(sessionId: string): string {
+  return sessionId.replace(/[^\w-]/g, '_').slice(0, 128) || 'unknown';
+}
+
+function pruneStaleSessions(readsDir: string, keep: string): void {
+  try {
+    const cutoff = Date.now() - SESSION_TTL_MS;
+    for (const name of readdirSync(readsDir)) {
+      if (name === keep) continue;
+      const dir = join(readsDir, name);
+      if (statSync(dir).mtimeMs < cutoff) {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }
+  } catch {
+    // Best-effort cleanup
+  }
+}
+
+/**
+ * Create a read tracker for one session.
+ *
+ * @param readsDir - Directory holding all session states (e.g. `.cortex/reads`)
+ * @param sessionId - Claude Code session ID
+ */
+export function createReadTracker(readsDir: string, sessionId: string): ReadTracker {
+  const sessionDir = join(readsDir, sanitizeSessionId(sessionId));
+  const statePath = join(sessionDir, 'state.json');
+
+  if (!existsSync(sessionDir)) {
+    mkdirSync(sessionDir, { recursive: true });
+    pruneStaleSessions(readsDir, sanitizeSessionId(sessionId));
+  }
+
+  function load(): ReadState {
+    try {
+      const data = JSON.parse(readFileSync(statePath, 'utf-8')) as ReadState;
+      if (typeof data.reads === 'number' && data.files && typeof data.files === 'object') {
+        return data;
+      }
+    } catch {
+      // Missing or corrupt state starts fresh
+    }
+    return { reads: 0, files: {} };
+  }
+
+  function save(state: ReadState): void {
+    // Write-then-rename so concurrent hook processes never see a partial file
+    const tmp = `${statePath}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(state), 'utf-8');
+    renameSync(tmp, statePath);
+  }
+
+  function snapshotPath(hash: string): string {
+    return join(sessionDir, `${hash}.txt`);
+  }
+
+  function readSnapshot(hash: string): string | null {
+    try {
+      return readFileSync(snapshotPath(hash), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  function writeSnapshot(hash: string, content: string): void {
+    if (Buffer.byteLength(content, 'utf-8') > MAX_SNAPSHOT_BYTES) return;
+    const path = snapshotPath(hash);
+    if (!existsSync(path)) {
+      writeFileSync(path, content, 'utf-8');
+    }
+  }
+
+  function recordRead(
+    filePath: string,
+    range: ReadRange,
+    content: string,
+    startLine: number,
+  ): ReadObservation {
+    const state = load();
+    const read = ++state.reads;
+    const hash = hashContent(content);
+    const offset = range.offset ?? null;
+    const limit = range.limit ?? null;
+    const endLine = startLine + content.split('\n').length - 1;
+    const records = state.files[filePath] ?? [];
+    state.files[filePath] = records;
+
+    const same = records.find((r) => r.offset === offset && r.limit === limit);
+    let observation: ReadObservation;
+
+    if (same && same.hash === hash) {
+      observation = { status: 'unchanged', read, since: same.read };
+    } else if (same) {
+      const previous = readSnapshot(same.hash);
+      const diff = previous === null ? null : formatUnifiedDiff(previous, content, { startLine });
+      observation = { status: 'changed', read, since: same.read, diff };
+      Object.assign(same, { startLine, endLine, hash, read });
+      writeSnapshot(hash, content);
+    } else {
+      // A narrower read fully covered by an earlier one with identical lines
+      const covering = records.find((r) => r.startLine <= startLine && r.endLine >= endLine);
+      const snapshot = covering ? readSnapshot(covering.hash) : null;
+      const slice =
+        covering && snapshot !== null
+          ? snapshot
+              .split('\n')
+              .slice(startLine - covering.startLine, endLine - covering.startLine + 1)
+              .join('\n')
+          : null;
+
+      if (covering && slice === content) {
+        observation = {
+          status: 'seen-range',
+          read,
+          since: covering.read,
+          startLine,
+          endLine,
+        };
+      } else {
+        observation = { status: 'first', read };
+      }
+      records.push({ offset, limit, startLine, endLine, hash, read });
+      writeSnapshot(hash, content);
+    }
+
+    save(state);
+    return observation;
+  }
+
+  return { recordRead };
+}
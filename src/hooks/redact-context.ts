@@ -0,0 +1,31 @@
+/**
+ * Redact Context — Secret redaction for text a hook injects or stores
+ *
+ * Applies the project's redaction settings and records the counts in
+ * the project's `.cortex/memory.db` (when it exists) for `cortex stats`.
+ */
+
+import { resolve } from 'node:path';
+import { recordRedactionsInDB } from '../core/redaction-stats.js';
+import { configureRedaction, type RedactOptions, redactSecrets } from '../utils/redactor.js';
+import { loadRedactionConfig } from './hook-config.js';
+
+let configuredFor: string | null = null;
+
+/**
+ * Redact secrets from hook output.
+ *
+ * @param text - additionalContext, cached hint or snapshot content
+ * @param cwd - Project directory (selects config and stats database)
+ * @param options - Source hints (e.g. the file a Read returned)
+ * @returns Redacted text
+ */
+export function redactHookText(text: string, cwd: string, options: RedactOptions = {}): string {
+  if (configuredFor !== cwd) {
+    configureRedaction(loadRedactionConfig(cwd));
+    configuredFor = cwd;
+  }
+  const result = redactSecrets(text, options);
+  recordRedactionsInDB(resolve(cwd, '.cortex/memory.db'), result.counts);
+  return result.text;
+}
@@ -0,0 +1,360 @@
+/**
+ * Session Handoff — Digest of a session for the next one to pick up from
+ *
+ * Distills a Claude Code transcript into what was attempted (user prompts),
+ * files modified, errors hit and whether a later retry succeeded, open
+ * TODOs and decisions. The digest is written to
+ * `.cortex/handoff/<session>.md` and stored as tagged memory entries so
+ * recall and the next session can find it after a context reset.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { isAbsolute, join, relative } from 'node:path';
+import { createKVMemory } from '../core/kv-memory.js';
+import type { MemoryEntry } from '../types/memory.js';
+import { hashContent } from '../utils/hash.js';
+import {
+  contentBlocks,
+  isUserPrompt,
+  parseTranscript,
+  toolResultText,
+} from './transcript-records.js';
+
+/** Error hit during the session */
+export interface HandoffError {
+  /** Tool and target, e.g. "Bash `npm test`" */
+  source: string;
+  /** Most telling line of the error output */
+  message: string;
+  /** A later call with the same tool and target succeeded */
+  resolved: boolean;
+}
+
+/** Open item from the todo list or a TODO note */
+export interface HandoffTodo {
+  content: string;
+  status: 'pending' | 'in_progress';
+}
+
+/** Structured digest of one session */
+export interface SessionHandoff {
+  sessionId: string;
+  /** User prompts, oldest first */
+  attempted: string[];
+  /** Modified files (relative to the project) with edit counts */
+  filesModified: Array<{ path: string; edits: number }>;
+  errors: HandoffError[];
+  todos: HandoffTodo[];
+  decisions: string[];
+}
+
+/** Digest sections, in markdown order */
+export const HANDOFF_SECTIONS = ['attempted', 'files', 'errors', 'todos', 'decisions'] as const;
+
+export type HandoffSection = (typeof HANDOFF_SECTIONS)[number];
+
+/** Tools that change files, with the input field holding the path */
+const EDIT_TOOLS: Record<string, string> = {
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+const DECISION_PATTERN =
+  /\b(decided|decision|chose|chosen|opted|going with|settled on|rather than|trade-?off)\b/i;
+const TODO_PATTERN = /^(?:TODO|FIXME|Follow-?up)\b[:\s-]+(.+)$/i;
+const ERROR_LINE_PATTERN = /error|fail|exception|cannot|not found|denied|invalid/i;
+
+const MAX_ITEM_LENGTH = 200;
+const MAX_ATTEMPTED = 12;
+const MAX_DECISIONS = 8;
+
+/** Handoff entries stay around long enough to span a few days off */
+const HANDOFF_TTL = 30 * 24 * 3600;
+
+function truncate(text: string, max = MAX_ITEM_LENGTH): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+/**
+ * Pick the line that best explains an error, skipping wrappers such as
+ * `<tool_use_error>` and bare exit codes.
+ */
+function errorMessage(output: string): string {
+  const lines = output
+    .replace(/<\/?tool_use_error>/g, '')
+    .split('\n')
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0 && !/^Exit code \d+$/i.test(l));
+  return truncate(lines.find((l) => ERROR_LINE_PATTERN.test(l)) ?? lines[0] ?? 'failed');
+}
+
+/**
+ * Describe a tool call by its target: the command for Bash, the path for
+ * file tools, the pattern for searches.
+ */
+function describeCall(name: string, input: Record<string, unknown>, cwd: string): string {
+  const target =
+    input['command'] ?? input['file_path'] ?? input['notebook_path'] ?? input['pattern'];
+  if (typeof target !== 'string') return name;
+  const shown = isAbsolute(target) ? displayPath(target, cwd) : target;
+  return `${name} \`${truncate(shown, 80)}\``;
+}
+
+function displayPath(path: string, cwd: string): string {
+  const rel = relative(cwd, path);
+  return rel.length > 0 && !rel.startsWith('..') && !isAbsolute(rel) ? rel : path;
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.replace(/^[-*#>\s]+/, '').trim())
+    .filter((s) => s.length > 0);
+}
+
+/**
+ * Build the handoff digest from a transcript. Subagent (sidechain)
+ * traffic is left out; its results show up in the main chain anyway.
+ *
+ * @param jsonl - Transcript contents
+ * @param sessionId - Session id
+ * @param cwd - Project directory (modified paths are shown relative to it)
+ */
+export function buildHandoff(jsonl: string, sessionId: string, cwd: string): SessionHandoff {
+  const attempted: string[] = [];
+  const files = new Map<string, number>();
+  const errors = new Map<string, HandoffError>();
+  const decisions: string[] = [];
+  const todoNotes: string[] = [];
+  let todoList: HandoffTodo[] | null = null;
+
+  // tool_use id → call, to pair results with the call that produced them
+  const calls = new Map<string, { name: string; input: Record<string, unknown> }>();
+
+  for (const record of parseTranscript(jsonl)) {
+    if (record.isSidechain) continue;
+
+    if (isUserPrompt(record)) {
+      const text = contentBlocks(record.message?.content)
+        .filter((b) => b.type === 'text' && typeof b.text === 'string')
+        .map((b) => b.text)
+        .join('\n');
+      // Slash commands and local command output are recorded as tagged text
+      if (text.trim().length > 0 && !text.trimStart().startsWith('<')) {
+        attempted.push(truncate(text));
+      }
+      continue;
+    }
+
+    for (const block of contentBlocks(record.message?.content)) {
+      if (record.type === 'assistant' && block.type === 'tool_use' && block.id && block.name) {
+        const input = block.input ?? {};
+        calls.set(block.id, { name: block.name, input });
+        if (block.name === 'TodoWrite' && Array.isArray(input['todos'])) {
+          todoList = (input['todos'] as Array<{ content?: unknown; status?: unknown }>)
+            .filter((t) => typeof t.content === 'string' && t.status !== 'completed')
+            .map((t) => ({
+              content: truncate(t.content as string),
+              status: t.status === 'in_progress' ? 'in_progress' : 'pending',
+            }));
+        }
+      } else if (record.type === 'assistant' && block.type === 'text' && block.text) {
+        for (const sentence of sentences(block.text)) {
+          const todo = sentence.match(TODO_PATTERN)?.[1];
+          if (todo) todoNotes.push(truncate(todo));
+          else if (DECISION_PATTERN.test(sentence)) decisions.push(truncate(sentence));
+        }
+      } else if (block.type === 'tool_result' && block.tool_use_id) {
+        const call = calls.get(block.tool_use_id);
+        if (!call) continue;
+        const source = describeCall(call.name, call.input, cwd);
+
+        if (block.is_error) {
+          errors.set(source, {
+            source,
+            message: errorMessage(toolResultText(block.content)),
+            resolved: false,
+          });
+          continue;
+        }
+
+        const previous = errors.get(source);
+        if (previous) previous.resolved = true;
+
+        const pathField = EDIT_TOOLS[call.name];
+        const path = pathField ? call.input[pathField] : undefined;
+        if (typeof path === 'string') {
+          const shown = displayPath(path, cwd);
+          files.set(shown, (files.get(shown) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  const todos: HandoffTodo[] = [...(todoList ?? [])];
+  for (const note of todoNotes) {
+    if (!todos.some((t) => t.content === note)) todos.push({ content: note, status: 'pending' });
+  }
+
+  return {
+    sessionId,
+    attempted: [...new Set(attempted)].slice(-MAX_ATTEMPTED),
+    filesModified: [...files.entries()]
+      .map(([path, edits]) => ({ path, edits }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    errors: [...errors.values()],
+    todos,
+    decisions: [...new Set(decisions)].slice(-MAX_DECISIONS),
+  };
+}
+
+/**
+ * Whether the digest holds anything worth handing off.
+ */
+export function isEmptyHandoff(handoff: SessionHandoff): boolean {
+  return sectionLines(handoff).every(([, lines]) => lines.length === 0);
+}
+
+function sectionLines(handoff: SessionHandoff): Array<[HandoffSection, string[]]> {
+  return [
+    ['attempted', handoff.attempted],
+    [
+      'files',
+      handoff.filesModified.map((f) => `${f.path} (${f.edits} edit${f.edits === 1 ? '' : 's'})`),
+    ],
+    [
+      'errors',
+      handoff.errors.map(
+        (e) => `[${e.resolved ? 'resolved' : 'unresolved'}] ${e.source}: ${e.message}`,
+      ),
+    ],
+    [
+      'todos',
+      handoff.todos.map(
+        (t) => `[${t.status === 'in_progress' ? 'in progress' : 'pending'}] ${t.content}`,
+      ),
+    ],
+    ['decisions', handoff.decisions],
+  ];
+}
+
+const SECTION_TITLES: Record<HandoffSection, string> = {
+  attempted: 'Attempted',
+  files: 'Files modified',
+  errors: 'Errors',
+  todos: 'Open TODOs',
+  decisions: 'Decisions',
+};
+
+/**
+ * Format the digest as markdown; empty sections are left out.
+ *
+ * @param handoff - Digest
+ * @param generatedAt - Timestamp (ms) shown in the header
+ */
+export function formatHandoffMarkdown(handoff: SessionHandoff, generatedAt = Date.now()): string {
+  const updated = new Date(generatedAt).toISOString().replace('T', ' ').slice(0, 16);
+  const lines = [`# Session handoff: ${handoff.sessionId}`, '', `_Updated ${updated} UTC_`];
+
+  for (const [section, items] of sectionLines(handoff)) {
+    if (items.length === 0) continue;
+    lines.push('', `## ${SECTION_TITLES[section]}`, '', ...items.map((item) => `- ${item}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Memory entry id of a digest section; stable so each Stop replaces the
+ * previous version of the section.
+ */
+export function handoffEntryId(sessionId: string, section: HandoffSection): string {
+  return `handoff:${sessionId}:${section}`;
+}
+
+/**
+ * Turn the digest into one memory entry per non-empty section, tagged
+ * `handoff`, `session:<id>` and the section name. Unresolved errors and
+ * decisions are marked BTSP so recall ranks them first.
+ *
+ * @param handoff - Digest
+ * @param now - Timestamp (ms)
+ */
+export function handoffEntries(handoff: SessionHandoff, now = Date.now()): MemoryEntry[] {
+  return sectionLines(handoff)
+    .filter(([, items]) => items.length > 0)
+    .map(([section, items]) => {
+      const content = [
+        `Session ${handoff.sessionId} handoff — ${SECTION_TITLES[section].toLowerCase()}:`,
+        ...items.map((item) => `- ${item}`),
+      ].join('\n');
+      const isBTSP =
+        section === 'decisions' ||
+        (section === 'errors' && handoff.errors.some((e) => !e.resolved));
+
+      return {
+        id: handoffEntryId(handoff.sessionId, section),
+        content,
+        hash: hashContent(content),
+        timestamp: now,
+        score: isBTSP ? 1.0 : 0.8,
+        ttl: HANDOFF_TTL,
+        state: 'active',
+        accessCount: 0,
+        tags: ['handoff', `session:${handoff.sessionId}`, section],
+        metadata: { type: 'handoff', sessionId: handoff.sessionId, section },
+        isBTSP,
+      };
+    });
+}
+
+/**
+ * Path of a session's handoff markdown.
+ */
+export function handoffPath(cwd: string, sessionId: string): string {
+  return join(cwd, '.cortex', 'handoff', `${sessionId.replace(/[^\w.-]/g, '_')}.md`);
+}
+
+/**
+ * Write the digest to `.cortex/handoff/<session>.md` and, when the project
+ * has a memory store, replace the session's handoff entries in it.
+ * Projects without `.cortex/` (never initialized) get nothing.
+ *
+ * @param cwd - Project directory
+ * @param handoff - Digest
+ * @param markdown - Formatted (and redacted) markdown
+ * @returns Number of memory entries stored
+ */
+export async function saveHandoff(
+  cwd: string,
+  handoff: SessionHandoff,
+  markdown: string,
+): Promise<number> {
+  if (!existsSync(join(cwd, '.cortex'))) return 0;
+
+  const path = handoffPath(cwd, handoff.sessionId);
+  mkdirSync(join(cwd, '.cortex', 'handoff'), { recursive: true });
+  writeFileSync(path, markdown, 'utf-8');
+
+  const dbPath = join(cwd, '.cortex', 'memory.db');
+  if (!existsSync(dbPath)) return 0;
+
+  const memory = await createKVMemory(dbPath);
+  try {
+    const entries = handoffEntries(handoff);
+    const kept = new Set(entries.map((e) => e.id));
+    for (const section of HANDOFF_SECTIONS) {
+      const id = handoffEntryId(handoff.sessionId, section);
+      if (!kept.has(id)) await memory.delete(id);
+    }
+    for (const entry of entries) {
+      await memory.put(entry);
+    }
+    return entries.length;
+  } finally {
+    await memory.close();
+  }
+}
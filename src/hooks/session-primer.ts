@@ -0,0 +1,304 @@
+/**
+ * Session Primer — Project memory injected when a session starts
+ *
+ * Gathers, in priority order: the most recent handoff digest, active BTSP
+ * memories (errors, decisions), overdue P0 debt, the plan being executed
+ * and the dependency graph's hot paths. Sections are added until the
+ * token budget runs out, so the most useful context always makes it in.
+ *
+ * Every source is optional; a project without `.cortex/` gets no primer.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { createDebtTracker } from '../core/debt-tracker.js';
+import { createDependencyGraph } from '../core/dependency-graph.js';
+import { createWorkflowPlanner } from '../core/workflow-planner.js';
+import type { SessionStartConfig } from '../types/config.js';
+import { estimateTokens } from '../utils/tokenizer.js';
+
+/** Primer section: a heading followed by items, most important first */
+export interface PrimerSection {
+  heading: string;
+  items: string[];
+}
+
+const MAX_MEMORIES = 5;
+const MAX_HOT_PATHS = 5;
+const MAX_SNIPPET_LENGTH = 160;
+
+/**
+ * Hot paths come only from a cache that `cortex graph` and `cortex hooks
+ * install` write; analyzing a large graph does not fit the hook's timeout
+ */
+const HOT_PATHS_CACHE = 'hot-paths.json';
+const HOT_PATHS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function truncate(text: string, max = MAX_SNIPPET_LENGTH): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * The most recently updated handoff digest, flattened to
+ * `Section: item` lines.
+ *
+ * @param cortexDir - Project `.cortex` directory
+ */
+export function latestHandoff(cortexDir: string): PrimerSection | null {
+  const dir = join(cortexDir, 'handoff');
+  if (!existsSync(dir)) return null;
+
+  const latest = readdirSync(dir)
+    .filter((f) => f.endsWith('.md'))
+    .map((f) => ({ path: join(dir, f), mtime: statSync(join(dir, f)).mtimeMs }))
+    .sort((a, b) => b.mtime - a.mtime)[0];
+  if (!latest) return null;
+
+  const items: string[] = [];
+  let section = '';
+  for (const line of readFileSync(latest.path, 'utf-8').split('\n')) {
+    if (line.startsWith('## ')) section = line.slice(3).trim();
+    else if (line.startsWith('- ') && section) items.push(`${section}: ${line.slice(2).trim()}`);
+  }
+  if (items.length === 0) return null;
+
+  // Open work first: a fresh session needs unresolved errors and TODOs more than history
+  const rank = (item: string): number =>
+    item.startsWith('Open TODOs') || item.includes('[unresolved]')
+      ? 0
+      : item.startsWith('Decisions')
+        ? 1
+        : 2;
+  return {
+    heading: `Last session handoff (${formatDate(latest.mtime)}):`,
+    items: items
+      .map((item, order) => ({ item, order }))
+      .sort((a, b) => rank(a.item) - rank(b.item) || a.order - b.order)
+      .map(({ item }) => truncate(item)),
+  };
+}
+
+/**
+ * Active BTSP memories (errors, decisions), newest first. Handoff entries
+ * are left out since the handoff section already covers them.
+ *
+ * @param dbPath - Path to .cortex/memory.db
+ */
+export function activeBTSPMemories(dbPath: string): PrimerSection | null {
+  if (!existsSync(dbPath)) return null;
+
+  let db: Database.Database | null = null;
+  try {
+    db = new Database(dbPath, { readonly: true, fileMustExist: true });
+    const rows = db
+      .prepare(`
+        SELECT i.timestamp, v.content
+        FROM entries_index i
+        JOIN entries_value v ON i.id = v.id
+        WHERE i.isBTSP = 1 AND i.state = 'active' AND v.tags NOT LIKE '%"handoff"%'
+        ORDER BY i.timestamp DESC
+        LIMIT ?
+      `)
+      .all(MAX_MEMORIES) as Array<{ timestamp: number; content: string }>;
+
+    const items = rows
+      .map((r) => {
+        const line = r.content.split('\n').find((l) => l.trim().length > 0) ?? '';
+        return line ? `${formatDate(r.timestamp)}: ${truncate(line)}` : '';
+      })
+      .filter((item) => item.length > 0);
+    return items.length > 0 ? { heading: 'Important memories:', items } : null;
+  } catch {
+    // Missing tables
+    return null;
+  } finally {
+    db?.close();
+  }
+}
+
+/**
+ * P0 debt past its repayment date.
+ *
+ * @param dbPath - Path to .cortex/memory.db
+ * @param now - Current time (ms)
+ */
+export async function overdueCriticalDebt(
+  dbPath: string,
+  now = Date.now(),
+): Promise<PrimerSection | null> {
+  if (!existsSync(dbPath)) return null;
+
+  const tracker = createDebtTracker(dbPath);
+  try {
+    const items = (await tracker.getCritical())
+      .filter((d) => d.repayment_date < now)
+      .map((d) => {
+        const files = d.files_affected.length > 0 ? `; ${d.files_affected.join(', ')}` : '';
+        return truncate(`${d.description} (due ${formatDate(d.repayment_date)}${files})`);
+      });
+    return items.length > 0 ? { heading: 'Overdue P0 debt:', items } : null;
+  } finally {
+    await tracker.close();
+  }
+}
+
+/**
+ * The plan currently being executed, with progress and remaining steps.
+ *
+ * @param cwd - Project directory
+ */
+export async function planInProgress(cwd: string): Promise<PrimerSection | null> {
+  // The planner creates .cortex/plans; don't do that for projects without plans
+  if (!existsSync(join(cwd, '.cortex', 'plans'))) return null;
+
+  const planner = createWorkflowPlanner(cwd);
+  const summary = (await planner.listPlans()).find((p) => p.status === 'executing');
+  if (!summary) return null;
+  const plan = await planner.loadPlan(summary.id);
+  if (!plan) return null;
+
+  const done = plan.steps.filter((s) => s.status === 'completed' || s.status === 'skipped');
+  const remaining = plan.steps
+    .filter((s) => s.status === 'pending' || s.status === 'in_progress' || s.status === 'failed')
+    .sort((a, b) => a.order - b.order)
+    .map((s) => {
+      const status = s.status === 'pending' ? '' : ` (${s.status.replace('_', ' ')})`;
+      return truncate(`${s.order}. [${s.action}] ${s.target}${status}: ${s.description}`);
+    });
+
+  return {
+    heading: `Plan in progress: ${truncate(plan.task_description, 100)} (${done.length}/${plan.steps.length} steps done, id ${plan.id})`,
+    items: remaining,
+  };
+}
+
+/**
+ * Most imported files, from the cached dependency graph analysis. Without
+ * a fresh cache there is no section; the graph is never analyzed here.
+ *
+ * @param cwd - Project directory
+ * @param now - Current time (ms)
+ */
+export function hotPaths(cwd: string, now = Date.now()): PrimerSection | null {
+  let paths: string[];
+  try {
+    const cached = JSON.parse(readFileSync(join(cwd, '.cortex', HOT_PATHS_CACHE), 'utf-8')) as {
+      builtAt: number;
+      hotPaths: string[];
+    };
+    if (now - cached.builtAt >= HOT_PATHS_TTL_MS || !Array.isArray(cached.hotPaths)) return null;
+    paths = cached.hotPaths;
+  } catch {
+    // No cache yet
+    return null;
+  }
+
+  if (paths.length === 0) return null;
+  return {
+    heading: `Hot paths (most imported): ${paths.slice(0, MAX_HOT_PATHS).join(', ')}`,
+    items: [],
+  };
+}
+
+/**
+ * Cache hot paths for the primer. Projects without `.cortex/` are left alone.
+ *
+ * @param cwd - Project directory
+ * @param paths - Hot paths from a full dependency graph analysis
+ * @param now - Current time (ms)
+ * @returns Whether the cache was written
+ */
+export function writeHotPathsCache(cwd: string, paths: string[], now = Date.now()): boolean {
+  const cortexDir = join(cwd, '.cortex');
+  if (!existsSync(cortexDir)) return false;
+  try {
+    writeFileSync(
+      join(cortexDir, HOT_PATHS_CACHE),
+      JSON.stringify({ builtAt: now, hotPaths: paths }),
+      'utf-8',
+    );
+    return true;
+  } catch {
+    // Cache is best-effort
+    return false;
+  }
+}
+
+/**
+ * Analyze the project's dependency graph and cache its hot paths.
+ *
+ * @param cwd - Project directory
+ * @returns Whether the cache was written (false without `.cortex/`)
+ */
+export async function refreshHotPaths(cwd: string): Promise<boolean> {
+  if (!existsSync(join(cwd, '.cortex'))) return false;
+  const analysis = await createDependencyGraph({ projectRoot: cwd }).analyze();
+  return writeHotPathsCache(cwd, analysis.hotPaths);
+}
+
+/**
+ * Join sections into one block, stopping at the first line that does not
+ * fit the budget so lower-priority sections never displace higher ones.
+ *
+ * @param sections - Sections in priority order
+ * @param maxTokens - Token budget
+ */
+export function formatPrimer(sections: PrimerSection[], maxTokens: number): string | null {
+  const lines = ['[cortex] Session primer'];
+
+  const candidates = sections.flatMap((s) => [s.heading, ...s.items.map((item) => `  - ${item}`)]);
+  for (const line of candidates) {
+    if (estimateTokens([...lines, line].join('\n')) > maxTokens) break;
+    lines.push(line);
+  }
+
+  return lines.length > 1 ? lines.join('\n') : null;
+}
+
+/**
+ * Run one primer source; a failing source must not cost the others.
+ */
+async function safely(
+  source: () => PrimerSection | null | Promise<PrimerSection | null>,
+): Promise<PrimerSection | null> {
+  try {
+    return await source();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the SessionStart primer for a project.
+ *
+ * @param cwd - Project directory
+ * @param config - Budget settings
+ * @returns Primer text, or null if disabled or there is nothing to say
+ */
+export async function buildSessionPrimer(
+  cwd: string,
+  config: SessionStartConfig,
+): Promise<string | null> {
+  const cortexDir = join(cwd, '.cortex');
+  if (!config.enabled || !existsSync(cortexDir)) return null;
+
+  const dbPath = join(cortexDir, 'memory.db');
+  const sections = [
+    await safely(() => latestHandoff(cortexDir)),
+    await safely(() => activeBTSPMemories(dbPath)),
+    await safely(() => overdueCriticalDebt(dbPath)),
+    await safely(() => planInProgress(cwd)),
+    await safely(() => hotPaths(cwd)),
+  ];
+
+  return formatPrimer(
+    sections.filter((s): s is PrimerSection => s !== null),
+    config.maxTokens,
+  );
+}
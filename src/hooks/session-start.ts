@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+/**
+ * SessionStart Hook - Prime new sessions with project memory
+ *
+ * Fires when a session starts, resumes, is cleared or compacted. Injects
+ * the last handoff digest, important memories, overdue P0 debt, the plan
+ * in progress and hot paths, within `hooks.sessionStart.maxTokens`.
+ *
+ * CRITICAL: Always exits 0 (never disrupts Claude Code).
+ */
+
+import { appendFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { estimateTokens } from '../utils/tokenizer.js';
+import { formatHookOutput, normalizeHookInput, resolveHookAgent } from './agent-payload.js';
+import { loadHooksConfig } from './hook-config.js';
+import { trackHookInvocation } from './hook-telemetry.js';
+import { redactHookText } from './redact-context.js';
+import { buildSessionPrimer } from './session-primer.js';
+
+const DEBUG = process.env['CORTEX_DEBUG'] === 'true';
+const LOG_FILE = process.env['CORTEX_LOG_FILE'] || join(homedir(), '.cortex-hook.log');
+const AGENT = resolveHookAgent();
+const telemetry = trackHookInvocation('SessionStart', AGENT);
+
+function log(message: string): void {
+  if (DEBUG) {
+    const timestamp = new Date().toISOString();
+    appendFileSync(LOG_FILE, `[${timestamp}] [session-start] ${message}\n`);
+  }
+}
+
+interface HookInput {
+  session_id?: string;
+  cwd?: string;
+  hook_event_name?: string;
+  /** startup, resume, clear or compact */
+  source?: string;
+}
+
+async function main(): Promise<void> {
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk);
+    }
+    const raw = Buffer.concat(chunks).toString('utf-8');
+
+    let input: HookInput;
+    try {
+      input = normalizeHookInput(JSON.parse(raw), AGENT);
+    } catch {
+      log('Failed to parse JSON input, passing through');
+      process.exit(0);
+      return;
+    }
+
+    log(`Session: ${input.session_id}, source: ${input.source ?? 'unknown'}`);
+
+    const cwd = input.cwd || process.cwd();
+    telemetry.cwd = cwd;
+    telemetry.sessionId = input.session_id;
+    const primer = await buildSessionPrimer(cwd, loadHooksConfig(cwd).sessionStart);
+    if (primer) {
+      log(`Injecting primer: ${primer.split('\n').length} lines`);
+      const additionalContext = redactHookText(primer, cwd);
+      telemetry.summaryTokens = estimateTokens(additionalContext);
+      const output = formatHookOutput({ hookEventName: 'SessionStart', additionalContext }, AGENT);
+      if (output) process.stdout.write(output);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(0);
+  }
+}
+
+main();
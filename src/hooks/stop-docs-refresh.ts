@@ -22,9 +22,13 @@ import {
 import { homedir } from 'node:os';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { normalizeHookInput, resolveHookAgent } from './agent-payload.js';
+import { trackHookInvocation } from './hook-telemetry.js';
 
 const DEBUG = process.env['CORTEX_DEBUG'] === 'true';
 const LOG_FILE = process.env['CORTEX_LOG_FILE'] || join(homedir(), '.cortex-hook.log');
+const AGENT = resolveHookAgent();
+const telemetry = trackHookInvocation('Stop', AGENT);
 
 function log(message: string): void {
   if (DEBUG) {
@@ -136,7 +140,7 @@ async function main(): Promise<void> {
 
     let input: HookInput;
     try {
-      input = JSON.parse(raw);
+      input = normalizeHookInput(JSON.parse(raw), AGENT);
     } catch {
       log('Failed to parse JSON input, exiting');
       process.exit(0);
@@ -146,6 +150,8 @@ async function main(): Promise<void> {
     log(`Session: ${input.session_id}, cwd: ${input.cwd}`);
 
     const cwd = input.cwd || process.cwd();
+    telemetry.cwd = cwd;
+    telemetry.sessionId = input.session_id;
     const srcDir = join(cwd, 'src');
 
     // No src/ directory — nothing to do
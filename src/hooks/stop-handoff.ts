@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+/**
+ * Stop Hook - Write a session handoff digest
+ *
+ * Fires at the end of each Claude response. Distills the transcript into
+ * what was attempted, files modified, errors, open TODOs and decisions,
+ * and writes it to `.cortex/handoff/<session>.md` plus tagged memory
+ * entries, so the next session can pick up after a context reset.
+ *
+ * CRITICAL: Always exits 0 (never disrupts Claude Code).
+ */
+
+import { appendFileSync, existsSync, readFileSync, statSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { estimateTokens } from '../utils/tokenizer.js';
+import { normalizeHookInput, resolveHookAgent } from './agent-payload.js';
+import { trackHookInvocation } from './hook-telemetry.js';
+import { redactHookText } from './redact-context.js';
+import {
+  buildHandoff,
+  formatHandoffMarkdown,
+  handoffPath,
+  isEmptyHandoff,
+  saveHandoff,
+} from './session-handoff.js';
+
+const DEBUG = process.env['CORTEX_DEBUG'] === 'true';
+const LOG_FILE = process.env['CORTEX_LOG_FILE'] || join(homedir(), '.cortex-hook.log');
+const AGENT = resolveHookAgent();
+const telemetry = trackHookInvocation('Stop', AGENT);
+
+function log(message: string): void {
+  if (DEBUG) {
+    const timestamp = new Date().toISOString();
+    appendFileSync(LOG_FILE, `[${timestamp}] [stop-handoff] ${message}\n`);
+  }
+}
+
+interface HookInput {
+  session_id?: string;
+  transcript_path?: string;
+  cwd?: string;
+  hook_event_name?: string;
+}
+
+async function main(): Promise<void> {
+  try {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk);
+    }
+    const raw = Buffer.concat(chunks).toString('utf-8');
+
+    let input: HookInput;
+    try {
+      input = normalizeHookInput(JSON.parse(raw), AGENT);
+    } catch {
+      log('Failed to parse JSON input, exiting');
+      process.exit(0);
+      return;
+    }
+
+    const sessionId = input.session_id;
+    const transcriptPath = input.transcript_path;
+    const cwd = input.cwd || process.cwd();
+    telemetry.cwd = cwd;
+    telemetry.sessionId = sessionId;
+    if (!sessionId || !transcriptPath || !existsSync(transcriptPath)) {
+      log('No session transcript, skipping');
+      process.exit(0);
+      return;
+    }
+
+    // Only projects initialized with `cortex init` get a handoff
+    if (!existsSync(join(cwd, '.cortex'))) {
+      log('No .cortex directory, skipping');
+      process.exit(0);
+      return;
+    }
+
+    const markdownPath = handoffPath(cwd, sessionId);
+
+    // Nothing new since the last digest
+    if (
+      existsSync(markdownPath) &&
+      statSync(markdownPath).mtimeMs >= statSync(transcriptPath).mtimeMs
+    ) {
+      log('Handoff is up to date, skipping');
+      process.exit(0);
+      return;
+    }
+
+    const transcript = readFileSync(transcriptPath, 'utf-8');
+    telemetry.inputTokens = estimateTokens(transcript);
+    const handoff = buildHandoff(transcript, sessionId, cwd);
+    if (isEmptyHandoff(handoff)) {
+      log('Empty session, skipping');
+      process.exit(0);
+      return;
+    }
+
+    const markdown = redactHookText(formatHandoffMarkdown(handoff), cwd);
+    telemetry.summaryTokens = estimateTokens(markdown);
+    const stored = await saveHandoff(cwd, handoff, markdown);
+    log(`Wrote ${markdownPath} (${stored} memory entries)`);
+
+    process.exit(0);
+  } catch (error) {
+    log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(0);
+  }
+}
+
+main();
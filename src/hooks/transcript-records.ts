@@ -0,0 +1,94 @@
+/**
+ * Transcript Records — Reading Claude Code session transcripts
+ *
+ * Each line of a transcript is one record: user and assistant messages,
+ * system records such as compaction boundaries, and bookkeeping records
+ * (summaries, file history snapshots) that never reach the model.
+ */
+
+/** One line of a Claude Code transcript */
+export interface TranscriptRecord {
+  type?: string;
+  subtype?: string;
+  uuid?: string;
+  timestamp?: string;
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  isCompactSummary?: boolean;
+  message?: {
+    role?: string;
+    model?: string;
+    content?: unknown;
+  };
+}
+
+/** Content block of a message */
+export interface ContentBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+/**
+ * Parse transcript JSONL, skipping blank and unparseable lines
+ * (the last line may still be being written).
+ *
+ * @param jsonl - Transcript contents
+ */
+export function parseTranscript(jsonl: string): TranscriptRecord[] {
+  const records: TranscriptRecord[] = [];
+  for (const line of jsonl.split('\n')) {
+    if (line.trim().length === 0) continue;
+    try {
+      const record = JSON.parse(line) as unknown;
+      if (record && typeof record === 'object') records.push(record as TranscriptRecord);
+    } catch {
+      // Partial line
+    }
+  }
+  return records;
+}
+
+/**
+ * Whether a record is a compaction boundary; later messages replace all
+ * earlier ones in the model's context.
+ */
+export function isCompactBoundary(record: TranscriptRecord): boolean {
+  return record.type === 'system' && record.subtype === 'compact_boundary';
+}
+
+/**
+ * Content of a message as blocks (string content becomes one text block).
+ */
+export function contentBlocks(content: unknown): ContentBlock[] {
+  if (typeof content === 'string') return [{ type: 'text', text: content }];
+  if (!Array.isArray(content)) return [];
+  return content.filter((b): b is ContentBlock => b !== null && typeof b === 'object');
+}
+
+/**
+ * Whether a user record is a prompt typed by the user, as opposed to a
+ * tool result, meta message or the compaction summary.
+ */
+export function isUserPrompt(record: TranscriptRecord): boolean {
+  if (record.type !== 'user' || record.isMeta || record.isCompactSummary) return false;
+  const content = record.message?.content;
+  if (typeof content === 'string') return true;
+  return Array.isArray(content) && !contentBlocks(content).some((b) => b.type === 'tool_result');
+}
+
+/**
+ * Plain text of a tool result's content.
+ */
+export function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  return contentBlocks(content)
+    .filter((b) => b.type === 'text' && typeof b.text === 'string')
+    .map((b) => b.text)
+    .join('\n');
+}
@@ -7,6 +7,8 @@
 
 export { createClaudeCodeAdapter } from './adapters/claude-code.js';
 export { createGenericAdapter } from './adapters/generic.js';
+export type { MessagesAdapter } from './adapters/messages.js';
+export { createMessagesAdapter } from './adapters/messages.js';
 export type { BTSPEmbedder, BTSPEmbedderConfig } from './core/btsp-embedder.js';
 export { createBTSPEmbedder } from './core/btsp-embedder.js';
 export type { BudgetPruner, BudgetPrunerConfig } from './core/budget-pruner.js';
@@ -40,8 +42,15 @@ export { createDependencyGraph } from './core/dependency-graph.js';
 // v1.4.0 — Docs Generator
 export type { DocsGenerator, DocsGeneratorConfig } from './core/docs-generator.js';
 export { createDocsGenerator } from './core/docs-generator.js';
-export type { EngramScorer, EngramScorerConfig } from './core/engram-scorer.js';
+export type { EngramScorer, EngramScorerConfig, ScoreBreakdown } from './core/engram-scorer.js';
 export { createEngramScorer } from './core/engram-scorer.js';
+export type { DegradeOptions, DegradeTier } from './core/entry-degrader.js';
+export { DEGRADE_TIERS, degradeEntry, isDegraded } from './core/entry-degrader.js';
+export type { ExplainInput } from './core/explain.js';
+export { explainPruning } from './core/explain.js';
+export type { Focus, FocusOptions } from './core/focus.js';
+export { createFocus, loadFocus } from './core/focus.js';
+export type { HookInvocation, HookToolStats } from './core/hook-stats.js';
 export type {
   IncrementalOptimizer,
   IncrementalOptimizerConfig,
@@ -53,6 +62,7 @@ export type { FTSResult, KVMemory } from './core/kv-memory.js';
 export { createKVMemory } from './core/kv-memory.js';
 export type { MetricsCollector, MetricsSnapshot } from './core/metrics.js';
 export { createMetricsCollector, getMetrics } from './core/metrics.js';
+export type { RedactionStats } from './core/redaction-stats.js';
 // v1.4.0 — Search Engine
 export type { IndexStats, SearchEngine, SearchOpts, SearchResult } from './core/search-engine.js';
 export { createSearchEngine } from './core/search-engine.js';
@@ -60,6 +70,20 @@ export type { SleepCompressor } from './core/sleep-compressor.js';
 export { createSleepCompressor } from './core/sleep-compressor.js';
 export type { SparsePruner, SparsePrunerConfig } from './core/sparse-pruner.js';
 export { createSparsePruner } from './core/sparse-pruner.js';
+export type {
+  Summarizer,
+  SummarizerInput,
+  SummarizerRegistry,
+  SummarizerRegistryOptions,
+  SummarizerResult,
+  SummarizerRule,
+} from './core/summarizer-registry.js';
+export {
+  createRuleSummarizer,
+  createSummarizerRegistry,
+  loadProjectSummarizers,
+  loadSummarizers,
+} from './core/summarizer-registry.js';
 // v1.4.0 — Workflow Planner
 export type {
   CortexPlan,
@@ -90,16 +114,30 @@ export type { CortexMcpServerOptions } from './mcp/server.js';
 export { createCortexMcpServer } from './mcp/server.js';
 export type {
   AgentAdapter,
+  EntryDecision,
+  EntryExplanation,
+  OptimizationExplanation,
   OptimizationResult,
   OptimizeOptions,
+  PruningCutoff,
 } from './types/adapter.js';
 export type {
   AgentType,
   CortexConfig,
   DecayConfig,
+  HookAgent,
+  HookSummarizer,
+  HooksConfig,
+  PostToolUseConfig,
+  PreToolUseConfig,
   PruningConfig,
   RealtimeConfig,
+  RecallConfig,
+  RedactionConfig,
+  SessionStartConfig,
   StatesConfig,
+  ToolHookRule,
+  TranscriptHintsConfig,
   UIConfig,
 } from './types/config.js';
 export { DEFAULT_CONFIG } from './types/config.js';
@@ -111,8 +149,14 @@ export type {
   MemoryQueryFilters,
   StateDistribution,
 } from './types/memory.js';
-export type { PruneResult } from './types/pruner.js';
-export type { BlockType, JSONLMessage } from './utils/context-parser.js';
+export type {
+  ApiMessage,
+  ApiToolCall,
+  MessagesOptimizationResult,
+  MessagesPayload,
+} from './types/messages.js';
+export type { PriorityBoost, PriorityBreakdown, PruneResult } from './types/pruner.js';
+export type { BlockType, JSONLContentBlock, JSONLMessage } from './utils/context-parser.js';
 export {
   createEntry,
   parseClaudeCodeContext,
@@ -120,9 +164,32 @@ export {
   parseJSONLContext,
   parseJSONLLine,
 } from './utils/context-parser.js';
+export type { ContextSegment, SegmentKind } from './utils/context-segmenter.js';
+export { segmentContext } from './utils/context-segmenter.js';
 export { hashContent } from './utils/hash.js';
+export type { FormatShapeOptions, ShapeNode } from './utils/json-shape.js';
+export { formatJSONShape, inferJSONShape, summarizeJSON } from './utils/json-shape.js';
+export type {
+  FormatLogOptions,
+  LogMiningOptions,
+  LogMiningResult,
+  LogTemplate,
+  SummarizeLogOptions,
+} from './utils/log-templates.js';
+export {
+  formatLogTemplates,
+  isRepetitiveLog,
+  mineLogTemplates,
+  summarizeLog,
+} from './utils/log-templates.js';
 export type { Logger, LogLevel } from './utils/logger.js';
 export { createLogger } from './utils/logger.js';
+export type {
+  RedactionResult,
+  RedactOptions,
+  Redactor,
+} from './utils/redactor.js';
+export { configureRedaction, createRedactor, redactSecrets } from './utils/redactor.js';
 // Utilities
 export type { TFIDFIndex } from './utils/tfidf.js';
 export {
@@ -19,6 +19,8 @@ import { mkdirSync } from 'node:fs';
 import { dirname, resolve } from 'node:path';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createKVMemory } from '../core/kv-memory.js';
+import { loadRedactionConfig } from '../hooks/hook-config.js';
+import { configureRedaction } from '../utils/redactor.js';
 import { createCortexMcpServer } from './server.js';
 
 async function main(): Promise<void> {
@@ -28,6 +30,8 @@ async function main(): Promise<void> {
     setPreciseTokenCounting(true);
   }
 
+  configureRedaction(loadRedactionConfig(process.cwd()));
+
   const dbPath = resolve(process.env['CORTEX_DB_PATH'] ?? '.cortex/memory.db');
 
   // Ensure the database directory exists
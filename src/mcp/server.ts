@@ -8,11 +8,13 @@
  * - cortex_optimize: Optimize context with configurable options
  * - cortex_stats: Get optimization statistics
  * - cortex_consolidate: Run memory consolidation
+ * - cortex_recall: Fetch the full text of a stubbed or degraded entry
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { createGenericAdapter } from '../adapters/generic.js';
+import { createMessagesAdapter } from '../adapters/messages.js';
 import type { KVMemory } from '../core/kv-memory.js';
 import { createSleepCompressor } from '../core/sleep-compressor.js';
 import type { CortexConfig } from '../types/config.js';
@@ -46,6 +48,7 @@ export function createCortexMcpServer(options: CortexMcpServerOptions): McpServe
   registerStatsTool(server, memory);
   registerConsolidateTool(server, memory);
   registerSearchTool(server, memory);
+  registerRecallTool(server, memory);
 
   return server;
 }
@@ -64,7 +67,8 @@ function registerOptimizeTool(server: McpServer, memory: KVMemory, config: Corte
       description:
         'Optimize context using multi-stage pruning. ' +
         'Applies critical event detection, relevance scoring, entry classification, ' +
-        'and sparse pruning to reduce token usage while preserving important information.',
+        'and sparse pruning to reduce token usage while preserving important information. ' +
+        'With format "messages-json", prunes an OpenAI or Anthropic messages array to a token budget.',
       inputSchema: {
         context: z.string().describe('The context text to optimize'),
         dryRun: z
@@ -83,19 +87,51 @@ function registerOptimizeTool(server: McpServer, memory: KVMemory, config: Corte
           .max(100)
           .optional()
           .describe('Custom pruning threshold (1-100, overrides config)'),
+        format: z
+          .enum(['text', 'messages-json'])
+          .optional()
+          .default('text')
+          .describe(
+            'text: plain context; messages-json: an OpenAI or Anthropic messages array (or request body) as JSON, returned pruned in the same shape',
+          ),
+        tokenBudget: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Token budget for messages-json (overrides config)'),
+        focus: z
+          .string()
+          .optional()
+          .describe(
+            'Current task (e.g. "login redirect bug"); entries related to it, or to files and symbols it names, are kept first',
+          ),
+        explain: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            'If true, include why each entry was kept or dropped: TF-IDF, decay, recency, state multiplier, focus, BTSP pattern and the cutoff',
+          ),
       },
     },
-    async ({ context, dryRun, verbose, threshold }) => {
+    async ({ context, dryRun, verbose, threshold, format, tokenBudget, focus, explain }) => {
       try {
         const effectiveConfig = threshold
           ? { ...config, pruning: { ...config.pruning, threshold } }
           : config;
 
-        const adapter = createGenericAdapter(memory, effectiveConfig);
+        const adapter =
+          format === 'messages-json'
+            ? createMessagesAdapter(memory, effectiveConfig)
+            : createGenericAdapter(memory, effectiveConfig);
         const result = await adapter.optimize(context, {
           dryRun,
           verbose,
           threshold,
+          tokenBudget,
+          focus,
+          explain,
         });
 
         const response = {
@@ -108,6 +144,7 @@ function registerOptimizeTool(server: McpServer, memory: KVMemory, config: Corte
           durationMs: result.durationMs,
           stateDistribution: result.stateDistribution,
           ...(verbose && result.details ? { details: result.details } : {}),
+          ...(explain && result.explanation ? { explanation: result.explanation } : {}),
         };
 
         return {
@@ -303,6 +340,60 @@ function registerSearchTool(server: McpServer, memory: KVMemory): void {
   );
 }
 
+/**
+ * Register the cortex_recall tool.
+ *
+ * Returns the full content of a memory entry by id, as named in the
+ * `recall id` of stubs and degraded entries in optimized output.
+ */
+function registerRecallTool(server: McpServer, memory: KVMemory): void {
+  server.registerTool(
+    'cortex_recall',
+    {
+      title: 'Cortex Recall',
+      description:
+        'Fetch the full text of a memory entry by id. ' +
+        'Use the recall id shown in stubbed or degraded entries of optimized context.',
+      inputSchema: {
+        id: z.string().describe('Entry id (the "recall id" in optimized output)'),
+      },
+    },
+    async ({ id }) => {
+      const entry = await memory.get(id);
+      if (!entry) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({ error: `No memory entry with id ${id}` }),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify(
+              {
+                id: entry.id,
+                content: entry.content,
+                state: entry.state,
+                tags: entry.tags,
+                isBTSP: entry.isBTSP,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+}
+
 /**
  * Register the cortex_consolidate tool.
  *
@@ -4,6 +4,7 @@
  */
 
 import type { StateDistribution } from './memory.js';
+import type { PriorityBreakdown } from './pruner.js';
 
 /**
  * Options for optimization operations.
@@ -17,6 +18,90 @@ export interface OptimizeOptions {
 
   /** Custom pruning threshold (overrides config) */
   threshold?: number;
+
+  /** Token budget (overrides config; budget-based adapters only) */
+  tokenBudget?: number;
+
+  /**
+   * Output format: 'text' joins kept entry contents; 'jsonl' rebuilds a
+   * Claude Code transcript and throws if the input was not one (Claude Code
+   * adapter only)
+   */
+  outputFormat?: 'text' | 'jsonl';
+
+  /**
+   * Task description (e.g. "login redirect bug"); entries related to it,
+   * directly or through the dependency graph, rank higher
+   */
+  focus?: string;
+
+  /** Project directory whose dependency graph expands the focus (default: process.cwd()) */
+  focusRoot?: string;
+
+  /** Explain mode: break down why each entry was kept or dropped */
+  explain?: boolean;
+}
+
+/**
+ * What an entry became in the optimized context.
+ */
+export type EntryDecision = 'kept' | 'degraded' | 'stubbed' | 'dropped';
+
+/**
+ * Why one entry was kept or dropped (explain mode).
+ */
+export interface EntryExplanation extends PriorityBreakdown {
+  id: string;
+
+  /** Start of the entry's first line */
+  preview: string;
+
+  /** Tokens before optimization */
+  tokens: number;
+
+  /** Confidence state */
+  state: string;
+
+  /** Whether BTSP fired */
+  isBTSP: boolean;
+
+  /** BTSP pattern that matched, as a regex literal */
+  btspPattern?: string;
+
+  decision: EntryDecision;
+
+  /** Short human-readable reason for the decision */
+  reason: string;
+}
+
+/**
+ * Where the pruner stopped keeping entries (explain mode).
+ */
+export interface PruningCutoff {
+  /** 'budget': filled to a token budget; 'top-percent': kept the top N% by priority */
+  mode: 'budget' | 'top-percent';
+
+  /** Token budget available to the entries (budget mode) */
+  budget?: number;
+
+  /** Percentage of entries kept (top-percent mode) */
+  threshold?: number;
+
+  /** Tokens kept */
+  tokensUsed: number;
+
+  /** Lowest priority among entries kept whole, BTSP and pinned entries aside (null if none) */
+  priority: number | null;
+}
+
+/**
+ * Per-entry priority breakdown and cutoff (explain mode).
+ */
+export interface OptimizationExplanation {
+  cutoff: PruningCutoff;
+
+  /** Every input entry, in context order */
+  entries: EntryExplanation[];
 }
 
 /**
@@ -55,6 +140,9 @@ export interface OptimizationResult {
     isBTSP: boolean;
     tokens: number;
   }>;
+
+  /** Optional: Why each entry was kept or dropped (when explain=true) */
+  explanation?: OptimizationExplanation;
 }
 
 /**
@@ -5,7 +5,12 @@
 /**
  * Agent adapter type.
  */
-export type AgentType = 'claude-code' | 'generic';
+export type AgentType = 'claude-code' | 'generic' | 'messages';
+
+/**
+ * Agent CLI the hooks are installed into.
+ */
+export type HookAgent = 'claude-code' | 'gemini-cli' | 'codex' | 'cursor';
 
 /**
  * Pruning configuration.
@@ -95,6 +100,146 @@ export interface RealtimeConfig {
   preciseTokenCounting?: boolean;
 }
 
+/**
+ * PreToolUse hook rules (steer expensive tool calls before they run).
+ */
+export interface PreToolUseConfig {
+  /** Enable the PreToolUse rules (default: true) */
+  enabled: boolean;
+
+  /** Warn when a whole-file Read exceeds this many bytes (default: 100000) */
+  warnReadBytes: number;
+
+  /** Deny whole-file Reads above this many bytes (default: 1000000) */
+  denyReadBytes: number;
+
+  /**
+   * Globs for generated files (lockfiles, minified bundles, dist/).
+   * Patterns without a slash match the file name in any directory.
+   */
+  generatedPatterns: string[];
+
+  /** Action for whole-file Reads of generated files (default: 'deny') */
+  generatedAction: 'warn' | 'deny';
+
+  /** Bash command prefixes rewritten to run through `cortex relay` (default: []) */
+  relayCommands: string[];
+}
+
+/**
+ * Summarizers the PostToolUse hook can apply
+ * ('project' covers everything in `.cortex/summarizers/`).
+ */
+export type HookSummarizer =
+  | 'project'
+  | 'test-output'
+  | 'diagnostics'
+  | 'git-diff'
+  | 'json'
+  | 'log-templates'
+  | 'outline'
+  | 're-read'
+  | 'search';
+
+/**
+ * PostToolUse settings for one tool (or the `default` fallback).
+ */
+export interface ToolHookRule {
+  /** Only summarize outputs over this many estimated tokens (default: 3000) */
+  threshold: number;
+
+  /** Summarizers to try, in order; omitted means all that apply to the tool */
+  summarizers?: HookSummarizer[];
+
+  /** Maximum summary length in characters (default: 4000) */
+  maxSummaryLength: number;
+}
+
+/**
+ * PostToolUse hook configuration (summaries of large tool output).
+ */
+export interface PostToolUseConfig {
+  /** Tool matcher registered in Claude Code settings (default: 'Bash|Read|Grep|Glob') */
+  matcher: string;
+
+  /** Per-tool rules keyed by tool name; `default` applies to unlisted tools */
+  tools: Record<string, Partial<ToolHookRule>> & { default: ToolHookRule };
+}
+
+/**
+ * Context gauge injected by the UserPromptSubmit hook. Live context is
+ * estimated from the transcript since the last compaction boundary.
+ */
+export interface TranscriptHintsConfig {
+  /** Context window in tokens per model id prefix; `default` covers other models */
+  contextWindows: Record<string, number> & { default: number };
+
+  /** Tokens outside the transcript: system prompt, tool definitions, CLAUDE.md (default: 15000) */
+  overheadTokens: number;
+
+  /** Percent of the window at which the gauge is injected (default: 50) */
+  warnPercent: number;
+
+  /** Percent of the window at which the stronger hint is added (default: 80) */
+  criticalPercent: number;
+
+  /** Count with gpt-tokenizer instead of the fast heuristic (default: false) */
+  preciseTokens: boolean;
+}
+
+/**
+ * Prompt-aware recall injected by the UserPromptSubmit hook.
+ */
+export interface RecallConfig {
+  /** Inject memories and file pointers related to the prompt (default: true) */
+  enabled: boolean;
+
+  /** Token budget for the recall block (default: 400) */
+  maxTokens: number;
+
+  /** Maximum memories injected (default: 3) */
+  maxMemories: number;
+
+  /** Maximum file pointers injected (default: 5) */
+  maxFiles: number;
+}
+
+/**
+ * Project primer injected by the SessionStart hook.
+ */
+export interface SessionStartConfig {
+  /** Inject the primer when a session starts, resumes or is compacted (default: true) */
+  enabled: boolean;
+
+  /** Token budget for the primer (default: 800) */
+  maxTokens: number;
+}
+
+/**
+ * Claude Code hook configuration.
+ */
+export interface HooksConfig {
+  preToolUse: PreToolUseConfig;
+  postToolUse: PostToolUseConfig;
+  transcript: TranscriptHintsConfig;
+  recall: RecallConfig;
+  sessionStart: SessionStartConfig;
+}
+
+/**
+ * Secret redaction applied before anything is stored or injected.
+ */
+export interface RedactionConfig {
+  /** Redact secrets in memory, hook output and relay summaries (default: true) */
+  enabled: boolean;
+
+  /** Extra regexes whose matches are redacted (default: []) */
+  patterns: string[];
+
+  /** Redact long random-looking tokens (default: true) */
+  highEntropy: boolean;
+}
+
 /**
  * Complete Cortex configuration.
  */
@@ -110,6 +255,10 @@ export interface CortexConfig {
   realtime: RealtimeConfig;
   /** Additional BTSP pattern regex strings (default: []) */
   btspPatterns?: string[];
+  /** Claude Code hook settings */
+  hooks?: HooksConfig;
+  /** Secret redaction settings */
+  redaction?: RedactionConfig;
 }
 
 /**
@@ -146,4 +295,61 @@ export const DEFAULT_CONFIG: CortexConfig = {
     windowSize: 500,
     consolidationInterval: null,
   },
+  hooks: {
+    preToolUse: {
+      enabled: true,
+      warnReadBytes: 100_000,
+      denyReadBytes: 1_000_000,
+      generatedPatterns: [
+        'package-lock.json',
+        'yarn.lock',
+        'pnpm-lock.yaml',
+        'bun.lock',
+        'Cargo.lock',
+        'poetry.lock',
+        'composer.lock',
+        'Gemfile.lock',
+        'go.sum',
+        '*.min.js',
+        '*.min.css',
+        '*.map',
+        '**/dist/**',
+      ],
+      generatedAction: 'deny',
+      relayCommands: [],
+    },
+    postToolUse: {
+      matcher: 'Bash|Read|Grep|Glob',
+      tools: {
+        default: {
+          threshold: 3000,
+          maxSummaryLength: 4000,
+        },
+      },
+    },
+    transcript: {
+      contextWindows: {
+        default: 200_000,
+      },
+      overheadTokens: 15_000,
+      warnPercent: 50,
+      criticalPercent: 80,
+      preciseTokens: false,
+    },
+    recall: {
+      enabled: true,
+      maxTokens: 400,
+      maxMemories: 3,
+      maxFiles: 5,
+    },
+    sessionStart: {
+      enabled: true,
+      maxTokens: 800,
+    },
+  },
+  redaction: {
+    enabled: true,
+    patterns: [],
+    highEntropy: true,
+  },
 };
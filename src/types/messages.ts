@@ -0,0 +1,50 @@
+/**
+ * Messages API types.
+ * Chat message arrays as sent to the OpenAI Chat Completions and
+ * Anthropic Messages APIs, loose enough to pass unknown fields through.
+ */
+
+import type { OptimizationResult } from './adapter.js';
+
+/**
+ * OpenAI tool call on an assistant message.
+ */
+export interface ApiToolCall {
+  id: string;
+  type?: string;
+  function?: { name: string; arguments?: string };
+}
+
+/**
+ * One chat message in either vendor's shape.
+ *
+ * OpenAI: `system`/`developer`/`user`/`assistant`/`tool` roles, with
+ * `tool_calls` on assistant messages and `tool_call_id` on tool messages.
+ * Anthropic: `user`/`assistant` roles, with `tool_use` and `tool_result`
+ * content blocks.
+ */
+export interface ApiMessage {
+  role: string;
+  content?: unknown;
+  tool_calls?: ApiToolCall[];
+  tool_call_id?: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A messages array, or a request body with `messages` (and, for
+ * Anthropic, a top-level `system` prompt).
+ */
+export type MessagesPayload =
+  | ApiMessage[]
+  | { system?: unknown; messages: ApiMessage[]; [key: string]: unknown };
+
+/**
+ * Result of optimizing a messages payload.
+ */
+export interface MessagesOptimizationResult<T extends MessagesPayload = MessagesPayload>
+  extends OptimizationResult {
+  /** Pruned payload in the same shape as the input */
+  messages: T;
+}
@@ -21,3 +21,35 @@ export interface PruneResult {
   /** Token count after pruning */
   prunedTokens: number;
 }
+
+/**
+ * Priority multiplier for an entry (e.g. relevance to a focus query).
+ * 1 leaves the entry's priority unchanged.
+ */
+export type PriorityBoost = (entry: MemoryEntry) => number;
+
+/**
+ * Components of an entry's pruning priority (explain mode).
+ */
+export interface PriorityBreakdown {
+  /** TF-IDF relevance within the context */
+  tfidf: number;
+
+  /** Decay factor (0.0 = fresh, 1.0 = fully decayed) */
+  decay: number;
+
+  /** Recency multiplier applied to the engram score (1 outside the window) */
+  recencyBoost: number;
+
+  /** Engram score after decay, access and recency (0.0-1.0) */
+  engramScore: number;
+
+  /** Confidence state multiplier */
+  stateMultiplier: number;
+
+  /** Focus multiplier (1 without a focus) */
+  focusBoost: number;
+
+  /** Final priority the pruner ranks by */
+  priority: number;
+}
@@ -0,0 +1,421 @@
+/**
+ * Code Outline - Structural outline of TypeScript/JavaScript sources
+ *
+ * Parses a file with the TypeScript compiler API and lists its top-level
+ * symbols (kind, signature, line range) plus class members. Used by the
+ * PostToolUse hook so Claude can follow up with a ranged Read of exactly the
+ * symbol it needs instead of re-reading the whole file.
+ */
+
+import ts from 'typescript';
+
+/**
+ * Kind of symbol listed in an outline
+ */
+export type OutlineSymbolKind =
+  | 'function'
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'variable'
+  | 'namespace'
+  | 'default'
+  | 'constructor'
+  | 'method'
+  | 'property'
+  | 'accessor';
+
+export interface OutlineSymbol {
+  name: string;
+  kind: OutlineSymbolKind;
+  /** Declaration header with the body stripped and whitespace collapsed */
+  signature: string;
+  /** Additional overload signatures (functions and methods only) */
+  overloads?: string[];
+  /** 1-based first line (leading JSDoc excluded) */
+  startLine: number;
+  /** 1-based last line */
+  endLine: number;
+  exported: boolean;
+  /** Class and namespace members */
+  members?: OutlineSymbol[];
+}
+
+export interface FileOutline {
+  filePath: string;
+  lineCount: number;
+  symbols: OutlineSymbol[];
+  /** Module specifiers of `export ... from` re-exports */
+  reExports: string[];
+}
+
+export interface FormatOutlineOptions {
+  /** Maximum number of exported symbols to list (default: 40) */
+  maxSymbols?: number;
+  /** Maximum members listed per class (default: 12) */
+  maxMembers?: number;
+  /** Maximum signature length in characters (default: 120) */
+  maxSignatureLength?: number;
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX,
+};
+
+function getExtension(filePath: string): string {
+  const dotIdx = filePath.lastIndexOf('.');
+  return dotIdx === -1 ? '' : filePath.slice(dotIdx).toLowerCase();
+}
+
+/**
+ * Check whether a file can be outlined (TS/JS family extensions)
+ */
+export function isOutlineSupported(filePath: string): boolean {
+  return getExtension(filePath) in SCRIPT_KINDS;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  if (!ts.canHaveModifiers(node)) return false;
+  return ts.getModifiers(node)?.some((m) => m.kind === kind) ?? false;
+}
+
+function isExported(node: ts.Node): boolean {
+  return hasModifier(node, ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Build a lightweight outline of a TS/JS source file.
+ *
+ * @param source - File contents
+ * @param filePath - Path used to pick the script kind (TS, TSX, JS, JSX)
+ * @param startLine - Line number of the first line of `source` (for partial reads)
+ * @returns File outline
+ */
+export function buildOutline(source: string, filePath: string, startLine = 1): FileOutline {
+  const scriptKind = SCRIPT_KINDS[getExtension(filePath)] ?? ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(
+    filePath || 'file.ts',
+    source,
+    ts.ScriptTarget.Latest,
+    false,
+    scriptKind,
+  );
+
+  const lineOffset = startLine - 1;
+
+  function lineOf(pos: number): number {
+    return sourceFile.getLineAndCharacterOfPosition(pos).line + 1 + lineOffset;
+  }
+
+  function range(node: ts.Node): { startLine: number; endLine: number } {
+    return { startLine: lineOf(node.getStart(sourceFile)), endLine: lineOf(node.getEnd()) };
+  }
+
+  /** Text from the node's start up to (not including) `bodyStart`, or the whole node */
+  function header(node: ts.Node, bodyStart?: number): string {
+    const start = node.getStart(sourceFile);
+    const end = bodyStart ?? node.getEnd();
+    return collapse(source.slice(start, end))
+      .replace(/[;{]\s*$/, '')
+      .trim();
+  }
+
+  function nameOf(name: ts.PropertyName | ts.BindingName | undefined): string {
+    if (!name) return 'default';
+    if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name)) return name.text;
+    if (ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+    return collapse(name.getText(sourceFile));
+  }
+
+  function classMembers(node: ts.ClassLikeDeclaration): OutlineSymbol[] {
+    const members: OutlineSymbol[] = [];
+
+    for (const member of node.members) {
+      if (hasModifier(member, ts.SyntaxKind.PrivateKeyword)) continue;
+      if (member.name && ts.isPrivateIdentifier(member.name)) continue;
+
+      if (ts.isConstructorDeclaration(member)) {
+        pushCallable(members, 'constructor', 'constructor', member, member.body);
+      } else if (ts.isMethodDeclaration(member)) {
+        pushCallable(members, nameOf(member.name), 'method', member, member.body);
+      } else if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+        members.push({
+          name: nameOf(member.name),
+          kind: 'accessor',
+          signature: header(member, member.body?.getStart(sourceFile)),
+          exported: false,
+          ...range(member),
+        });
+      } else if (ts.isPropertyDeclaration(member)) {
+        const initializer = member.initializer;
+        const fn =
+          initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+            ? initializer
+            : undefined;
+        members.push({
+          name: nameOf(member.name),
+          kind: fn ? 'method' : 'property',
+          signature: fn
+            ? header(member, functionBodyStart(fn))
+            : header(member, initializer?.getStart(sourceFile)).replace(/\s*=$/, ''),
+          exported: false,
+          ...range(member),
+        });
+      }
+    }
+
+    return members;
+  }
+
+  function functionBodyStart(fn: ts.ArrowFunction | ts.FunctionExpression): number | undefined {
+    if (ts.isArrowFunction(fn)) {
+      return fn.equalsGreaterThanToken.getEnd();
+    }
+    return fn.body.getStart(sourceFile);
+  }
+
+  /**
+   * Add a function-like declaration, merging overload signatures into the
+   * implementation that follows them.
+   */
+  function pushCallable(
+    into: OutlineSymbol[],
+    name: string,
+    kind: OutlineSymbolKind,
+    node: ts.Node,
+    body: ts.Node | undefined,
+    exported = false,
+  ): void {
+    const signature = header(node, body?.getStart(sourceFile));
+    const previous = into[into.length - 1];
+
+    if (previous && previous.name === name && previous.kind === kind && previous.overloads) {
+      // Previous entry was a body-less overload: fold this declaration into it
+      previous.overloads.push(previous.signature);
+      previous.signature = signature;
+      previous.endLine = range(node).endLine;
+      return;
+    }
+
+    into.push({
+      name,
+      kind,
+      signature,
+      exported,
+      ...range(node),
+      ...(body ? {} : { overloads: [] }),
+    });
+  }
+
+  function visitStatements(statements: ts.NodeArray<ts.Statement>, into: OutlineSymbol[]): void {
+    for (const statement of statements) {
+      const exported = isExported(statement);
+
+      if (ts.isFunctionDeclaration(statement)) {
+        pushCallable(
+          into,
+          statement.name ? statement.name.text : 'default',
+          'function',
+          statement,
+          statement.body,
+          exported,
+        );
+      } else if (ts.isClassDeclaration(statement)) {
+        into.push({
+          name: statement.name ? statement.name.text : 'default',
+          kind: 'class',
+          signature: header(statement, statement.members.pos),
+          exported,
+          ...range(statement),
+          members: classMembers(statement),
+        });
+      } else if (ts.isInterfaceDeclaration(statement)) {
+        into.push({
+          name: statement.name.text,
+          kind: 'interface',
+          signature: header(statement, statement.members.pos),
+          exported,
+          ...range(statement),
+        });
+      } else if (ts.isTypeAliasDeclaration(statement)) {
+        into.push({
+          name: statement.name.text,
+          kind: 'type',
+          signature: header(statement),
+          exported,
+          ...range(statement),
+        });
+      } else if (ts.isEnumDeclaration(statement)) {
+        into.push({
+          name: statement.name.text,
+          kind: 'enum',
+          signature: header(statement, statement.members.pos),
+          exported,
+          ...range(statement),
+        });
+      } else if (ts.isModuleDeclaration(statement)) {
+        const members: OutlineSymbol[] = [];
+        if (statement.body && ts.isModuleBlock(statement.body)) {
+          visitStatements(statement.body.statements, members);
+        }
+        into.push({
+          name: nameOf(statement.name),
+          kind: 'namespace',
+          signature: header(statement, statement.body?.getStart(sourceFile)),
+          exported,
+          ...range(statement),
+          members,
+        });
+      } else if (ts.isVariableStatement(statement)) {
+        const keyword = collapse(
+          source.slice(
+            statement.declarationList.getStart(sourceFile),
+            statement.declarationList.declarations[0]?.getStart(sourceFile),
+          ),
+        );
+        for (const decl of statement.declarationList.declarations) {
+          const init = decl.initializer;
+          const fn =
+            init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) ? init : undefined;
+          const cls = init && ts.isClassExpression(init) ? init : undefined;
+
+          const signature = fn
+            ? `${keyword} ${header(decl, functionBodyStart(fn))}`
+            : `${keyword} ${header(decl, init?.getStart(sourceFile)).replace(/\s*=$/, '')}`;
+
+          into.push({
+            name: nameOf(decl.name),
+            kind: fn ? 'function' : cls ? 'class' : 'variable',
+            signature: exported ? `export ${signature}` : signature,
+            exported,
+            ...range(decl),
+            ...(cls ? { members: classMembers(cls) } : {}),
+          });
+        }
+      } else if (ts.isExportAssignment(statement)) {
+        into.push({
+          name: 'default',
+          kind: 'default',
+          signature: header(statement),
+          exported: true,
+          ...range(statement),
+        });
+      } else if (
+        ts.isExportDeclaration(statement) &&
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier)
+      ) {
+        reExports.push(statement.moduleSpecifier.text);
+      } else if (ts.isExportDeclaration(statement) && statement.exportClause) {
+        // export { a, b as c } — mark the local declarations as exported
+        if (ts.isNamedExports(statement.exportClause)) {
+          for (const element of statement.exportClause.elements) {
+            const local = (element.propertyName ?? element.name).text;
+            for (const symbol of into) {
+              if (symbol.name === local) symbol.exported = true;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  const symbols: OutlineSymbol[] = [];
+  const reExports: string[] = [];
+  visitStatements(sourceFile.statements, symbols);
+
+  // Overloads without an implementation (declaration files) keep an empty list; drop it
+  for (const symbol of symbols) {
+    if (symbol.overloads && symbol.overloads.length === 0) delete symbol.overloads;
+    for (const member of symbol.members ?? []) {
+      if (member.overloads && member.overloads.length === 0) delete member.overloads;
+    }
+  }
+
+  return {
+    filePath,
+    lineCount: source.length === 0 ? 0 : source.split('\n').length,
+    symbols,
+    reExports: [...new Set(reExports)],
+  };
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function lineRange(symbol: OutlineSymbol): string {
+  return symbol.startLine === symbol.endLine
+    ? `L${symbol.startLine}`
+    : `L${symbol.startLine}-${symbol.endLine}`;
+}
+
+/**
+ * Format an outline as compact text for hook additionalContext.
+ *
+ * Exported symbols are listed with signatures and line ranges; internal
+ * symbols are listed by name and range only.
+ *
+ * @param outline - Outline from buildOutline()
+ * @param options - Formatting limits
+ * @returns Multi-line outline text
+ */
+export function formatOutline(outline: FileOutline, options: FormatOutlineOptions = {}): string {
+  const maxSymbols = options.maxSymbols ?? 40;
+  const maxMembers = options.maxMembers ?? 12;
+  const maxSig = options.maxSignatureLength ?? 120;
+
+  const exported = outline.symbols.filter((s) => s.exported);
+  const internal = outline.symbols.filter((s) => !s.exported);
+  // Scripts without exports: list top-level declarations in full instead
+  const detailed = exported.length > 0 ? exported : internal;
+  const brief = exported.length > 0 ? internal : [];
+
+  const lines: string[] = [];
+
+  for (const symbol of detailed.slice(0, maxSymbols)) {
+    for (const overload of symbol.overloads ?? []) {
+      lines.push(`  ${truncate(overload, maxSig)}`);
+    }
+    lines.push(`  ${truncate(symbol.signature, maxSig)}  ${lineRange(symbol)}`);
+
+    const members = symbol.members ?? [];
+    for (const member of members.slice(0, maxMembers)) {
+      const overloadNote =
+        member.overloads && member.overloads.length > 0
+          ? ` (+${member.overloads.length} overloads)`
+          : '';
+      lines.push(`    ${truncate(member.signature, maxSig)}${overloadNote}  ${lineRange(member)}`);
+    }
+    if (members.length > maxMembers) {
+      lines.push(`    … ${members.length - maxMembers} more members`);
+    }
+  }
+  if (detailed.length > maxSymbols) {
+    lines.push(`  … ${detailed.length - maxSymbols} more symbols`);
+  }
+
+  if (brief.length > 0) {
+    const names = brief.slice(0, maxSymbols).map((s) => `${s.name} ${lineRange(s)}`);
+    const more = brief.length > maxSymbols ? `, … ${brief.length - maxSymbols} more` : '';
+    lines.push(`  Internal: ${names.join(', ')}${more}`);
+  }
+
+  if (outline.reExports.length > 0) {
+    lines.push(`  Re-exports: ${outline.reExports.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
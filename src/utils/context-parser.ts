@@ -89,7 +89,36 @@ export function parseClaudeCodeContext(context: string): MemoryEntry[] {
     entries.push(createEntry(currentBlock.join('\n'), blockType, now));
   }
 
-  return entries.filter((e) => e.content.trim().length > 0);
+  return pairTextToolBlocks(entries.filter((e) => e.content.trim().length > 0));
+}
+
+/**
+ * Pair tool call blocks with the result block that follows them, so
+ * pruners keep or drop them together. Text contexts carry no tool_use
+ * ids, so one is made up per pair.
+ * @param entries - Parsed entries in context order
+ * @returns The same entries, with `metadata.toolUseIds` on paired blocks
+ */
+function pairTextToolBlocks(entries: MemoryEntry[]): MemoryEntry[] {
+  let calls: MemoryEntry[] = [];
+  let pairs = 0;
+
+  for (const entry of entries) {
+    const type = entry.metadata['type'];
+    if (type === 'tool') {
+      calls.push(entry);
+      continue;
+    }
+    if (type === 'result' && calls.length > 0) {
+      pairs++;
+      for (const paired of [...calls, entry]) {
+        paired.metadata['toolUseIds'] = [`text-call-${pairs}`];
+      }
+    }
+    calls = [];
+  }
+
+  return entries;
 }
 
 /**
@@ -97,9 +126,15 @@ export function parseClaudeCodeContext(context: string): MemoryEntry[] {
  * @param content - Block content
  * @param type - Block type
  * @param baseTime - Base timestamp
+ * @param metadata - Extra metadata (e.g. transcript uuid chain, tool name)
  * @returns Memory entry
  */
-export function createEntry(content: string, type: BlockType, baseTime: number): MemoryEntry {
+export function createEntry(
+  content: string,
+  type: BlockType,
+  baseTime: number,
+  metadata: Record<string, unknown> = {},
+): MemoryEntry {
   const tags: string[] = [type];
 
   // Assign initial score based on type
@@ -118,28 +153,54 @@ export function createEntry(content: string, type: BlockType, baseTime: number):
     ttl: 24 * 3600, // 24 hours default
     accessCount: 0,
     tags,
-    metadata: { type },
+    metadata: { ...metadata, type },
     isBTSP: false,
   };
 }
 
+/**
+ * Content block of a JSONL message
+ */
+export interface JSONLContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+}
+
 /**
  * Parsed JSONL message structure
+ *
+ * Covers both flat `{role, content}` lines and Claude Code transcript
+ * records, which wrap the API message as `{type, uuid, parentUuid,
+ * isSidechain, message: {role, content}, toolUseResult, ...}`.
+ * parseJSONLLine lifts `message.role`/`message.content` to the top level.
  */
 export interface JSONLMessage {
   role?: string;
-  content?:
-    | string
-    | Array<{
-        type: string;
-        text?: string;
-        name?: string;
-        input?: unknown;
-        content?: string | Array<{ type: string; text?: string }>;
-      }>;
+  content?: string | JSONLContentBlock[];
   type?: string;
   tool_use?: { name: string; input: unknown };
   tool_result?: { content: string | Array<{ type: string; text?: string }> };
+
+  // Claude Code transcript envelope
+  subtype?: string;
+  uuid?: string;
+  parentUuid?: string | null;
+  timestamp?: string;
+  sessionId?: string;
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  isCompactSummary?: boolean;
+  message?: { role?: string; model?: string; content?: string | JSONLContentBlock[] };
+  /** Structured tool output stored next to the tool_result block */
+  toolUseResult?: unknown;
+  /** Session title of `type: 'summary'` records */
+  summary?: string;
+  leafUuid?: string;
 }
 
 /**
@@ -151,11 +212,21 @@ export function parseJSONLLine(line: string): JSONLMessage | null {
   const trimmed = line.trim();
   if (trimmed.length === 0) return null;
 
+  let msg: JSONLMessage;
   try {
-    return JSON.parse(trimmed) as JSONLMessage;
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    msg = parsed as JSONLMessage;
   } catch {
     return null;
   }
+
+  // Transcript records nest the API message; flat lines win if both are set
+  if (msg.message && typeof msg.message === 'object') {
+    msg.role ??= msg.message.role;
+    msg.content ??= msg.message.content;
+  }
+  return msg;
 }
 
 /**
@@ -185,10 +256,44 @@ function extractContent(content: JSONLMessage['content']): string {
   return '';
 }
 
+/**
+ * Extract text from a transcript `toolUseResult` payload
+ * (error string, Bash stdout/stderr or a Read file)
+ */
+function extractToolUseResult(result: unknown): string {
+  if (typeof result === 'string') return result;
+  if (!result || typeof result !== 'object') return '';
+
+  const r = result as Record<string, unknown>;
+  const file = r['file'] as Record<string, unknown> | undefined;
+  if (file && typeof file['content'] === 'string') return file['content'];
+
+  return [r['stdout'], r['stderr']]
+    .filter((s): s is string => typeof s === 'string' && s.length > 0)
+    .join('\n');
+}
+
+/**
+ * Extract the text of a JSONL message, falling back to summary records
+ * and `toolUseResult` when the message itself carries no text
+ */
+function extractMessageText(msg: JSONLMessage): string {
+  if (msg.type === 'summary' && typeof msg.summary === 'string') return msg.summary;
+
+  const text = extractContent(msg.content);
+  if (text.trim().length > 0) return text;
+  return extractToolUseResult(msg.toolUseResult);
+}
+
 /**
  * Classify a JSONL message into a BlockType
  */
 function classifyJSONLMessage(msg: JSONLMessage): BlockType {
+  // Session titles, compaction boundaries and meta messages are bookkeeping
+  if (msg.type === 'summary' || msg.type === 'system' || msg.isMeta) return 'other';
+  // The compaction summary stands in for the whole earlier conversation
+  if (msg.isCompactSummary) return 'conversation';
+
   // Check for tool_use blocks in content array
   if (Array.isArray(msg.content)) {
     const hasToolUse = msg.content.some((b) => b.type === 'tool_use');
@@ -199,15 +304,59 @@ function classifyJSONLMessage(msg: JSONLMessage): BlockType {
 
   if (msg.type === 'tool_use' || msg.tool_use) return 'tool';
   if (msg.type === 'tool_result' || msg.tool_result) return 'result';
+  if (msg.toolUseResult !== undefined) return 'result';
 
   if (msg.role === 'user' || msg.role === 'assistant') return 'conversation';
 
   return 'other';
 }
 
+/**
+ * Collect entry metadata from a transcript record: the uuid/parent chain,
+ * timestamp, sidechain and compaction flags, and the tool involved.
+ *
+ * @param msg - Parsed message
+ * @param toolNames - Tool names by tool_use id, filled in as tool calls are seen
+ */
+function jsonlMetadata(msg: JSONLMessage, toolNames: Map<string, string>): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  if (msg.uuid) metadata['uuid'] = msg.uuid;
+  if (msg.parentUuid) metadata['parentUuid'] = msg.parentUuid;
+  if (msg.timestamp) metadata['timestamp'] = msg.timestamp;
+  if (msg.sessionId) metadata['sessionId'] = msg.sessionId;
+  if (msg.isSidechain) metadata['isSidechain'] = true;
+  if (msg.isCompactSummary) metadata['compactSummary'] = true;
+  if (msg.type === 'system' && msg.subtype === 'compact_boundary') {
+    metadata['compactBoundary'] = true;
+  }
+  if (msg.type === 'summary' && msg.leafUuid) metadata['leafUuid'] = msg.leafUuid;
+
+  // Ids pair tool calls with their results (see core/tool-pairs)
+  const blocks = Array.isArray(msg.content) ? msg.content : [];
+  const ids: string[] = [];
+  for (const block of blocks) {
+    if (block.type === 'tool_use' && block.id) {
+      ids.push(block.id);
+      if (block.name) toolNames.set(block.id, block.name);
+    } else if (block.type === 'tool_result' && block.tool_use_id) {
+      ids.push(block.tool_use_id);
+    }
+  }
+  if (ids.length > 0) metadata['toolUseIds'] = ids;
+
+  const toolName =
+    blocks.find((b) => b.type === 'tool_use' && b.name)?.name ??
+    msg.tool_use?.name ??
+    ids.map((id) => toolNames.get(id)).find((name) => name !== undefined);
+  if (toolName) metadata['toolName'] = toolName;
+
+  return metadata;
+}
+
 /**
  * Parse JSONL context into memory entries
- * Handles Claude Code transcript format (one JSON object per line)
+ * Handles flat `{role, content}` lines and Claude Code transcript records
+ * (nested messages, summaries, compaction records, sidechains, tool results)
  *
  * @param context - Raw JSONL context string
  * @returns Array of memory entries, or empty array if parsing fails
@@ -216,16 +365,24 @@ export function parseJSONLContext(context: string): MemoryEntry[] {
   const entries: MemoryEntry[] = [];
   const now = Date.now();
   const lines = context.split('\n');
+  const toolNames = new Map<string, string>();
 
-  for (const line of lines) {
+  for (const [index, line] of lines.entries()) {
     const msg = parseJSONLLine(line);
     if (!msg) continue;
 
-    const content = extractContent(msg.content);
+    // Registers tool_use ids even when the call itself carries no text
+    const metadata = jsonlMetadata(msg, toolNames);
+    // Lets the transcript be rebuilt from kept entries (see transcript-writer)
+    metadata['jsonlLine'] = index;
+
+    const content = extractMessageText(msg);
     if (!content || content.trim().length === 0) continue;
 
     const blockType = classifyJSONLMessage(msg);
-    entries.push(createEntry(content, blockType, now));
+    const entry = createEntry(content, blockType, now, metadata);
+    if (msg.isSidechain) entry.tags.push('sidechain');
+    entries.push(entry);
   }
 
   return entries;
@@ -0,0 +1,303 @@
+/**
+ * Context Segmenter - Split free-form context into coherent chunks
+ *
+ * Splitting on newlines scatters a code block, stack trace or table
+ * across many entries that are scored and pruned independently. The
+ * segmenter recognizes markdown sections, fenced code blocks, stack
+ * traces, diff hunks, JSON blocks, tables and paragraphs, so each one
+ * is kept or dropped as a whole. Log lines stay one segment per line.
+ *
+ * Prose is capped by line and token count, so a long paragraph or
+ * section still splits into chunks the pruner can drop, and text with
+ * no structure at all (one run of plain lines, such as build output)
+ * stays one segment per line.
+ */
+
+import { estimateTokens } from './tokenizer.js';
+
+/**
+ * Kind of chunk a segment holds
+ */
+export type SegmentKind =
+  | 'section'
+  | 'code'
+  | 'stack-trace'
+  | 'diff'
+  | 'json'
+  | 'table'
+  | 'log'
+  | 'paragraph'
+  | 'line';
+
+export interface ContextSegment {
+  kind: SegmentKind;
+  /** Segment text, original lines joined with `\n` */
+  content: string;
+  /** 1-based first line */
+  startLine: number;
+  /** 1-based last line */
+  endLine: number;
+}
+
+interface Block {
+  kind: SegmentKind;
+  /** Index one past the block's last line */
+  end: number;
+}
+
+/** Most lines in one paragraph or section chunk */
+const MAX_PROSE_LINES = 10;
+/** Most estimated tokens in one paragraph or section chunk */
+const MAX_PROSE_TOKENS = 200;
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const HEADING = /^\s{0,3}#{1,6}(\s|$)/;
+const TABLE_ROW = /^\s*\|/;
+const DIFF_HEADER =
+  /^(diff --git |index [0-9a-f]+\.\.|(new|deleted) file mode |similarity index |rename (from|to) |--- |\+\+\+ )/;
+const DIFF_HUNK = /^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/;
+const DIFF_BODY = /^([ +\-\\]|$)/;
+// JS/Java "at ...", Python "File ...", Java "... N more"
+const STACK_FRAME = /^\s+(at\s|File ".*", line \d+|\.\.\. \d+ more)/;
+const STACK_HEADER = /^(Traceback \(most recent call last\):|Caused by:|\S*(Error|Exception)\b)/;
+// Lines that start with a timestamp or a level tag
+const LOG_LINE =
+  /^\s*\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}|[A-Z][a-z]{2} +\d{1,2} \d{2}:\d{2}:\d{2}|(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL)\b)/;
+
+/**
+ * Split context into segments, in context order. Blank lines between
+ * segments are dropped. Without any block, heading or paragraph break,
+ * every line is its own segment.
+ *
+ * @param context - Free-form context text
+ * @returns Segments covering every non-blank line
+ */
+export function segmentContext(context: string): ContextSegment[] {
+  const lines = context.split(/\r?\n/);
+  const segments: ContextSegment[] = [];
+
+  const push = (kind: SegmentKind, start: number, end: number) => {
+    // Trailing blank lines belong to no segment
+    let last = end;
+    while (last > start && isBlank(lines[last - 1])) last--;
+    segments.push({
+      kind,
+      content: lines.slice(start, last).join('\n'),
+      startLine: start + 1,
+      endLine: last,
+    });
+  };
+
+  // Long prose is cut into chunks of whole lines
+  const pushProse = (kind: SegmentKind, start: number, end: number) => {
+    let chunkStart = start;
+    let chunkTokens = 0;
+    for (let k = start; k < end; k++) {
+      const full =
+        k - chunkStart >= MAX_PROSE_LINES ||
+        chunkTokens + estimateTokens(lines[k] ?? '') > MAX_PROSE_TOKENS;
+      if (k > chunkStart && full) {
+        push(kind, chunkStart, k);
+        chunkStart = k;
+        chunkTokens = 0;
+        // A chunk never starts with a blank line
+        while (chunkStart < end && isBlank(lines[chunkStart])) chunkStart++;
+        k = chunkStart;
+      }
+      chunkTokens += estimateTokens(lines[k] ?? '');
+    }
+    if (chunkStart < end) push(kind, chunkStart, end);
+  };
+
+  let structured = false;
+  let paragraphs = 0;
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i] ?? '';
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const block = blockAt(lines, i);
+    if (block) {
+      structured = true;
+      push(block.kind, i, block.end);
+      i = block.end;
+      continue;
+    }
+
+    if (LOG_LINE.test(line)) {
+      push('log', i, i + 1);
+      i++;
+      continue;
+    }
+
+    // A heading takes the prose under it (blank lines included); a
+    // paragraph ends at the first blank line
+    const kind: SegmentKind = HEADING.test(line) ? 'section' : 'paragraph';
+    let j = i + 1;
+    while (j < lines.length) {
+      const next = lines[j] ?? '';
+      if (kind === 'paragraph' && isBlank(next)) break;
+      if (HEADING.test(next) || LOG_LINE.test(next) || blockAt(lines, j)) break;
+      j++;
+    }
+    if (kind === 'section' || ++paragraphs > 1) structured = true;
+    pushProse(kind, i, j);
+    i = j;
+  }
+
+  return structured ? segments : lineSegments(lines);
+}
+
+/**
+ * One segment per non-blank line, for text without structure.
+ */
+function lineSegments(lines: string[]): ContextSegment[] {
+  const segments: ContextSegment[] = [];
+  lines.forEach((line, index) => {
+    if (isBlank(line)) return;
+    segments.push({
+      kind: LOG_LINE.test(line) ? 'log' : 'line',
+      content: line,
+      startLine: index + 1,
+      endLine: index + 1,
+    });
+  });
+  return segments;
+}
+
+/**
+ * Structured block (code, table, diff, stack trace, JSON) starting at a line.
+ */
+function blockAt(lines: string[], start: number): Block | null {
+  const line = lines[start] ?? '';
+
+  const fence = FENCE.exec(line);
+  if (fence) {
+    const marker = fence[1] as string;
+    let end = start + 1;
+    while (end < lines.length && !closesFence(lines[end] ?? '', marker)) end++;
+    return { kind: 'code', end: Math.min(end + 1, lines.length) };
+  }
+
+  if (TABLE_ROW.test(line)) {
+    let end = start + 1;
+    while (end < lines.length && TABLE_ROW.test(lines[end] ?? '')) end++;
+    return { kind: 'table', end };
+  }
+
+  if (isDiffStart(lines, start)) return { kind: 'diff', end: diffEnd(lines, start) };
+
+  if (
+    STACK_FRAME.test(line) ||
+    (STACK_HEADER.test(line) && STACK_FRAME.test(lines[start + 1] ?? ''))
+  ) {
+    return { kind: 'stack-trace', end: stackEnd(lines, start) };
+  }
+
+  const json = jsonEnd(lines, start);
+  if (json !== null) return { kind: 'json', end: json };
+
+  return null;
+}
+
+function isBlank(line: string | undefined): boolean {
+  return line === undefined || line.trim().length === 0;
+}
+
+function closesFence(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= marker.length &&
+    trimmed.startsWith(marker) &&
+    [...trimmed].every((c) => c === marker[0])
+  );
+}
+
+/**
+ * Whether a diff (file header or hunk) starts at a line. A lone `--- `
+ * line only counts when followed by `+++ `.
+ */
+function isDiffStart(lines: string[], start: number): boolean {
+  const line = lines[start] ?? '';
+  if (line.startsWith('diff --git ') || DIFF_HUNK.test(line)) return true;
+  return line.startsWith('--- ') && (lines[start + 1] ?? '').startsWith('+++ ');
+}
+
+/**
+ * End of one diff hunk, with any file header lines in front of it.
+ */
+function diffEnd(lines: string[], start: number): number {
+  let end = start;
+  while (end < lines.length && !DIFF_HUNK.test(lines[end] ?? '')) {
+    if (end > start && !DIFF_HEADER.test(lines[end] ?? '')) return end;
+    end++;
+  }
+  end++;
+  while (end < lines.length) {
+    const line = lines[end] ?? '';
+    if (!DIFF_BODY.test(line) || DIFF_HUNK.test(line) || isDiffStart(lines, end)) break;
+    end++;
+  }
+  return Math.min(end, lines.length);
+}
+
+/**
+ * End of a stack trace: frames, indented source lines, `Caused by:`
+ * chains and, for Python, the exception line after the frames.
+ */
+function stackEnd(lines: string[], start: number): number {
+  let end = start + 1;
+  while (end < lines.length) {
+    const line = lines[end] ?? '';
+    const continues =
+      STACK_FRAME.test(line) ||
+      (/^\s/.test(line) && !isBlank(line)) ||
+      (line.startsWith('Caused by:') && STACK_FRAME.test(lines[end + 1] ?? ''));
+    if (!continues) break;
+    end++;
+  }
+  if ((lines[start] ?? '').startsWith('Traceback') && !isBlank(lines[end])) end++;
+  return Math.min(end, lines.length);
+}
+
+/**
+ * End of a JSON value starting at a line, or null when the brackets do
+ * not balance before a blank line or the text is not valid JSON.
+ */
+function jsonEnd(lines: string[], start: number): number | null {
+  const first = (lines[start] ?? '').trimStart();
+  if (!first.startsWith('{') && !first.startsWith('[')) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let end = start; end < lines.length; end++) {
+    const line = lines[end] ?? '';
+    if (end > start && isBlank(line)) return null;
+    for (const c of line) {
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === '\\') escaped = true;
+        else if (c === '"') inString = false;
+      } else if (c === '"') {
+        inString = true;
+      } else if (c === '{' || c === '[') {
+        depth++;
+      } else if (c === '}' || c === ']') {
+        depth--;
+      }
+    }
+    if (depth <= 0) {
+      try {
+        JSON.parse(lines.slice(start, end + 1).join('\n'));
+        return end + 1;
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,368 @@
+/**
+ * Diagnostics Parser - Compiler and linter output grouping
+ *
+ * Parses tsc, biome, eslint, rustc, gcc/clang and go vet/build output into
+ * (file, line, column, code, message) records, deduplicates them and groups
+ * them by code so a single type change doesn't flood the context with
+ * hundreds of near-identical lines.
+ */
+
+import { stripAnsi } from './test-output-parser.js';
+
+export type DiagnosticTool = 'tsc' | 'biome' | 'eslint' | 'rustc' | 'gcc' | 'go';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  tool: DiagnosticTool;
+  file: string;
+  /** 1-based line; undefined for file-level diagnostics */
+  line?: number;
+  column?: number;
+  /** Error code or rule name (TS2345, E0308, lint/style/noVar, -Wunused-variable, ...) */
+  code?: string;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+export interface DiagnosticGroup {
+  /** Code, or a normalized message template for tools without codes */
+  key: string;
+  code?: string;
+  severity: DiagnosticSeverity;
+  count: number;
+  /** First message seen for this group */
+  message: string;
+  /** Distinct files, in first-seen order */
+  files: string[];
+  /** Diagnostics in this group, in first-seen order */
+  diagnostics: Diagnostic[];
+}
+
+export interface FormatDiagnosticsOptions {
+  /** Maximum groups to list (default: 12) */
+  maxGroups?: number;
+  /** Example locations per group (default: 3) */
+  maxExamples?: number;
+  /** Maximum message length in characters (default: 160) */
+  maxMessageLength?: number;
+}
+
+function toInt(value: string | undefined): number | undefined {
+  return value ? Number.parseInt(value, 10) : undefined;
+}
+
+function normalizePath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Parse compiler/linter diagnostics from command output.
+ *
+ * Exact duplicates (same file, position, code and message) are removed.
+ *
+ * @param text - Raw command output (ANSI codes allowed)
+ * @returns Diagnostics in output order
+ */
+export function parseDiagnostics(text: string): Diagnostic[] {
+  const lines = stripAnsi(text).replace(/\r\n/g, '\n').split('\n');
+  const diagnostics: Diagnostic[] = [];
+  let eslintFile: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+
+    // tsc: src/a.ts(12,5): error TS2345: message
+    const tscPlain = line.match(/^(\S.*?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/);
+    if (tscPlain) {
+      diagnostics.push({
+        tool: 'tsc',
+        file: normalizePath(tscPlain[1] ?? ''),
+        line: toInt(tscPlain[2]),
+        column: toInt(tscPlain[3]),
+        severity: tscPlain[4] as DiagnosticSeverity,
+        code: tscPlain[5],
+        message: (tscPlain[6] ?? '').trim(),
+      });
+      continue;
+    }
+
+    // tsc --pretty: src/a.ts:12:5 - error TS2345: message
+    const tscPretty = line.match(/^(\S.*?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/);
+    if (tscPretty) {
+      diagnostics.push({
+        tool: 'tsc',
+        file: normalizePath(tscPretty[1] ?? ''),
+        line: toInt(tscPretty[2]),
+        column: toInt(tscPretty[3]),
+        severity: tscPretty[4] as DiagnosticSeverity,
+        code: tscPretty[5],
+        message: (tscPretty[6] ?? '').trim(),
+      });
+      continue;
+    }
+
+    // biome: src/a.ts:12:5 lint/style/noVar FIXABLE ━━━━ followed by "  × message"
+    const biome = line.match(/^(\S+?)(?::(\d+):(\d+))?\s+([a-z][\w/]*)\s+(?:FIXABLE\s+)?━+\s*$/);
+    if (biome) {
+      let message = '';
+      let severity: DiagnosticSeverity = 'error';
+      for (let j = i + 1; j < Math.min(lines.length, i + 6); j++) {
+        const next = (lines[j] ?? '').trim();
+        const marker = next.match(/^([×✖!⚠ℹ])\s+(.*)$/);
+        if (marker) {
+          severity =
+            marker[1] === '!' || marker[1] === '⚠'
+              ? 'warning'
+              : marker[1] === 'ℹ'
+                ? 'info'
+                : 'error';
+          message = marker[2] ?? '';
+          break;
+        }
+      }
+      diagnostics.push({
+        tool: 'biome',
+        file: normalizePath(biome[1] ?? ''),
+        line: toInt(biome[2]),
+        column: toInt(biome[3]),
+        code: biome[4],
+        severity,
+        message,
+      });
+      continue;
+    }
+
+    // rustc: error[E0308]: message, then "  --> src/main.rs:4:18"
+    const rust = line.match(/^(error|warning)(?:\[(E\d+|[\w:]+)\])?: (.*)$/);
+    if (rust) {
+      const arrow = lines
+        .slice(i + 1, i + 4)
+        .map((l) => l.match(/^\s*-->\s+(.+?):(\d+):(\d+)\s*$/))
+        .find(Boolean);
+      if (arrow) {
+        diagnostics.push({
+          tool: 'rustc',
+          file: normalizePath(arrow[1] ?? ''),
+          line: toInt(arrow[2]),
+          column: toInt(arrow[3]),
+          code: rust[2],
+          severity: rust[1] as DiagnosticSeverity,
+          message: (rust[3] ?? '').trim(),
+        });
+      }
+      continue;
+    }
+
+    // gcc/clang: src/a.c:12:5: error: message [-Wflag]
+    const gcc = line.match(
+      /^(\S.*?):(\d+):(\d+): (fatal error|error|warning): (.*?)(?: \[(-W[\w=-]+)\])?$/,
+    );
+    if (gcc) {
+      diagnostics.push({
+        tool: 'gcc',
+        file: normalizePath(gcc[1] ?? ''),
+        line: toInt(gcc[2]),
+        column: toInt(gcc[3]),
+        code: gcc[6],
+        severity: gcc[4] === 'warning' ? 'warning' : 'error',
+        message: (gcc[5] ?? '').trim(),
+      });
+      continue;
+    }
+
+    // go build / go vet: ./main.go:12:2: message
+    const go = line.match(/^(?:vet: )?(\S+\.go):(\d+):(\d+): (.*)$/);
+    if (go) {
+      diagnostics.push({
+        tool: 'go',
+        file: normalizePath(go[1] ?? ''),
+        line: toInt(go[2]),
+        column: toInt(go[3]),
+        severity: 'error',
+        message: (go[4] ?? '').trim(),
+      });
+      continue;
+    }
+
+    // eslint unix/compact: src/a.ts:12:5: message [Error/rule]
+    const eslintUnix = line.match(
+      /^(\S.*?):(\d+):(\d+): (.*?) \[(Error|Warning)(?:\/([\w@/-]+))?\]$/,
+    );
+    if (eslintUnix) {
+      diagnostics.push({
+        tool: 'eslint',
+        file: normalizePath(eslintUnix[1] ?? ''),
+        line: toInt(eslintUnix[2]),
+        column: toInt(eslintUnix[3]),
+        code: eslintUnix[6],
+        severity: eslintUnix[5] === 'Warning' ? 'warning' : 'error',
+        message: (eslintUnix[4] ?? '').trim(),
+      });
+      continue;
+    }
+
+    // eslint stylish: a bare file path line, then "  12:5  error  message  rule"
+    if (/^(\/|[A-Za-z]:[\\/]|\.{0,2}[\w@-])\S*\.\w+$/.test(line)) {
+      eslintFile = line;
+      continue;
+    }
+    const stylish = line.match(
+      /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}([\w@/-]+))?\s*$/,
+    );
+    if (stylish && eslintFile) {
+      diagnostics.push({
+        tool: 'eslint',
+        file: normalizePath(eslintFile),
+        line: toInt(stylish[1]),
+        column: toInt(stylish[2]),
+        code: stylish[5],
+        severity: stylish[3] as DiagnosticSeverity,
+        message: (stylish[4] ?? '').trim(),
+      });
+      continue;
+    }
+    if (line.trim().length === 0) eslintFile = null;
+  }
+
+  const seen = new Set<string>();
+  return diagnostics.filter((d) => {
+    const key = `${d.file}:${d.line}:${d.column}:${d.code}:${d.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Reduce a message to a template so code-less diagnostics that differ only
+ * in identifiers or numbers land in the same group.
+ */
+function messageTemplate(message: string): string {
+  return message
+    .replace(/'[^']*'|"[^"]*"|`[^`]*`/g, '<v>')
+    .replace(/\b\d+\b/g, '<n>')
+    .trim();
+}
+
+/**
+ * Group diagnostics by code (or message template when no code is present).
+ *
+ * @param diagnostics - Parsed diagnostics
+ * @returns Groups sorted by severity (errors first) then count descending
+ */
+export function groupDiagnostics(diagnostics: Diagnostic[]): DiagnosticGroup[] {
+  const groups = new Map<string, DiagnosticGroup>();
+
+  for (const d of diagnostics) {
+    const key = d.code ?? messageTemplate(d.message);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        code: d.code,
+        severity: d.severity,
+        count: 0,
+        message: d.message,
+        files: [],
+        diagnostics: [],
+      };
+      groups.set(key, group);
+    }
+    group.count++;
+    group.diagnostics.push(d);
+    if (!group.files.includes(d.file)) group.files.push(d.file);
+    if (d.severity === 'error') group.severity = 'error';
+  }
+
+  const rank: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+  return [...groups.values()].sort(
+    (a, b) => rank[a.severity] - rank[b.severity] || b.count - a.count,
+  );
+}
+
+/**
+ * Describe a set of files compactly, e.g. "src/api/*.ts" or "src/a.ts, src/b.ts +3 more"
+ */
+export function describeFiles(files: string[]): string {
+  const unique = [...new Set(files)];
+  if (unique.length === 0) return '';
+  if (unique.length === 1) return unique[0] ?? '';
+
+  const dirOf = (f: string): string => (f.includes('/') ? f.slice(0, f.lastIndexOf('/')) : '.');
+  const extOf = (f: string): string => {
+    const base = f.slice(f.lastIndexOf('/') + 1);
+    return base.includes('.') ? base.slice(base.lastIndexOf('.')) : '';
+  };
+
+  const dirs = new Set(unique.map(dirOf));
+  const exts = new Set(unique.map(extOf));
+  if (dirs.size === 1) {
+    const dir = [...dirs][0];
+    const ext = exts.size === 1 ? [...exts][0] : '';
+    return `${dir}/*${ext}`;
+  }
+
+  const shown = unique.slice(0, 2).join(', ');
+  return `${shown} +${unique.length - 2} more`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function location(d: Diagnostic): string {
+  if (d.line === undefined) return d.file;
+  return d.column !== undefined ? `${d.file}:${d.line}:${d.column}` : `${d.file}:${d.line}`;
+}
+
+/**
+ * Format grouped diagnostics for hook additionalContext or relay output.
+ *
+ * @param diagnostics - Parsed diagnostics
+ * @param options - Formatting limits
+ * @returns Multi-line summary
+ */
+export function formatDiagnostics(
+  diagnostics: Diagnostic[],
+  options: FormatDiagnosticsOptions = {},
+): string {
+  const maxGroups = options.maxGroups ?? 12;
+  const maxExamples = options.maxExamples ?? 3;
+  const maxMessage = options.maxMessageLength ?? 160;
+
+  const groups = groupDiagnostics(diagnostics);
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  const warnings = diagnostics.filter((d) => d.severity === 'warning').length;
+  const files = new Set(diagnostics.map((d) => d.file));
+
+  const lines = [
+    `${diagnostics.length} diagnostics (${errors} errors, ${warnings} warnings) in ${files.size} files, ${groups.length} distinct:`,
+  ];
+
+  for (const group of groups.slice(0, maxGroups)) {
+    const label = group.code ?? group.severity;
+    lines.push(
+      `  ${label} x${group.count} in ${describeFiles(group.files)}: ${truncate(group.message, maxMessage)}`,
+    );
+    const examples = group.diagnostics.slice(0, maxExamples).map(location);
+    const more = group.count > maxExamples ? ` (+${group.count - maxExamples} more)` : '';
+    lines.push(`    at ${examples.join(', ')}${more}`);
+  }
+  if (groups.length > maxGroups) {
+    lines.push(`  … ${groups.length - maxGroups} more groups`);
+  }
+
+  // Files with the most diagnostics, to pick where to start
+  const perFile = new Map<string, number>();
+  for (const d of diagnostics) perFile.set(d.file, (perFile.get(d.file) ?? 0) + 1);
+  if (perFile.size > 1) {
+    const top = [...perFile.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([file, n]) => `${file} (${n})`);
+    lines.push(`  Top files: ${top.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,52 @@
+/**
+ * Glob matching for file path rules.
+ *
+ * Supports `*` (within a path segment), `?`, and `**` (any number of
+ * segments). Patterns without a slash match the file name in any
+ * directory, as in .gitignore.
+ */
+
+/**
+ * Convert a glob pattern to an anchored regular expression.
+ *
+ * @param pattern - Glob pattern (forward slashes)
+ * @returns RegExp matching whole paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] ?? '';
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Test a path against a glob pattern.
+ *
+ * @param filePath - Path to test (relative paths match relative patterns)
+ * @param pattern - Glob pattern
+ * @returns The pattern matched
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/');
+  if (!pattern.includes('/')) {
+    const name = normalized.slice(normalized.lastIndexOf('/') + 1);
+    return globToRegExp(pattern).test(name);
+  }
+  return globToRegExp(pattern).test(normalized.replace(/^\.\//, ''));
+}
@@ -0,0 +1,316 @@
+/**
+ * JSON Shape - Schema-inferred summaries of large JSON values
+ *
+ * Walks a parsed JSON value and merges every occurrence of each path into
+ * one node: key sets (with optional keys marked), types, array lengths,
+ * number and date ranges, and enum-like string sets. The formatted view
+ * is a compact schema with one or two representative samples per array.
+ */
+
+export interface ShapeNode {
+  /** Times this path was seen */
+  count: number;
+  nulls: number;
+  booleans?: { trues: number; falses: number };
+  numbers?: { count: number; min: number; max: number; integer: boolean };
+  strings?: StringStats;
+  arrays?: {
+    count: number;
+    minLength: number;
+    maxLength: number;
+    items: ShapeNode;
+    samples: unknown[];
+  };
+  objects?: { count: number; fields: Map<string, ShapeNode> };
+}
+
+interface StringStats {
+  count: number;
+  minLength: number;
+  maxLength: number;
+  /** Distinct values with counts; null once there are too many to be enum-like */
+  distinct: Map<string, number> | null;
+  /** First few distinct values */
+  examples: string[];
+  /** Lexicographic range when every value is an ISO date/time */
+  dateRange: { min: string; max: string } | null;
+}
+
+export interface FormatShapeOptions {
+  /** Deepest nesting level expanded (default: 6) */
+  maxDepth?: number;
+  /** Keys listed per object (default: 40) */
+  maxKeys?: number;
+  /** Samples shown per array of objects/arrays (default: 2) */
+  maxSamples?: number;
+  /** Characters per sample (default: 200) */
+  maxSampleLength?: number;
+  /** Most distinct values for a string field to be shown as an enum (default: 8) */
+  maxEnumValues?: number;
+}
+
+// Distinct string values tracked before a field stops being a candidate enum
+const MAX_TRACKED_STRINGS = 32;
+const MAX_STRING_EXAMPLES = 2;
+const MAX_ARRAY_SAMPLES = 8;
+const ISO_DATE =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function emptyNode(): ShapeNode {
+  return { count: 0, nulls: 0 };
+}
+
+function observeString(node: ShapeNode, value: string): void {
+  const initial: StringStats = {
+    count: 0,
+    minLength: value.length,
+    maxLength: value.length,
+    distinct: new Map(),
+    examples: [],
+    dateRange: ISO_DATE.test(value) ? { min: value, max: value } : null,
+  };
+  node.strings ??= initial;
+  const stats = node.strings;
+  stats.count++;
+  stats.minLength = Math.min(stats.minLength, value.length);
+  stats.maxLength = Math.max(stats.maxLength, value.length);
+
+  if (stats.distinct) {
+    stats.distinct.set(value, (stats.distinct.get(value) ?? 0) + 1);
+    if (stats.distinct.size > MAX_TRACKED_STRINGS) stats.distinct = null;
+  }
+  if (stats.examples.length < MAX_STRING_EXAMPLES && !stats.examples.includes(value)) {
+    stats.examples.push(value);
+  }
+  if (stats.dateRange) {
+    if (!ISO_DATE.test(value)) {
+      stats.dateRange = null;
+    } else {
+      if (value < stats.dateRange.min) stats.dateRange.min = value;
+      if (value > stats.dateRange.max) stats.dateRange.max = value;
+    }
+  }
+}
+
+function observe(node: ShapeNode, value: unknown): void {
+  node.count++;
+
+  if (value === null) {
+    node.nulls++;
+  } else if (typeof value === 'boolean') {
+    node.booleans ??= { trues: 0, falses: 0 };
+    if (value) node.booleans.trues++;
+    else node.booleans.falses++;
+  } else if (typeof value === 'number') {
+    node.numbers ??= { count: 0, min: value, max: value, integer: true };
+    const stats = node.numbers;
+    stats.count++;
+    stats.min = Math.min(stats.min, value);
+    stats.max = Math.max(stats.max, value);
+    stats.integer &&= Number.isInteger(value);
+  } else if (typeof value === 'string') {
+    observeString(node, value);
+  } else if (Array.isArray(value)) {
+    node.arrays ??= {
+      count: 0,
+      minLength: value.length,
+      maxLength: value.length,
+      items: emptyNode(),
+      samples: [],
+    };
+    const stats = node.arrays;
+    stats.count++;
+    stats.minLength = Math.min(stats.minLength, value.length);
+    stats.maxLength = Math.max(stats.maxLength, value.length);
+    for (const item of value) {
+      observe(stats.items, item);
+      if (stats.samples.length < MAX_ARRAY_SAMPLES) stats.samples.push(item);
+    }
+  } else if (typeof value === 'object') {
+    node.objects ??= { count: 0, fields: new Map() };
+    const stats = node.objects;
+    stats.count++;
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      let field = stats.fields.get(key);
+      if (!field) {
+        field = emptyNode();
+        stats.fields.set(key, field);
+      }
+      observe(field, child);
+    }
+  }
+}
+
+/**
+ * Infer the shape of a parsed JSON value.
+ *
+ * @param value - Parsed JSON
+ * @returns Root shape node
+ */
+export function inferJSONShape(value: unknown): ShapeNode {
+  const root = emptyNode();
+  observe(root, value);
+  return root;
+}
+
+function range(min: number, max: number): string {
+  return min === max ? String(min) : `${min}..${max}`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function describeString(stats: StringStats, maxEnumValues: number): string {
+  if (stats.dateRange) {
+    return `date ${stats.dateRange.min === stats.dateRange.max ? stats.dateRange.min : `${stats.dateRange.min}..${stats.dateRange.max}`}`;
+  }
+  // Enum-like: few distinct values, each repeated
+  if (
+    stats.distinct &&
+    stats.distinct.size <= maxEnumValues &&
+    stats.count >= stats.distinct.size * 2
+  ) {
+    const values = [...stats.distinct.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([v, n]) => `${JSON.stringify(truncate(v, 40))} (${n})`);
+    return `enum ${values.join(' | ')}`;
+  }
+  const length = range(stats.minLength, stats.maxLength);
+  const examples = stats.examples.map((e) => JSON.stringify(truncate(e, 40))).join(', ');
+  return `string (${length} chars) e.g. ${examples}`;
+}
+
+/**
+ * Describe every type seen at a node (unions become several parts).
+ */
+function describeTypes(node: ShapeNode, maxEnumValues: number): string[] {
+  const parts: string[] = [];
+  if (node.objects) parts.push('object');
+  if (node.arrays) {
+    const { minLength, maxLength, items } = node.arrays;
+    const itemTypes = describeTypes(items, maxEnumValues);
+    const of = itemTypes.length > 0 ? ` of ${itemTypes.join(' | ')}` : '';
+    parts.push(`array[${range(minLength, maxLength)}]${of}`);
+  }
+  if (node.numbers) {
+    const { min, max, integer } = node.numbers;
+    parts.push(`${integer ? 'integer' : 'number'} ${range(min, max)}`);
+  }
+  if (node.strings) parts.push(describeString(node.strings, maxEnumValues));
+  if (node.booleans) {
+    const { trues, falses } = node.booleans;
+    parts.push(
+      trues && falses ? `boolean (true ${trues}, false ${falses})` : `boolean ${trues > 0}`,
+    );
+  }
+  if (node.nulls > 0) parts.push('null');
+  return parts;
+}
+
+/**
+ * Pick up to `max` samples: the first item, then the one with the most keys.
+ */
+function pickSamples(samples: unknown[], max: number): unknown[] {
+  if (samples.length === 0 || max <= 0) return [];
+  const picked = [samples[0]];
+  const size = (v: unknown) =>
+    v && typeof v === 'object' ? Object.keys(v as Record<string, unknown>).length : 0;
+  const richest = samples.reduce((best, s) => (size(s) > size(best) ? s : best), samples[0]);
+  if (max > 1 && richest !== samples[0]) picked.push(richest);
+  else if (max > 1 && samples.length > 1) picked.push(samples[samples.length - 1]);
+  return picked;
+}
+
+function formatFields(
+  objects: NonNullable<ShapeNode['objects']>,
+  indent: string,
+  depth: number,
+  out: string[],
+  options: Required<FormatShapeOptions>,
+): void {
+  const keys = [...objects.fields.keys()];
+  for (const key of keys.slice(0, options.maxKeys)) {
+    const field = objects.fields.get(key) as ShapeNode;
+    const optional = field.count < objects.count ? `? (${field.count}/${objects.count})` : '';
+    formatNode(field, `${key}${optional}`, indent, depth, out, options);
+  }
+  if (keys.length > options.maxKeys) {
+    out.push(`${indent}… ${keys.length - options.maxKeys} more keys`);
+  }
+}
+
+function formatNode(
+  node: ShapeNode,
+  label: string,
+  indent: string,
+  depth: number,
+  out: string[],
+  options: Required<FormatShapeOptions>,
+): void {
+  out.push(`${indent}${label}: ${describeTypes(node, options.maxEnumValues).join(' | ')}`);
+  if (depth >= options.maxDepth) return;
+
+  const child = `${indent}  `;
+  if (node.objects) {
+    formatFields(node.objects, child, depth + 1, out, options);
+    return;
+  }
+  if (!node.arrays) return;
+
+  // Arrays of objects list the item fields; arrays of arrays recurse
+  const { items } = node.arrays;
+  if (items.objects) {
+    formatFields(items.objects, child, depth + 1, out, options);
+  } else if (items.arrays) {
+    formatNode(items, '[]', child, depth + 1, out, options);
+  } else {
+    return;
+  }
+  for (const sample of pickSamples(node.arrays.samples, options.maxSamples)) {
+    out.push(`${child}e.g. ${truncate(JSON.stringify(sample), options.maxSampleLength)}`);
+  }
+}
+
+/**
+ * Format an inferred shape as an indented schema with samples.
+ *
+ * @param shape - Root node from inferJSONShape
+ * @param options - Output limits
+ * @returns Multi-line schema view
+ */
+export function formatJSONShape(shape: ShapeNode, options: FormatShapeOptions = {}): string {
+  const resolved: Required<FormatShapeOptions> = {
+    maxDepth: options.maxDepth ?? 6,
+    maxKeys: options.maxKeys ?? 40,
+    maxSamples: options.maxSamples ?? 2,
+    maxSampleLength: options.maxSampleLength ?? 200,
+    maxEnumValues: options.maxEnumValues ?? 8,
+  };
+  const out: string[] = [];
+  formatNode(shape, '$', '', 0, out, resolved);
+  return out.join('\n');
+}
+
+/**
+ * Summarize JSON text as an inferred schema, or return null if the text
+ * is not a JSON object or array.
+ *
+ * @param text - Candidate JSON
+ * @param options - Output limits
+ * @returns Schema view (without a `[cortex]` prefix), or null
+ */
+export function summarizeJSON(text: string, options: FormatShapeOptions = {}): string | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (value === null || typeof value !== 'object') return null;
+
+  return formatJSONShape(inferJSONShape(value), options);
+}
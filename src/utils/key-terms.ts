@@ -0,0 +1,68 @@
+/**
+ * Key Terms - Distinctive terms of a prompt or task description
+ *
+ * Shared by prompt recall and focused optimization: identifiers, paths
+ * and error codes rank above plain words, and request filler ("please
+ * fix the code") is ignored.
+ */
+
+// Common English and request words that say nothing about the task
+const STOP_WORDS = new Set(
+  (
+    'the and for are but not you your all any can had her was one our out has him his how its ' +
+    'may new now old see two way who did get got let put say she too use that with have this ' +
+    'will from they know want been good much some time very when come here just like long make ' +
+    'many more only over such take than them well were what which while would there their ' +
+    'these those about after again also because before being could does doing done each into ' +
+    'most other should then through under until where why able please thanks thank need needs ' +
+    'add adds fix fixes change update check look help show tell give find work works working ' +
+    'something anything everything file files code line lines still already instead maybe ' +
+    'sure think using used right wrong keep try trying lets during without within between'
+  ).split(' '),
+);
+
+/**
+ * Whether a term looks like code rather than prose: camelCase, snake_case,
+ * dotted or slashed paths, or an error code with digits.
+ */
+export function isCodeLike(term: string): boolean {
+  return /[a-z][A-Z]|[_./]|\d/.test(term) || /^[A-Z]{2,}/.test(term);
+}
+
+/**
+ * Extract the most distinctive terms from a prompt.
+ * Code-like terms come first, then longer words; order of appearance breaks ties.
+ *
+ * @param prompt - User prompt
+ * @param maxTerms - Maximum terms returned (default: 8)
+ * @returns Distinct terms, most distinctive first
+ */
+export function extractKeyTerms(prompt: string, maxTerms = 8): string[] {
+  const candidates = prompt.match(/[A-Za-z_][\w./-]*\w|[A-Za-z]{3,}/g) ?? [];
+  const seen = new Set<string>();
+  const terms: Array<{ term: string; weight: number; order: number }> = [];
+
+  for (const raw of candidates) {
+    const term = raw.replace(/^[./-]+|[./-]+$/g, '');
+    const key = term.toLowerCase();
+    if (term.length < 3 || seen.has(key) || STOP_WORDS.has(key)) continue;
+    seen.add(key);
+    terms.push({
+      term,
+      weight: (isCodeLike(term) ? 2 : 1) + Math.min(term.length, 20) / 20,
+      order: terms.length,
+    });
+  }
+
+  return terms
+    .sort((a, b) => b.weight - a.weight || a.order - b.order)
+    .slice(0, maxTerms)
+    .map((t) => t.term);
+}
+
+/**
+ * Weight of a matched term (code-like terms count triple).
+ */
+export function termWeight(term: string): number {
+  return isCodeLike(term) ? 3 : 1;
+}
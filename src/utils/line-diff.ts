@@ -0,0 +1,142 @@
+/**
+ * Line Diff - Compact unified diffs between two versions of a text
+ *
+ * LCS over the lines that differ after trimming the common prefix/suffix.
+ * Large rewrites that would make the LCS table too big fall back to a
+ * single replace hunk.
+ */
+
+export interface UnifiedDiffOptions {
+  /** Unchanged lines shown around each change (default: 2) */
+  context?: number;
+  /** Maximum diff body lines before truncating (default: 80) */
+  maxLines?: number;
+  /** Line number of the first line in both texts (default: 1) */
+  startLine?: number;
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+// Upper bound on LCS table cells (~16MB as Uint32Array)
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffOps(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp[] = a.slice(0, prefix).map((line) => ({ type: ' ', line }));
+
+  const n = midA.length;
+  const m = midB.length;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    for (const line of midA) ops.push({ type: '-', line });
+    for (const line of midB) ops.push({ type: '+', line });
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? (lcs[(i + 1) * width + j + 1] ?? 0) + 1
+            : Math.max(lcs[(i + 1) * width + j] ?? 0, lcs[i * width + j + 1] ?? 0);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ type: ' ', line: midA[i] ?? '' });
+        i++;
+        j++;
+      } else if (
+        i < n &&
+        (j >= m || (lcs[(i + 1) * width + j] ?? 0) >= (lcs[i * width + j + 1] ?? 0))
+      ) {
+        // Deletions before insertions, as in `diff -u`
+        ops.push({ type: '-', line: midA[i] ?? '' });
+        i++;
+      } else {
+        ops.push({ type: '+', line: midB[j] ?? '' });
+        j++;
+      }
+    }
+  }
+
+  for (const line of a.slice(a.length - suffix)) ops.push({ type: ' ', line });
+  return ops;
+}
+
+/**
+ * Build a unified diff (hunks only, no file headers) between two texts.
+ *
+ * @param oldText - Previous version
+ * @param newText - Current version
+ * @param options - Context, size cap and line offset
+ * @returns Diff body, or empty string if the texts are identical
+ */
+export function formatUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {},
+): string {
+  const context = options.context ?? 2;
+  const maxLines = options.maxLines ?? 80;
+  const startLine = options.startLine ?? 1;
+
+  if (oldText === newText) return '';
+  const ops = diffOps(oldText.split('\n'), newText.split('\n'));
+
+  // Group changed ops into hunks, merging those whose context overlaps
+  const hunks: Array<{ from: number; to: number }> = [];
+  for (let k = 0; k < ops.length; k++) {
+    if (ops[k]?.type === ' ') continue;
+    const from = Math.max(0, k - context);
+    const to = Math.min(ops.length, k + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last.to) {
+      last.to = Math.max(last.to, to);
+    } else {
+      hunks.push({ from, to });
+    }
+  }
+
+  // Line counters per op index
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = startLine;
+  let newLine = startLine;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+
+  const out: string[] = [];
+  for (const hunk of hunks) {
+    const slice = ops.slice(hunk.from, hunk.to);
+    const oldCount = slice.filter((op) => op.type !== '+').length;
+    const newCount = slice.filter((op) => op.type !== '-').length;
+    out.push(
+      `@@ -${oldLineAt[hunk.from]},${oldCount} +${newLineAt[hunk.from]},${newCount} @@`,
+      ...slice.map((op) => `${op.type}${op.line}`),
+    );
+  }
+
+  if (out.length > maxLines) {
+    return [...out.slice(0, maxLines), `… ${out.length - maxLines} more diff lines`].join('\n');
+  }
+  return out.join('\n');
+}
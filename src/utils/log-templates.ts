@@ -0,0 +1,316 @@
+/**
+ * Log Templates - Drain-style template mining for repetitive log output
+ *
+ * Clusters log lines that differ only in timestamps, IDs and numbers
+ * into templates (variable positions shown as `<*>`). Each template is
+ * reported once with its occurrence count, first/last timestamps and
+ * example variable values; lines whose template is rare are kept verbatim.
+ */
+
+export interface LogTemplate {
+  /** Template text with `<*>` for variable tokens */
+  template: string;
+  /** Number of lines matching the template */
+  count: number;
+  /** 1-based line number of the first occurrence */
+  firstLine: number;
+  /** Timestamp of the first occurrence, if the lines have one */
+  firstTimestamp?: string;
+  /** Timestamp of the last occurrence */
+  lastTimestamp?: string;
+  /** Example values per variable position, in template order */
+  examples: string[][];
+}
+
+export interface LogMiningOptions {
+  /** Fraction of equal tokens needed to join a cluster (default: 0.5) */
+  similarity?: number;
+  /** Templates seen fewer times than this are reported verbatim (default: 2) */
+  minCount?: number;
+  /** Example values kept per variable (default: 3) */
+  maxExamples?: number;
+}
+
+export interface LogMiningResult {
+  /** Templates seen at least `minCount` times, by first occurrence */
+  templates: LogTemplate[];
+  /** Lines from rare templates, in log order */
+  rare: Array<{ line: number; text: string }>;
+  /** Non-empty lines analysed */
+  totalLines: number;
+}
+
+export interface FormatLogOptions {
+  /** Maximum templates listed (most frequent first; default: 25) */
+  maxTemplates?: number;
+  /** Maximum rare lines listed (default: 20) */
+  maxRare?: number;
+  /** Maximum variables with examples per template (default: 4) */
+  maxVariables?: number;
+}
+
+export interface SummarizeLogOptions extends LogMiningOptions, FormatLogOptions {
+  /** Skip inputs with fewer non-empty lines (default: 20) */
+  minLines?: number;
+  /** Skip inputs whose templates + rare lines exceed this fraction of lines (default: 0.5) */
+  maxGroupRatio?: number;
+}
+
+const WILDCARD = '<*>';
+
+// ISO 8601 / RFC 3339, syslog ("Mar  4 10:22:01"), then bare clock times
+const TIMESTAMP_PATTERNS = [
+  /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/,
+  /\b[A-Z][a-z]{2} +\d{1,2} \d{2}:\d{2}:\d{2}\b/,
+  /\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/,
+];
+
+// Bounds work on pathological input (every line unique)
+const MAX_CLUSTERS_PER_GROUP = 200;
+const MAX_SAMPLES = 20;
+
+interface Cluster {
+  tokens: string[];
+  count: number;
+  firstLine: number;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  /** Original token lists of the first few lines, for example values */
+  samples: string[][];
+  lines: Array<{ line: number; text: string }>;
+}
+
+function extractTimestamp(line: string): { timestamp?: string; rest: string } {
+  for (const pattern of TIMESTAMP_PATTERNS) {
+    const match = line.match(pattern);
+    if (match) {
+      return { timestamp: match[0], rest: line.replace(match[0], ' ') };
+    }
+  }
+  return { rest: line };
+}
+
+/**
+ * Replace obviously variable tokens (anything containing a digit) with `<*>`,
+ * keeping a `key=` / `key:` prefix so the template stays readable.
+ */
+function maskToken(token: string): string {
+  if (!/\d/.test(token)) return token;
+  const keyValue = token.match(/^([A-Za-z_][\w.-]*[=:])(.+)$/);
+  if (keyValue?.[1] && /\d/.test(keyValue[2] ?? '')) {
+    return `${keyValue[1]}${WILDCARD}`;
+  }
+  return WILDCARD;
+}
+
+function similarity(template: string[], tokens: string[]): number {
+  let same = 0;
+  for (let i = 0; i < template.length; i++) {
+    if (template[i] === tokens[i]) same++;
+  }
+  return template.length === 0 ? 1 : same / template.length;
+}
+
+function variableValue(templateToken: string, original: string): string {
+  const prefix = templateToken.slice(0, -WILDCARD.length);
+  return prefix && original.startsWith(prefix) ? original.slice(prefix.length) : original;
+}
+
+/**
+ * Mine templates from log text.
+ *
+ * @param text - Log output
+ * @param options - Clustering options
+ * @returns Frequent templates plus verbatim rare lines
+ */
+export function mineLogTemplates(text: string, options: LogMiningOptions = {}): LogMiningResult {
+  const { similarity: threshold = 0.5, minCount = 2, maxExamples = 3 } = options;
+
+  // Group by token count and first token, as in Drain's fixed-depth parse tree
+  const groups = new Map<string, Cluster[]>();
+  const clusters: Cluster[] = [];
+  let totalLines = 0;
+
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const raw = (lines[i] ?? '').replace(/\s+$/, '');
+    if (raw.trim().length === 0) continue;
+    totalLines++;
+
+    const { timestamp, rest } = extractTimestamp(raw);
+    const original = rest.trim().split(/\s+/);
+    const masked = original.map(maskToken);
+    const key = `${masked.length}\u0000${masked[0] ?? ''}`;
+
+    let group = groups.get(key);
+    if (!group) {
+      group = [];
+      groups.set(key, group);
+    }
+
+    let best: Cluster | undefined;
+    let bestScore = -1;
+    for (const cluster of group) {
+      const score = similarity(cluster.tokens, masked);
+      if (score > bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    const entry = { line: i + 1, text: raw };
+    if (best && bestScore >= threshold) {
+      best.tokens = best.tokens.map((t, idx) => (t === masked[idx] ? t : WILDCARD));
+      best.count++;
+      if (timestamp) {
+        best.firstTimestamp ??= timestamp;
+        best.lastTimestamp = timestamp;
+      }
+      if (best.samples.length < MAX_SAMPLES) best.samples.push(original);
+      // Only rare templates need their lines; stop collecting once frequent
+      if (best.lines.length < minCount) best.lines.push(entry);
+      continue;
+    }
+
+    if (group.length >= MAX_CLUSTERS_PER_GROUP) {
+      // Too many shapes: fold into the closest cluster's count without learning
+      if (best) {
+        best.count++;
+        continue;
+      }
+    }
+
+    const cluster: Cluster = {
+      tokens: masked,
+      count: 1,
+      firstLine: i + 1,
+      firstTimestamp: timestamp,
+      lastTimestamp: timestamp,
+      samples: [original],
+      lines: [entry],
+    };
+    group.push(cluster);
+    clusters.push(cluster);
+  }
+
+  const templates: LogTemplate[] = [];
+  const rare: Array<{ line: number; text: string }> = [];
+
+  for (const cluster of clusters) {
+    if (cluster.count < minCount) {
+      rare.push(...cluster.lines);
+      continue;
+    }
+
+    const examples: string[][] = [];
+    cluster.tokens.forEach((token, idx) => {
+      if (!token.endsWith(WILDCARD)) return;
+      const values: string[] = [];
+      for (const sample of cluster.samples) {
+        const value = variableValue(token, sample[idx] ?? '');
+        if (value && !values.includes(value)) values.push(value);
+        if (values.length >= maxExamples) break;
+      }
+      examples.push(values);
+    });
+
+    templates.push({
+      template: cluster.tokens.join(' '),
+      count: cluster.count,
+      firstLine: cluster.firstLine,
+      firstTimestamp: cluster.firstTimestamp,
+      lastTimestamp: cluster.lastTimestamp,
+      examples,
+    });
+  }
+
+  rare.sort((a, b) => a.line - b.line);
+  return { templates, rare, totalLines };
+}
+
+/**
+ * Format mined templates as a compact summary.
+ *
+ * @param result - Output of mineLogTemplates
+ * @param options - Output limits
+ * @returns Multi-line summary (without a `[cortex]` prefix)
+ */
+export function formatLogTemplates(
+  result: LogMiningResult,
+  options: FormatLogOptions = {},
+): string {
+  const { maxTemplates = 25, maxRare = 20, maxVariables = 4 } = options;
+  const { templates, rare, totalLines } = result;
+
+  const shown = [...templates]
+    .sort((a, b) => b.count - a.count || a.firstLine - b.firstLine)
+    .slice(0, maxTemplates)
+    .sort((a, b) => a.firstLine - b.firstLine);
+
+  const out = [`${totalLines} lines → ${templates.length} templates, ${rare.length} rare lines:`];
+
+  for (const t of shown) {
+    const span =
+      t.firstTimestamp && t.lastTimestamp && t.firstTimestamp !== t.lastTimestamp
+        ? ` [${t.firstTimestamp} → ${t.lastTimestamp}]`
+        : t.firstTimestamp
+          ? ` [${t.firstTimestamp}]`
+          : '';
+    out.push(`  x${t.count}${span} ${t.template}`);
+
+    const examples = t.examples
+      .slice(0, maxVariables)
+      .filter((values) => values.length > 0)
+      .map((values) => values.join(', '));
+    if (examples.length > 0) {
+      out.push(`      e.g. ${examples.join(' | ')}`);
+    }
+  }
+  if (templates.length > shown.length) {
+    const hidden = templates.length - shown.length;
+    const hiddenLines = templates
+      .filter((t) => !shown.includes(t))
+      .reduce((sum, t) => sum + t.count, 0);
+    out.push(`  … ${hidden} more templates (${hiddenLines} lines)`);
+  }
+
+  if (rare.length > 0) {
+    out.push('Rare lines:');
+    for (const entry of rare.slice(0, maxRare)) {
+      out.push(`  L${entry.line}: ${entry.text}`);
+    }
+    if (rare.length > maxRare) {
+      out.push(`  … ${rare.length - maxRare} more rare lines`);
+    }
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Whether templates summarize a mined log well: enough lines, and few
+ * enough templates and rare lines relative to them.
+ */
+export function isRepetitiveLog(
+  result: LogMiningResult,
+  options: SummarizeLogOptions = {},
+): boolean {
+  const { minLines = 20, maxGroupRatio = 0.5 } = options;
+  return (
+    result.totalLines >= minLines &&
+    result.templates.length + result.rare.length <= result.totalLines * maxGroupRatio
+  );
+}
+
+/**
+ * Mine and format a log, or return null when the text is not repetitive
+ * enough for templates to help.
+ *
+ * @param text - Candidate log output
+ * @param options - Mining, formatting and applicability options
+ * @returns Summary (without a `[cortex]` prefix), or null
+ */
+export function summarizeLog(text: string, options: SummarizeLogOptions = {}): string | null {
+  const result = mineLogTemplates(text, options);
+  return isRepetitiveLog(result, options) ? formatLogTemplates(result, options) : null;
+}
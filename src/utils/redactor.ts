@@ -0,0 +1,229 @@
+/**
+ * Redactor - Strip secrets and credentials from text
+ *
+ * Built-in detectors cover cloud/provider token formats (AWS, GCP,
+ * GitHub, Stripe), JWTs, bearer headers, URL passwords, PEM private
+ * keys, dotenv `KEY=value` lines and high-entropy strings. Projects add
+ * their own regexes via `redaction.patterns`. Matches are replaced with
+ * `[REDACTED:<detector>]` and counted per detector.
+ */
+
+import { basename } from 'node:path';
+import type { RedactionConfig } from '../types/config.js';
+
+export interface RedactionResult {
+  /** Text with secrets replaced */
+  text: string;
+  /** Replacements per detector */
+  counts: Record<string, number>;
+  /** Total replacements */
+  total: number;
+}
+
+export interface RedactOptions {
+  /** File the text came from; every value in `.env` files is redacted */
+  source?: string;
+}
+
+export interface Redactor {
+  /** Redact secrets from text */
+  redact(text: string, options?: RedactOptions): RedactionResult;
+}
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  /** Build the replacement from the match groups (default: the whole match is replaced) */
+  replace?: (groups: string[], marker: string) => string;
+}
+
+const DEFAULT_REDACTION: RedactionConfig = {
+  enabled: true,
+  patterns: [],
+  highEntropy: true,
+};
+
+// Env var names that hold credentials
+const SENSITIVE_NAME = /(?:KEY|SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIALS?|AUTH|PRIVATE|SIGNATURE)/i;
+
+const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN ((?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?)-----[\s\S]*?-----END \1-----/g,
+  },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'aws-secret-key',
+    pattern:
+      /(aws_?secret_?access_?key["']?\s*[=:]\s*["']?)([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    replace: ([prefix], marker) => `${prefix}${marker}`,
+  },
+  { name: 'gcp-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+  { name: 'gcp-oauth-token', pattern: /\bya29\.[0-9A-Za-z_-]{20,}/g },
+  {
+    name: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    name: 'stripe-key',
+    pattern: /\b(?:(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|whsec_[A-Za-z0-9]{24,})\b/g,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    name: 'bearer-token',
+    pattern:
+      /(\b(?:Authorization|Proxy-Authorization)["']?\s*[:=]\s*["']?(?:Bearer|Token|Basic)\s+)([A-Za-z0-9._~+/=-]{8,})/gi,
+    replace: ([prefix], marker) => `${prefix}${marker}`,
+  },
+  {
+    name: 'url-password',
+    pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)([^\s@/]+)(@)/gi,
+    replace: ([prefix, , at], marker) => `${prefix}${marker}${at}`,
+  },
+  {
+    name: 'dotenv',
+    // Dotenv style only (upper-case name, no spaces around `=`), so code assignments are left alone
+    pattern: /^(\s*(?:export\s+)?([A-Z_][A-Z0-9_]*)=)(["']?)(.+?)\3\s*$/gm,
+    replace: ([prefix, name, quote, value], marker) =>
+      SENSITIVE_NAME.test(name ?? '') && !/^(?:\[REDACTED|\$)/.test(value ?? '')
+        ? `${prefix}${quote}${marker}${quote}`
+        : '',
+  },
+];
+
+// Long runs of base64/base62-ish characters; filtered by entropy and character mix
+const ENTROPY_CANDIDATE =
+  /(?<![A-Za-z0-9+/_=-])(?:sha\d+-)?[A-Za-z0-9+/_=-]{32,}(?![A-Za-z0-9+/_=-])/g;
+const ENTROPY_THRESHOLD = 4.3;
+
+function shannonEntropy(value: string): number {
+  const freq = new Map<string, number>();
+  for (const ch of value) freq.set(ch, (freq.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const n of freq.values()) {
+    const p = n / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function looksRandom(token: string): boolean {
+  // Integrity hashes (sha512-...) and hex digests (commits, checksums) are not secrets
+  if (/^sha\d+-/.test(token) || /^[0-9a-fA-F-]+$/.test(token)) return false;
+  // Paths and identifiers made of words are common in tool output
+  if ((token.match(/\//g) ?? []).length > 2) return false;
+  if (!/[A-Z]/.test(token) || !/[a-z]/.test(token) || !/[0-9]/.test(token)) return false;
+  return shannonEntropy(token) >= ENTROPY_THRESHOLD;
+}
+
+function isDotenvFile(source: string | undefined): boolean {
+  if (!source) return false;
+  const name = basename(source);
+  return name === '.env' || name.startsWith('.env.') || name.endsWith('.env');
+}
+
+/**
+ * Create a redactor.
+ *
+ * @param config - Redaction settings (defaults: enabled, high-entropy detection on)
+ * @returns Redactor instance
+ * @throws Error if a custom pattern is not a valid regex
+ */
+export function createRedactor(config: Partial<RedactionConfig> = {}): Redactor {
+  const settings = { ...DEFAULT_REDACTION, ...config };
+  const custom: Detector[] = settings.patterns.map((p) => ({
+    name: 'custom',
+    pattern: new RegExp(p, 'g'),
+  }));
+  const detectors = [...BUILTIN_DETECTORS, ...custom];
+
+  function redact(text: string, options: RedactOptions = {}): RedactionResult {
+    const counts: Record<string, number> = {};
+    if (!settings.enabled || text.length === 0) {
+      return { text, counts, total: 0 };
+    }
+
+    const count = (name: string): void => {
+      counts[name] = (counts[name] ?? 0) + 1;
+    };
+
+    let result = text;
+
+    // .env files: every value is a secret, whatever its name
+    if (isDotenvFile(options.source)) {
+      result = result.replace(
+        /^(\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*)(\S.*)$/gm,
+        (_match, prefix: string) => {
+          count('dotenv');
+          return `${prefix}[REDACTED:dotenv]`;
+        },
+      );
+    }
+
+    for (const detector of detectors) {
+      const marker = `[REDACTED:${detector.name}]`;
+      result = result.replace(detector.pattern, (match: string, ...rest: unknown[]) => {
+        if (!detector.replace) {
+          count(detector.name);
+          return marker;
+        }
+        // Strip offset/input (and named groups) from the replacer arguments
+        const groups = rest.filter((g): g is string => typeof g === 'string' || g === undefined);
+        const replaced = detector.replace(
+          groups.slice(0, -1).map((g) => g ?? ''),
+          marker,
+        );
+        if (!replaced) return match;
+        count(detector.name);
+        return replaced;
+      });
+    }
+
+    if (settings.highEntropy) {
+      result = result.replace(ENTROPY_CANDIDATE, (match: string) => {
+        if (!looksRandom(match)) return match;
+        count('high-entropy');
+        return '[REDACTED:high-entropy]';
+      });
+    }
+
+    const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+    return { text: result, counts, total };
+  }
+
+  return { redact };
+}
+
+let defaultRedactor: Redactor = createRedactor();
+
+/**
+ * Set the redaction settings used by redactSecrets (and so by KVMemory.put,
+ * the hooks and relay). Invalid custom patterns are ignored.
+ *
+ * @param config - Redaction settings from `.cortex/config.yaml`
+ */
+export function configureRedaction(config: Partial<RedactionConfig> | undefined): void {
+  const patterns = (config?.patterns ?? []).filter((p) => {
+    try {
+      new RegExp(p);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+  defaultRedactor = createRedactor({ ...config, patterns });
+}
+
+/**
+ * Redact secrets with the configured settings.
+ *
+ * @param text - Text to clean
+ * @param options - Source hints
+ * @returns Redacted text and per-detector counts
+ */
+export function redactSecrets(text: string, options: RedactOptions = {}): RedactionResult {
+  return defaultRedactor.redact(text, options);
+}
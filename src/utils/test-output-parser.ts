@@ -0,0 +1,725 @@
+/**
+ * Test Output Parser - Structured summaries of test runner output
+ *
+ * Recognizes vitest, jest, mocha, node:test (TAP and spec reporters),
+ * pytest, go test and cargo test output. Each parser extracts totals and,
+ * for every failing test, its name, file:line, assertion message and a
+ * trimmed expected/received diff.
+ */
+
+/**
+ * Supported test runners
+ */
+export type TestRunner = 'vitest' | 'jest' | 'mocha' | 'node-test' | 'pytest' | 'go' | 'cargo';
+
+export interface TestFailure {
+  /** Full test name (suite path joined with " > ") */
+  name: string;
+  /** Source file of the failing assertion, if known */
+  file?: string;
+  /** Line number of the failing assertion, if known */
+  line?: number;
+  /** First line of the assertion/error message */
+  message: string;
+  /** Expected/received diff lines, dedented to the diff block */
+  diff: string[];
+}
+
+export interface TestSummary {
+  runner: TestRunner;
+  passed: number;
+  failed: number;
+  skipped: number;
+  failures: TestFailure[];
+}
+
+export interface FormatTestSummaryOptions {
+  /** Maximum failures to list (default: 10) */
+  maxFailures?: number;
+  /** Maximum diff lines per failure (default: 8) */
+  maxDiffLines?: number;
+  /** Maximum message length in characters (default: 200) */
+  maxMessageLength?: number;
+}
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching ANSI escape sequences
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[A-Za-z]/g;
+
+/**
+ * Remove ANSI color codes from terminal output
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+function count(text: string, pattern: RegExp): number {
+  const match = text.match(pattern);
+  return match?.[1] ? Number.parseInt(match[1], 10) : 0;
+}
+
+/** Split `path:line[:col]` into parts; returns null when no line number is present */
+function parseLocation(raw: string): { file: string; line: number } | null {
+  const match = raw.trim().match(/^(.*?):(\d+)(?::\d+)?$/);
+  if (!match?.[1] || !match[2]) return null;
+  return { file: match[1].replace(/^file:\/\//, ''), line: Number.parseInt(match[2], 10) };
+}
+
+/** First stack frame that points into project code (not node internals or node_modules) */
+function findStackLocation(lines: string[]): { file: string; line: number } | null {
+  for (const line of lines) {
+    const match = line.match(/^\s*at\s+(?:.*?\()?([^()\s]+:\d+:\d+)\)?\s*$/);
+    if (!match?.[1]) continue;
+    if (match[1].startsWith('node:') || match[1].includes('node_modules')) continue;
+    const location = parseLocation(match[1]);
+    if (location) return location;
+  }
+  return null;
+}
+
+/** Remove the indentation shared by all non-empty lines */
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter((l) => l.trim().length > 0)
+    .map((l) => l.match(/^\s*/)?.[0].length ?? 0);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((l) => l.slice(common));
+}
+
+/** Lines that make up an expected/received diff in JS assertion output */
+function collectJsDiff(lines: string[]): string[] {
+  const diff: string[] = [];
+  let inDiff = false;
+
+  for (const raw of lines) {
+    const line = raw.trimEnd();
+    const trimmed = line.trim();
+
+    if (/^(- Expected|\+ Received|\+ expected - actual)/.test(trimmed)) {
+      inDiff = true;
+      continue;
+    }
+    if (/^(Expected|Received):/.test(trimmed)) {
+      inDiff = true;
+      diff.push(line);
+      continue;
+    }
+    if (!inDiff) continue;
+
+    // Stop at code frames, stack frames and location markers
+    if (/^(at\s|❯\s|>?\s*\d+\s*\|)/.test(trimmed)) break;
+    if (trimmed.length === 0) {
+      const last = diff[diff.length - 1]?.trim() ?? '';
+      if (diff.length > 0 && !/^(Expected|Received):/.test(last)) break;
+      continue;
+    }
+    diff.push(line);
+  }
+
+  return dedent(diff);
+}
+
+function firstMessageLine(lines: string[]): string {
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.length > 0) return trimmed;
+  }
+  return '';
+}
+
+/**
+ * vitest: failures are listed after the "Failed Tests" banner as
+ * ` FAIL  file > suite > test` blocks separated by ⎯ rules.
+ */
+function parseVitest(text: string): TestSummary {
+  const lines = text.split('\n');
+  const failures: TestFailure[] = [];
+  let current: { name: string; file: string; body: string[] } | null = null;
+
+  const flush = (): void => {
+    if (!current) return;
+    const location =
+      current.body
+        .map((l) => l.match(/^\s*❯\s+(\S+:\d+:\d+)/)?.[1])
+        .filter((l): l is string => Boolean(l))
+        .map(parseLocation)
+        .find((l) => l !== null) ?? null;
+    failures.push({
+      name: current.name,
+      file: location?.file ?? current.file,
+      line: location?.line,
+      message: firstMessageLine(current.body),
+      diff: collectJsDiff(current.body),
+    });
+    current = null;
+  };
+
+  for (const line of lines) {
+    const fail = line.match(/^\s*FAIL\s+(\S+)\s+>\s+(.+?)\s*$/);
+    if (fail?.[1] && fail[2]) {
+      flush();
+      current = { file: fail[1], name: fail[2], body: [] };
+      continue;
+    }
+    if (/^⎯+/.test(line.trim()) || /^\s*Test Files\s/.test(line)) {
+      flush();
+      continue;
+    }
+    current?.body.push(line);
+  }
+  flush();
+
+  const testsLine = text.match(/^\s*Tests\s+(.+)$/m)?.[1] ?? '';
+  return {
+    runner: 'vitest',
+    passed: count(testsLine, /(\d+) passed/),
+    failed: count(testsLine, /(\d+) failed/),
+    skipped: count(testsLine, /(\d+) skipped/) + count(testsLine, /(\d+) todo/),
+    failures: dedupeFailures(failures),
+  };
+}
+
+/**
+ * jest: `FAIL file` headers followed by `● suite › test` blocks.
+ */
+function parseJest(text: string): TestSummary {
+  const lines = text.split('\n');
+  const failures: TestFailure[] = [];
+  let currentFile = '';
+  let current: { name: string; file: string; body: string[] } | null = null;
+
+  const flush = (): void => {
+    if (!current) return;
+    const frame = current.body.find((l) => /^\s*>\s*(\d+)\s*\|/.test(l));
+    const stack = findStackLocation(current.body);
+    const frameLine = frame?.match(/^\s*>\s*(\d+)/)?.[1];
+    failures.push({
+      name: current.name.replace(/\s+›\s+/g, ' > '),
+      file: stack?.file ?? current.file,
+      line: stack?.line ?? (frameLine ? Number.parseInt(frameLine, 10) : undefined),
+      message: firstMessageLine(current.body),
+      diff: collectJsDiff(current.body),
+    });
+    current = null;
+  };
+
+  for (const line of lines) {
+    const suite = line.match(/^(FAIL|PASS)\s+(\S+)/);
+    if (suite?.[2]) {
+      flush();
+      currentFile = suite[2];
+      continue;
+    }
+    const bullet = line.match(/^\s*●\s+(.+?)\s*$/);
+    if (bullet?.[1] && !/^Console$/.test(bullet[1])) {
+      flush();
+      current = { name: bullet[1], file: currentFile, body: [] };
+      continue;
+    }
+    if (/^(Tests|Test Suites|Snapshots|Time):/.test(line)) {
+      flush();
+      continue;
+    }
+    current?.body.push(line);
+  }
+  flush();
+
+  const testsLine = text.match(/^Tests:\s+(.+)$/m)?.[1] ?? '';
+  return {
+    runner: 'jest',
+    passed: count(testsLine, /(\d+) passed/),
+    failed: count(testsLine, /(\d+) failed/),
+    skipped: count(testsLine, /(\d+) skipped/) + count(testsLine, /(\d+) todo/),
+    failures: dedupeFailures(failures),
+  };
+}
+
+/**
+ * mocha (spec reporter): numbered failure blocks after the "N failing" total.
+ */
+function parseMocha(text: string): TestSummary {
+  const lines = text.split('\n');
+  const failures: TestFailure[] = [];
+  const failingIdx = lines.findIndex((l) => /^\s*\d+ failing\s*$/.test(l));
+
+  if (failingIdx !== -1) {
+    let current: { nameParts: string[]; body: string[]; inName: boolean } | null = null;
+
+    const flush = (): void => {
+      if (!current) return;
+      const location = findStackLocation(current.body);
+      failures.push({
+        name: current.nameParts.join(' > ').replace(/:$/, ''),
+        file: location?.file,
+        line: location?.line,
+        message: firstMessageLine(current.body),
+        diff: collectJsDiff(current.body),
+      });
+      current = null;
+    };
+
+    for (const line of lines.slice(failingIdx + 1)) {
+      const start = line.match(/^\s*\d+\)\s+(.+?)\s*$/);
+      if (start?.[1]) {
+        flush();
+        current = { nameParts: [start[1]], body: [], inName: !start[1].endsWith(':') };
+        if (!current.inName) current.nameParts[0] = start[1].replace(/:$/, '');
+        continue;
+      }
+      if (!current) continue;
+      if (current.inName) {
+        const trimmed = line.trim();
+        if (trimmed.length === 0) continue;
+        current.nameParts.push(trimmed.replace(/:$/, ''));
+        if (trimmed.endsWith(':')) current.inName = false;
+        continue;
+      }
+      current.body.push(line);
+    }
+    flush();
+  }
+
+  return {
+    runner: 'mocha',
+    passed: count(text, /^\s*(\d+) passing/m),
+    failed: count(text, /^\s*(\d+) failing/m),
+    skipped: count(text, /^\s*(\d+) pending/m),
+    failures: dedupeFailures(failures),
+  };
+}
+
+/**
+ * node:test: TAP (`not ok N - name` + YAML diagnostics) or the spec
+ * reporter's "failing tests" section.
+ */
+function parseNodeTest(text: string): TestSummary {
+  const lines = text.split('\n');
+  const failures: TestFailure[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const notOk = lines[i]?.match(/^(\s*)not ok \d+ - (.+?)(?:\s+#.*)?$/);
+    if (!notOk?.[2]) continue;
+
+    // Collect the YAML diagnostic block that follows
+    const yaml: string[] = [];
+    if (lines[i + 1]?.trim() === '---') {
+      for (let j = i + 2; j < lines.length; j++) {
+        const line = lines[j] ?? '';
+        if (line.trim() === '...') break;
+        yaml.push(line);
+      }
+    }
+
+    const field = (key: string): string | undefined => {
+      const line = yaml.find((l) => l.trim().startsWith(`${key}:`));
+      return line
+        ?.trim()
+        .slice(key.length + 1)
+        .trim()
+        .replace(/^'(.*)'$/, '$1');
+    };
+
+    let message = field('error') ?? '';
+    if (message === '|-' || message === '|' || message === '>-') {
+      const idx = yaml.findIndex((l) => l.trim().startsWith('error:'));
+      message = firstMessageLine(yaml.slice(idx + 1));
+    }
+    // Parent suites fail with "N subtests failed"; report the leaves only
+    if (/^\d+ subtests? failed$/.test(message)) continue;
+
+    const location = parseLocation(field('location') ?? '');
+    const diff: string[] = [];
+    const expected = field('expected');
+    const actual = field('actual');
+    if (expected !== undefined) diff.push(`expected: ${expected}`);
+    if (actual !== undefined) diff.push(`actual: ${actual}`);
+
+    failures.push({
+      name: notOk[2],
+      file: location?.file,
+      line: location?.line,
+      message,
+      diff,
+    });
+  }
+
+  // Spec reporter: "✖ failing tests:" followed by "test at file:line:col" + "✖ name"
+  const specIdx = lines.findIndex((l) => /^✖ failing tests:/.test(l.trim()));
+  if (failures.length === 0 && specIdx !== -1) {
+    let location: { file: string; line: number } | null = null;
+    for (let i = specIdx + 1; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      const at = line.match(/^\s*test at (.+)$/);
+      if (at?.[1]) {
+        location = parseLocation(at[1]);
+        continue;
+      }
+      const failed = line.match(/^(\s*)✖ (.+?)(?: \([\d.]+m?s\))?$/);
+      if (failed?.[2]) {
+        const body: string[] = [];
+        for (let j = i + 1; j < lines.length; j++) {
+          const next = lines[j] ?? '';
+          if (/^\s*(test at |✖ )/.test(next)) break;
+          body.push(next);
+        }
+        const message = firstMessageLine(body);
+        if (!/^\d+ subtests? failed$/.test(message)) {
+          failures.push({
+            name: failed[2],
+            file: location?.file,
+            line: location?.line,
+            message,
+            diff: collectJsDiff(body),
+          });
+        }
+        location = null;
+      }
+    }
+  }
+
+  return {
+    runner: 'node-test',
+    passed: count(text, /^[#ℹ] pass (\d+)/m),
+    failed: count(text, /^[#ℹ] fail (\d+)/m),
+    skipped: count(text, /^[#ℹ] skipped (\d+)/m) + count(text, /^[#ℹ] todo (\d+)/m),
+    failures: dedupeFailures(failures),
+  };
+}
+
+/**
+ * pytest: `___ test_name ___` sections under FAILURES with `E` lines and a
+ * trailing `path:line: ErrorType` location.
+ */
+function parsePytest(text: string): TestSummary {
+  const lines = text.split('\n');
+  const failures: TestFailure[] = [];
+  let inFailures = false;
+  let current: { name: string; body: string[] } | null = null;
+
+  const flush = (): void => {
+    if (!current) return;
+    const errorLines = current.body
+      .filter((l) => /^E\s/.test(l))
+      .map((l) => l.replace(/^E\s+/, '').trimEnd());
+    const locationLine = [...current.body].reverse().find((l) => /^\S+:\d+: \w+/.test(l.trim()));
+    const location = locationLine?.trim().match(/^(\S+):(\d+): (\w+)/);
+    failures.push({
+      name: current.name,
+      file: location?.[1],
+      line: location?.[2] ? Number.parseInt(location[2], 10) : undefined,
+      message: errorLines[0] ?? location?.[3] ?? '',
+      diff: errorLines.slice(1),
+    });
+    current = null;
+  };
+
+  for (const line of lines) {
+    const banner = line.match(/^=+ (.+?) =+$/);
+    if (banner?.[1]) {
+      flush();
+      inFailures = banner[1] === 'FAILURES' || banner[1] === 'ERRORS';
+      continue;
+    }
+    if (!inFailures) continue;
+
+    const section = line.match(/^_{3,} (.+?) _{3,}$/);
+    if (section?.[1]) {
+      flush();
+      current = { name: section[1], body: [] };
+      continue;
+    }
+    current?.body.push(line);
+  }
+  flush();
+
+  // Short summary lines carry the file for each failure: FAILED path::name - msg
+  for (const match of text.matchAll(/^(?:FAILED|ERROR) (\S+?)::(\S+)(?: - (.*))?$/gm)) {
+    const [, file, name, message] = match;
+    const testName = name?.split('::').pop() ?? '';
+    const existing = failures.find((f) => f.name === testName || f.name.endsWith(`.${testName}`));
+    if (existing) {
+      existing.file = existing.file ?? file;
+      if (!existing.message && message) existing.message = message;
+    } else if (file && name) {
+      failures.push({ name, file, message: message ?? '', diff: [] });
+    }
+  }
+
+  const totalsLine = [...text.matchAll(/^=+ (.*\bin [\d.]+s.*?) =+$/gm)].pop()?.[1] ?? '';
+  return {
+    runner: 'pytest',
+    passed: count(totalsLine, /(\d+) passed/),
+    failed: count(totalsLine, /(\d+) failed/) + count(totalsLine, /(\d+) errors?/),
+    skipped: count(totalsLine, /(\d+) skipped/) + count(totalsLine, /(\d+) xfailed/),
+    failures: dedupeFailures(failures),
+  };
+}
+
+/**
+ * go test: `--- FAIL: TestName` markers with `file_test.go:N: message`
+ * output lines either before (-v) or after (default) the marker.
+ */
+function parseGoTest(text: string): TestSummary {
+  const lines = text.split('\n');
+  const output = new Map<string, string[]>();
+  const failedNames: string[] = [];
+  let running: string | null = null;
+  let afterFail: string | null = null;
+  let passed = 0;
+  let skipped = 0;
+
+  for (const line of lines) {
+    const run = line.match(/^=== (?:RUN|CONT|PAUSE)\s+(\S+)/);
+    if (run?.[1]) {
+      running = run[1];
+      afterFail = null;
+      continue;
+    }
+    const result = line.match(/^\s*--- (FAIL|PASS|SKIP): (\S+)/);
+    if (result?.[1] && result[2]) {
+      if (result[1] === 'PASS') passed++;
+      if (result[1] === 'SKIP') skipped++;
+      if (result[1] === 'FAIL') {
+        failedNames.push(result[2]);
+        afterFail = result[2];
+      } else {
+        afterFail = null;
+      }
+      running = null;
+      continue;
+    }
+    const owner = running ?? afterFail;
+    if (owner && /^\s+\S/.test(line)) {
+      const list = output.get(owner) ?? [];
+      list.push(line);
+      output.set(owner, list);
+    } else if (!/^\s/.test(line)) {
+      afterFail = null;
+    }
+  }
+
+  // Drop parents whose failure is explained by a failing subtest
+  const leaves = failedNames.filter(
+    (name) => !failedNames.some((other) => other !== name && other.startsWith(`${name}/`)),
+  );
+
+  const failures: TestFailure[] = leaves.map((name) => {
+    const body = output.get(name) ?? [];
+    const first = body.map((l) => l.match(/^\s+(\S+\.go):(\d+): (.*)$/)).find(Boolean);
+    const startIdx = first ? body.findIndex((l) => l.includes(`${first[1]}:${first[2]}:`)) : -1;
+    return {
+      name,
+      file: first?.[1],
+      line: first?.[2] ? Number.parseInt(first[2], 10) : undefined,
+      message: first?.[3]?.trim() || firstMessageLine(body),
+      diff: body
+        .slice(startIdx + 1)
+        .map((l) => l.trim())
+        .filter((l) => l.length > 0),
+    };
+  });
+
+  return {
+    runner: 'go',
+    passed,
+    failed: leaves.length,
+    skipped,
+    failures,
+  };
+}
+
+/**
+ * cargo test: `---- name stdout ----` panic blocks plus `test result:` totals
+ * (summed across test binaries).
+ */
+function parseCargoTest(text: string): TestSummary {
+  const lines = text.split('\n');
+  const failures: TestFailure[] = [];
+  let current: { name: string; body: string[] } | null = null;
+
+  const flush = (): void => {
+    if (!current) return;
+    const body = current.body;
+    let file: string | undefined;
+    let line: number | undefined;
+    let message = '';
+    const diff: string[] = [];
+
+    const panicIdx = body.findIndex((l) => /panicked at/.test(l));
+    if (panicIdx !== -1) {
+      const panicLine = body[panicIdx] ?? '';
+      // Rust >= 1.73: "panicked at src/lib.rs:12:9:" with the message on the next line
+      const modern = panicLine.match(/panicked at ([^\s']+):(\d+):\d+:\s*$/);
+      // Older: "panicked at 'message', src/lib.rs:12:9"
+      const legacy = panicLine.match(/panicked at '(.*)', ([^\s]+):(\d+):\d+/);
+      if (modern?.[1] && modern[2]) {
+        file = modern[1];
+        line = Number.parseInt(modern[2], 10);
+        message = firstMessageLine(body.slice(panicIdx + 1));
+      } else if (legacy?.[2] && legacy[3]) {
+        message = legacy[1] ?? '';
+        file = legacy[2];
+        line = Number.parseInt(legacy[3], 10);
+      }
+      for (const l of body.slice(panicIdx + 1)) {
+        if (/^\s*(left|right)\s*:/.test(l)) diff.push(l.trim());
+      }
+    }
+
+    failures.push({
+      name: current.name,
+      file,
+      line,
+      message: message || firstMessageLine(body),
+      diff,
+    });
+    current = null;
+  };
+
+  for (const line of lines) {
+    const block = line.match(/^---- (\S+) stdout ----$/);
+    if (block?.[1]) {
+      flush();
+      current = { name: block[1], body: [] };
+      continue;
+    }
+    if (/^(failures:|test result:)/.test(line.trim())) {
+      flush();
+      continue;
+    }
+    current?.body.push(line);
+  }
+  flush();
+
+  let passed = 0;
+  let failed = 0;
+  let skipped = 0;
+  for (const match of text.matchAll(/^test result: \w+\. (.+)$/gm)) {
+    const totals = match[1] ?? '';
+    passed += count(totals, /(\d+) passed/);
+    failed += count(totals, /(\d+) failed/);
+    skipped += count(totals, /(\d+) ignored/);
+  }
+
+  return { runner: 'cargo', passed, failed, skipped, failures: dedupeFailures(failures) };
+}
+
+function dedupeFailures(failures: TestFailure[]): TestFailure[] {
+  const seen = new Set<string>();
+  return failures.filter((f) => {
+    const key = `${f.file ?? ''}::${f.name}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+const PARSERS: Record<TestRunner, (text: string) => TestSummary> = {
+  vitest: parseVitest,
+  jest: parseJest,
+  mocha: parseMocha,
+  'node-test': parseNodeTest,
+  pytest: parsePytest,
+  go: parseGoTest,
+  cargo: parseCargoTest,
+};
+
+/**
+ * Detect which test runner produced the output.
+ *
+ * The command line is checked first (e.g. `npx vitest run`, `go test ./...`);
+ * output signatures are used when the command is a wrapper such as `npm test`.
+ *
+ * @param text - Raw command output (ANSI codes allowed)
+ * @param command - Command that produced the output, if known
+ * @returns Detected runner or null
+ */
+export function detectTestRunner(text: string, command = ''): TestRunner | null {
+  const clean = stripAnsi(text);
+
+  if (/\bvitest\b/.test(command)) return 'vitest';
+  if (/\bjest\b/.test(command)) return 'jest';
+  if (/\bmocha\b/.test(command)) return 'mocha';
+  if (/\bnode\b.*--test\b/.test(command)) return 'node-test';
+  if (/\bpytest\b|\bpy\.test\b/.test(command)) return 'pytest';
+  if (/\bgo\s+test\b/.test(command)) return 'go';
+  if (/\bcargo\s+(test|nextest)\b/.test(command)) return 'cargo';
+
+  if (/^test result: (ok|FAILED)\./m.test(clean)) return 'cargo';
+  if (/^\s*--- (FAIL|PASS|SKIP): \S+ \(/m.test(clean) || /^(ok|FAIL)\s+\S+\s+[\d.]+s$/m.test(clean))
+    return 'go';
+  if (/^=+ (test session starts|FAILURES) =+$/m.test(clean)) return 'pytest';
+  if (/^TAP version \d+/m.test(clean) || /^[#ℹ] (tests|pass|fail) \d+$/m.test(clean))
+    return 'node-test';
+  if (/^\s*Test Files\s+\d+/m.test(clean)) return 'vitest';
+  if (/^Test Suites:\s/m.test(clean) || /^Tests:\s+\d+/m.test(clean)) return 'jest';
+  if (/^\s*\d+ passing \(/m.test(clean)) return 'mocha';
+
+  return null;
+}
+
+/**
+ * Parse test runner output into a structured summary.
+ *
+ * @param text - Raw command output
+ * @param command - Command that produced the output, if known
+ * @returns Summary, or null if the output isn't recognized as test output
+ */
+export function parseTestOutput(text: string, command = ''): TestSummary | null {
+  const runner = detectTestRunner(text, command);
+  if (!runner) return null;
+
+  const summary = PARSERS[runner](stripAnsi(text).replace(/\r\n/g, '\n'));
+  if (summary.passed + summary.failed + summary.skipped === 0 && summary.failures.length === 0) {
+    return null;
+  }
+  // Totals may be missing if the run was cut off; never report fewer failures than found
+  summary.failed = Math.max(summary.failed, summary.failures.length);
+  return summary;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Format a test summary for hook additionalContext or relay output.
+ *
+ * @param summary - Parsed summary
+ * @param options - Formatting limits
+ * @returns Multi-line summary text
+ */
+export function formatTestSummary(
+  summary: TestSummary,
+  options: FormatTestSummaryOptions = {},
+): string {
+  const maxFailures = options.maxFailures ?? 10;
+  const maxDiffLines = options.maxDiffLines ?? 8;
+  const maxMessage = options.maxMessageLength ?? 200;
+
+  const totals = [`${summary.failed} failed`, `${summary.passed} passed`];
+  if (summary.skipped > 0) totals.push(`${summary.skipped} skipped`);
+
+  const lines = [`${summary.runner}: ${totals.join(', ')}`];
+
+  for (const failure of summary.failures.slice(0, maxFailures)) {
+    const location = failure.file
+      ? ` (${failure.file}${failure.line !== undefined ? `:${failure.line}` : ''})`
+      : '';
+    lines.push(`✗ ${failure.name}${location}`);
+    if (failure.message) {
+      lines.push(`    ${truncate(failure.message, maxMessage)}`);
+    }
+    for (const diffLine of failure.diff.slice(0, maxDiffLines)) {
+      lines.push(`    ${truncate(diffLine, maxMessage)}`);
+    }
+    if (failure.diff.length > maxDiffLines) {
+      lines.push(`    … ${failure.diff.length - maxDiffLines} more diff lines`);
+    }
+  }
+
+  if (summary.failures.length > maxFailures) {
+    lines.push(`… ${summary.failures.length - maxFailures} more failures`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,202 @@
+/**
+ * Transcript Writer - Rebuild a Claude Code JSONL transcript from kept entries
+ *
+ * The inverse of parseJSONLContext: entries remember the transcript line
+ * they came from (`metadata.jsonlLine`), so the optimized output can be
+ * written back as a valid transcript instead of a flat string. Kept
+ * records are emitted with their original envelopes, each run of elided
+ * records becomes one synthetic summary message, and parentUuid links
+ * are rewired to the nearest surviving record.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { MemoryEntry } from '../types/memory.js';
+import { estimateTokens } from './tokenizer.js';
+
+/** Envelope fields copied from the first elided record into its summary */
+const ENVELOPE_FIELDS = ['sessionId', 'cwd', 'version', 'gitBranch', 'userType', 'isSidechain'];
+
+type TranscriptRecord = Record<string, unknown>;
+
+/**
+ * Transcript line an entry was parsed from, if any.
+ */
+export function entryJSONLLine(entry: MemoryEntry): number | undefined {
+  const line = entry.metadata?.['jsonlLine'];
+  return typeof line === 'number' ? line : undefined;
+}
+
+/**
+ * Whether every entry came from a JSONL transcript, so the transcript can
+ * be rebuilt from them.
+ */
+export function canRebuildJSONL(entries: MemoryEntry[]): boolean {
+  return entries.length > 0 && entries.every((e) => entryJSONLLine(e) !== undefined);
+}
+
+/**
+ * Rebuild a JSONL transcript containing only the kept entries.
+ *
+ * @param context - Original JSONL transcript
+ * @param entries - All entries parsed from it (decides what counts as elided)
+ * @param kept - Entries kept by the pruner (stubbed results included)
+ * @returns JSONL transcript, one record per line
+ */
+export function rebuildJSONLTranscript(
+  context: string,
+  entries: MemoryEntry[],
+  kept: MemoryEntry[],
+): string {
+  const lines = context.split('\n');
+  const parsedLines = new Set(entries.map(entryJSONLLine));
+  const keptByLine = new Map<number, MemoryEntry>();
+  for (const entry of kept) {
+    const line = entryJSONLLine(entry);
+    if (line !== undefined) keptByLine.set(line, entry);
+  }
+
+  // uuid of a dropped record -> uuid of the record that stands in for it
+  const replacement = new Map<string, string | null>();
+  const resolveParent = (parent: unknown): string | null => {
+    let current = typeof parent === 'string' ? parent : null;
+    while (current !== null && replacement.has(current)) {
+      current = replacement.get(current) ?? null;
+    }
+    return current;
+  };
+
+  const output: string[] = [];
+  let elided: TranscriptRecord[] = [];
+
+  const flushElided = () => {
+    const summary = summarizeElided(elided, resolveParent);
+    if (summary) {
+      output.push(JSON.stringify(summary));
+      const summaryUuid = summary['uuid'] as string;
+      for (const record of elided) {
+        if (typeof record['uuid'] === 'string') replacement.set(record['uuid'], summaryUuid);
+      }
+    }
+    elided = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const record = parseRecord(lines[i] ?? '');
+    if (!record) continue;
+
+    const entry = keptByLine.get(i);
+    if (!entry) {
+      if (parsedLines.has(i)) {
+        // Runs do not cross from the main chain into a sidechain
+        if (
+          elided.length > 0 &&
+          Boolean(elided[0]?.['isSidechain']) !== Boolean(record['isSidechain'])
+        ) {
+          flushElided();
+        }
+        elided.push(record);
+      } else if (typeof record['uuid'] === 'string') {
+        // Records without content (e.g. thinking only) are skipped silently
+        replacement.set(record['uuid'], resolveParent(record['parentUuid']));
+      }
+      continue;
+    }
+
+    if (elided.length > 0) flushElided();
+    if ('parentUuid' in record) record['parentUuid'] = resolveParent(record['parentUuid']);
+    if (entry.metadata['stubbed'] || typeof entry.metadata['degraded'] === 'string') {
+      stubRecord(record, entry.content);
+    }
+    output.push(JSON.stringify(record));
+  }
+  if (elided.length > 0) flushElided();
+
+  return output.join('\n');
+}
+
+/**
+ * Parse one transcript line into a record object.
+ */
+function parseRecord(line: string): TranscriptRecord | null {
+  if (line.trim().length === 0) return null;
+  try {
+    const parsed = JSON.parse(line) as unknown;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as TranscriptRecord)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace the content of a kept record with the pruner's stub or degraded
+ * form: tool output in `tool_result` blocks and `toolUseResult`, or the
+ * message text of other records.
+ */
+function stubRecord(record: TranscriptRecord, stub: string): void {
+  const message = record['message'] as { content?: unknown } | undefined;
+  const blocks = Array.isArray(message?.content)
+    ? (message.content as Array<{ type?: string } | null>)
+    : null;
+  if (message && blocks?.some((block) => block?.type === 'tool_result')) {
+    message.content = blocks.map((block) =>
+      block?.type === 'tool_result' ? { ...block, content: stub } : block,
+    );
+  } else if (message && blocks) {
+    // Text blocks collapse into one; thinking and other blocks are kept
+    const firstText = blocks.findIndex((block) => block?.type === 'text');
+    message.content = blocks.flatMap((block, index) => {
+      if (block?.type !== 'text') return [block];
+      return index === firstText ? [{ ...block, text: stub }] : [];
+    });
+  } else if (message && typeof message.content === 'string') {
+    message.content = stub;
+  } else if (typeof record['content'] === 'string') {
+    record['content'] = stub;
+  }
+  if ('toolUseResult' in record) record['toolUseResult'] = stub;
+}
+
+/**
+ * Build the synthetic message standing in for a run of elided records.
+ * Summary records and other chainless records leave no trace.
+ */
+function summarizeElided(
+  elided: TranscriptRecord[],
+  resolveParent: (parent: unknown) => string | null,
+): TranscriptRecord | null {
+  const chained = elided.filter((r) => typeof r['uuid'] === 'string');
+  const first = chained[0];
+  if (!first) return null;
+
+  let tokens = 0;
+  const tools = new Map<string, number>();
+  for (const record of chained) {
+    const message = record['message'] as { content?: unknown } | undefined;
+    tokens += estimateTokens(JSON.stringify(message?.content ?? record['content'] ?? ''));
+    if (!message || !Array.isArray(message.content)) continue;
+    for (const block of message.content as Array<{ type?: string; name?: string }>) {
+      if (block?.type === 'tool_use' && block.name) {
+        tools.set(block.name, (tools.get(block.name) ?? 0) + 1);
+      }
+    }
+  }
+
+  const toolList = [...tools].map(([name, count]) => `${name} x${count}`).join(', ');
+  const text = `[cortex] ${chained.length} message${chained.length === 1 ? '' : 's'} elided (~${tokens} tokens)${toolList ? `. Tools used: ${toolList}` : ''}.`;
+
+  const summary: TranscriptRecord = {};
+  for (const field of ENVELOPE_FIELDS) {
+    if (field in first) summary[field] = first[field];
+  }
+  return {
+    parentUuid: resolveParent(first['parentUuid']),
+    ...summary,
+    type: 'user',
+    isMeta: true,
+    uuid: randomUUID(),
+    timestamp: first['timestamp'],
+    message: { role: 'user', content: text },
+  };
+}
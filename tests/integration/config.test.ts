@@ -162,4 +162,78 @@ autoConsolidate: null
     expect(parsed.agent).toBe('claude-code');
     expect(parsed.pruning.threshold).toBe(5);
   });
+
+  it('should set per-tool hook rules', async () => {
+    const threshold = await configCommand({
+      configPath,
+      subcommand: 'set',
+      key: 'hooks.postToolUse.tools.Bash.threshold',
+      value: '1500',
+    });
+    expect(threshold.success).toBe(true);
+
+    const summarizers = await configCommand({
+      configPath,
+      subcommand: 'set',
+      key: 'hooks.postToolUse.tools.Bash.summarizers',
+      value: 'test-output, diagnostics',
+    });
+    expect(summarizers.success).toBe(true);
+
+    const result = await configCommand({
+      configPath,
+      subcommand: 'get',
+      key: 'hooks.postToolUse.tools.Bash.summarizers',
+    });
+    expect(result.value).toEqual(['test-output', 'diagnostics']);
+  });
+
+  it('should set per-model context windows', async () => {
+    const set = await configCommand({
+      configPath,
+      subcommand: 'set',
+      key: 'hooks.transcript.contextWindows.claude-sonnet-4',
+      value: '1000000',
+    });
+    expect(set.success).toBe(true);
+
+    const result = await configCommand({
+      configPath,
+      subcommand: 'get',
+      key: 'hooks.transcript.contextWindows.claude-sonnet-4',
+    });
+    expect(result.value).toBe(1_000_000);
+  });
+
+  it('should reject unknown summarizers and inconsistent hook limits', async () => {
+    const unknown = await configCommand({
+      configPath,
+      subcommand: 'set',
+      key: 'hooks.postToolUse.tools.Read.summarizers',
+      value: 'outline,magic',
+    });
+    expect(unknown.success).toBe(false);
+    expect(unknown.error).toContain('summarizers');
+
+    const crossField = await configCommand({
+      configPath,
+      subcommand: 'set',
+      key: 'hooks.transcript.criticalPercent',
+      value: '10',
+    });
+    expect(crossField.success).toBe(false);
+    expect(crossField.error).toContain('criticalPercent must be >= warnPercent');
+    expect(readFileSync(configPath, 'utf-8')).not.toContain('criticalPercent');
+  });
+
+  it('should warn about an invalid hooks section', async () => {
+    writeFileSync(configPath, 'hooks:\n  transcript:\n    warnPercent: 150\n', 'utf-8');
+
+    const result = await configCommand({ configPath });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      'hooks.transcript.warnPercent must be a number between 1 and 100',
+    ]);
+  });
 });
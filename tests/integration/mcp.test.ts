@@ -30,7 +30,7 @@ describe('MCP server integration', () => {
   });
 
   describe('tool listing', () => {
-    it('lists all four tools', async () => {
+    it('lists all five tools', async () => {
       const result = await client.listTools();
       const toolNames = result.tools.map((t) => t.name);
 
@@ -38,7 +38,8 @@ describe('MCP server integration', () => {
       expect(toolNames).toContain('cortex_stats');
       expect(toolNames).toContain('cortex_consolidate');
       expect(toolNames).toContain('cortex_search');
-      expect(result.tools.length).toBe(4);
+      expect(toolNames).toContain('cortex_recall');
+      expect(result.tools.length).toBe(5);
     });
 
     it('each tool has a description', async () => {
@@ -155,6 +156,50 @@ describe('MCP server integration', () => {
       expect(parsed).toHaveProperty('optimizedContext');
       expect(typeof parsed.optimizedContext).toBe('string');
     });
+
+    it('prunes a messages array with format messages-json', async () => {
+      const messages = [
+        { role: 'system', content: 'You are a coding agent.' },
+        ...Array.from({ length: 10 }, (_, i) => ({
+          role: i % 2 === 0 ? 'user' : 'assistant',
+          content: `Turn ${i}: ${'padding words '.repeat(20)}`,
+        })),
+        { role: 'user', content: 'What changed?' },
+      ];
+
+      const result = await client.callTool({
+        name: 'cortex_optimize',
+        arguments: {
+          context: JSON.stringify(messages),
+          format: 'messages-json',
+          tokenBudget: 120,
+          dryRun: true,
+        },
+      });
+
+      const parsed = JSON.parse((result.content[0] as { type: string; text: string }).text);
+      const pruned = JSON.parse(parsed.optimizedContext);
+      expect(pruned.length).toBeLessThan(messages.length);
+      expect(pruned[0]).toEqual(messages[0]);
+      expect(pruned[pruned.length - 1]).toEqual({ role: 'user', content: 'What changed?' });
+    });
+
+    it('explains each entry with explain', async () => {
+      const result = await client.callTool({
+        name: 'cortex_optimize',
+        arguments: {
+          context: 'Build started\n\nTypeError: x is undefined\n\nBuild finished',
+          dryRun: true,
+          explain: true,
+        },
+      });
+
+      const parsed = JSON.parse((result.content[0] as { type: string; text: string }).text);
+      expect(parsed.explanation.cutoff.mode).toBe('top-percent');
+      expect(parsed.explanation.entries).toHaveLength(3);
+      expect(parsed.explanation.entries[1]).toMatchObject({ isBTSP: true });
+      expect(parsed.explanation.entries[1].btspPattern).toBeDefined();
+    });
   });
 
   describe('cortex_stats', () => {
@@ -265,6 +310,36 @@ describe('MCP server integration', () => {
     });
   });
 
+  describe('cortex_recall', () => {
+    it('returns the full text behind a degraded entry', async () => {
+      const buildLog = Array.from({ length: 200 }, (_, i) => `step ${i}: compiled module-${i}.ts`);
+      const messages = [
+        { role: 'user', content: 'Build the project' },
+        { role: 'assistant', content: buildLog.join('\n') },
+        { role: 'user', content: 'Did it pass?' },
+      ];
+
+      const optimized = await client.callTool({
+        name: 'cortex_optimize',
+        arguments: { context: JSON.stringify(messages), format: 'messages-json', tokenBudget: 300 },
+      });
+      const parsed = JSON.parse((optimized.content[0] as { type: string; text: string }).text);
+      const recallId = /recall id ([\w-]+)/.exec(parsed.optimizedContext)?.[1];
+      expect(recallId).toBeDefined();
+
+      const result = await client.callTool({ name: 'cortex_recall', arguments: { id: recallId } });
+
+      const entry = JSON.parse((result.content[0] as { type: string; text: string }).text);
+      expect(entry.content).toBe(buildLog.join('\n'));
+    });
+
+    it('reports unknown ids as errors', async () => {
+      const result = await client.callTool({ name: 'cortex_recall', arguments: { id: 'missing' } });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
   describe('error handling', () => {
     it('handles missing required context parameter gracefully', async () => {
       // Calling cortex_optimize without context should return an error
@@ -114,4 +114,42 @@ describe('optimize command integration', () => {
 
     expect(duration).toBeLessThan(500); // Performance requirement
   });
+
+  it('collapses repetitive logs into templates with --log-templates', async () => {
+    const lines = Array.from(
+      { length: 200 },
+      (_, i) =>
+        `2024-05-01T10:00:${String(i % 60).padStart(2, '0')}Z worker-${i % 4} processed job ${i}`,
+    );
+    lines.push('2024-05-01T10:05:00Z worker-2 crashed: out of memory');
+
+    const result = await optimizeCommand({
+      input: lines.join('\n'),
+      memory,
+      dryRun: true,
+      logTemplates: true,
+    });
+
+    expect(result.output).toContain('x200');
+    expect(result.output).toContain('L201: 2024-05-01T10:05:00Z worker-2 crashed: out of memory');
+    expect(result.entriesProcessed).toBe(201);
+    expect(result.entriesKept).toBe(2);
+    expect(result.reduction).toBeGreaterThan(0.8);
+  });
+
+  it('rejects --jsonl for plain text input and with --format messages-json', async () => {
+    await expect(
+      optimizeCommand({ input: 'Plain text context', memory, dryRun: true, jsonl: true }),
+    ).rejects.toThrow('not a Claude Code JSONL transcript');
+
+    await expect(
+      optimizeCommand({
+        input: '[{"role":"user","content":"hi"}]',
+        memory,
+        dryRun: true,
+        jsonl: true,
+        format: 'messages-json',
+      }),
+    ).rejects.toThrow('--jsonl cannot be combined with --format messages-json');
+  });
 });
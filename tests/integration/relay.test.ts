@@ -1,4 +1,4 @@
-import { mkdir, rm } from 'node:fs/promises';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { relayCommand } from '../../src/cli/commands/relay.js';
 import type { KVMemory } from '../../src/core/kv-memory.js';
@@ -113,4 +113,40 @@ describe('relay command integration', () => {
     expect(listResult.exitCode).toBe(0);
     expect(listResult.originalOutput.length).toBeGreaterThan(0);
   });
+
+  it('applies a matching project summarizer', async () => {
+    await mkdir(`${testDir}/.cortex/summarizers`, { recursive: true });
+    await writeFile(
+      `${testDir}/.cortex/summarizers/node.yaml`,
+      'name: node-lines\nmatch: ^node\nkeep: [keep]\n',
+    );
+
+    const result = await relayCommand({
+      command: 'node',
+      args: ['-e', 'console.log("drop me\\nkeep me\\ndrop me too")'],
+      memory,
+      cwd: testDir,
+    });
+
+    expect(result.summarizer).toBe('node-lines');
+    expect(result.optimizedOutput).toContain('keep me');
+    expect(result.optimizedOutput).not.toContain('drop me');
+    expect(result.summary).toContain('via node-lines');
+  });
+
+  it('collapses repetitive log output into templates', async () => {
+    const result = await relayCommand({
+      command: 'node',
+      args: [
+        '-e',
+        'for (let i = 0; i < 100; i++) console.log("2024-05-01T10:00:00Z GET /items/" + i + " 200")',
+      ],
+      memory,
+      cwd: testDir,
+    });
+
+    expect(result.summarizer).toBe('log-templates');
+    expect(result.optimizedOutput).toContain('x100');
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+  });
 });
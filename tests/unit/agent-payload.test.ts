@@ -0,0 +1,171 @@
+/**
+ * Agent Payload Tests - Hook input/output translation between agent CLIs
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  agentEventName,
+  agentToolNames,
+  formatHookOutput,
+  normalizeHookInput,
+  resolveHookAgent,
+} from '../../src/hooks/agent-payload.js';
+
+describe('resolveHookAgent', () => {
+  it('should read --agent from argv', () => {
+    expect(resolveHookAgent(['node', 'hook.js', '--agent', 'gemini-cli'])).toBe('gemini-cli');
+    expect(resolveHookAgent(['node', 'hook.js', '--agent=cursor'])).toBe('cursor');
+  });
+
+  it('should default to claude-code', () => {
+    expect(resolveHookAgent(['node', 'hook.js'])).toBe('claude-code');
+    expect(resolveHookAgent(['node', 'hook.js', '--agent', 'vim'])).toBe('claude-code');
+  });
+});
+
+describe('agent names', () => {
+  it('should map Claude Code tools and events to the agent', () => {
+    expect(agentToolNames('gemini-cli', 'Bash')).toEqual(['run_shell_command']);
+    expect(agentToolNames('codex', 'Bash')).toEqual(['shell', 'local_shell', 'exec_command']);
+    expect(agentToolNames('codex', 'mcp__db__query')).toEqual(['mcp__db__query']);
+    expect(agentEventName('gemini-cli', 'PostToolUse')).toBe('AfterTool');
+    expect(agentEventName('cursor', 'PreToolUse', 'Read')).toBe('beforeReadFile');
+    expect(agentEventName('codex', 'Stop')).toBe('Stop');
+  });
+});
+
+describe('normalizeHookInput', () => {
+  it('should pass Claude Code input through', () => {
+    const raw = { session_id: 's1', transcript_path: '/t.jsonl', tool_name: 'Bash' };
+    expect(normalizeHookInput(raw, 'claude-code')).toEqual(raw);
+  });
+
+  it('should normalize Gemini CLI tool calls', () => {
+    const input = normalizeHookInput(
+      {
+        session_id: 'g1',
+        transcript_path: '/g.json',
+        cwd: '/repo',
+        hook_event_name: 'AfterTool',
+        tool_name: 'read_file',
+        tool_input: { absolute_path: '/repo/src/a.ts', offset: 10, limit: 20 },
+        tool_response: { llmContent: 'export const a = 1;', returnDisplay: '' },
+      },
+      'gemini-cli',
+    );
+
+    expect(input.hook_event_name).toBe('PostToolUse');
+    expect(input.tool_name).toBe('Read');
+    // 0-based offset becomes Claude Code's 1-based line number
+    expect(input.tool_input).toEqual({ file_path: '/repo/src/a.ts', offset: 11, limit: 20 });
+    expect(input.tool_response).toEqual({
+      type: 'text',
+      file: { filePath: '/repo/src/a.ts', content: 'export const a = 1;', startLine: 11 },
+    });
+    // Only Claude Code transcripts can be parsed
+    expect(input.transcript_path).toBeUndefined();
+  });
+
+  it('should turn Gemini shell output into stdout', () => {
+    const input = normalizeHookInput(
+      {
+        hook_event_name: 'AfterTool',
+        tool_name: 'run_shell_command',
+        tool_input: { command: 'npm test' },
+        tool_response: { llmContent: [{ text: 'line 1' }, { text: 'line 2' }] },
+      },
+      'gemini-cli',
+    );
+
+    expect(input.tool_name).toBe('Bash');
+    expect(input.tool_response).toEqual({ stdout: 'line 1\nline 2', stderr: '' });
+  });
+
+  it('should join Codex shell argv into a command', () => {
+    const input = normalizeHookInput(
+      {
+        hook_event_name: 'PostToolUse',
+        tool_name: 'shell',
+        tool_input: { command: ['bash', '-lc', 'npm test'], workdir: '/repo' },
+        tool_response: { output: 'ok' },
+      },
+      'codex',
+    );
+
+    expect(input.tool_name).toBe('Bash');
+    expect(input.tool_input).toEqual({ command: 'npm test', workdir: '/repo' });
+    expect(input.tool_response).toEqual({ stdout: 'ok', stderr: '' });
+  });
+
+  it('should map Cursor events onto tool calls', () => {
+    const input = normalizeHookInput(
+      {
+        conversation_id: 'c1',
+        hook_event_name: 'beforeReadFile',
+        workspace_roots: ['/repo'],
+        file_path: '/repo/package-lock.json',
+      },
+      'cursor',
+    );
+
+    expect(input).toEqual({
+      session_id: 'c1',
+      cwd: '/repo',
+      hook_event_name: 'PreToolUse',
+      prompt: undefined,
+      tool_name: 'Read',
+      tool_input: { file_path: '/repo/package-lock.json' },
+    });
+  });
+
+  it('should return an empty input for non-objects', () => {
+    expect(normalizeHookInput('oops', 'gemini-cli')).toEqual({});
+  });
+});
+
+describe('formatHookOutput', () => {
+  const context = { hookEventName: 'PostToolUse', additionalContext: '[cortex] summary' };
+  const deny = {
+    hookEventName: 'PreToolUse',
+    permissionDecision: 'deny' as const,
+    permissionDecisionReason: 'too large',
+  };
+  const rewrite = {
+    hookEventName: 'PreToolUse',
+    updatedInput: { command: 'cortex relay npm test' },
+    additionalContext: 'routed through relay',
+  };
+
+  it('should keep Claude Code output as hookSpecificOutput', () => {
+    expect(JSON.parse(formatHookOutput(context, 'claude-code') ?? '')).toEqual({
+      hookSpecificOutput: context,
+    });
+  });
+
+  it('should use Gemini CLI event names and decisions', () => {
+    expect(JSON.parse(formatHookOutput(context, 'gemini-cli') ?? '')).toEqual({
+      hookSpecificOutput: { hookEventName: 'AfterTool', additionalContext: '[cortex] summary' },
+    });
+    expect(JSON.parse(formatHookOutput(deny, 'gemini-cli') ?? '')).toEqual({
+      decision: 'deny',
+      reason: 'too large',
+    });
+    expect(JSON.parse(formatHookOutput(rewrite, 'gemini-cli') ?? '')).toMatchObject({
+      hookSpecificOutput: { hookEventName: 'BeforeTool', tool_input: rewrite.updatedInput },
+    });
+  });
+
+  it('should translate Cursor permissions and drop what Cursor cannot use', () => {
+    expect(JSON.parse(formatHookOutput(deny, 'cursor') ?? '')).toEqual({
+      permission: 'deny',
+      user_message: 'too large',
+      agent_message: 'too large',
+    });
+    expect(formatHookOutput(context, 'cursor')).toBeNull();
+  });
+
+  it('should drop rewrites for agents that cannot rewrite tool input', () => {
+    expect(formatHookOutput(rewrite, 'codex')).toBeNull();
+    expect(formatHookOutput(rewrite, 'cursor')).toBeNull();
+  });
+});
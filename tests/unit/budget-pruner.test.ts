@@ -110,6 +110,100 @@ describe('Budget Pruner', () => {
       expect(result.budgetUtilization).toBe(0);
     });
 
+    describe('degraded entries', () => {
+      const log = Array.from({ length: 200 }, (_, i) => `line ${i}: build step output`).join('\n');
+
+      it('should keep a degraded form of a large entry that does not fit', () => {
+        const pruner = createBudgetPruner({ ...config, degrade: {} });
+        const note = createTestEntry('deploy the fix today', false, 'active');
+        const big = createTestEntry(log);
+
+        const pruned = pruner.pruneToFit([note, big], 150);
+
+        expect(pruned.kept.map((e) => e.id)).toEqual([note.id, big.id]);
+        expect(pruned.kept[1]?.metadata['degraded']).toBe('head-tail');
+        expect(pruned.removed).toEqual([]);
+        expect(pruned.prunedTokens).toBeLessThanOrEqual(150);
+      });
+
+      it('should drop large entries unless degrading is enabled', () => {
+        const big = createTestEntry(log);
+        const entries = [createTestEntry('short note'), big];
+
+        const byDefault = createBudgetPruner(config).pruneToFit(entries, 150);
+        const disabled = createBudgetPruner({ ...config, degrade: {} }).pruneToFit(
+          entries,
+          150,
+          undefined,
+          false,
+        );
+
+        expect(byDefault.removed.map((e) => e.id)).toEqual([big.id]);
+        expect(disabled.removed.map((e) => e.id)).toEqual([big.id]);
+      });
+
+      it('should keep a tool call with a head/tail of its large result', () => {
+        const pruner = createBudgetPruner({ ...config, degrade: {} });
+        const call = createTestEntry('[tool_use: Bash] npm run build', false, 'active');
+        call.metadata = { type: 'tool', toolUseIds: ['toolu_1'], toolName: 'Bash' };
+        const result = createTestEntry(log, false, 'silent');
+        result.metadata = { type: 'result', toolUseIds: ['toolu_1'], toolName: 'Bash' };
+
+        const pruned = pruner.pruneToFit([call, result], 150);
+
+        expect(pruned.kept.map((e) => e.id)).toEqual([call.id, result.id]);
+        expect(pruned.kept[1]?.metadata['degraded']).toBe('head-tail');
+        expect(pruned.prunedTokens).toBeLessThanOrEqual(150);
+      });
+    });
+
+    describe('tool call/result pairs', () => {
+      const pair = (resultContent: string) => {
+        const call = createTestEntry('[tool_use: Read]', false, 'active');
+        call.metadata = { type: 'tool', toolUseIds: ['toolu_1'], toolName: 'Read' };
+        const result = createTestEntry(resultContent, false, 'silent');
+        result.metadata = { type: 'result', toolUseIds: ['toolu_1'], toolName: 'Read' };
+        return { call, result };
+      };
+
+      it('should keep a call and its result together when both fit', () => {
+        const pruner = createBudgetPruner(config);
+        const { call, result } = pair('config loaded');
+
+        const pruned = pruner.pruneToFit([call, result], 100);
+
+        expect(pruned.kept.map((e) => e.id)).toEqual([call.id, result.id]);
+      });
+
+      it('should keep the call with a stub when the full result does not fit', () => {
+        const pruner = createBudgetPruner(config);
+        const { call, result } = pair(
+          `export const settings = {\n${'  option: value,\n'.repeat(100)}};`,
+        );
+
+        const pruned = pruner.pruneToFit([call, result], 60);
+
+        expect(pruned.kept.map((e) => e.id)).toEqual([call.id, result.id]);
+        expect(pruned.kept[1]?.content).toMatch(
+          /^\[cortex\] Read result pruned \(~\d+ tokens\): export const settings = \{$/,
+        );
+        expect(pruned.kept[1]?.metadata['stubbed']).toBe(true);
+        expect(pruned.removed).toEqual([]);
+        expect(pruned.prunedTokens).toBeLessThanOrEqual(60);
+      });
+
+      it('should drop the call and result together when even the stub does not fit', () => {
+        const pruner = createBudgetPruner(config);
+        const keep = createTestEntry('short note', false, 'active');
+        const { call, result } = pair('word '.repeat(200));
+
+        const pruned = pruner.pruneToFit([keep, call, result], 5);
+
+        expect(pruned.kept).toEqual([keep]);
+        expect(pruned.removed.map((e) => e.id)).toEqual([call.id, result.id]);
+      });
+    });
+
     it('should use TF-IDF for scoring relevance', () => {
       const pruner = createBudgetPruner(config);
 
@@ -117,4 +117,45 @@ describe('Claude Code Adapter with BudgetPruner', () => {
     const ids = await memory.list();
     expect(ids.length).toBeGreaterThan(0);
   });
+
+  it('should output a valid JSONL transcript with outputFormat jsonl', async () => {
+    const config = {
+      ...DEFAULT_CONFIG,
+      realtime: { ...DEFAULT_CONFIG.realtime, tokenBudget: 150 },
+    };
+    const adapter = createClaudeCodeAdapter(memory, config);
+    const records = Array.from({ length: 12 }, (_, i) => ({
+      type: i % 2 === 0 ? 'user' : 'assistant',
+      uuid: `m${i}`,
+      parentUuid: i === 0 ? null : `m${i - 1}`,
+      sessionId: 's1',
+      message: {
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Message ${i} ${'with filler words '.repeat(i === 11 ? 1 : 8)}`,
+      },
+    }));
+    const context = records.map((r) => JSON.stringify(r)).join('\n');
+
+    const result = await adapter.optimize(context, { dryRun: true, outputFormat: 'jsonl' });
+    const output = result.optimizedContext.split('\n').map((line) => JSON.parse(line));
+    const uuids = new Set(output.map((r) => r.uuid));
+
+    expect(output.length).toBeLessThan(records.length);
+    expect(output.some((r) => r.isMeta && /messages? elided/.test(r.message.content))).toBe(true);
+    // Every parent link points at a record that is still in the transcript
+    for (const record of output.slice(1)) {
+      expect(uuids.has(record.parentUuid)).toBe(true);
+    }
+  });
+
+  it('should reject outputFormat jsonl for input that is not a JSONL transcript', async () => {
+    const adapter = createClaudeCodeAdapter(memory, DEFAULT_CONFIG);
+
+    await expect(
+      adapter.optimize('User: plain text\nAssistant: not a transcript', {
+        dryRun: true,
+        outputFormat: 'jsonl',
+      }),
+    ).rejects.toThrow('not a Claude Code JSONL transcript');
+  });
 });
@@ -0,0 +1,156 @@
+/**
+ * Code Outline Tests - AST-based outline used by the PostToolUse hook
+ */
+
+import { describe, expect, it } from 'vitest';
+import { buildOutline, formatOutline, isOutlineSupported } from '../../src/utils/code-outline.js';
+
+const SOURCE = `import { readFileSync } from 'node:fs';
+
+/**
+ * Parse a value
+ */
+export function parse(input: string): number;
+export function parse(input: number): number;
+export function parse(input: string | number): number {
+  return Number(input);
+}
+
+export const double = (n: number): number => {
+  return n * 2;
+};
+
+export const VERSION = '1.0.0';
+
+export class Store<T> extends Base implements Disposable {
+  private secret = 1;
+  readonly name: string;
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+  }
+
+  get size(): number {
+    return 0;
+  }
+
+  load(path: string): T {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  }
+
+  handle = (event: string): void => {
+    console.log(event);
+  };
+}
+
+export interface Options {
+  verbose?: boolean;
+}
+
+export type Mode = 'fast' | 'slow';
+
+function helper(): void {}
+
+export * from './other.js';
+`;
+
+describe('isOutlineSupported', () => {
+  it('should accept TS/JS family extensions', () => {
+    expect(isOutlineSupported('src/a.ts')).toBe(true);
+    expect(isOutlineSupported('src/a.tsx')).toBe(true);
+    expect(isOutlineSupported('lib/a.mjs')).toBe(true);
+    expect(isOutlineSupported('README.md')).toBe(false);
+    expect(isOutlineSupported('main.py')).toBe(false);
+  });
+});
+
+describe('buildOutline', () => {
+  const outline = buildOutline(SOURCE, 'src/store.ts');
+  const byName = (name: string) => outline.symbols.find((s) => s.name === name);
+
+  it('should fold function overloads into one symbol', () => {
+    const parse = byName('parse');
+    expect(parse?.kind).toBe('function');
+    expect(parse?.overloads).toHaveLength(2);
+    expect(parse?.signature).toBe('export function parse(input: string | number): number');
+    expect(parse?.startLine).toBe(6);
+    expect(parse?.endLine).toBe(10);
+  });
+
+  it('should treat arrow-function exports as functions', () => {
+    const double = byName('double');
+    expect(double?.kind).toBe('function');
+    expect(double?.signature).toBe('export const double = (n: number): number =>');
+    expect(double?.exported).toBe(true);
+  });
+
+  it('should list constants without their initializer', () => {
+    expect(byName('VERSION')?.kind).toBe('variable');
+    expect(byName('VERSION')?.signature).toBe('export const VERSION');
+  });
+
+  it('should list public class members and skip private ones', () => {
+    const store = byName('Store');
+    expect(store?.kind).toBe('class');
+    expect(store?.signature).toBe('export class Store<T> extends Base implements Disposable');
+
+    const members = store?.members ?? [];
+    const names = members.map((m) => m.name);
+    expect(names).toEqual(['name', 'constructor', 'size', 'load', 'handle']);
+    expect(members.find((m) => m.name === 'load')?.signature).toBe('load(path: string): T');
+    expect(members.find((m) => m.name === 'handle')?.kind).toBe('method');
+  });
+
+  it('should record line ranges for multi-line declarations', () => {
+    const store = byName('Store');
+    expect(store?.startLine).toBe(18);
+    expect(store?.endLine).toBe(38);
+  });
+
+  it('should record interfaces, types, internals and re-exports', () => {
+    expect(byName('Options')?.kind).toBe('interface');
+    expect(byName('Mode')?.signature).toBe("export type Mode = 'fast' | 'slow'");
+    expect(byName('helper')?.exported).toBe(false);
+    expect(outline.reExports).toEqual(['./other.js']);
+  });
+
+  it('should offset line numbers for partial reads', () => {
+    const partial = buildOutline('export function a(): void {}\n', 'a.ts', 101);
+    expect(partial.symbols[0]?.startLine).toBe(101);
+  });
+
+  it('should mark locals exported through an export list', () => {
+    const partial = buildOutline('function a() {}\nfunction b() {}\nexport { a };\n', 'a.js');
+    expect(partial.symbols.find((s) => s.name === 'a')?.exported).toBe(true);
+    expect(partial.symbols.find((s) => s.name === 'b')?.exported).toBe(false);
+  });
+
+  it('should not throw on syntactically broken input', () => {
+    expect(() => buildOutline('export function (((', 'broken.ts')).not.toThrow();
+  });
+});
+
+describe('formatOutline', () => {
+  it('should render signatures with line ranges and internals', () => {
+    const text = formatOutline(buildOutline(SOURCE, 'src/store.ts'));
+
+    expect(text).toContain('export function parse(input: string): number');
+    expect(text).toContain('export function parse(input: string | number): number  L6-10');
+    expect(text).toContain('    load(path: string): T  L31-33');
+    expect(text).toContain('Internal: helper L46');
+    expect(text).toContain('Re-exports: ./other.js');
+  });
+
+  it('should cap the number of symbols', () => {
+    const many = Array.from({ length: 10 }, (_, i) => `export const v${i} = ${i};`).join('\n');
+    const text = formatOutline(buildOutline(many, 'many.ts'), { maxSymbols: 3 });
+
+    expect(text).toContain('… 7 more symbols');
+  });
+
+  it('should list top-level declarations of scripts without exports', () => {
+    const text = formatOutline(buildOutline('function main() {}\nmain();\n', 'script.js'));
+    expect(text).toContain('function main()  L1');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Context Gauge Tests - Live context estimate from Claude Code transcripts
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  type ContextUsage,
+  estimateContextUsage,
+  formatContextGauge,
+  resolveContextWindow,
+} from '../../src/hooks/context-gauge.js';
+import type { TranscriptHintsConfig } from '../../src/types/config.js';
+
+const CONFIG: TranscriptHintsConfig = {
+  contextWindows: { default: 200_000, 'claude-sonnet-4': 1_000_000 },
+  overheadTokens: 0,
+  warnPercent: 50,
+  criticalPercent: 80,
+  preciseTokens: false,
+};
+
+// 4 characters per token with the heuristic estimator
+const text = (tokens: number): string => 'x'.repeat(tokens * 4);
+
+function jsonl(...records: object[]): string {
+  return records.map((r) => JSON.stringify(r)).join('\n');
+}
+
+const prompt = (tokens: number) => ({
+  type: 'user',
+  message: { role: 'user', content: text(tokens) },
+});
+
+const reply = (tokens: number, model = 'claude-opus-4-1-20250805') => ({
+  type: 'assistant',
+  message: { role: 'assistant', model, content: [{ type: 'text', text: text(tokens) }] },
+});
+
+const toolResult = (tokens: number) => ({
+  type: 'user',
+  message: {
+    role: 'user',
+    content: [{ type: 'tool_result', tool_use_id: 't1', content: text(tokens) }],
+  },
+});
+
+describe('estimateContextUsage', () => {
+  it('should count only messages after the last compaction boundary', () => {
+    const transcript = jsonl(
+      prompt(50_000),
+      reply(50_000),
+      { type: 'system', subtype: 'compact_boundary', content: 'Conversation compacted' },
+      { type: 'user', isCompactSummary: true, message: { role: 'user', content: text(2000) } },
+      prompt(100),
+      reply(900),
+    );
+
+    const usage = estimateContextUsage(transcript, { ...CONFIG, overheadTokens: 15_000 });
+
+    expect(usage.compacted).toBe(true);
+    expect(usage.usedTokens).toBe(15_000 + 2000 + 100 + 900);
+    expect(usage.turns).toBe(1);
+  });
+
+  it('should skip sidechains, thinking, metadata records and unparseable lines', () => {
+    const transcript = [
+      jsonl(
+        prompt(100),
+        { ...reply(5000), isSidechain: true },
+        {
+          type: 'assistant',
+          message: {
+            model: 'claude-opus-4-1',
+            content: [{ type: 'thinking', thinking: text(800) }],
+          },
+        },
+        { type: 'summary', summary: text(3000) },
+        { type: 'file-history-snapshot', snapshot: { text: text(3000) } },
+      ),
+      '{"type":"user", truncated',
+    ].join('\n');
+
+    expect(estimateContextUsage(transcript, CONFIG).usedTokens).toBe(100);
+  });
+
+  it('should forecast turns until the limit from recent growth', () => {
+    const turns = [];
+    for (let i = 0; i < 8; i++) {
+      turns.push(prompt(1000), reply(2000), toolResult(7000));
+    }
+
+    const usage = estimateContextUsage(jsonl(...turns), CONFIG);
+
+    expect(usage.usedTokens).toBe(80_000);
+    expect(usage.tokensPerTurn).toBe(10_000);
+    expect(usage.turnsLeft).toBe(12);
+    expect(usage.percent).toBe(40);
+    expect(usage.model).toBe('claude-opus-4-1-20250805');
+  });
+
+  it('should use the window of the model that answered last', () => {
+    const usage = estimateContextUsage(
+      jsonl(prompt(100), reply(100, 'claude-sonnet-4-5-20250929'), reply(10, '<synthetic>')),
+      CONFIG,
+    );
+
+    expect(usage.model).toBe('claude-sonnet-4-5-20250929');
+    expect(usage.windowTokens).toBe(1_000_000);
+  });
+});
+
+describe('resolveContextWindow', () => {
+  it('should prefer the longest matching prefix', () => {
+    const windows = { default: 200_000, claude: 100_000, 'claude-sonnet-4': 1_000_000 };
+
+    expect(resolveContextWindow('claude-sonnet-4-5', windows)).toBe(1_000_000);
+    expect(resolveContextWindow('claude-opus-4', windows)).toBe(100_000);
+    expect(resolveContextWindow('gpt-5', windows)).toBe(200_000);
+    expect(resolveContextWindow(null, windows)).toBe(200_000);
+  });
+});
+
+describe('formatContextGauge', () => {
+  const usage = (percent: number, turnsLeft: number | null): ContextUsage => ({
+    usedTokens: percent * 2000,
+    windowTokens: 200_000,
+    percent,
+    model: null,
+    turns: 10,
+    tokensPerTurn: turnsLeft === null ? null : 6800,
+    turnsLeft,
+    compacted: false,
+  });
+
+  it('should stay quiet below the warn level', () => {
+    expect(formatContextGauge(usage(49, 20), CONFIG)).toBeNull();
+  });
+
+  it('should show a gauge with the forecast and escalate at the critical level', () => {
+    expect(formatContextGauge(usage(62, 12), CONFIG)).toBe(
+      '[cortex] Context: 62% of 200K tokens (~124K) [██████░░░░] · ~12 turns until limit (~6.8K tokens/turn)\n' +
+        'Context is growing. Be concise where possible.',
+    );
+
+    const critical = formatContextGauge(usage(91, null), CONFIG) ?? '';
+    expect(critical.split('\n')[0]).toBe(
+      '[cortex] Context: 91% of 200K tokens (~182K) [█████████░]',
+    );
+    expect(critical).toContain('/compact');
+  });
+});
@@ -82,6 +82,27 @@ Assistant: I'm doing well, thank you!`;
         expect(entry.content.trim().length).toBeGreaterThan(0);
       });
     });
+    it('should pair tool call blocks with the result that follows', () => {
+      const context = [
+        'User: Run the tests',
+        '<function_calls>',
+        '<invoke name="Bash">npm test</invoke>',
+        '</function_calls>',
+        '<function_results>',
+        'All tests passed',
+        '</function_results>',
+        'Assistant: Done',
+      ].join('\n');
+
+      const entries = parseClaudeCodeContext(context);
+      const paired = entries.filter((e) => e.metadata['toolUseIds']);
+
+      expect(paired.map((e) => e.metadata['type'])).toEqual(['tool', 'result']);
+      expect(paired.map((e) => e.metadata['toolUseIds'])).toEqual([
+        ['text-call-1'],
+        ['text-call-1'],
+      ]);
+    });
   });
 
   describe('parseJSONLLine', () => {
@@ -198,6 +219,105 @@ Assistant: I'm doing well, thank you!`;
     });
   });
 
+  describe('parseJSONLContext with Claude Code transcript records', () => {
+    const record = (fields: Record<string, unknown>) =>
+      JSON.stringify({ sessionId: 'sess-1', timestamp: '2026-03-01T10:00:00.000Z', ...fields });
+
+    it('should unwrap nested messages and keep the uuid chain', () => {
+      const context = [
+        record({
+          type: 'user',
+          uuid: 'u1',
+          parentUuid: null,
+          message: { role: 'user', content: 'Fix the login bug' },
+        }),
+        record({
+          type: 'assistant',
+          uuid: 'a1',
+          parentUuid: 'u1',
+          message: { role: 'assistant', content: [{ type: 'text', text: 'Looking now.' }] },
+        }),
+      ].join('\n');
+
+      const entries = parseJSONLContext(context);
+      expect(entries.map((e) => e.content)).toEqual(['Fix the login bug', 'Looking now.']);
+      expect(entries.every((e) => e.tags.includes('conversation'))).toBe(true);
+      expect(entries[1]?.metadata).toMatchObject({
+        type: 'conversation',
+        uuid: 'a1',
+        parentUuid: 'u1',
+        timestamp: '2026-03-01T10:00:00.000Z',
+        sessionId: 'sess-1',
+      });
+    });
+
+    it('should name tool results after their tool_use and fall back to toolUseResult', () => {
+      const context = [
+        record({
+          type: 'assistant',
+          uuid: 'a1',
+          message: {
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } }],
+          },
+        }),
+        record({
+          type: 'user',
+          uuid: 'u2',
+          parentUuid: 'a1',
+          message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1' }] },
+          toolUseResult: { stdout: 'src\ntests', stderr: '', interrupted: false },
+        }),
+      ].join('\n');
+
+      const entries = parseJSONLContext(context);
+      expect(entries[0]?.tags).toContain('tool');
+      expect(entries[0]?.metadata).toMatchObject({ toolName: 'Bash', toolUseIds: ['toolu_1'] });
+      expect(entries[1]?.tags).toContain('result');
+      expect(entries[1]?.content).toBe('src\ntests');
+      expect(entries[1]?.metadata).toMatchObject({ toolName: 'Bash', parentUuid: 'a1' });
+    });
+
+    it('should handle summaries, compaction records and sidechains', () => {
+      const context = [
+        JSON.stringify({ type: 'summary', summary: 'Login bug fix', leafUuid: 'a9' }),
+        record({ type: 'file-history-snapshot', messageId: 'm1', snapshot: {} }),
+        record({
+          type: 'system',
+          subtype: 'compact_boundary',
+          uuid: 's1',
+          content: 'Conversation compacted',
+        }),
+        record({
+          type: 'user',
+          uuid: 'u3',
+          parentUuid: 's1',
+          isCompactSummary: true,
+          message: { role: 'user', content: 'This session is being continued. Summary: ...' },
+        }),
+        record({
+          type: 'assistant',
+          uuid: 'sub1',
+          isSidechain: true,
+          message: { role: 'assistant', content: [{ type: 'text', text: 'Subagent report' }] },
+        }),
+      ].join('\n');
+
+      const entries = parseJSONLContext(context);
+      expect(entries.map((e) => e.metadata['type'])).toEqual([
+        'other',
+        'other',
+        'conversation',
+        'conversation',
+      ]);
+      expect(entries[0]).toMatchObject({ content: 'Login bug fix', metadata: { leafUuid: 'a9' } });
+      expect(entries[1]?.metadata['compactBoundary']).toBe(true);
+      expect(entries[2]?.metadata['compactSummary']).toBe(true);
+      expect(entries[3]?.tags).toEqual(['conversation', 'sidechain']);
+      expect(entries[3]?.metadata['isSidechain']).toBe(true);
+    });
+  });
+
   describe('parseClaudeCodeContext JSONL auto-detect', () => {
     it('should auto-detect JSONL when first line starts with {', () => {
       const context = '{"role":"user","content":"Hello from JSONL"}';
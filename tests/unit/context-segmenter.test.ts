@@ -0,0 +1,179 @@
+/**
+ * Context Segmenter Tests - Structural chunks instead of single lines
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createGenericAdapter } from '../../src/adapters/generic.js';
+import type { KVMemory } from '../../src/core/kv-memory.js';
+import { DEFAULT_CONFIG } from '../../src/types/config.js';
+import { segmentContext } from '../../src/utils/context-segmenter.js';
+
+const kinds = (context: string) => segmentContext(context).map((s) => s.kind);
+
+describe('segmentContext', () => {
+  it('keeps a fenced code block together, blank lines included', () => {
+    const context = [
+      'Here is the fix:',
+      '```ts',
+      'function add(a: number, b: number) {',
+      '',
+      '  return a + b;',
+      '}',
+      '```',
+      'Let me know.',
+    ].join('\n');
+
+    const segments = segmentContext(context);
+
+    expect(segments.map((s) => s.kind)).toEqual(['paragraph', 'code', 'paragraph']);
+    expect(segments[1]?.content).toContain('return a + b;');
+    expect(segments[1]).toMatchObject({ startLine: 2, endLine: 7 });
+  });
+
+  it('groups a markdown heading with the prose under it', () => {
+    const context = '# Setup\n\nInstall deps.\n\nThen build.\n## Usage\nRun it.';
+
+    const segments = segmentContext(context);
+
+    expect(segments.map((s) => s.kind)).toEqual(['section', 'section']);
+    expect(segments[0]?.content).toBe('# Setup\n\nInstall deps.\n\nThen build.');
+  });
+
+  it('splits paragraphs at blank lines', () => {
+    expect(kinds('First paragraph\nstill first.\n\nSecond one.')).toEqual([
+      'paragraph',
+      'paragraph',
+    ]);
+  });
+
+  it('recognizes JavaScript and Python stack traces', () => {
+    const js = [
+      'TypeError: Cannot read properties of undefined',
+      '    at parse (src/parser.ts:10:5)',
+      '    at main (src/index.ts:3:1)',
+      'Build failed.',
+    ].join('\n');
+    const py = [
+      'Traceback (most recent call last):',
+      '  File "app.py", line 4, in <module>',
+      '    main()',
+      'ValueError: bad input',
+    ].join('\n');
+
+    expect(kinds(js)).toEqual(['stack-trace', 'paragraph']);
+    expect(segmentContext(py)).toEqual([
+      { kind: 'stack-trace', content: py, startLine: 1, endLine: 4 },
+    ]);
+  });
+
+  it('makes each diff hunk its own segment, file header with the first', () => {
+    const diff = [
+      'diff --git a/x.ts b/x.ts',
+      'index 1234abc..5678def 100644',
+      '--- a/x.ts',
+      '+++ b/x.ts',
+      '@@ -1,2 +1,2 @@',
+      '-const a = 1;',
+      '+const a = 2;',
+      '@@ -10,1 +10,1 @@',
+      ' unchanged',
+    ].join('\n');
+
+    const segments = segmentContext(diff);
+
+    expect(segments.map((s) => s.kind)).toEqual(['diff', 'diff']);
+    expect(segments[0]?.content.split('\n')).toHaveLength(7);
+    expect(segments[1]?.content).toBe('@@ -10,1 +10,1 @@\n unchanged');
+  });
+
+  it('recognizes multi-line JSON and leaves bracketed log lines alone', () => {
+    const context = '{\n  "name": "cortex",\n  "version": 1\n}\n[INFO] server started';
+
+    expect(kinds(context)).toEqual(['json', 'log']);
+  });
+
+  it('keeps table rows together', () => {
+    expect(kinds('| a | b |\n|---|---|\n| 1 | 2 |\nTotal: 1')).toEqual(['table', 'paragraph']);
+  });
+
+  it('keeps log lines one per segment', () => {
+    const log = [
+      '2024-05-01T10:00:00Z worker-1 started',
+      '2024-05-01T10:00:01Z worker-2 started',
+      'ERROR worker-2 crashed',
+    ].join('\n');
+
+    expect(kinds(log)).toEqual(['log', 'log', 'log']);
+  });
+
+  it('caps long paragraphs and sections by line count', () => {
+    const prose = Array.from({ length: 25 }, (_, i) => `Compiling module ${i}`).join('\n');
+
+    const segments = segmentContext(`# Build\n${prose}\n\nDone.`);
+
+    expect(segments.map((s) => s.kind)).toEqual(['section', 'section', 'section']);
+    expect(segments.map((s) => [s.startLine, s.endLine])).toEqual([
+      [1, 10],
+      [11, 20],
+      [21, 28],
+    ]);
+    expect(kinds(`${prose}\n\nDone.`)).toEqual([
+      'paragraph',
+      'paragraph',
+      'paragraph',
+      'paragraph',
+    ]);
+  });
+
+  it('keeps unstructured text one segment per line', () => {
+    expect(kinds('line one\nline two\n[INFO] line three')).toEqual(['line', 'line', 'log']);
+  });
+
+  it('returns nothing for blank input', () => {
+    expect(segmentContext('\n  \n')).toEqual([]);
+  });
+});
+
+describe('generic adapter segmentation', () => {
+  it('never keeps half a code block', async () => {
+    const memory = {
+      put: async () => {},
+      recordOptimization: async () => {},
+    } as unknown as KVMemory;
+    const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
+    const code = ['```js', 'function retry(fn) {', '  return fn();', '}', '```'].join('\n');
+    const context = [
+      Array.from({ length: 30 }, (_, i) => `Note ${i}: nothing to see here.`).join('\n\n'),
+      '',
+      code,
+    ].join('\n');
+
+    const result = await adapter.optimize(context, { dryRun: true });
+
+    expect(result.entriesProcessed).toBe(31);
+    expect(result.optimizedContext).toContain(code);
+  });
+
+  it('still reduces multi-line plain text', async () => {
+    const memory = {
+      put: async () => {},
+      recordOptimization: async () => {},
+    } as unknown as KVMemory;
+    const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
+    const build = Array.from(
+      { length: 200 },
+      (_, i) => `Compiling src/module-${i}.ts (${i * 3} ms) into dist/module-${i}.js`,
+    );
+
+    const plain = await adapter.optimize(build.join('\n'), { dryRun: true });
+    const paragraphs = await adapter.optimize(
+      `${build.slice(0, 100).join('\n')}\n\n${build.slice(100).join('\n')}`,
+      { dryRun: true },
+    );
+
+    expect(plain.entriesProcessed).toBe(200);
+    expect(plain.reduction).toBeGreaterThan(0.9);
+    expect(paragraphs.entriesProcessed).toBeGreaterThan(10);
+    expect(paragraphs.reduction).toBeGreaterThan(0.5);
+  });
+});
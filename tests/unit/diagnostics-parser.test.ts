@@ -0,0 +1,228 @@
+/**
+ * Diagnostics Parser Tests - Compiler/linter output grouping
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  describeFiles,
+  formatDiagnostics,
+  groupDiagnostics,
+  parseDiagnostics,
+} from '../../src/utils/diagnostics-parser.js';
+
+const TSC_OUTPUT = `src/api/user.ts(12,5): error TS2345: Argument of type 'string' is not assignable to parameter of type 'number'.
+src/api/post.ts(40,2): error TS2345: Argument of type 'string' is not assignable to parameter of type 'number'.
+src/api/post.ts(41,9): error TS2345: Argument of type 'boolean' is not assignable to parameter of type 'number'.
+src/index.ts(3,1): error TS2307: Cannot find module './missing' or its corresponding type declarations.
+src/api/user.ts(12,5): error TS2345: Argument of type 'string' is not assignable to parameter of type 'number'.
+
+Found 5 errors in 3 files.
+`;
+
+const TSC_PRETTY = `src/a.ts:4:7 - error TS2322: Type 'number' is not assignable to type 'string'.
+
+4 const x: string = 1;
+        ~
+
+Found 1 error in src/a.ts:4
+`;
+
+const BIOME_OUTPUT = `src/cli/index.ts:101:36 lint/style/noNonNullAssertion ━━━━━━━━━━━━━━━━━━━━━━
+
+  ! Forbidden non-null assertion.
+
+    100 │ const x = y!;
+
+src/core/a.ts:5:1 lint/suspicious/noExplicitAny FIXABLE ━━━━━━━━━━━━━━━━━━━━━━
+
+  × Unexpected any. Specify a different type.
+
+src/core/b.ts format ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+  × Formatter would have printed the following content:
+`;
+
+const ESLINT_STYLISH = `
+/repo/src/a.js
+  12:5  error    'x' is assigned a value but never used  no-unused-vars
+  14:1  warning  Unexpected console statement            no-console
+
+/repo/src/b.js
+  3:10  error  'y' is assigned a value but never used  no-unused-vars
+
+✖ 3 problems (2 errors, 1 warning)
+`;
+
+const RUSTC_OUTPUT = `error[E0308]: mismatched types
+  --> src/main.rs:4:18
+   |
+4  |     let x: i32 = "a";
+   |            ---   ^^^ expected \`i32\`, found \`&str\`
+
+warning: unused variable: \`y\`
+ --> src/lib.rs:2:9
+  |
+2 |     let y = 1;
+  |         ^ help: if this is intentional, prefix it with an underscore: \`_y\`
+
+error: could not compile \`demo\` (bin "demo") due to 1 previous error
+`;
+
+const GCC_OUTPUT = `src/main.c: In function 'main':
+src/main.c:5:3: error: 'foo' undeclared (first use in this function)
+    5 |   foo = 1;
+      |   ^~~
+src/main.c:6:7: warning: unused variable 'bar' [-Wunused-variable]
+src/util.c:2:10: fatal error: missing.h: No such file or directory
+`;
+
+const GO_VET_OUTPUT = `# example.com/calc
+./calc.go:12:2: fmt.Printf format %d has arg name of wrong type string
+./calc.go:20:2: fmt.Printf format %d has arg label of wrong type string
+vet: ./util.go:3:8: "os" imported and not used
+./util.go:4:8: "strings" imported and not used
+`;
+
+describe('parseDiagnostics', () => {
+  it('should parse and dedupe tsc diagnostics', () => {
+    const diags = parseDiagnostics(TSC_OUTPUT);
+
+    expect(diags).toHaveLength(4);
+    expect(diags[0]).toEqual({
+      tool: 'tsc',
+      file: 'src/api/user.ts',
+      line: 12,
+      column: 5,
+      code: 'TS2345',
+      severity: 'error',
+      message: "Argument of type 'string' is not assignable to parameter of type 'number'.",
+    });
+  });
+
+  it('should parse tsc --pretty output', () => {
+    const diags = parseDiagnostics(TSC_PRETTY);
+
+    expect(diags).toHaveLength(1);
+    expect(diags[0]).toMatchObject({ file: 'src/a.ts', line: 4, column: 7, code: 'TS2322' });
+  });
+
+  it('should parse biome rules, severities and file-level diagnostics', () => {
+    const diags = parseDiagnostics(BIOME_OUTPUT);
+
+    expect(diags.map((d) => d.code)).toEqual([
+      'lint/style/noNonNullAssertion',
+      'lint/suspicious/noExplicitAny',
+      'format',
+    ]);
+    expect(diags[0]).toMatchObject({
+      severity: 'warning',
+      line: 101,
+      message: 'Forbidden non-null assertion.',
+    });
+    expect(diags[1]?.severity).toBe('error');
+    expect(diags[2]?.line).toBeUndefined();
+  });
+
+  it('should parse eslint stylish output', () => {
+    const diags = parseDiagnostics(ESLINT_STYLISH);
+
+    expect(diags).toHaveLength(3);
+    expect(diags[1]).toMatchObject({
+      tool: 'eslint',
+      file: '/repo/src/a.js',
+      line: 14,
+      severity: 'warning',
+      code: 'no-console',
+      message: 'Unexpected console statement',
+    });
+    expect(diags[2]?.file).toBe('/repo/src/b.js');
+  });
+
+  it('should parse eslint unix output', () => {
+    const diags = parseDiagnostics('src/a.js:12:5: Missing semicolon. [Error/semi]\n');
+
+    expect(diags[0]).toMatchObject({ tool: 'eslint', code: 'semi', severity: 'error', line: 12 });
+  });
+
+  it('should parse rustc diagnostics with their --> locations', () => {
+    const diags = parseDiagnostics(RUSTC_OUTPUT);
+
+    expect(diags).toHaveLength(2);
+    expect(diags[0]).toMatchObject({
+      tool: 'rustc',
+      file: 'src/main.rs',
+      line: 4,
+      code: 'E0308',
+      message: 'mismatched types',
+    });
+    expect(diags[1]).toMatchObject({ severity: 'warning', file: 'src/lib.rs' });
+  });
+
+  it('should parse gcc/clang diagnostics with warning flags', () => {
+    const diags = parseDiagnostics(GCC_OUTPUT);
+
+    expect(diags).toHaveLength(3);
+    expect(diags[1]).toMatchObject({
+      tool: 'gcc',
+      code: '-Wunused-variable',
+      severity: 'warning',
+      message: "unused variable 'bar'",
+    });
+    expect(diags[2]?.severity).toBe('error');
+  });
+
+  it('should parse go vet output', () => {
+    const diags = parseDiagnostics(GO_VET_OUTPUT);
+
+    expect(diags).toHaveLength(4);
+    expect(diags[0]).toMatchObject({ tool: 'go', file: 'calc.go', line: 12, column: 2 });
+    expect(diags[2]?.file).toBe('util.go');
+  });
+
+  it('should ignore unrelated output', () => {
+    expect(parseDiagnostics('Compiling demo v0.1.0\nDone in 2.3s\n')).toEqual([]);
+  });
+});
+
+describe('groupDiagnostics', () => {
+  it('should group by code with errors first', () => {
+    const groups = groupDiagnostics(parseDiagnostics(TSC_OUTPUT + GCC_OUTPUT));
+
+    expect(groups[0]).toMatchObject({ key: 'TS2345', count: 3 });
+    expect(groups[0]?.files).toEqual(['src/api/user.ts', 'src/api/post.ts']);
+    expect(groups.at(-1)?.severity).toBe('warning');
+  });
+
+  it('should group code-less diagnostics by message template', () => {
+    const groups = groupDiagnostics(parseDiagnostics(GO_VET_OUTPUT));
+
+    expect(groups[0]).toMatchObject({ key: '<v> imported and not used', count: 2 });
+    expect(groups[0]?.files).toEqual(['util.go']);
+  });
+});
+
+describe('describeFiles', () => {
+  it('should collapse files in one directory to a glob', () => {
+    expect(describeFiles(['src/api/a.ts', 'src/api/b.ts'])).toBe('src/api/*.ts');
+    expect(describeFiles(['src/a.ts'])).toBe('src/a.ts');
+    expect(describeFiles(['a/x.ts', 'b/y.ts', 'c/z.ts'])).toBe('a/x.ts, b/y.ts +1 more');
+  });
+});
+
+describe('formatDiagnostics', () => {
+  it('should render grouped counts with example locations', () => {
+    const text = formatDiagnostics(parseDiagnostics(TSC_OUTPUT));
+
+    expect(text).toContain('4 diagnostics (4 errors, 0 warnings) in 3 files, 2 distinct:');
+    expect(text).toContain('TS2345 x3 in src/api/*.ts');
+    expect(text).toContain('at src/api/user.ts:12:5, src/api/post.ts:40:2, src/api/post.ts:41:9');
+    expect(text).toContain('Top files: src/api/post.ts (2)');
+  });
+
+  it('should cap groups and examples', () => {
+    const text = formatDiagnostics(parseDiagnostics(TSC_OUTPUT), { maxGroups: 1, maxExamples: 1 });
+
+    expect(text).toContain('(+2 more)');
+    expect(text).toContain('… 1 more groups');
+  });
+});
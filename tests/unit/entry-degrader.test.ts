@@ -0,0 +1,77 @@
+/**
+ * Entry Degrader Tests - Head/tail, summary and stub forms
+ */
+
+import { describe, expect, it } from 'vitest';
+import { degradeEntry, isDegraded } from '../../src/core/entry-degrader.js';
+import type { MemoryEntry } from '../../src/types/memory.js';
+import { hashContent } from '../../src/utils/hash.js';
+import { estimateTokens } from '../../src/utils/tokenizer.js';
+
+function makeEntry(content: string, metadata: Record<string, unknown> = {}): MemoryEntry {
+  return {
+    id: 'entry-1',
+    content,
+    hash: hashContent(content),
+    timestamp: Date.now(),
+    score: 0.5,
+    ttl: 86400,
+    state: 'ready',
+    accessCount: 0,
+    tags: [],
+    metadata,
+    isBTSP: false,
+  };
+}
+
+const buildLog = Array.from(
+  { length: 300 },
+  (_, i) => `[${i}] compiling src/module-${i}/index.ts with ${i * 7} symbols`,
+).join('\n');
+
+describe('degradeEntry', () => {
+  it('keeps as much head and tail as fits, with a recall marker', () => {
+    const degraded = degradeEntry(makeEntry(buildLog), 400);
+
+    expect(degraded?.metadata['degraded']).toBe('head-tail');
+    expect(degraded?.content.startsWith('[0] compiling')).toBe(true);
+    expect(
+      degraded?.content.endsWith('[299] compiling src/module-299/index.ts with 2093 symbols'),
+    ).toBe(true);
+    expect(degraded?.content).toMatch(
+      /… \[cortex\] \d+ lines elided \(~\d+ tokens, recall id entry-1\) …/,
+    );
+    expect(estimateTokens(degraded?.content ?? '')).toBeLessThanOrEqual(400);
+    expect(estimateTokens(degraded?.content ?? '')).toBeGreaterThan(300);
+    expect(degraded?.id).toBe('entry-1');
+    expect(degraded?.tags).toContain('degraded');
+  });
+
+  it('falls back to a matching summarizer when head and tail do not fit', () => {
+    const json = JSON.stringify(
+      Array.from({ length: 100 }, (_, i) => ({ id: i, name: `user-${i}`, active: i % 2 === 0 })),
+    );
+
+    const degraded = degradeEntry(makeEntry(json), 120);
+
+    expect(degraded?.metadata['degraded']).toBe('summary');
+    expect(degraded?.content).toMatch(/^\[cortex\] Summary of ~\d+ tokens \(recall id entry-1\):/);
+  });
+
+  it('ends with a one-line stub naming the recall id', () => {
+    const degraded = degradeEntry(makeEntry(buildLog, { toolName: 'Bash' }), 40);
+
+    expect(degraded?.metadata['degraded']).toBe('stub');
+    expect(degraded?.content).toMatch(
+      /^\[cortex\] Bash result pruned \(~\d+ tokens, recall id entry-1\): \[0\] compiling/,
+    );
+    expect(degraded?.metadata['originalTokens']).toBe(estimateTokens(buildLog));
+    expect(isDegraded(degraded as MemoryEntry)).toBe(true);
+  });
+
+  it('leaves small entries and impossible limits alone', () => {
+    expect(degradeEntry(makeEntry('short note'), 2)).toBeNull();
+    expect(degradeEntry(makeEntry(buildLog), 5)).toBeNull();
+    expect(degradeEntry(makeEntry(buildLog), 40, { tiers: ['head-tail'] })).toBeNull();
+  });
+});
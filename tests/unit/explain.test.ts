@@ -0,0 +1,162 @@
+/**
+ * Explain Tests - Why each entry was kept or dropped
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createClaudeCodeAdapter } from '../../src/adapters/claude-code.js';
+import { createGenericAdapter } from '../../src/adapters/generic.js';
+import { formatExplanation } from '../../src/cli/commands/optimize.js';
+import { createBTSPEmbedder } from '../../src/core/btsp-embedder.js';
+import { createBudgetPruner } from '../../src/core/budget-pruner.js';
+import { createEngramScorer } from '../../src/core/engram-scorer.js';
+import type { KVMemory } from '../../src/core/kv-memory.js';
+import { DEFAULT_CONFIG } from '../../src/types/config.js';
+import type { MemoryEntry } from '../../src/types/memory.js';
+import { hashContent } from '../../src/utils/hash.js';
+
+const memory = {
+  put: async () => {},
+  recordOptimization: async () => {},
+} as unknown as KVMemory;
+
+function makeEntry(content: string, overrides: Partial<MemoryEntry> = {}): MemoryEntry {
+  return {
+    id: content.slice(0, 20),
+    content,
+    hash: hashContent(content),
+    timestamp: Date.now(),
+    score: 0.5,
+    ttl: 86400,
+    state: 'ready',
+    accessCount: 0,
+    tags: [],
+    metadata: {},
+    isBTSP: false,
+    ...overrides,
+  };
+}
+
+describe('score breakdowns', () => {
+  it('names the BTSP pattern that matched', () => {
+    const btsp = createBTSPEmbedder();
+
+    expect(btsp.matchBTSP('fs.readFile failed: ENOENT')).toBe(
+      '/\\bENOENT|EACCES|ECONNREFUSED|ETIMEDOUT\\b/',
+    );
+    expect(btsp.matchBTSP('all good')).toBeNull();
+  });
+
+  it('splits the engram score into decay and recency', () => {
+    const scorer = createEngramScorer({ defaultTTL: 24, decayThreshold: 0.95 });
+    const now = Date.now();
+    const entry = makeEntry('fresh entry', { timestamp: now });
+
+    const breakdown = scorer.explainScore(entry, now);
+
+    expect(breakdown.decay).toBe(0);
+    expect(breakdown.recencyBoost).toBeCloseTo(1.3);
+    expect(breakdown.score).toBe(scorer.calculateScore(entry, now));
+  });
+
+  it('gives the budget pruner priority with its components', () => {
+    const pruner = createBudgetPruner({
+      tokenBudget: 1000,
+      decay: { defaultTTL: 24, decayThreshold: 0.95 },
+      states: { activeThreshold: 0.7, readyThreshold: 0.3 },
+    });
+    const entries = [
+      makeEntry('database migration failed halfway', { state: 'active' }),
+      makeEntry('lint passed'),
+    ];
+    const entry = entries[0] as MemoryEntry;
+
+    const breakdown = pruner.priorityBreakdown(entry, entries, undefined, () => 2);
+
+    expect(breakdown.stateMultiplier).toBe(2);
+    expect(breakdown.focusBoost).toBe(2);
+    expect(breakdown.priority).toBeCloseTo(
+      breakdown.tfidf * breakdown.engramScore * breakdown.stateMultiplier * 2,
+    );
+    expect(breakdown.priority).toBeCloseTo(pruner.priorityScore(entry, entries) * 2);
+  });
+});
+
+describe('explain mode', () => {
+  it('explains kept and dropped entries of the generic adapter', async () => {
+    const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
+    const context = [
+      ...Array.from({ length: 20 }, (_, i) => `Note ${i}: nothing to see here.`),
+      'TypeError: Cannot read properties of undefined (reading "id")',
+    ].join('\n\n');
+
+    const result = await adapter.optimize(context, { dryRun: true, explain: true });
+    const explanation = result.explanation;
+
+    expect(explanation?.entries).toHaveLength(21);
+    expect(explanation?.cutoff).toMatchObject({
+      mode: 'top-percent',
+      threshold: DEFAULT_CONFIG.pruning.threshold,
+      tokensUsed: result.tokensAfter,
+    });
+    const kept = explanation?.entries.filter((e) => e.decision === 'kept') ?? [];
+    expect(kept).toHaveLength(result.entriesKept);
+    const error = explanation?.entries[20];
+    expect(error).toMatchObject({ isBTSP: true, state: 'active' });
+    expect(error?.btspPattern).toMatch(/^\//);
+    const dropped = explanation?.entries.find((e) => e.decision === 'dropped');
+    expect(dropped?.reason).toBe(`outside the top ${DEFAULT_CONFIG.pruning.threshold}%`);
+  });
+
+  it('reports the budget cutoff of the Claude Code adapter', async () => {
+    const adapter = createClaudeCodeAdapter(memory, DEFAULT_CONFIG);
+    const context = Array.from(
+      { length: 20 },
+      (_, i) => `User: Message ${i} about topic-${i} with extra words to use tokens`,
+    ).join('\n');
+
+    const result = await adapter.optimize(context, {
+      dryRun: true,
+      tokenBudget: 60,
+      explain: true,
+    });
+    const explanation = result.explanation;
+
+    expect(explanation?.cutoff).toMatchObject({ mode: 'budget', budget: 60 });
+    expect(explanation?.cutoff.tokensUsed).toBeLessThanOrEqual(60);
+    const kept = explanation?.entries.filter((e) => e.decision === 'kept') ?? [];
+    const dropped = explanation?.entries.filter((e) => e.decision === 'dropped') ?? [];
+    expect(kept.length).toBeGreaterThan(0);
+    expect(dropped.length).toBeGreaterThan(0);
+    expect(dropped[0]?.reason).toBe('did not fit the budget');
+    expect(explanation?.cutoff.priority).toBe(Math.min(...kept.map((e) => e.priority)));
+  });
+
+  it('is omitted unless requested', async () => {
+    const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
+
+    const result = await adapter.optimize('one\n\ntwo', { dryRun: true });
+
+    expect(result.explanation).toBeUndefined();
+  });
+});
+
+describe('formatExplanation', () => {
+  it('renders one row per entry and the cutoff', async () => {
+    const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
+    const result = await adapter.optimize('Deploy started\n\nError: deploy failed', {
+      dryRun: true,
+      explain: true,
+    });
+
+    const lines = formatExplanation(
+      result.explanation as NonNullable<typeof result.explanation>,
+    ).split('\n');
+
+    expect(lines[0]).toMatch(/^ID\s+DECISION\s+PRIORITY\s+TF-IDF\s+DECAY\s+RECENCY/);
+    expect(lines[2]).toContain('[BTSP /');
+    expect(lines[2]).toContain('Error: deploy failed');
+    expect(lines[lines.length - 1]).toMatch(
+      /^Cutoff: top \d+%, \d+ tokens kept; lowest kept priority/,
+    );
+  });
+});
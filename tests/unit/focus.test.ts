@@ -0,0 +1,156 @@
+/**
+ * Focus Tests - Query-focused relevance and dependency graph expansion
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createGenericAdapter } from '../../src/adapters/generic.js';
+import { createFocus, loadFocus } from '../../src/core/focus.js';
+import type { KVMemory } from '../../src/core/kv-memory.js';
+import { createSparsePruner } from '../../src/core/sparse-pruner.js';
+import { DEFAULT_CONFIG } from '../../src/types/config.js';
+import type { MemoryEntry } from '../../src/types/memory.js';
+import { hashContent } from '../../src/utils/hash.js';
+
+function makeEntry(content: string): MemoryEntry {
+  return {
+    id: content.slice(0, 20),
+    content,
+    hash: hashContent(content),
+    timestamp: Date.now(),
+    score: 0.5,
+    ttl: 86400,
+    state: 'ready',
+    accessCount: 0,
+    tags: [],
+    metadata: {},
+    isBTSP: false,
+  };
+}
+
+describe('createFocus', () => {
+  it('scores entries by the query terms they mention', () => {
+    const focus = createFocus('login redirect bug');
+
+    expect(focus.terms).toEqual(['redirect', 'login', 'bug']);
+    expect(focus.relevance(makeEntry('The login page redirects twice: a bug'))).toBe(1);
+    expect(focus.relevance(makeEntry('login works'))).toBeCloseTo(1 / 3);
+    expect(focus.relevance(makeEntry('Unrelated build output'))).toBe(0);
+  });
+
+  it('matches inflections and identifier parts', () => {
+    const focus = createFocus('redirect');
+
+    expect(focus.relevance(makeEntry('function handleRedirect(url) {}'))).toBe(1);
+    expect(focus.relevance(makeEntry('it redirected to /home'))).toBe(1);
+    expect(focus.relevance(makeEntry('direct call'))).toBe(0);
+  });
+
+  it('boosts priority up to maxBoost and leaves unrelated entries at 1', () => {
+    const focus = createFocus('redirect', { maxBoost: 4 });
+
+    expect(focus.boost(makeEntry('redirect loop'))).toBe(4);
+    expect(focus.boost(makeEntry('nothing here'))).toBe(1);
+  });
+
+  it('expands files and symbols the query names through the dependency graph', () => {
+    const node = (filePath: string, imports: string[], callers: string[], exports: string[]) => ({
+      filePath,
+      exports,
+      imports: imports.map((target) => ({ source: filePath, target, symbols: [] })),
+      callers,
+      engram_score: 0,
+      lastModified: 0,
+      tokenEstimate: 0,
+    });
+    const graph = new Map([
+      ['src/auth/login.ts', node('src/auth/login.ts', ['src/auth/session.ts'], [], ['login'])],
+      [
+        'src/auth/session.ts',
+        node('src/auth/session.ts', [], ['src/auth/login.ts'], ['createSession']),
+      ],
+      ['src/ui/theme.ts', node('src/ui/theme.ts', [], [], ['darkTheme'])],
+    ]);
+
+    const focus = createFocus('login redirect', { graph });
+
+    expect([...focus.files]).toEqual([
+      ['src/auth/login.ts', 1],
+      ['src/auth/session.ts', 0.5],
+    ]);
+    expect(focus.relevance(makeEntry('Error in createSession: token expired'))).toBe(0.5);
+    expect(focus.relevance(makeEntry('Read src/auth/login.ts'))).toBe(1);
+    expect(focus.relevance(makeEntry('darkTheme applied'))).toBe(0);
+  });
+});
+
+describe('loadFocus', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = join(tmpdir(), `cortex-focus-test-${Date.now()}`);
+    mkdirSync(join(projectRoot, 'src'), { recursive: true });
+    writeFileSync(
+      join(projectRoot, 'src/router.ts'),
+      "import { checkAuth } from './guard.js';\nexport function navigate() { checkAuth(); }\n",
+    );
+    writeFileSync(join(projectRoot, 'src/guard.ts'), 'export function checkAuth() {}\n');
+  });
+
+  afterEach(() => {
+    rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('builds the project dependency graph', async () => {
+    const focus = await loadFocus('navigate loops forever', projectRoot);
+
+    expect(focus.files.get('src/router.ts')).toBe(1);
+    expect(focus.files.get('src/guard.ts')).toBe(0.5);
+  });
+});
+
+describe('focused pruning', () => {
+  it('lets the sparse pruner keep entries related to the focus', () => {
+    const pruner = createSparsePruner({ threshold: 10 });
+    const entries = [
+      ...Array.from({ length: 9 }, (_, i) =>
+        makeEntry(`Rendered widget ${i} with unique palette ${i}`),
+      ),
+      makeEntry('Rendered widget with palette redirect'),
+    ];
+
+    const plain = pruner.prune(entries);
+    const focused = pruner.prune(entries, createFocus('redirect').boost);
+
+    expect(plain.kept.map((e) => e.content)).not.toContain('Rendered widget with palette redirect');
+    expect(focused.kept.map((e) => e.content)).toEqual(['Rendered widget with palette redirect']);
+  });
+
+  it('is accepted by the generic adapter', async () => {
+    const memory = {
+      put: async () => {},
+      recordOptimization: async () => {},
+    } as unknown as KVMemory;
+    const adapter = createGenericAdapter(memory, DEFAULT_CONFIG);
+    const context = [
+      ...Array.from({ length: 30 }, (_, i) => `Rendered widget ${i} with unique palette ${i}`),
+      'Rendered widget with palette: login redirect fails',
+    ].join('\n\n');
+
+    const emptyProject = mkdtempSync(join(tmpdir(), 'cortex-focus-empty-'));
+
+    try {
+      const result = await adapter.optimize(context, {
+        dryRun: true,
+        focus: 'login redirect bug',
+        focusRoot: emptyProject,
+      });
+
+      expect(result.optimizedContext).toContain('login redirect fails');
+    } finally {
+      rmSync(emptyProject, { recursive: true, force: true });
+    }
+  });
+});
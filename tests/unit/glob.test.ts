@@ -0,0 +1,36 @@
+/**
+ * Glob Tests - Path pattern matching for hook rules
+ */
+
+import { describe, expect, it } from 'vitest';
+import { globToRegExp, matchesGlob } from '../../src/utils/glob.js';
+
+describe('globToRegExp', () => {
+  it('should keep * within a path segment', () => {
+    expect(globToRegExp('src/*.ts').test('src/a.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/sub/a.ts')).toBe(false);
+  });
+
+  it('should let ** span any number of segments', () => {
+    expect(globToRegExp('**/dist/**').test('dist/index.js')).toBe(true);
+    expect(globToRegExp('**/dist/**').test('packages/a/dist/x/y.js')).toBe(true);
+    expect(globToRegExp('**/dist/**').test('src/distance.ts')).toBe(false);
+  });
+
+  it('should escape regex characters', () => {
+    expect(globToRegExp('a+b.(x)').test('a+b.(x)')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match slash-less patterns against the file name', () => {
+    expect(matchesGlob('packages/web/package-lock.json', 'package-lock.json')).toBe(true);
+    expect(matchesGlob('public/vendor.min.js', '*.min.js')).toBe(true);
+    expect(matchesGlob('src/main.js', '*.min.js')).toBe(false);
+  });
+
+  it('should normalize Windows separators and leading ./', () => {
+    expect(matchesGlob('.\\src\\a.ts', 'src/*.ts')).toBe(true);
+  });
+});
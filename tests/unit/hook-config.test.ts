@@ -0,0 +1,119 @@
+/**
+ * Hook Config Tests - Merging and validating the hooks config section
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  defaultHooksConfig,
+  loadHooksConfig,
+  loadRedactionConfig,
+  mergeHooksConfig,
+  readHooksConfig,
+  resolveToolRule,
+  validateHooksConfig,
+} from '../../src/hooks/hook-config.js';
+
+describe('Hook config', () => {
+  let root: string;
+  let home: string;
+  let project: string;
+
+  const writeConfig = (dir: string, yaml: string): void => {
+    mkdirSync(join(dir, '.cortex'), { recursive: true });
+    writeFileSync(join(dir, '.cortex', 'config.yaml'), yaml);
+  };
+
+  beforeEach(() => {
+    root = join(tmpdir(), `cortex-hook-config-test-${Date.now()}-${Math.random()}`);
+    home = join(root, 'home');
+    project = join(root, 'project');
+    mkdirSync(home, { recursive: true });
+    mkdirSync(project, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should use defaults when no config files exist', () => {
+    const config = loadHooksConfig(project, home);
+
+    expect(config).toEqual(defaultHooksConfig());
+    expect(config.postToolUse.matcher).toBe('Bash|Read|Grep|Glob');
+    expect(config.transcript.contextWindows).toEqual({ default: 200_000 });
+    expect(config.transcript.warnPercent).toBe(50);
+  });
+
+  it('should layer project settings over global settings', () => {
+    writeConfig(
+      home,
+      'hooks:\n  transcript:\n    warnPercent: 60\n    criticalPercent: 85\n    contextWindows:\n      claude-sonnet-4: 1000000\n',
+    );
+    writeConfig(
+      project,
+      'hooks:\n  transcript:\n    criticalPercent: 90\n    contextWindows:\n      claude-opus-4: 500000\n',
+    );
+
+    const merged = loadHooksConfig(project, home).transcript;
+    expect(merged).toMatchObject({ warnPercent: 60, criticalPercent: 90 });
+    expect(merged.contextWindows).toEqual({
+      default: 200_000,
+      'claude-sonnet-4': 1_000_000,
+      'claude-opus-4': 500_000,
+    });
+    expect(readHooksConfig(null, home).transcript).toMatchObject({
+      warnPercent: 60,
+      criticalPercent: 85,
+    });
+  });
+
+  it('should merge per-tool rules field by field', () => {
+    const config = mergeHooksConfig(defaultHooksConfig(), {
+      postToolUse: { tools: { Bash: { threshold: 500 }, default: { maxSummaryLength: 2000 } } },
+    });
+
+    expect(resolveToolRule(config, 'Bash')).toEqual({ threshold: 500, maxSummaryLength: 2000 });
+    expect(resolveToolRule(config, 'Grep')).toEqual({ threshold: 3000, maxSummaryLength: 2000 });
+  });
+
+  it('should fall back to defaults when the merged config is invalid', () => {
+    writeConfig(project, 'hooks:\n  preToolUse:\n    warnReadBytes: 5000\n    denyReadBytes: 10\n');
+
+    expect(validateHooksConfig(readHooksConfig(project, home))).toEqual([
+      'hooks.preToolUse.denyReadBytes must be >= warnReadBytes',
+    ]);
+    expect(loadHooksConfig(project, home)).toEqual(defaultHooksConfig());
+  });
+
+  it('should report problems with dotted paths', () => {
+    const config = mergeHooksConfig(defaultHooksConfig(), {
+      postToolUse: {
+        matcher: 'Bash|(',
+        tools: { Read: { summarizers: ['outline', 'nope'], maxSummaryLength: 10 } },
+      },
+      preToolUse: { generatedAction: 'block' },
+    });
+
+    const errors = validateHooksConfig(config);
+    expect(errors).toContain('hooks.preToolUse.generatedAction must be "warn" or "deny"');
+    expect(errors).toContain('hooks.postToolUse.matcher is not a valid regex: Bash|(');
+    expect(errors).toContain(
+      'hooks.postToolUse.tools.Read.maxSummaryLength must be an integer >= 100 (characters)',
+    );
+    expect(errors.some((e) => e.includes('unknown summarizer "nope"'))).toBe(true);
+  });
+
+  it('should combine redaction patterns from global and project config', () => {
+    writeConfig(home, 'redaction:\n  patterns: ["corp-[0-9]+"]\n');
+    writeConfig(project, 'redaction:\n  highEntropy: false\n  patterns: ["acme-[a-z]+"]\n');
+
+    expect(loadRedactionConfig(project, home)).toEqual({
+      enabled: true,
+      highEntropy: false,
+      patterns: ['corp-[0-9]+', 'acme-[a-z]+'],
+    });
+  });
+});
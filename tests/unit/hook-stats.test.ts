@@ -0,0 +1,55 @@
+/**
+ * Hook Stats Tests - Hook invocation rows written by hook processes
+ */
+
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { readHookToolStats, recordHookInvocationInDB } from '../../src/core/hook-stats.js';
+
+describe('recordHookInvocationInDB', () => {
+  let dir: string;
+  const invocation = {
+    timestamp: 1_700_000_000_000,
+    event: 'PreToolUse',
+    tool_name: 'Read',
+    input_tokens: 12.4,
+    summary_tokens: 0,
+    latency_ms: 41.7,
+    session_id: 'abc',
+    agent: 'cursor',
+  };
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `cortex-hook-stats-${Date.now()}-${Math.random()}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create the table and round numbers', () => {
+    const dbPath = join(dir, 'memory.db');
+    new Database(dbPath).close();
+
+    recordHookInvocationInDB(dbPath, invocation);
+    const db = new Database(dbPath);
+    const row = db.prepare('SELECT * FROM hook_invocations').get();
+    const stats = readHookToolStats(db);
+    db.close();
+
+    expect(row).toMatchObject({ input_tokens: 12, latency_ms: 42, agent: 'cursor' });
+    expect(stats).toHaveLength(1);
+    expect(stats[0]?.invocations).toBe(1);
+  });
+
+  it('should not create a database for uninitialized projects', () => {
+    const dbPath = join(dir, 'missing', 'memory.db');
+
+    expect(() => recordHookInvocationInDB(dbPath, invocation)).not.toThrow();
+    expect(existsSync(dbPath)).toBe(false);
+  });
+});
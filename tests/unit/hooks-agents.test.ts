@@ -0,0 +1,169 @@
+/**
+ * Hook Target Tests - Per-agent hook config files
+ */
+
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { hooksCommand } from '../../src/cli/commands/hooks.js';
+import { getHookTarget } from '../../src/cli/commands/hooks-agents.js';
+import { defaultHooksConfig } from '../../src/hooks/hook-config.js';
+
+describe('Hook targets', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `cortex-hook-targets-${Date.now()}-${Math.random()}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('entries', () => {
+    it('should translate events, matchers and timeouts for Gemini CLI', () => {
+      const entries = getHookTarget('gemini-cli').entries(defaultHooksConfig());
+
+      expect(entries.map((e) => e.event)).toEqual([
+        'BeforeAgent',
+        'AfterTool',
+        'BeforeTool',
+        'AfterAgent',
+        'SessionStart',
+      ]);
+      expect(entries.find((e) => e.event === 'BeforeTool')?.matcher).toBe(
+        'run_shell_command|read_file',
+      );
+      expect(entries[0]?.timeout).toBe(10000);
+      // The handoff digest parses Claude Code transcripts only
+      expect(entries.some((e) => e.script === 'stopHandoff')).toBe(false);
+    });
+
+    it('should split Cursor tool hooks per event', () => {
+      const entries = getHookTarget('cursor').entries(defaultHooksConfig());
+
+      expect(entries).toEqual([
+        { script: 'preToolUse', event: 'beforeShellExecution' },
+        { script: 'preToolUse', event: 'beforeReadFile' },
+        { script: 'stopDocsRefresh', event: 'stop' },
+      ]);
+    });
+  });
+
+  describe('Gemini CLI settings.json', () => {
+    it('should write matcher groups and keep other settings', () => {
+      const path = join(dir, '.gemini', 'settings.json');
+      mkdirSync(join(dir, '.gemini'));
+      writeFileSync(path, JSON.stringify({ theme: 'dark' }));
+      const { store } = getHookTarget('gemini-cli');
+
+      store.write(path, [
+        {
+          event: 'AfterTool',
+          matcher: 'run_shell_command',
+          command: 'node "/opt/cortex/dist/hooks/post-tool-result.js" --agent gemini-cli',
+          timeout: 10000,
+        },
+      ]);
+      const settings = JSON.parse(readFileSync(path, 'utf-8'));
+
+      expect(settings.theme).toBe('dark');
+      expect(settings.hooks.AfterTool[0]).toEqual({
+        matcher: 'run_shell_command',
+        hooks: [
+          {
+            type: 'command',
+            command: 'node "/opt/cortex/dist/hooks/post-tool-result.js" --agent gemini-cli',
+            timeout: 10000,
+          },
+        ],
+      });
+      expect(store.read(path)).toHaveLength(1);
+    });
+  });
+
+  describe('Codex config.toml', () => {
+    const command = 'node "/opt/cortex/dist/hooks/pre-tool-use.js" --agent codex';
+
+    it('should append a managed block and replace it on reinstall', () => {
+      const path = join(dir, 'config.toml');
+      writeFileSync(path, 'model = "gpt-5"\n\n[profiles.fast]\nmodel = "gpt-5-mini"\n');
+      const { store } = getHookTarget('codex');
+
+      store.write(path, [{ event: 'PreToolUse', matcher: 'shell', command, timeout: 10 }]);
+      store.write(path, [{ event: 'PreToolUse', matcher: 'shell', command, timeout: 10 }]);
+      const text = readFileSync(path, 'utf-8');
+
+      expect(text.startsWith('model = "gpt-5"\n\n[profiles.fast]')).toBe(true);
+      expect(text.match(/\[\[hooks\.PreToolUse\]\]/g)).toHaveLength(1);
+      expect(text).toContain('[[hooks.PreToolUse.hooks]]\ntype = "command"');
+      expect(text).toContain(`command = ${JSON.stringify(command)}`);
+      expect(store.read(path)).toEqual([{ event: 'PreToolUse', matcher: 'shell', command }]);
+
+      store.remove(path);
+      expect(readFileSync(path, 'utf-8')).toBe(
+        'model = "gpt-5"\n\n[profiles.fast]\nmodel = "gpt-5-mini"\n',
+      );
+    });
+  });
+
+  describe('Cursor hooks.json via hooksCommand', () => {
+    let originalCwd: () => string;
+
+    beforeEach(() => {
+      originalCwd = process.cwd;
+      process.cwd = () => dir;
+    });
+
+    afterEach(() => {
+      process.cwd = originalCwd;
+    });
+
+    it('should report and remove only cortex hooks', async () => {
+      mkdirSync(join(dir, '.cursor'));
+      const path = join(dir, '.cursor', 'hooks.json');
+      writeFileSync(
+        path,
+        JSON.stringify({
+          version: 1,
+          hooks: {
+            beforeShellExecution: [
+              { command: './audit.sh' },
+              { command: 'node "/opt/cortex/dist/hooks/pre-tool-use.js" --agent cursor' },
+            ],
+            stop: [
+              { command: 'node "/opt/cortex/dist/hooks/stop-docs-refresh.js" --agent cursor' },
+            ],
+          },
+        }),
+      );
+
+      const status = await hooksCommand({ subcommand: 'status', agent: 'cursor' });
+
+      expect(status.installed).toBe(true);
+      expect(status.message).toBe('Project cortex hooks active (Cursor)');
+      expect(status.hookPaths?.preToolUse).toContain('--agent cursor');
+      expect(status.hookPaths?.prePrompt).toBe('(not installed)');
+
+      await hooksCommand({ subcommand: 'uninstall', agent: 'cursor' });
+      const config = JSON.parse(readFileSync(path, 'utf-8'));
+
+      expect(config).toEqual({
+        version: 1,
+        hooks: { beforeShellExecution: [{ command: './audit.sh' }] },
+      });
+    });
+
+    it('should reject unknown agents', async () => {
+      const result = await hooksCommand({
+        subcommand: 'status',
+        agent: 'vim' as unknown as 'cursor',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('gemini-cli');
+    });
+  });
+});
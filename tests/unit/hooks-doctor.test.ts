@@ -0,0 +1,195 @@
+/**
+ * Hooks Doctor Tests - Script checks, output schema and synthetic replays
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  hooksDoctorCommand,
+  scriptFromCommand,
+  validateHookOutput,
+} from '../../src/cli/commands/hooks-doctor.js';
+
+describe('scriptFromCommand', () => {
+  it('should find the script after an interpreter', () => {
+    expect(scriptFromCommand('node /opt/cortex/dist/hooks/pre-prompt.js')).toEqual({
+      script: '/opt/cortex/dist/hooks/pre-prompt.js',
+      interpreted: true,
+    });
+    expect(scriptFromCommand('node --no-warnings "/a b/cortex/hook.js"')).toEqual({
+      script: '/a b/cortex/hook.js',
+      interpreted: true,
+    });
+  });
+
+  it('should treat a path command as the script itself', () => {
+    expect(scriptFromCommand('/usr/local/bin/cortex-hook --fast')).toEqual({
+      script: '/usr/local/bin/cortex-hook',
+      interpreted: false,
+    });
+  });
+
+  it('should return null for bare commands', () => {
+    expect(scriptFromCommand('cortex relay')).toBeNull();
+    expect(scriptFromCommand('')).toBeNull();
+  });
+});
+
+describe('validateHookOutput', () => {
+  it('should accept empty output and valid additionalContext', () => {
+    expect(validateHookOutput('PostToolUse', '')).toEqual([]);
+    const output = JSON.stringify({
+      hookSpecificOutput: { hookEventName: 'PostToolUse', additionalContext: 'summary' },
+    });
+    expect(validateHookOutput('PostToolUse', output)).toEqual([]);
+  });
+
+  it('should allow plain text only where Claude Code shows it', () => {
+    expect(validateHookOutput('UserPromptSubmit', 'context')).toEqual([]);
+    expect(validateHookOutput('PostToolUse', 'context')[0]).toContain('not JSON');
+  });
+
+  it('should flag schema problems', () => {
+    const output = JSON.stringify({
+      extra: true,
+      hookSpecificOutput: { hookEventName: 'PreToolUse', additionalContext: 42 },
+    });
+    const problems = validateHookOutput('PostToolUse', output);
+
+    expect(problems).toContain('unknown output field "extra"');
+    expect(problems.some((p) => p.includes('expected "PostToolUse"'))).toBe(true);
+    expect(problems).toContain('hookSpecificOutput.additionalContext must be a string');
+  });
+
+  it('should check PreToolUse permission decisions', () => {
+    const output = JSON.stringify({
+      hookSpecificOutput: { hookEventName: 'PreToolUse', permissionDecision: 'block' },
+    });
+    expect(validateHookOutput('PreToolUse', output)).toEqual([
+      'hookSpecificOutput.permissionDecision must be allow, deny or ask',
+    ]);
+  });
+
+  it('should reject additionalContext from Stop hooks', () => {
+    const output = JSON.stringify({
+      hookSpecificOutput: { hookEventName: 'Stop', additionalContext: 'x' },
+    });
+    expect(validateHookOutput('Stop', output)).toEqual(['Stop hooks cannot add additionalContext']);
+  });
+});
+
+describe('hooksDoctorCommand', () => {
+  let dir: string;
+  let settingsPath: string;
+
+  function writeHook(name: string, source: string): string {
+    const path = join(dir, 'cortex', `${name}.js`);
+    writeFileSync(path, source, 'utf-8');
+    return path;
+  }
+
+  function writeSettings(hooks: Record<string, unknown>): void {
+    writeFileSync(settingsPath, JSON.stringify({ hooks }), 'utf-8');
+  }
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `cortex-doctor-test-${Date.now()}-${Math.random()}`);
+    mkdirSync(join(dir, 'cortex'), { recursive: true });
+    settingsPath = join(dir, 'settings.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fail when settings.json is missing', async () => {
+    const result = await hooksDoctorCommand({ settingsPath });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('cortex hooks install');
+  });
+
+  it('should report missing scripts without running them', async () => {
+    writeSettings({
+      Stop: [{ hooks: [{ type: 'command', command: `node ${join(dir, 'cortex', 'gone.js')}` }] }],
+    });
+
+    const result = await hooksDoctorCommand({ settingsPath, runs: 1 });
+
+    expect(result.success).toBe(false);
+    expect(result.hooks[0]?.issues[0]).toContain('Script not found');
+    expect(result.hooks[0]?.runs).toHaveLength(0);
+  });
+
+  it('should pass a well-behaved hook and report latency', async () => {
+    const script = writeHook(
+      'post',
+      `let input = '';
+process.stdin.on('data', (c) => { input += c; });
+process.stdin.on('end', () => {
+  const { hook_event_name } = JSON.parse(input);
+  console.log(JSON.stringify({ hookSpecificOutput: { hookEventName: hook_event_name, additionalContext: 'ok' } }));
+});`,
+    );
+    writeSettings({
+      PostToolUse: [{ matcher: 'Bash', hooks: [{ type: 'command', command: `node ${script}` }] }],
+    });
+
+    const result = await hooksDoctorCommand({ settingsPath, runs: 2 });
+    const hook = result.hooks[0];
+
+    expect(result.success).toBe(true);
+    expect(hook?.matcher).toBe('Bash');
+    // Only the Bash payload matches the matcher
+    expect(hook?.runs.map((r) => r.payload)).toEqual(['Bash', 'Bash']);
+    expect(hook?.latency?.p95).toBeGreaterThan(0);
+  });
+
+  it('should flag stderr, exit codes and invalid output', async () => {
+    const script = writeHook(
+      'noisy',
+      `console.error('boom');
+console.log(JSON.stringify({ hookSpecificOutput: { hookEventName: 'Stop' } }));
+process.exit(2);`,
+    );
+    writeSettings({
+      UserPromptSubmit: [{ hooks: [{ type: 'command', command: `node ${script}` }] }],
+    });
+
+    const result = await hooksDoctorCommand({ settingsPath, runs: 1 });
+    const issues = result.hooks[0]?.issues ?? [];
+
+    expect(result.success).toBe(false);
+    expect(issues).toContain('Exited with code 2 (prompt)');
+    expect(issues).toContain('Wrote to stderr: boom (prompt)');
+    expect(
+      issues.some((i) => i.startsWith('Invalid output: hookSpecificOutput.hookEventName')),
+    ).toBe(true);
+  });
+
+  it('should flag hooks that exceed their timeout', async () => {
+    const script = writeHook('slow', 'setTimeout(() => {}, 5000);');
+    writeSettings({
+      Stop: [{ hooks: [{ type: 'command', command: `node ${script}`, timeout: 1 }] }],
+    });
+
+    const result = await hooksDoctorCommand({ settingsPath, runs: 3 });
+
+    expect(result.hooks[0]?.issues).toContain('Timed out after 1s (stop)');
+    // Stops retrying once a run times out
+    expect(result.hooks[0]?.runs).toHaveLength(1);
+  });
+
+  it('should ignore hooks not managed by cortex', async () => {
+    writeSettings({
+      Stop: [{ hooks: [{ type: 'command', command: 'echo done' }] }],
+    });
+
+    const result = await hooksDoctorCommand({ settingsPath });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('No cortex hooks installed');
+  });
+});
@@ -36,6 +36,20 @@ describe('Hooks Command', () => {
       expect(result.error).toContain('not built');
     });
 
+    it('should refuse to install with an invalid hooks config', async () => {
+      mkdirSync(join(tmpDir, '.cortex'), { recursive: true });
+      writeFileSync(
+        join(tmpDir, '.cortex', 'config.yaml'),
+        'hooks:\n  preToolUse:\n    generatedAction: block\n',
+      );
+
+      const result = await hooksCommand({ subcommand: 'install' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid hooks config');
+      expect(result.error).toContain('hooks.preToolUse.generatedAction');
+    });
+
     it('should write correct Claude Code hook format', async () => {
       // Create fake hook scripts to pass existence check
       const distHooksDir = join(process.cwd(), 'dist', 'hooks');
@@ -259,6 +273,17 @@ describe('Hooks Command', () => {
                 ],
               },
             ],
+            PreToolUse: [
+              {
+                matcher: 'Bash|Read',
+                hooks: [
+                  {
+                    type: 'command',
+                    command: 'node /path/to/cortex/dist/hooks/pre-tool-use.js',
+                  },
+                ],
+              },
+            ],
             Stop: [
               {
                 hooks: [
@@ -280,7 +305,52 @@ describe('Hooks Command', () => {
       expect(result.installed).toBe(true);
       expect(result.hookPaths?.prePrompt).toContain('cortex');
       expect(result.hookPaths?.postToolResult).toContain('cortex');
+      expect(result.hookPaths?.preToolUse).toContain('pre-tool-use');
       expect(result.hookPaths?.stopDocsRefresh).toContain('cortex');
+      expect(result.hookPaths?.stopHandoff).toBe('(not installed)');
+      expect(result.hookPaths?.sessionStart).toBe('(not installed)');
+    });
+
+    it('should tell the Stop hooks apart and detect the SessionStart hook', async () => {
+      writeFileSync(
+        settingsPath,
+        JSON.stringify({
+          hooks: {
+            Stop: [
+              {
+                hooks: [
+                  {
+                    type: 'command',
+                    command: 'node /path/to/cortex/dist/hooks/stop-handoff.js',
+                  },
+                ],
+              },
+            ],
+            SessionStart: [
+              {
+                hooks: [
+                  {
+                    type: 'command',
+                    command: 'node /path/to/cortex/dist/hooks/session-start.js',
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+        'utf-8',
+      );
+
+      const status = await hooksCommand({ subcommand: 'status' });
+
+      expect(status.installed).toBe(true);
+      expect(status.hookPaths?.stopDocsRefresh).toBe('(not installed)');
+      expect(status.hookPaths?.stopHandoff).toContain('stop-handoff');
+      expect(status.hookPaths?.sessionStart).toContain('session-start');
+
+      await hooksCommand({ subcommand: 'uninstall' });
+      const settings = JSON.parse(readFileSync(settingsPath, 'utf-8'));
+      expect(settings.hooks).toBeUndefined();
     });
 
     it('should report not installed when only non-cortex hooks exist', async () => {
@@ -0,0 +1,97 @@
+/**
+ * JSON Shape Tests - Schema-inferred summaries of large JSON values
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatJSONShape, inferJSONShape, summarizeJSON } from '../../src/utils/json-shape.js';
+
+describe('inferJSONShape', () => {
+  it('should merge array items into one node per key', () => {
+    const shape = inferJSONShape([
+      { id: 1, tag: 'a' },
+      { id: 7, tag: null },
+      { id: 3, extra: true },
+    ]);
+
+    const items = shape.arrays?.items;
+    expect(shape.arrays).toMatchObject({ count: 1, minLength: 3, maxLength: 3 });
+    expect(items?.objects?.count).toBe(3);
+    expect(items?.objects?.fields.get('id')?.numbers).toEqual({
+      count: 3,
+      min: 1,
+      max: 7,
+      integer: true,
+    });
+    expect(items?.objects?.fields.get('tag')).toMatchObject({ count: 2, nulls: 1 });
+    expect(items?.objects?.fields.get('extra')?.booleans).toEqual({ trues: 1, falses: 0 });
+  });
+});
+
+describe('formatJSONShape', () => {
+  const users = Array.from({ length: 40 }, (_, i) => ({
+    id: i + 1,
+    name: `user-${i}`,
+    role: i % 4 === 0 ? 'admin' : 'member',
+    score: i / 2,
+    createdAt: `2024-03-${String((i % 28) + 1).padStart(2, '0')}T12:00:00Z`,
+    ...(i % 2 === 0 ? { manager: { id: i + 100 } } : {}),
+  }));
+
+  it('should render keys, types, ranges, enums and optional fields', () => {
+    const text = formatJSONShape(inferJSONShape({ users, total: 40 }));
+
+    expect(text).toContain('$: object');
+    expect(text).toContain('  users: array[40] of object');
+    expect(text).toContain('    id: integer 1..40');
+    expect(text).toContain('    name: string (6..7 chars) e.g. "user-0", "user-1"');
+    expect(text).toContain('    role: enum "member" (30) | "admin" (10)');
+    expect(text).toContain('    score: number 0..19.5');
+    expect(text).toContain('    createdAt: date 2024-03-01T12:00:00Z..2024-03-28T12:00:00Z');
+    expect(text).toContain('    manager? (20/40): object');
+    expect(text).toContain('      id: integer 100..138');
+    expect(text).toContain('  total: integer 40');
+  });
+
+  it('should show the first sample and the richest one per array of objects', () => {
+    const text = formatJSONShape(inferJSONShape([{ a: 1 }, { a: 2, b: 'x', c: [1] }, { a: 3 }]));
+    const samples = text.split('\n').filter((l) => l.includes('e.g. {'));
+
+    expect(samples).toEqual(['  e.g. {"a":1}', '  e.g. {"a":2,"b":"x","c":[1]}']);
+  });
+
+  it('should describe unions and nested arrays', () => {
+    const text = formatJSONShape(
+      inferJSONShape({
+        matrix: [
+          [1, 2],
+          [3, 4, 5],
+        ],
+        value: [1, 'two', null],
+      }),
+    );
+
+    expect(text).toContain('matrix: array[2] of array[2..3] of integer 1..5');
+    expect(text).toContain('value: array[3] of integer 1 | string (3 chars) e.g. "two" | null');
+  });
+
+  it('should stop expanding past maxDepth and cap keys', () => {
+    const wide = Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`k${i}`, { deep: i }]));
+    const text = formatJSONShape(inferJSONShape(wide), { maxKeys: 3, maxDepth: 1 });
+
+    expect(text).toContain('  k2: object');
+    expect(text).not.toContain('deep');
+    expect(text).toContain('  … 7 more keys');
+  });
+});
+
+describe('summarizeJSON', () => {
+  it('should return null for non-JSON and scalar JSON', () => {
+    expect(summarizeJSON('hello world')).toBeNull();
+    expect(summarizeJSON('{not json')).toBeNull();
+    expect(summarizeJSON('42')).toBeNull();
+  });
+
+  it('should summarize objects and arrays with surrounding whitespace', () => {
+    expect(summarizeJSON('\n  {"ok": true}\n')).toBe('$: object\n  ok: boolean true');
+  });
+});
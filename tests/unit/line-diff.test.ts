@@ -0,0 +1,54 @@
+/**
+ * Line Diff Tests - Compact unified diffs
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatUnifiedDiff } from '../../src/utils/line-diff.js';
+
+const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`);
+
+describe('formatUnifiedDiff', () => {
+  it('should return an empty string for identical texts', () => {
+    expect(formatUnifiedDiff('a\nb', 'a\nb')).toBe('');
+  });
+
+  it('should render a single-line change with context', () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    expect(formatUnifiedDiff(before.join('\n'), after.join('\n'))).toBe(
+      ['@@ -3,5 +3,5 @@', ' line 3', ' line 4', '-line 5', '+changed', ' line 6', ' line 7'].join(
+        '\n',
+      ),
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = lines(30);
+    const after = [...before];
+    after[2] = 'x';
+    after[25] = 'y';
+
+    const diff = formatUnifiedDiff(before.join('\n'), after.join('\n'));
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+  });
+
+  it('should track line numbers across insertions and offsets', () => {
+    const before = ['a', 'b', 'c'];
+    const after = ['a', 'inserted', 'b', 'c'];
+
+    const diff = formatUnifiedDiff(before.join('\n'), after.join('\n'), { startLine: 100 });
+    expect(diff.split('\n')[0]).toBe('@@ -100,3 +100,4 @@');
+    expect(diff).toContain('+inserted');
+  });
+
+  it('should truncate long diffs', () => {
+    const before = lines(200);
+    const after = before.map((l) => `${l}!`);
+
+    const diff = formatUnifiedDiff(before.join('\n'), after.join('\n'), { maxLines: 10 });
+    expect(diff.split('\n')).toHaveLength(11);
+    expect(diff).toMatch(/… \d+ more diff lines$/);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Log Templates Tests - Drain-style clustering of repetitive log lines
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  formatLogTemplates,
+  mineLogTemplates,
+  summarizeLog,
+} from '../../src/utils/log-templates.js';
+
+function requestLog(count: number): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const ts = `2024-05-01T10:00:${String(i % 60).padStart(2, '0')}Z`;
+    lines.push(`${ts} INFO GET /api/users/${1000 + i} took ${i % 7}ms`);
+  }
+  return lines;
+}
+
+describe('mineLogTemplates', () => {
+  it('should cluster lines that differ only in variable tokens', () => {
+    const result = mineLogTemplates(requestLog(40).join('\n'));
+
+    expect(result.totalLines).toBe(40);
+    expect(result.rare).toEqual([]);
+    expect(result.templates).toHaveLength(1);
+    const [template] = result.templates;
+    expect(template?.template).toBe('INFO GET <*> took <*>');
+    expect(template?.count).toBe(40);
+    expect(template?.firstTimestamp).toBe('2024-05-01T10:00:00Z');
+    expect(template?.lastTimestamp).toBe('2024-05-01T10:00:39Z');
+    expect(template?.examples).toEqual([
+      ['/api/users/1000', '/api/users/1001', '/api/users/1002'],
+      ['0ms', '1ms', '2ms'],
+    ]);
+  });
+
+  it('should keep key= prefixes and syslog timestamps', () => {
+    const text = [
+      'Mar  4 10:22:01 host sshd: accepted user=alice port=5122',
+      'Mar  4 10:22:09 host sshd: accepted user=bob port=6022',
+    ].join('\n');
+
+    const [template] = mineLogTemplates(text).templates;
+
+    expect(template?.template).toBe('host sshd: accepted <*> port=<*>');
+    expect(template?.examples).toEqual([
+      ['user=alice', 'user=bob'],
+      ['5122', '6022'],
+    ]);
+    expect(template?.firstTimestamp).toBe('Mar  4 10:22:01');
+  });
+
+  it('should report rare lines verbatim with line numbers', () => {
+    const lines = requestLog(10);
+    lines.splice(4, 0, '2024-05-01T10:00:04Z ERROR connection refused to redis:6379');
+
+    const result = mineLogTemplates(lines.join('\n'));
+
+    expect(result.rare).toEqual([
+      { line: 5, text: '2024-05-01T10:00:04Z ERROR connection refused to redis:6379' },
+    ]);
+    expect(result.templates[0]?.count).toBe(10);
+  });
+});
+
+describe('formatLogTemplates', () => {
+  it('should list templates with counts, time spans and examples', () => {
+    const lines = requestLog(30);
+    lines.push('2024-05-01T10:01:00Z WARN disk almost full');
+
+    const text = formatLogTemplates(mineLogTemplates(lines.join('\n')));
+
+    expect(text).toContain('31 lines → 1 templates, 1 rare lines:');
+    expect(text).toContain(
+      '  x30 [2024-05-01T10:00:00Z → 2024-05-01T10:00:29Z] INFO GET <*> took <*>',
+    );
+    expect(text).toContain(
+      '      e.g. /api/users/1000, /api/users/1001, /api/users/1002 | 0ms, 1ms, 2ms',
+    );
+    expect(text).toContain('Rare lines:\n  L31: 2024-05-01T10:01:00Z WARN disk almost full');
+  });
+
+  it('should cap templates, keeping the most frequent', () => {
+    const lines = [
+      ...requestLog(20),
+      'job 1 done',
+      'job 2 done',
+      'cache miss key=1',
+      'cache miss key=2',
+      'cache miss key=3',
+    ];
+
+    const text = formatLogTemplates(mineLogTemplates(lines.join('\n')), { maxTemplates: 2 });
+
+    expect(text).toContain('x20');
+    expect(text).toContain('x3');
+    expect(text).not.toContain('job <*> done');
+    expect(text).toContain('… 1 more templates (2 lines)');
+  });
+});
+
+describe('summarizeLog', () => {
+  it('should skip short or non-repetitive text', () => {
+    expect(summarizeLog(requestLog(5).join('\n'))).toBeNull();
+    const prose = Array.from({ length: 30 }, (_, i) => `unique sentence ${'word '.repeat(i)}`);
+    expect(summarizeLog(prose.join('\n'))).toBeNull();
+  });
+
+  it('should summarize long repetitive logs', () => {
+    expect(summarizeLog(requestLog(100).join('\n'))).toContain('100 lines → 1 templates');
+  });
+});
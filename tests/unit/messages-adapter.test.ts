@@ -0,0 +1,152 @@
+/**
+ * Messages Adapter Tests - OpenAI / Anthropic message arrays
+ */
+
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createMessagesAdapter } from '../../src/adapters/messages.js';
+import { createKVMemory, type KVMemory } from '../../src/core/kv-memory.js';
+import { DEFAULT_CONFIG } from '../../src/types/config.js';
+import type { ApiMessage } from '../../src/types/messages.js';
+
+describe('Messages Adapter', () => {
+  let memory: KVMemory;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = join(tmpdir(), `cortex-messages-adapter-test-${Date.now()}`);
+    mkdirSync(tempDir, { recursive: true });
+    memory = await createKVMemory(join(tempDir, 'test.db'));
+  });
+
+  afterEach(async () => {
+    await memory.close();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const filler = (i: number) => `Turn ${i}: ${'background discussion words '.repeat(15)}`;
+
+  it('should keep OpenAI tool calls with their tool messages', async () => {
+    const adapter = createMessagesAdapter(memory, DEFAULT_CONFIG);
+    const messages: ApiMessage[] = [
+      { role: 'system', content: 'You are a helpful agent.' },
+      { role: 'user', content: filler(0) },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'run', arguments: '{"cmd":"ls"}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'src\ntests\npackage.json' },
+      { role: 'assistant', content: filler(1) },
+      { role: 'user', content: filler(2) },
+      { role: 'user', content: 'Now run the tests' },
+    ];
+
+    const result = await adapter.optimizeMessages(messages, { dryRun: true, tokenBudget: 60 });
+    const roles = result.messages.map((m) => m.role);
+
+    expect(result.messages[0]).toEqual(messages[0]);
+    expect(result.messages.at(-1)).toEqual(messages.at(-1));
+    expect(result.messages.length).toBeLessThan(messages.length);
+    // A call and its result are kept or dropped together
+    expect(roles.includes('tool')).toBe(result.messages.some((m) => m.tool_calls));
+    expect(JSON.parse(result.optimizedContext)).toEqual(result.messages);
+  });
+
+  it('should stub Anthropic tool results that do not fit and keep the request shape', async () => {
+    const adapter = createMessagesAdapter(memory, DEFAULT_CONFIG);
+    const body = {
+      model: 'claude-sonnet-4-5',
+      system: 'You are a coding agent.',
+      messages: [
+        { role: 'user', content: 'Show me the config' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'a.json' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_1',
+              content: `{\n${'  "key": "value",\n'.repeat(200)}}`,
+            },
+          ],
+        },
+        { role: 'assistant', content: 'It is a flat key/value file.' },
+      ],
+    };
+
+    const result = await adapter.optimizeMessages(body, { dryRun: true, tokenBudget: 80 });
+    const toolResult = result.messages.messages[2]?.content as Array<Record<string, unknown>>;
+
+    expect(result.messages.model).toBe('claude-sonnet-4-5');
+    expect(result.messages.system).toBe(body.system);
+    expect(result.messages.messages.map((m) => m.role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+    ]);
+    expect(toolResult[0]).toMatchObject({ type: 'tool_result', tool_use_id: 'toolu_1' });
+    expect(toolResult[0]?.['content']).toMatch(/^\[cortex\] read_file result pruned/);
+    // Nothing is stored in a dry run, so nothing may point at a recall id
+    expect(result.optimizedContext).not.toContain('recall id');
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+  });
+
+  it('should reduce parallel Anthropic tool results block by block', async () => {
+    const adapter = createMessagesAdapter(memory, DEFAULT_CONFIG);
+    const lines = (name: string) =>
+      Array.from({ length: 150 }, (_, i) => `${name} output line ${i}`).join('\n');
+    const messages: ApiMessage[] = [
+      { role: 'user', content: 'Check both services' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'tool_use', id: 'a', name: 'status', input: { service: 'alpha' } },
+          { type: 'tool_use', id: 'b', name: 'status', input: { service: 'beta' } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'a', content: lines('alpha') },
+          { type: 'tool_result', tool_use_id: 'b', content: lines('beta') },
+          { type: 'text', text: 'Both done.' },
+        ],
+      },
+      { role: 'assistant', content: 'Both services are up.' },
+    ];
+
+    const result = await adapter.optimizeMessages(messages, { dryRun: true, tokenBudget: 200 });
+    const blocks = result.messages[2]?.content as Array<Record<string, unknown>>;
+
+    expect(blocks.map((b) => b['type'])).toEqual(['tool_result', 'tool_result', 'text']);
+    expect(blocks[0]?.['content']).toContain('alpha output line 0');
+    expect(blocks[0]?.['content']).not.toContain('beta');
+    expect(blocks[1]?.['content']).toContain('beta output line 0');
+    expect(blocks[1]?.['content']).not.toContain('alpha');
+    expect(blocks[2]).toEqual({ type: 'text', text: 'Both done.' });
+    expect(result.tokensAfter).toBeLessThanOrEqual(200);
+  });
+
+  it('should parse JSON text through optimize', async () => {
+    const adapter = createMessagesAdapter(memory, DEFAULT_CONFIG);
+
+    const result = await adapter.optimize('[{"role":"user","content":"Hi"}]', { dryRun: true });
+
+    expect(JSON.parse(result.optimizedContext)).toEqual([{ role: 'user', content: 'Hi' }]);
+    await expect(adapter.optimize('User: not json')).rejects.toThrow('Messages input must be JSON');
+    await expect(adapter.optimize('{"model":"x"}')).rejects.toThrow('messages array');
+  });
+});
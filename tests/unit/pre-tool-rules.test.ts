@@ -0,0 +1,152 @@
+/**
+ * PreToolUse Rules Tests - Steering Read and Bash calls before they run
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { evaluatePreToolUse, type PreToolCall } from '../../src/hooks/pre-tool-rules.js';
+import { DEFAULT_CONFIG, type PreToolUseConfig } from '../../src/types/config.js';
+
+const DEFAULTS = DEFAULT_CONFIG.hooks?.preToolUse as PreToolUseConfig;
+
+describe('PreToolUse rules', () => {
+  let cwd: string;
+
+  const call = (toolName: string, toolInput: Record<string, unknown>): PreToolCall => ({
+    toolName,
+    toolInput,
+    cwd,
+    cliPath: '/opt/cortex/dist/cli/index.js',
+  });
+
+  beforeEach(() => {
+    cwd = join(tmpdir(), `cortex-pretool-test-${Date.now()}-${Math.random()}`);
+    mkdirSync(join(cwd, 'src'), { recursive: true });
+    mkdirSync(join(cwd, 'dist'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  describe('Read', () => {
+    it('should deny whole-file reads of lockfiles and dist/ output', () => {
+      writeFileSync(join(cwd, 'package-lock.json'), '{}');
+      writeFileSync(join(cwd, 'dist', 'index.js'), 'x');
+
+      const lock = evaluatePreToolUse(call('Read', { file_path: 'package-lock.json' }), DEFAULTS);
+      expect(lock?.action).toBe('deny');
+      expect(lock?.action === 'deny' && lock.reason).toContain('generated file');
+
+      const dist = evaluatePreToolUse(
+        call('Read', { file_path: join(cwd, 'dist', 'index.js') }),
+        DEFAULTS,
+      );
+      expect(dist?.action).toBe('deny');
+    });
+
+    it('should match generated patterns against the project-relative path only', () => {
+      const project = join(cwd, 'dist', 'app');
+      mkdirSync(join(project, 'src'), { recursive: true });
+      writeFileSync(join(project, 'src', 'index.ts'), 'export {};');
+
+      const inside = evaluatePreToolUse(
+        { ...call('Read', { file_path: 'src/index.ts' }), cwd: project },
+        DEFAULTS,
+      );
+      expect(inside).toBeNull();
+
+      const outside = evaluatePreToolUse(
+        { ...call('Read', { file_path: join(cwd, 'dist', 'index.js') }), cwd: join(cwd, 'src') },
+        DEFAULTS,
+      );
+      expect(outside?.action).toBe('deny');
+    });
+
+    it('should allow ranged reads of generated files', () => {
+      const decision = evaluatePreToolUse(
+        call('Read', { file_path: 'yarn.lock', offset: 1, limit: 50 }),
+        DEFAULTS,
+      );
+      expect(decision).toBeNull();
+    });
+
+    it('should warn about generated files when configured to warn', () => {
+      const decision = evaluatePreToolUse(call('Read', { file_path: 'app.min.js' }), {
+        ...DEFAULTS,
+        generatedAction: 'warn',
+      });
+      expect(decision?.action).toBe('warn');
+    });
+
+    it('should warn about large files with outline line ranges', () => {
+      const source = Array.from(
+        { length: 40 },
+        (_, i) => `export function fn${i}(): number {\n  return ${i};\n}\n`,
+      ).join('\n');
+      writeFileSync(join(cwd, 'src', 'big.ts'), source);
+
+      const decision = evaluatePreToolUse(call('Read', { file_path: 'src/big.ts' }), {
+        ...DEFAULTS,
+        warnReadBytes: 100,
+      });
+      expect(decision?.action).toBe('warn');
+      const context = decision?.action === 'warn' ? decision.context : '';
+      expect(context).toContain('src/big.ts');
+      expect(context).toContain('export function fn0(): number  L1-3');
+    });
+
+    it('should deny files over the hard limit with generic advice for non-code files', () => {
+      writeFileSync(join(cwd, 'huge.log'), 'line\n'.repeat(100));
+
+      const decision = evaluatePreToolUse(call('Read', { file_path: 'huge.log' }), {
+        ...DEFAULTS,
+        denyReadBytes: 100,
+      });
+      expect(decision?.action).toBe('deny');
+      expect(decision?.action === 'deny' && decision.reason).toContain('offset/limit');
+    });
+
+    it('should let small and missing files through', () => {
+      writeFileSync(join(cwd, 'src', 'small.ts'), 'export const a = 1;\n');
+
+      expect(evaluatePreToolUse(call('Read', { file_path: 'src/small.ts' }), DEFAULTS)).toBeNull();
+      expect(evaluatePreToolUse(call('Read', { file_path: 'nope.ts' }), DEFAULTS)).toBeNull();
+    });
+  });
+
+  describe('Bash', () => {
+    const relay = { ...DEFAULTS, relayCommands: ['git log', 'npm ls'] };
+
+    it('should rewrite configured commands through cortex relay', () => {
+      const decision = evaluatePreToolUse(
+        call('Bash', { command: 'git log --stat -20', description: 'Show history' }),
+        relay,
+      );
+
+      expect(decision?.action).toBe('rewrite');
+      if (decision?.action !== 'rewrite') return;
+      expect(decision.updatedInput).toEqual({
+        command: 'node "/opt/cortex/dist/cli/index.js" relay git log --stat -20',
+        description: 'Show history',
+      });
+    });
+
+    it('should leave shell pipelines and unlisted commands alone', () => {
+      expect(evaluatePreToolUse(call('Bash', { command: 'git log | head' }), relay)).toBeNull();
+      expect(evaluatePreToolUse(call('Bash', { command: 'git status' }), relay)).toBeNull();
+      expect(evaluatePreToolUse(call('Bash', { command: 'git logs' }), relay)).toBeNull();
+    });
+  });
+
+  it('should do nothing when disabled', () => {
+    writeFileSync(join(cwd, 'package-lock.json'), '{}');
+    const decision = evaluatePreToolUse(call('Read', { file_path: 'package-lock.json' }), {
+      ...DEFAULTS,
+      enabled: false,
+    });
+    expect(decision).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Prompt Recall Tests - Memories and file pointers related to a prompt
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createKVMemory } from '../../src/core/kv-memory.js';
+import { createSearchEngine } from '../../src/core/search-engine.js';
+import { recallForPrompt } from '../../src/hooks/prompt-recall.js';
+import type { RecallConfig } from '../../src/types/config.js';
+import type { MemoryEntry } from '../../src/types/memory.js';
+import { extractKeyTerms } from '../../src/utils/key-terms.js';
+
+const RECALL: RecallConfig = { enabled: true, maxTokens: 400, maxMemories: 3, maxFiles: 5 };
+
+function memory(id: string, content: string, isBTSP = false): MemoryEntry {
+  return {
+    id,
+    content,
+    hash: `hash-${id}`,
+    timestamp: Date.parse('2026-03-01T10:00:00Z'),
+    score: 0.5,
+    ttl: 3600,
+    state: 'ready',
+    accessCount: 0,
+    tags: [],
+    metadata: {},
+    isBTSP,
+  };
+}
+
+describe('extractKeyTerms', () => {
+  it('should rank identifiers and codes above plain words and drop stop words', () => {
+    expect(
+      extractKeyTerms(
+        'Can you please fix why KVMemory.put fails with SQLITE_BUSY during compaction?',
+      ),
+    ).toEqual(['KVMemory.put', 'SQLITE_BUSY', 'compaction', 'fails']);
+  });
+
+  it('should dedupe case-insensitively, prefer longer words and respect the limit', () => {
+    expect(extractKeyTerms('parser Parser PARSER tokenizer lexer', 2)).toEqual([
+      'tokenizer',
+      'parser',
+    ]);
+  });
+});
+
+describe('recallForPrompt', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = join(tmpdir(), `cortex-recall-test-${Date.now()}-${Math.random()}`);
+    mkdirSync(join(project, '.cortex'), { recursive: true });
+    mkdirSync(join(project, 'src'), { recursive: true });
+    writeFileSync(
+      join(project, 'src', 'store.ts'),
+      'export function openStore() {}\n// retries on SQLITE_BUSY during compaction\n',
+    );
+    writeFileSync(join(project, 'src', 'colors.ts'), 'export const red = "#f00";\n');
+
+    const mem = await createKVMemory(join(project, '.cortex', 'memory.db'));
+    await mem.put(memory('err', 'Error: SQLITE_BUSY database is locked during compaction', true));
+    await mem.put(memory('note', 'Decided compaction runs nightly from the daemon'));
+    await mem.put(memory('other', 'Palette uses red for errors'));
+    await mem.close();
+
+    const engine = createSearchEngine(join(project, '.cortex', 'search.db'));
+    await engine.init(project);
+    await engine.index();
+    await engine.close();
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  it('should inject related memories (important ones first) and file pointers', () => {
+    const recall = recallForPrompt('Why do we hit SQLITE_BUSY on compaction?', project, RECALL);
+
+    expect(recall).toBe(
+      [
+        '[cortex] Recall for: SQLITE_BUSY, compaction, hit',
+        'Related memories:',
+        '  - 2026-03-01 [important]: Error: SQLITE_BUSY database is locked during compaction',
+        '  - 2026-03-01: Decided compaction runs nightly from the daemon',
+        'Related files:',
+        '  - src/store.ts:2: // retries on SQLITE_BUSY during compaction',
+      ].join('\n'),
+    );
+  });
+
+  it('should stay within the token budget', () => {
+    const recall = recallForPrompt('SQLITE_BUSY compaction', project, {
+      ...RECALL,
+      maxTokens: 45,
+    });
+
+    expect(recall?.split('\n')).toEqual([
+      '[cortex] Recall for: SQLITE_BUSY, compaction',
+      'Related memories:',
+      '  - 2026-03-01 [important]: Error: SQLITE_BUSY database is locked during compaction',
+    ]);
+  });
+
+  it('should return null when disabled, for slash commands, or without matches', () => {
+    expect(recallForPrompt('SQLITE_BUSY', project, { ...RECALL, enabled: false })).toBeNull();
+    expect(recallForPrompt('/compact SQLITE_BUSY', project, RECALL)).toBeNull();
+    expect(recallForPrompt('refactor the websocket gateway', project, RECALL)).toBeNull();
+    expect(recallForPrompt('SQLITE_BUSY', join(project, 'missing'), RECALL)).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Read Tracker Tests - Session-aware re-read detection for the PostToolUse hook
+ */
+
+import { existsSync, mkdirSync, readdirSync, rmSync, utimesSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createReadTracker } from '../../src/hooks/read-tracker.js';
+
+const FILE = '/repo/src/app.ts';
+const V1 = ['import a from "a";', '', 'export function run() {', '  return a();', '}'].join('\n');
+const V2 = ['import a from "a";', '', 'export function run() {', '  return a() + 1;', '}'].join(
+  '\n',
+);
+
+describe('createReadTracker', () => {
+  let readsDir: string;
+
+  beforeEach(() => {
+    readsDir = join(tmpdir(), `cortex-reads-test-${Date.now()}-${Math.random()}`);
+  });
+
+  afterEach(() => {
+    if (existsSync(readsDir)) {
+      rmSync(readsDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report first reads as new', () => {
+    const tracker = createReadTracker(readsDir, 'session-1');
+
+    expect(tracker.recordRead(FILE, {}, V1, 1)).toEqual({ status: 'first', read: 1 });
+  });
+
+  it('should report unchanged repeat reads with the original read number', () => {
+    const tracker = createReadTracker(readsDir, 'session-1');
+    tracker.recordRead(FILE, {}, V1, 1);
+    tracker.recordRead('/repo/src/other.ts', {}, V2, 1);
+
+    expect(tracker.recordRead(FILE, {}, V1, 1)).toEqual({ status: 'unchanged', read: 3, since: 1 });
+  });
+
+  it('should diff against the last version seen when the file changed', () => {
+    const tracker = createReadTracker(readsDir, 'session-1');
+    tracker.recordRead(FILE, {}, V1, 1);
+
+    const observation = tracker.recordRead(FILE, {}, V2, 1);
+    expect(observation.status).toBe('changed');
+    if (observation.status !== 'changed') return;
+    expect(observation.since).toBe(1);
+    expect(observation.diff).toContain('-  return a();');
+    expect(observation.diff).toContain('+  return a() + 1;');
+
+    // The new version becomes the baseline
+    expect(tracker.recordRead(FILE, {}, V2, 1)).toMatchObject({ status: 'unchanged', since: 2 });
+  });
+
+  it('should recognize a narrower read covered by an earlier full read', () => {
+    const tracker = createReadTracker(readsDir, 'session-1');
+    tracker.recordRead(FILE, {}, V1, 1);
+
+    const slice = V1.split('\n').slice(2, 4).join('\n');
+    expect(tracker.recordRead(FILE, { offset: 3, limit: 2 }, slice, 3)).toEqual({
+      status: 'seen-range',
+      read: 2,
+      since: 1,
+      startLine: 3,
+      endLine: 4,
+    });
+  });
+
+  it('should treat a different range with different lines as new', () => {
+    const tracker = createReadTracker(readsDir, 'session-1');
+    tracker.recordRead(FILE, { offset: 1, limit: 2 }, 'a\nb', 1);
+
+    expect(tracker.recordRead(FILE, { offset: 10, limit: 2 }, 'x\ny', 10).status).toBe('first');
+  });
+
+  it('should persist state across tracker instances and isolate sessions', () => {
+    const first = createReadTracker(readsDir, 'session-1');
+    first.recordRead(FILE, {}, V1, 1);
+
+    const again = createReadTracker(readsDir, 'session-1');
+    expect(again.recordRead(FILE, {}, V1, 1)).toMatchObject({ status: 'unchanged', read: 2 });
+
+    const other = createReadTracker(readsDir, 'session-2');
+    expect(other.recordRead(FILE, {}, V1, 1).status).toBe('first');
+  });
+
+  it('should remove stale session directories', () => {
+    const stale = join(readsDir, 'old-session');
+    mkdirSync(stale, { recursive: true });
+    const old = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    utimesSync(stale, old, old);
+
+    createReadTracker(readsDir, 'new-session');
+
+    expect(readdirSync(readsDir)).toEqual(['new-session']);
+  });
+});
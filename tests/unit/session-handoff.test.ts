@@ -0,0 +1,212 @@
+/**
+ * Session Handoff Tests - Stop-time digest of a Claude Code transcript
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createKVMemory } from '../../src/core/kv-memory.js';
+import {
+  buildHandoff,
+  formatHandoffMarkdown,
+  handoffEntries,
+  handoffPath,
+  isEmptyHandoff,
+  saveHandoff,
+} from '../../src/hooks/session-handoff.js';
+
+const CWD = '/work/app';
+
+function jsonl(...records: object[]): string {
+  return records.map((r) => JSON.stringify(r)).join('\n');
+}
+
+const user = (content: unknown, extra: object = {}) => ({
+  type: 'user',
+  message: { role: 'user', content },
+  ...extra,
+});
+
+const assistant = (...content: object[]) => ({
+  type: 'assistant',
+  message: { role: 'assistant', model: 'claude-opus-4-1', content },
+});
+
+const toolUse = (id: string, name: string, input: object) => ({
+  type: 'tool_use',
+  id,
+  name,
+  input,
+});
+
+const toolResult = (id: string, content: string, isError = false) =>
+  user([{ type: 'tool_result', tool_use_id: id, content, is_error: isError }]);
+
+const TRANSCRIPT = jsonl(
+  user('<command-name>/clear</command-name>'),
+  user('Fix the flaky retry test in the store'),
+  assistant(
+    { type: 'text', text: 'Let me run the tests first.' },
+    toolUse('t1', 'Bash', { command: 'npm test' }),
+  ),
+  toolResult(
+    't1',
+    'Exit code 1\n FAIL tests/store.test.ts\nError: expected 3 retries, got 2',
+    true,
+  ),
+  assistant(toolUse('t2', 'Edit', { file_path: '/work/app/src/store.ts' })),
+  toolResult('t2', 'File updated'),
+  assistant(toolUse('t3', 'Edit', { file_path: '/work/app/src/store.ts' })),
+  toolResult('t3', 'File updated'),
+  assistant(toolUse('t4', 'Bash', { command: 'npm test' })),
+  toolResult('t4', 'Tests 12 passed'),
+  assistant(toolUse('t5', 'Bash', { command: 'npm run lint' })),
+  toolResult('t5', 'lint: 2 errors in src/cache.ts', true),
+  {
+    ...assistant(toolUse('s1', 'Write', { file_path: '/work/app/scratch.ts' })),
+    isSidechain: true,
+  },
+  assistant(
+    toolUse('t6', 'TodoWrite', {
+      todos: [
+        { content: 'Fix retry count', status: 'completed' },
+        { content: 'Fix lint errors in cache.ts', status: 'in_progress' },
+        { content: 'Document the backoff setting', status: 'pending' },
+      ],
+    }),
+  ),
+  toolResult('t6', 'Todos updated'),
+  assistant({
+    type: 'text',
+    text: 'I decided to keep exponential backoff rather than a fixed delay. TODO: add a jitter test',
+  }),
+);
+
+describe('buildHandoff', () => {
+  it('should collect prompts, edits, errors, todos and decisions', () => {
+    const handoff = buildHandoff(TRANSCRIPT, 'abc', CWD);
+
+    expect(handoff.attempted).toEqual(['Fix the flaky retry test in the store']);
+    expect(handoff.filesModified).toEqual([{ path: 'src/store.ts', edits: 2 }]);
+    expect(handoff.errors).toEqual([
+      {
+        source: 'Bash `npm test`',
+        message: 'FAIL tests/store.test.ts',
+        resolved: true,
+      },
+      {
+        source: 'Bash `npm run lint`',
+        message: 'lint: 2 errors in src/cache.ts',
+        resolved: false,
+      },
+    ]);
+    expect(handoff.todos).toEqual([
+      { content: 'Fix lint errors in cache.ts', status: 'in_progress' },
+      { content: 'Document the backoff setting', status: 'pending' },
+      { content: 'add a jitter test', status: 'pending' },
+    ]);
+    expect(handoff.decisions).toEqual([
+      'I decided to keep exponential backoff rather than a fixed delay.',
+    ]);
+  });
+
+  it('should treat a transcript without prompts or tool calls as empty', () => {
+    const handoff = buildHandoff(jsonl(user('<command-name>/clear</command-name>')), 'abc', CWD);
+
+    expect(isEmptyHandoff(handoff)).toBe(true);
+  });
+});
+
+describe('formatHandoffMarkdown', () => {
+  it('should render non-empty sections in order', () => {
+    const handoff = { ...buildHandoff(TRANSCRIPT, 'abc', CWD), decisions: [], todos: [] };
+
+    expect(formatHandoffMarkdown(handoff, Date.parse('2026-03-01T10:30:00Z'))).toBe(
+      [
+        '# Session handoff: abc',
+        '',
+        '_Updated 2026-03-01 10:30 UTC_',
+        '',
+        '## Attempted',
+        '',
+        '- Fix the flaky retry test in the store',
+        '',
+        '## Files modified',
+        '',
+        '- src/store.ts (2 edits)',
+        '',
+        '## Errors',
+        '',
+        '- [resolved] Bash `npm test`: FAIL tests/store.test.ts',
+        '- [unresolved] Bash `npm run lint`: lint: 2 errors in src/cache.ts',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('handoffEntries', () => {
+  it('should tag one entry per section and mark open errors and decisions as BTSP', () => {
+    const entries = handoffEntries(buildHandoff(TRANSCRIPT, 'abc', CWD));
+
+    expect(entries.map((e) => [e.id, e.isBTSP])).toEqual([
+      ['handoff:abc:attempted', false],
+      ['handoff:abc:files', false],
+      ['handoff:abc:errors', true],
+      ['handoff:abc:todos', false],
+      ['handoff:abc:decisions', true],
+    ]);
+    expect(entries[1]?.tags).toEqual(['handoff', 'session:abc', 'files']);
+    expect(entries[1]?.content).toBe(
+      'Session abc handoff — files modified:\n- src/store.ts (2 edits)',
+    );
+  });
+});
+
+describe('saveHandoff', () => {
+  let project: string;
+
+  beforeEach(() => {
+    project = join(tmpdir(), `cortex-handoff-test-${Date.now()}-${Math.random()}`);
+    mkdirSync(join(project, '.cortex'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  it('should write markdown only when the project has no memory store', async () => {
+    const handoff = buildHandoff(TRANSCRIPT, 'abc', CWD);
+
+    expect(await saveHandoff(project, handoff, '# handoff\n')).toBe(0);
+    expect(readFileSync(handoffPath(project, 'abc'), 'utf-8')).toBe('# handoff\n');
+    expect(existsSync(join(project, '.cortex', 'memory.db'))).toBe(false);
+  });
+
+  it('should write nothing in a project without .cortex', async () => {
+    rmSync(join(project, '.cortex'), { recursive: true });
+    const handoff = buildHandoff(TRANSCRIPT, 'abc', CWD);
+
+    expect(await saveHandoff(project, handoff, '# handoff\n')).toBe(0);
+    expect(existsSync(join(project, '.cortex'))).toBe(false);
+  });
+
+  it('should replace the session entries on every save', async () => {
+    const dbPath = join(project, '.cortex', 'memory.db');
+    await (await createKVMemory(dbPath)).close();
+
+    const handoff = buildHandoff(TRANSCRIPT, 'abc', CWD);
+    expect(await saveHandoff(project, handoff, '')).toBe(5);
+    expect(await saveHandoff(project, { ...handoff, decisions: [], todos: [] }, '')).toBe(3);
+
+    const memory = await createKVMemory(dbPath);
+    const ids = await memory.list();
+    await memory.close();
+    expect(ids.sort()).toEqual([
+      'handoff:abc:attempted',
+      'handoff:abc:errors',
+      'handoff:abc:files',
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Session Primer Tests - Project memory injected at SessionStart
+ */
+
+import { mkdirSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createDebtTracker } from '../../src/core/debt-tracker.js';
+import { createKVMemory } from '../../src/core/kv-memory.js';
+import { createWorkflowPlanner } from '../../src/core/workflow-planner.js';
+import {
+  buildSessionPrimer,
+  formatPrimer,
+  refreshHotPaths,
+} from '../../src/hooks/session-primer.js';
+import type { SessionStartConfig } from '../../src/types/config.js';
+import type { MemoryEntry } from '../../src/types/memory.js';
+
+const CONFIG: SessionStartConfig = { enabled: true, maxTokens: 800 };
+const DAY = 24 * 3600 * 1000;
+
+function memory(id: string, content: string, tags: string[] = []): MemoryEntry {
+  return {
+    id,
+    content,
+    hash: `hash-${id}`,
+    timestamp: Date.parse('2026-03-01T10:00:00Z'),
+    score: 1,
+    ttl: 3600,
+    state: 'active',
+    accessCount: 0,
+    tags,
+    metadata: {},
+    isBTSP: true,
+  };
+}
+
+describe('buildSessionPrimer', () => {
+  let project: string;
+
+  beforeEach(async () => {
+    project = join(tmpdir(), `cortex-primer-test-${Date.now()}-${Math.random()}`);
+    mkdirSync(join(project, '.cortex', 'handoff'), { recursive: true });
+    mkdirSync(join(project, 'src'), { recursive: true });
+    writeFileSync(join(project, 'src', 'db.ts'), 'export const db = 1;\n');
+    writeFileSync(join(project, 'src', 'a.ts'), "import { db } from './db.js';\n");
+    writeFileSync(join(project, 'src', 'b.ts'), "import { db } from './db.js';\n");
+
+    const old = join(project, '.cortex', 'handoff', 'old.md');
+    writeFileSync(old, '# Session handoff: old\n\n## Attempted\n\n- Old work\n');
+    utimesSync(old, new Date('2026-01-01'), new Date('2026-01-01'));
+    writeFileSync(
+      join(project, '.cortex', 'handoff', 'new.md'),
+      [
+        '# Session handoff: new',
+        '',
+        '## Attempted',
+        '',
+        '- Add retries to the store',
+        '',
+        '## Errors',
+        '',
+        '- [unresolved] Bash `npm run lint`: 2 errors',
+        '',
+        '## Open TODOs',
+        '',
+        '- [pending] Document backoff',
+        '',
+      ].join('\n'),
+    );
+
+    const dbPath = join(project, '.cortex', 'memory.db');
+    const mem = await createKVMemory(dbPath);
+    await mem.put(memory('err', 'Error: SQLITE_BUSY during compaction\n    at run (db.ts:3:1)'));
+    await mem.put(memory('handoff', 'Session new handoff — errors:', ['handoff']));
+    await mem.close();
+
+    const tracker = createDebtTracker(dbPath);
+    await tracker.add({
+      description: 'Remove legacy auth',
+      repayment_date: Date.now() - DAY,
+      severity: 'P0',
+      token_cost: 0,
+      files_affected: ['src/auth.ts'],
+    });
+    await tracker.add({
+      description: 'Not due yet',
+      repayment_date: Date.now() + DAY,
+      severity: 'P0',
+      token_cost: 0,
+      files_affected: [],
+    });
+    await tracker.close();
+
+    const planner = createWorkflowPlanner(project);
+    const plan = await planner.createPlan(
+      'Migrate the store',
+      [],
+      [],
+      [
+        {
+          order: 1,
+          action: 'write',
+          target: 'src/db.ts',
+          description: 'Add retry',
+          dependencies: [],
+          estimated_tokens: 100,
+        },
+        {
+          order: 2,
+          action: 'test',
+          target: 'tests',
+          description: 'Run tests',
+          dependencies: [1],
+          estimated_tokens: 100,
+        },
+      ],
+    );
+    await planner.startExec(plan.id);
+    await planner.updateStep(plan.id, 1, 'completed');
+  });
+
+  afterEach(() => {
+    rmSync(project, { recursive: true, force: true });
+  });
+
+  it('should combine handoff, memories, debt, plan and hot paths', async () => {
+    expect(await refreshHotPaths(project)).toBe(true);
+    const primer = await buildSessionPrimer(project, CONFIG);
+    const lines = primer?.split('\n') ?? [];
+
+    expect(lines[0]).toBe('[cortex] Session primer');
+    expect(lines[1]).toMatch(/^Last session handoff \(\d{4}-\d{2}-\d{2}\):$/);
+    expect(lines.slice(2, 5)).toEqual([
+      '  - Errors: [unresolved] Bash `npm run lint`: 2 errors',
+      '  - Open TODOs: [pending] Document backoff',
+      '  - Attempted: Add retries to the store',
+    ]);
+    expect(lines.slice(5)).toEqual([
+      'Important memories:',
+      '  - 2026-03-01: Error: SQLITE_BUSY during compaction',
+      'Overdue P0 debt:',
+      expect.stringMatching(/^ {2}- Remove legacy auth \(due \d{4}-\d{2}-\d{2}; src\/auth\.ts\)$/),
+      expect.stringMatching(/^Plan in progress: Migrate the store \(1\/2 steps done, id \w+\)$/),
+      '  - 2. [test] tests: Run tests',
+      'Hot paths (most imported): src/db.ts',
+    ]);
+  });
+
+  it('should leave out hot paths until the cache is built', async () => {
+    const primer = await buildSessionPrimer(project, CONFIG);
+
+    expect(primer).toContain('Plan in progress');
+    expect(primer).not.toContain('Hot paths');
+    expect(await refreshHotPaths(join(project, 'src'))).toBe(false);
+  });
+
+  it('should return null when disabled or outside a cortex project', async () => {
+    expect(await buildSessionPrimer(project, { ...CONFIG, enabled: false })).toBeNull();
+    expect(await buildSessionPrimer(join(project, 'src'), CONFIG)).toBeNull();
+  });
+});
+
+describe('formatPrimer', () => {
+  it('should stop adding items and sections once the budget is spent', () => {
+    const primer = formatPrimer(
+      [
+        { heading: 'First:', items: ['a'.repeat(40), 'b'.repeat(40)] },
+        { heading: 'Second:', items: ['c'] },
+      ],
+      25,
+    );
+
+    expect(primer).toBe(`[cortex] Session primer\nFirst:\n  - ${'a'.repeat(40)}`);
+  });
+});
@@ -135,4 +135,38 @@ describe('SparsePruner', () => {
     expect(result.kept.length).toBeGreaterThanOrEqual(1);
     expect(result.originalTokens).toBeGreaterThan(0);
   });
+
+  it('keeps tool calls and results together', () => {
+    const entry = (id: string, content: string, metadata: Record<string, unknown> = {}) => ({
+      id,
+      content,
+      hash: `hash-${id}`,
+      timestamp: Date.now(),
+      score: 0.5,
+      ttl: 3600,
+      state: 'ready' as const,
+      accessCount: 0,
+      tags: [],
+      metadata,
+      isBTSP: false,
+    });
+    const entries: MemoryEntry[] = [
+      entry('call-1', '[tool_use: Bash] unique deploy', { type: 'tool', toolUseIds: ['t1'] }),
+      entry('result-1', 'filler output line', { type: 'result', toolUseIds: ['t1'] }),
+      entry('call-2', 'filler call', { type: 'tool', toolUseIds: ['t2'] }),
+      entry('result-2', 'rare migration failure', { type: 'result', toolUseIds: ['t2'] }),
+      ...Array.from({ length: 6 }, (_, i) => entry(`filler-${i}`, 'filler output line')),
+    ];
+
+    const result = createSparsePruner({ threshold: 20 }).prune(entries);
+    const kept = new Map(result.kept.map((e) => [e.id, e]));
+
+    // A kept result brings its call along
+    expect(kept.get('call-2')?.content).toBe('filler call');
+    expect(kept.get('result-2')?.content).toBe('rare migration failure');
+    // A kept call keeps its result as a stub
+    expect(kept.get('call-1')?.content).toBe('[tool_use: Bash] unique deploy');
+    expect(kept.get('result-1')?.content).toMatch(/^\[cortex\] Tool result pruned/);
+    expect(result.removed.every((e) => e.id.startsWith('filler-'))).toBe(true);
+  });
 });
@@ -0,0 +1,172 @@
+/**
+ * Summarizer Registry Tests - Project-specific tool output summaries
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createRuleSummarizer,
+  createSummarizerRegistry,
+  loadProjectSummarizers,
+} from '../../src/core/summarizer-registry.js';
+
+const input = (toolName: string, target: string, text: string) => ({
+  toolName,
+  target,
+  text,
+  cwd: '/tmp',
+});
+
+describe('SummarizerRegistry', () => {
+  it('should match on tool name and command pattern', () => {
+    const registry = createSummarizerRegistry();
+    registry.register({ name: 'tf', tool: 'Bash', match: /^terraform plan/, summarize: () => 'x' });
+    registry.register({ name: 'any-read', tool: 'Read|Grep', summarize: () => 'y' });
+
+    expect(registry.find('Bash', 'terraform plan -out x').map((s) => s.name)).toEqual(['tf']);
+    expect(registry.find('Bash', 'terraform apply')).toEqual([]);
+    expect(registry.find('Read', 'src/a.ts').map((s) => s.name)).toEqual(['any-read']);
+    // Tool patterns are anchored
+    expect(registry.find('BashOutput', 'terraform plan')).toEqual([]);
+  });
+
+  it('should fall through empty and failing summarizers', async () => {
+    const failures: string[] = [];
+    const registry = createSummarizerRegistry({ onError: (name) => failures.push(name) });
+    registry.register({ name: 'empty', tool: 'Bash', summarize: () => null });
+    registry.register({
+      name: 'broken',
+      tool: 'Bash',
+      summarize: () => {
+        throw new Error('boom');
+      },
+    });
+    registry.register({ name: 'async', tool: 'Bash', summarize: async ({ text }) => `n=${text}` });
+
+    const result = await registry.summarize(input('Bash', 'make', '42'));
+
+    expect(result).toEqual({ name: 'async', summary: 'n=42' });
+    expect(failures).toEqual(['broken']);
+  });
+});
+
+describe('createRuleSummarizer', () => {
+  it('should drop, keep and collapse lines', async () => {
+    const summarizer = createRuleSummarizer({
+      name: 'docker-build',
+      match: '^docker build',
+      drop: ['^\\s*$'],
+      keep: ['^Step ', 'ERROR'],
+      collapse: ['^ ---> '],
+    });
+    const text = [
+      'Step 1/3 : FROM node:20',
+      ' ---> abc',
+      ' ---> def',
+      ' ---> ghi',
+      'noise',
+      '',
+      'Step 2/3 : RUN npm ci',
+      'ERROR: npm ci failed',
+    ].join('\n');
+
+    const summary = await summarizer.summarize(input('Bash', 'docker build .', text));
+
+    expect(summary).toBe(
+      [
+        '[cortex] docker-build summary (8 lines):',
+        'Step 1/3 : FROM node:20',
+        ' ---> abc',
+        '  … 2 more similar lines',
+        'Step 2/3 : RUN npm ci',
+        'ERROR: npm ci failed',
+      ].join('\n'),
+    );
+  });
+
+  it('should cap output at maxLines', async () => {
+    const summarizer = createRuleSummarizer({ name: 'cap', maxLines: 2 });
+    const summary = await summarizer.summarize(input('Bash', 'x', 'a\nb\nc\nd'));
+    expect(summary).toContain('a\nb\n… 2 more lines');
+  });
+
+  it('should reject malformed rules', () => {
+    expect(() => createRuleSummarizer({ name: 'bad', keep: ['('] })).toThrow();
+    expect(() => createRuleSummarizer({ name: 'bad', maxLines: 0 })).toThrow('maxLines');
+  });
+});
+
+describe('loadProjectSummarizers', () => {
+  let cwd: string;
+  let dir: string;
+
+  beforeEach(() => {
+    cwd = join(tmpdir(), `cortex-summarizers-test-${Date.now()}-${Math.random()}`);
+    dir = join(cwd, '.cortex', 'summarizers');
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should load JS modules and YAML rules in file name order', async () => {
+    writeFileSync(
+      join(dir, 'a-terraform.mjs'),
+      `export default {
+  name: 'terraform-plan',
+  tool: 'Bash',
+  match: /^terraform plan/,
+  summarize: ({ text }) => 'plan: ' + text.split('\\n').filter((l) => /^\\s*[-+~] /.test(l)).length + ' changes',
+};
+`,
+    );
+    writeFileSync(
+      join(dir, 'b-rules.yaml'),
+      `summarizers:
+  - name: bazel
+    match: ^bazel
+    drop: ['^INFO:']
+  - name: reads
+    tool: Read
+    match: \\.log$
+    keep: [ERROR]
+`,
+    );
+
+    const { registry, errors } = await loadProjectSummarizers(cwd);
+
+    expect(errors).toEqual([]);
+    expect(registry.list().map((s) => s.name)).toEqual(['terraform-plan', 'bazel', 'reads']);
+    const plan = await registry.summarize(
+      input('Bash', 'terraform plan', '  + a\n  ~ b\n  - c\nPlan: 1 to add'),
+    );
+    expect(plan?.summary).toBe('plan: 3 changes');
+    const bazel = await registry.summarize(input('Bash', 'bazel build //...', 'INFO: x\nok'));
+    expect(bazel?.summary).toContain('ok');
+    expect(bazel?.summary).not.toContain('INFO');
+  });
+
+  it('should report broken files and keep loading the rest', async () => {
+    writeFileSync(join(dir, 'bad.yaml'), 'name: bad\nmatch: "("\n');
+    writeFileSync(join(dir, 'wrong-shape.mjs'), 'export default { name: 1 };\n');
+    writeFileSync(join(dir, 'good.yml'), 'name: good\n');
+    writeFileSync(join(dir, 'notes.txt'), 'ignored');
+
+    const { registry, errors } = await loadProjectSummarizers(cwd);
+
+    expect(registry.list().map((s) => s.name)).toEqual(['good']);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^bad\.yaml: /);
+    expect(errors[1]).toMatch(/^wrong-shape\.mjs: default export/);
+  });
+
+  it('should return an empty registry without a summarizers directory', async () => {
+    rmSync(dir, { recursive: true, force: true });
+    const { registry, errors } = await loadProjectSummarizers(cwd);
+    expect(registry.list()).toEqual([]);
+    expect(errors).toEqual([]);
+  });
+});
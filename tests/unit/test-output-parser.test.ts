@@ -0,0 +1,365 @@
+/**
+ * Test Output Parser Tests - Runner-specific failure extraction
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  detectTestRunner,
+  formatTestSummary,
+  parseTestOutput,
+  stripAnsi,
+} from '../../src/utils/test-output-parser.js';
+
+const VITEST_OUTPUT = `
+ RUN  v4.0.18 /repo
+
+ ✓ tests/unit/ok.test.ts (4 tests) 3ms
+ ❯ tests/unit/math.test.ts (3 tests | 1 failed) 8ms
+   × Math > adds numbers 5ms
+     → expected 3 to be 4 // Object.is equality
+
+⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯
+
+ FAIL  tests/unit/math.test.ts > Math > adds numbers
+AssertionError: expected 3 to be 4 // Object.is equality
+
+- Expected
++ Received
+
+- 4
++ 3
+
+ ❯ tests/unit/math.test.ts:12:21
+     10|   it('adds numbers', () => {
+     11|     const sum = add(1, 2);
+     12|     expect(sum).toBe(4);
+       |                 ^
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/1]⎯
+
+ Test Files  1 failed | 1 passed (2)
+      Tests  1 failed | 5 passed | 1 skipped (7)
+   Start at  10:00:00
+   Duration  1.20s
+`;
+
+const JEST_OUTPUT = `
+PASS src/ok.test.js
+FAIL src/user.test.js
+  ● User › validates email
+
+    expect(received).toBe(expected) // Object.is equality
+
+    Expected: true
+    Received: false
+
+      14 |   it('validates email', () => {
+      15 |     const user = new User('bad');
+    > 16 |     expect(user.isValid()).toBe(true);
+         |                            ^
+      17 |   });
+
+      at Object.<anonymous> (src/user.test.js:16:28)
+
+Test Suites: 1 failed, 1 passed, 2 total
+Tests:       1 failed, 2 skipped, 9 passed, 12 total
+Snapshots:   0 total
+Time:        1.5 s
+`;
+
+const MOCHA_OUTPUT = `
+  Parser
+    ✓ parses numbers
+    1) parses strings
+
+
+  1 passing (12ms)
+  1 failing
+  2 pending
+
+  1) Parser
+       parses strings:
+
+      AssertionError [ERR_ASSERTION]: Expected values to be strictly equal:
+
+'a' !== 'b'
+
+      + expected - actual
+
+      -a
+      +b
+
+      at Context.<anonymous> (test/parser.test.js:21:14)
+      at process.processImmediate (node:internal/timers:476:21)
+`;
+
+const TAP_OUTPUT = `TAP version 13
+# Subtest: adds
+ok 1 - adds
+  ---
+  duration_ms: 0.51
+  ...
+# Subtest: subtracts
+not ok 2 - subtracts
+  ---
+  duration_ms: 1.2
+  location: '/repo/test/math.test.js:9:1'
+  failureType: 'testCodeFailure'
+  error: |-
+    Expected values to be strictly equal:
+
+    1 !== 2
+
+  code: 'ERR_ASSERTION'
+  expected: 2
+  actual: 1
+  ...
+1..2
+# tests 2
+# suites 0
+# pass 1
+# fail 1
+# cancelled 0
+# skipped 0
+# todo 0
+# duration_ms 48.2
+`;
+
+const PYTEST_OUTPUT = `============================= test session starts ==============================
+collected 3 items
+
+tests/test_calc.py .F.                                                   [100%]
+
+=================================== FAILURES ===================================
+___________________________________ test_add ___________________________________
+
+    def test_add():
+>       assert add(1, 2) == 4
+E       assert 3 == 4
+E        +  where 3 = add(1, 2)
+
+tests/test_calc.py:5: AssertionError
+=========================== short test summary info ============================
+FAILED tests/test_calc.py::test_add - assert 3 == 4
+========================= 1 failed, 2 passed in 0.05s ==========================
+`;
+
+const GO_OUTPUT = `=== RUN   TestAdd
+    calc_test.go:10: expected 4, got 3
+--- FAIL: TestAdd (0.00s)
+=== RUN   TestSub
+--- PASS: TestSub (0.00s)
+=== RUN   TestTable
+=== RUN   TestTable/negative
+    calc_test.go:25: wrong sign
+--- FAIL: TestTable (0.00s)
+    --- FAIL: TestTable/negative (0.00s)
+FAIL
+FAIL	example.com/calc	0.005s
+`;
+
+const CARGO_OUTPUT = `
+running 3 tests
+test tests::adds ... ok
+test tests::subtracts ... FAILED
+test tests::slow ... ignored
+
+failures:
+
+---- tests::subtracts stdout ----
+
+thread 'tests::subtracts' panicked at src/lib.rs:12:9:
+assertion \`left == right\` failed
+  left: 3
+ right: 4
+note: run with \`RUST_BACKTRACE=1\` environment variable to display a backtrace
+
+
+failures:
+    tests::subtracts
+
+test result: FAILED. 1 passed; 1 failed; 1 ignored; 0 measured; 0 filtered out; finished in 0.00s
+`;
+
+describe('detectTestRunner', () => {
+  it('should prefer the command line when it names the runner', () => {
+    expect(detectTestRunner('', 'npx vitest run')).toBe('vitest');
+    expect(detectTestRunner('', 'go test ./...')).toBe('go');
+    expect(detectTestRunner('', 'cargo test --all')).toBe('cargo');
+    expect(detectTestRunner('', 'python -m pytest -x')).toBe('pytest');
+    expect(detectTestRunner('', 'node --test test/')).toBe('node-test');
+  });
+
+  it('should recognize runners from output behind npm test', () => {
+    expect(detectTestRunner(VITEST_OUTPUT, 'npm test')).toBe('vitest');
+    expect(detectTestRunner(JEST_OUTPUT, 'npm test')).toBe('jest');
+    expect(detectTestRunner(MOCHA_OUTPUT, 'npm test')).toBe('mocha');
+    expect(detectTestRunner(TAP_OUTPUT, 'npm test')).toBe('node-test');
+    expect(detectTestRunner(PYTEST_OUTPUT, 'make test')).toBe('pytest');
+    expect(detectTestRunner(GO_OUTPUT, 'make test')).toBe('go');
+    expect(detectTestRunner(CARGO_OUTPUT, 'make test')).toBe('cargo');
+  });
+
+  it('should return null for non-test output', () => {
+    expect(detectTestRunner('total 12\ndrwxr-xr-x 2 user user 4096 src', 'ls -la')).toBeNull();
+  });
+});
+
+describe('parseTestOutput', () => {
+  it('should parse vitest failures with diff and location', () => {
+    const summary = parseTestOutput(VITEST_OUTPUT);
+
+    expect(summary).toMatchObject({ runner: 'vitest', passed: 5, failed: 1, skipped: 1 });
+    expect(summary?.failures).toHaveLength(1);
+    expect(summary?.failures[0]).toMatchObject({
+      name: 'Math > adds numbers',
+      file: 'tests/unit/math.test.ts',
+      line: 12,
+      message: 'AssertionError: expected 3 to be 4 // Object.is equality',
+    });
+    expect(summary?.failures[0]?.diff).toEqual(['- 4', '+ 3']);
+  });
+
+  it('should parse jest failures with expected/received values', () => {
+    const summary = parseTestOutput(JEST_OUTPUT);
+
+    expect(summary).toMatchObject({ runner: 'jest', passed: 9, failed: 1, skipped: 2 });
+    expect(summary?.failures[0]).toMatchObject({
+      name: 'User > validates email',
+      file: 'src/user.test.js',
+      line: 16,
+      message: 'expect(received).toBe(expected) // Object.is equality',
+    });
+    expect(summary?.failures[0]?.diff).toEqual(['Expected: true', 'Received: false']);
+  });
+
+  it('should parse mocha failures', () => {
+    const summary = parseTestOutput(MOCHA_OUTPUT);
+
+    expect(summary).toMatchObject({ runner: 'mocha', passed: 1, failed: 1, skipped: 2 });
+    expect(summary?.failures[0]).toMatchObject({
+      name: 'Parser > parses strings',
+      file: 'test/parser.test.js',
+      line: 21,
+    });
+    expect(summary?.failures[0]?.message).toContain('Expected values to be strictly equal');
+    expect(summary?.failures[0]?.diff).toEqual(['-a', '+b']);
+  });
+
+  it('should parse node:test TAP diagnostics', () => {
+    const summary = parseTestOutput(TAP_OUTPUT);
+
+    expect(summary).toMatchObject({ runner: 'node-test', passed: 1, failed: 1, skipped: 0 });
+    expect(summary?.failures[0]).toMatchObject({
+      name: 'subtracts',
+      file: '/repo/test/math.test.js',
+      line: 9,
+      message: 'Expected values to be strictly equal:',
+      diff: ['expected: 2', 'actual: 1'],
+    });
+  });
+
+  it('should parse pytest failures', () => {
+    const summary = parseTestOutput(PYTEST_OUTPUT);
+
+    expect(summary).toMatchObject({ runner: 'pytest', passed: 2, failed: 1 });
+    expect(summary?.failures[0]).toMatchObject({
+      name: 'test_add',
+      file: 'tests/test_calc.py',
+      line: 5,
+      message: 'assert 3 == 4',
+      diff: ['+  where 3 = add(1, 2)'],
+    });
+  });
+
+  it('should parse go test failures and keep only leaf subtests', () => {
+    const summary = parseTestOutput(GO_OUTPUT);
+
+    expect(summary).toMatchObject({ runner: 'go', passed: 1, failed: 2 });
+    expect(summary?.failures.map((f) => f.name)).toEqual(['TestAdd', 'TestTable/negative']);
+    expect(summary?.failures[0]).toMatchObject({
+      file: 'calc_test.go',
+      line: 10,
+      message: 'expected 4, got 3',
+    });
+  });
+
+  it('should parse non-verbose go test output', () => {
+    const output = `--- FAIL: TestAdd (0.00s)
+    calc_test.go:10: expected 4, got 3
+FAIL
+FAIL	example.com/calc	0.005s
+`;
+    const summary = parseTestOutput(output, 'go test ./...');
+
+    expect(summary?.failures[0]).toMatchObject({ name: 'TestAdd', line: 10 });
+  });
+
+  it('should parse cargo test panics', () => {
+    const summary = parseTestOutput(CARGO_OUTPUT);
+
+    expect(summary).toMatchObject({ runner: 'cargo', passed: 1, failed: 1, skipped: 1 });
+    expect(summary?.failures[0]).toMatchObject({
+      name: 'tests::subtracts',
+      file: 'src/lib.rs',
+      line: 12,
+      message: 'assertion `left == right` failed',
+      diff: ['left: 3', 'right: 4'],
+    });
+  });
+
+  it('should parse legacy cargo panic messages', () => {
+    const output = `---- tests::old stdout ----
+thread 'tests::old' panicked at 'boom', src/lib.rs:3:5
+
+test result: FAILED. 0 passed; 1 failed; 0 ignored; 0 measured; 0 filtered out
+`;
+    const summary = parseTestOutput(output);
+
+    expect(summary?.failures[0]).toMatchObject({ message: 'boom', file: 'src/lib.rs', line: 3 });
+  });
+
+  it('should strip ANSI colors before parsing', () => {
+    const colored = `\u001b[31mFAIL\u001b[39m src/a.test.js\n  \u001b[1m● a › b\u001b[22m\n\n    boom\n\nTests:       1 failed, 1 total\n`;
+
+    expect(stripAnsi('\u001b[31mred\u001b[39m')).toBe('red');
+    expect(parseTestOutput(colored)?.failures[0]?.name).toBe('a > b');
+  });
+
+  it('should return null for unrecognized output', () => {
+    expect(parseTestOutput('hello world')).toBeNull();
+  });
+});
+
+describe('formatTestSummary', () => {
+  it('should render totals and failures', () => {
+    const summary = parseTestOutput(VITEST_OUTPUT);
+    if (!summary) throw new Error('expected summary');
+    const text = formatTestSummary(summary);
+
+    expect(text).toContain('vitest: 1 failed, 5 passed, 1 skipped');
+    expect(text).toContain('✗ Math > adds numbers (tests/unit/math.test.ts:12)');
+    expect(text).toContain('    - 4');
+  });
+
+  it('should cap failures and diff lines', () => {
+    const text = formatTestSummary(
+      {
+        runner: 'jest',
+        passed: 0,
+        failed: 3,
+        skipped: 0,
+        failures: [1, 2, 3].map((n) => ({
+          name: `t${n}`,
+          message: 'boom',
+          diff: ['-a', '+b', '-c', '+d'],
+        })),
+      },
+      { maxFailures: 2, maxDiffLines: 2 },
+    );
+
+    expect(text).toContain('… 2 more diff lines');
+    expect(text).toContain('… 1 more failures');
+    expect(text).not.toContain('t3');
+  });
+});
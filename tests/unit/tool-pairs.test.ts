@@ -0,0 +1,69 @@
+/**
+ * Tool Pairs Tests - Grouping tool calls with their results
+ */
+
+import { describe, expect, it } from 'vitest';
+import { groupToolPairs, stubToolResult } from '../../src/core/tool-pairs.js';
+import type { MemoryEntry } from '../../src/types/memory.js';
+
+function entry(id: string, metadata: Record<string, unknown> = {}): MemoryEntry {
+  return {
+    id,
+    content: `content of ${id}`,
+    hash: id,
+    timestamp: Date.now(),
+    score: 0.5,
+    ttl: 3600,
+    state: 'ready',
+    accessCount: 0,
+    tags: [],
+    metadata,
+    isBTSP: false,
+  };
+}
+
+describe('groupToolPairs', () => {
+  it('should group calls with their results and leave other entries alone', () => {
+    const entries = [
+      entry('user'),
+      entry('call-a', { type: 'tool', toolUseIds: ['a'] }),
+      entry('call-b', { type: 'tool', toolUseIds: ['b'] }),
+      entry('result-a', { type: 'result', toolUseIds: ['a'] }),
+      entry('reply'),
+      entry('result-b', { type: 'result', toolUseIds: ['b'] }),
+    ];
+
+    const groups = groupToolPairs(entries).map((g) => g.map((e) => e.id));
+
+    expect(groups).toEqual([['user'], ['call-a', 'result-a'], ['call-b', 'result-b'], ['reply']]);
+  });
+
+  it('should merge groups answered by one result entry', () => {
+    const entries = [
+      entry('call-a', { type: 'tool', toolUseIds: ['a'] }),
+      entry('call-b', { type: 'tool', toolUseIds: ['b'] }),
+      entry('results', { type: 'result', toolUseIds: ['a', 'b'] }),
+    ];
+
+    expect(groupToolPairs(entries).map((g) => g.map((e) => e.id))).toEqual([
+      ['call-a', 'call-b', 'results'],
+    ]);
+  });
+});
+
+describe('stubToolResult', () => {
+  it('should keep the id and metadata and preview the first line', () => {
+    const result = entry('r', { type: 'result', toolUseIds: ['a'], toolName: 'Bash' });
+    result.content = 'FAIL src/app.test.ts\nexpected 1 to be 2';
+
+    const stub = stubToolResult(result);
+
+    expect(stub.id).toBe('r');
+    expect(stub.content).toMatch(
+      /^\[cortex\] Bash result pruned \(~\d+ tokens\): FAIL src\/app\.test\.ts$/,
+    );
+    expect(stub.tags).toContain('stub');
+    expect(stub.metadata).toMatchObject({ toolUseIds: ['a'], stubbed: true });
+    expect(stubToolResult(result, true).content).toMatch(/\(~\d+ tokens, recall id r\)/);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Transcript Writer Tests - Rebuilding JSONL transcripts from kept entries
+ */
+
+import { describe, expect, it } from 'vitest';
+import { stubToolResult } from '../../src/core/tool-pairs.js';
+import { parseJSONLContext } from '../../src/utils/context-parser.js';
+import { canRebuildJSONL, rebuildJSONLTranscript } from '../../src/utils/transcript-writer.js';
+
+const envelope = { sessionId: 's1', cwd: '/repo', version: '2.0.0', isSidechain: false };
+
+const transcript = [
+  { type: 'summary', summary: 'Fix login', leafUuid: 'a3' },
+  {
+    ...envelope,
+    type: 'user',
+    uuid: 'u1',
+    parentUuid: null,
+    message: { role: 'user', content: 'Fix the login bug' },
+  },
+  {
+    ...envelope,
+    type: 'assistant',
+    uuid: 'a1',
+    parentUuid: 'u1',
+    message: {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'a.ts' } }],
+    },
+  },
+  {
+    ...envelope,
+    type: 'user',
+    uuid: 'u2',
+    parentUuid: 'a1',
+    message: {
+      role: 'user',
+      content: [{ type: 'tool_result', tool_use_id: 't1', content: 'export const a = 1;' }],
+    },
+    toolUseResult: { type: 'text', file: { filePath: 'a.ts', content: 'export const a = 1;' } },
+  },
+  {
+    ...envelope,
+    type: 'assistant',
+    uuid: 'a2',
+    parentUuid: 'u2',
+    message: { role: 'assistant', content: [{ type: 'thinking', thinking: 'hmm' }] },
+  },
+  {
+    ...envelope,
+    type: 'assistant',
+    uuid: 'a3',
+    parentUuid: 'a2',
+    message: { role: 'assistant', content: [{ type: 'text', text: 'Fixed it.' }] },
+  },
+]
+  .map((r) => JSON.stringify(r))
+  .join('\n');
+
+describe('rebuildJSONLTranscript', () => {
+  const entries = parseJSONLContext(transcript);
+  const byUuid = (uuid: string) => entries.find((e) => e.metadata['uuid'] === uuid);
+
+  it('should only rebuild entries parsed from JSONL', () => {
+    expect(canRebuildJSONL(entries)).toBe(true);
+    expect(canRebuildJSONL([])).toBe(false);
+  });
+
+  it('should keep envelopes and replace elided runs with one summary message', () => {
+    const kept = [byUuid('u1'), byUuid('a3')].filter((e) => e !== undefined);
+
+    const records = rebuildJSONLTranscript(transcript, entries, kept)
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(records).toHaveLength(3);
+    expect(records[0]).toEqual(JSON.parse(transcript.split('\n')[1] ?? ''));
+    expect(records[1]).toMatchObject({
+      ...envelope,
+      type: 'user',
+      isMeta: true,
+      parentUuid: 'u1',
+    });
+    expect(records[1].message.content).toMatch(
+      /^\[cortex\] 2 messages elided \(~\d+ tokens\)\. Tools used: Read x1\.$/,
+    );
+    // a3's parent a2 had no content; its link resolves through the elided run
+    expect(records[2]).toMatchObject({ uuid: 'a3', parentUuid: records[1].uuid });
+  });
+
+  it('should write stubbed tool results back into the record', () => {
+    const result = byUuid('u2');
+    const kept = [byUuid('u1'), byUuid('a1'), result && stubToolResult(result)].filter(
+      (e) => e !== undefined,
+    );
+
+    const records = rebuildJSONLTranscript(transcript, entries, kept)
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    const stubbed = records.find((r) => r.uuid === 'u2');
+
+    expect(stubbed.parentUuid).toBe('a1');
+    expect(stubbed.message.content[0]).toMatchObject({ type: 'tool_result', tool_use_id: 't1' });
+    expect(stubbed.message.content[0].content).toMatch(/^\[cortex\] Read result pruned/);
+    expect(stubbed.toolUseResult).toBe(stubbed.message.content[0].content);
+  });
+
+  it('should write degraded message text back into the record', () => {
+    const answer = byUuid('a3');
+    const kept = [
+      byUuid('u1'),
+      answer && {
+        ...answer,
+        content: '[cortex] Entry pruned (~900 tokens, recall id x): Fixed it.',
+        metadata: { ...answer.metadata, degraded: 'stub' },
+      },
+    ].filter((e) => e !== undefined);
+
+    const records = rebuildJSONLTranscript(transcript, entries, kept)
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(records.at(-1).message.content).toEqual([
+      { type: 'text', text: '[cortex] Entry pruned (~900 tokens, recall id x): Fixed it.' },
+    ]);
+  });
+});
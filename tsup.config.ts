@@ -7,7 +7,10 @@ export default defineConfig({
     'daemon/index': 'src/daemon/index.ts',
     'hooks/pre-prompt': 'src/hooks/pre-prompt.ts',
     'hooks/post-tool-result': 'src/hooks/post-tool-result.ts',
+    'hooks/pre-tool-use': 'src/hooks/pre-tool-use.ts',
     'hooks/stop-docs-refresh': 'src/hooks/stop-docs-refresh.ts',
+    'hooks/stop-handoff': 'src/hooks/stop-handoff.ts',
+    'hooks/session-start': 'src/hooks/session-start.ts',
     'mcp/index': 'src/mcp/index.ts',
     'cli/dashboard': 'src/cli/dashboard/app.tsx',
   },